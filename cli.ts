@@ -3,10 +3,24 @@
  */
 
 import type { Command } from "commander";
-import { loadLanceDB, type MemoryEntry, type MemoryStore } from "./src/store.js";
+import { once } from "node:events";
+import { finished } from "node:stream/promises";
+import { loadLanceDB, type MemoryEntry, type MemoryFilter, type MemoryStore } from "./src/store.js";
 import type { MemoryRetriever } from "./src/retriever.js";
 import type { MemoryScopeManager } from "./src/scopes.js";
 import type { MemoryMigrator } from "./src/migrate.js";
+import type { RetentionSweeper } from "./src/retention.js";
+import { DEFAULT_COMPACTION_CONFIG, summarizeOptimizeReport, type CompactionService } from "./src/compaction.js";
+import { normalizeTags, parseDuration, parseTimeBound } from "./src/utils.js";
+import { VECTOR_INDEX_TYPES, type VectorIndexType } from "./src/vector-index.js";
+import { AmbiguousIdError } from "./src/id-resolver.js";
+import { parseSnapshotRef, type SnapshotDiff } from "./src/snapshots.js";
+import { storeDeduplicated, type BatchStoreItem } from "./src/batch-store.js";
+import type { FieldCipher } from "./src/encryption.js";
+import { parseMetadataFilter } from "./src/metadata-filter.js";
+import { formatHealthReport } from "./src/health.js";
+import { DEFAULT_CHUNKING_CONFIG, indexChunks, needsChunking, recallText, type ChunkingConfig } from "./src/chunking.js";
+import { backfillEmbeddings, formatEmbeddingColumn, type EmbeddingBackfillService } from "./src/embedding-columns.js";
 
 // ============================================================================
 // Types
@@ -18,6 +32,12 @@ interface CLIContext {
   scopeManager: MemoryScopeManager;
   migrator: MemoryMigrator;
   embedder?: import("./src/embedder-interface.js").IEmbedder;
+  retention?: RetentionSweeper;
+  compaction?: CompactionService;
+  /** Set when encryption at rest is enabled */
+  cipher?: FieldCipher | null;
+  chunking?: ChunkingConfig;
+  embeddingBackfill?: EmbeddingBackfillService;
 }
 
 // ============================================================================
@@ -33,6 +53,50 @@ function formatJson(obj: any): string {
   return JSON.stringify(obj, null, 2);
 }
 
+/** Write to a stream, waiting for it to drain so large outputs are not buffered in memory */
+async function writeChunk(stream: NodeJS.WritableStream, chunk: string): Promise<void> {
+  if (!stream.write(chunk)) await once(stream, "drain");
+}
+
+function printSnapshotDiff(diff: SnapshotDiff): void {
+  const sections: Array<[string, string[]]> = [["Added", diff.added], ["Removed", diff.removed], ["Changed", diff.changed]];
+  for (const [label, ids] of sections) {
+    console.log(`${label} (${ids.length}):`);
+    ids.forEach(id => console.log(`  ${id}`));
+  }
+}
+
+function formatTags(tags?: string[]): string {
+  return tags && tags.length > 0 ? ` ${tags.map(t => `#${t}`).join(" ")}` : "";
+}
+
+/** Print the candidate list for an ambiguous ID prefix instead of a stack trace */
+function exitOnAmbiguousId(error: unknown): void {
+  if (error instanceof AmbiguousIdError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+function parseTimeOption(name: string, value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  const bound = parseTimeBound(value);
+  if (bound === null) throw new Error(`Invalid --${name} "${value}". Use a date (2026-01-01) or a duration (7d).`);
+  return bound;
+}
+
+function parseFilterOptions(options: { tag?: string[]; tagMode?: string; where?: string; since?: string; until?: string }): MemoryFilter | undefined {
+  const tags = normalizeTags(options.tag);
+  const where = options.where ? parseMetadataFilter(options.where) : undefined;
+  const since = parseTimeOption("since", options.since);
+  const until = parseTimeOption("until", options.until);
+  if (tags.length === 0 && !where && since === undefined && until === undefined) return undefined;
+  if (options.tagMode && options.tagMode !== "any" && options.tagMode !== "all") {
+    throw new Error(`Invalid --tag-mode "${options.tagMode}". Use "any" or "all".`);
+  }
+  return { tags, tagMode: options.tagMode as MemoryFilter["tagMode"], where, since, until };
+}
+
 // ============================================================================
 // CLI Registration
 // ============================================================================
@@ -48,18 +112,28 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
     .description("List memories with optional filtering")
     .option("--scope <scope>", "Filter by scope")
     .option("--category <category>", "Filter by category")
+    .option("--tag <tags...>", "Filter by tags")
+    .option("--tag-mode <mode>", "Match any or all of the given tags (any|all)", "any")
+    .option("--where <filter>", 'Metadata filter, e.g. \'metadata.type = "session-summary"\'')
+    .option("--since <time>", "Only memories created at or after a date (2026-01-01) or duration ago (7d)")
+    .option("--until <time>", "Only memories created before a date or duration ago")
     .option("--limit <n>", "Maximum number of results", "20")
-    .option("--offset <n>", "Number of results to skip", "0")
+    .option("--cursor <cursor>", "Continue from the cursor printed by a previous list")
     .option("--json", "Output as JSON")
     .action(async (options) => {
       try {
         const limit = parseInt(options.limit) || 20;
-        const offset = parseInt(options.offset) || 0;
         const scopeFilter = options.scope ? [options.scope] : undefined;
-        const memories = await context.store.list(scopeFilter, options.category, limit, offset);
+        const { entries: memories, nextCursor } = await context.store.listCursor({
+          scopeFilter,
+          category: options.category,
+          filter: parseFilterOptions(options),
+          limit,
+          cursor: options.cursor,
+        });
 
         if (options.json) {
-          console.log(formatJson(memories));
+          console.log(formatJson({ memories, nextCursor }));
         } else if (memories.length === 0) {
           console.log("No memories found.");
         } else {
@@ -67,8 +141,9 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
           memories.forEach((memory, i) => {
             const date = new Date(memory.timestamp || Date.now()).toISOString().split("T")[0];
             const text = memory.text.slice(0, 100) + (memory.text.length > 100 ? "..." : "");
-            console.log(`${offset + i + 1}. [${memory.category}:${memory.scope}] ${text} (${date})`);
+            console.log(`${i + 1}. [${memory.category}:${memory.scope}] ${text}${formatTags(memory.tags)} (${date})`);
           });
+          if (nextCursor) console.log(`\nMore: memory list --cursor ${nextCursor}`);
         }
       } catch (error) {
         console.error("Failed to list memories:", error);
@@ -82,13 +157,18 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
     .description("Search memories using hybrid retrieval")
     .option("--scope <scope>", "Search within specific scope")
     .option("--category <category>", "Filter by category")
+    .option("--tag <tags...>", "Filter by tags")
+    .option("--tag-mode <mode>", "Match any or all of the given tags (any|all)", "any")
+    .option("--where <filter>", 'Metadata filter, e.g. \'metadata.type = "session-summary"\'')
+    .option("--since <time>", "Only memories created at or after a date (2026-01-01) or duration ago (7d)")
+    .option("--until <time>", "Only memories created before a date or duration ago")
     .option("--limit <n>", "Maximum number of results", "10")
     .option("--json", "Output as JSON")
     .action(async (query, options) => {
       try {
         const limit = parseInt(options.limit) || 10;
         const scopeFilter = options.scope ? [options.scope] : undefined;
-        const results = await context.retriever.retrieve({ query, limit, scopeFilter, category: options.category });
+        const results = await context.retriever.retrieve({ query, limit, scopeFilter, category: options.category, ...parseFilterOptions(options), trackAccess: false });
 
         if (options.json) {
           console.log(formatJson(results));
@@ -102,7 +182,7 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
             if (result.sources.bm25) sources.push("BM25");
             if (result.sources.reranked) sources.push("reranked");
             console.log(
-              `${i + 1}. [${result.entry.category}:${result.entry.scope}] ${result.entry.text} ` +
+              `${i + 1}. [${result.entry.category}:${result.entry.scope}] ${recallText(result, context.chunking)}${formatTags(result.entry.tags)} ` +
               `(${(result.score * 100).toFixed(0)}%, ${sources.join("+")})`,
             );
           });
@@ -118,11 +198,13 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
     .command("stats")
     .description("Show memory statistics")
     .option("--scope <scope>", "Stats for specific scope")
+    .option("--detailed", "Add content, storage and index statistics (scans every memory)")
     .option("--json", "Output as JSON")
     .action(async (options) => {
       try {
         const scopeFilter = options.scope ? [options.scope] : undefined;
-        const stats = await context.store.stats(scopeFilter);
+        const report = options.detailed ? await context.store.healthReport(scopeFilter) : null;
+        const stats = report ?? await context.store.stats(scopeFilter);
         const scopeStats = context.scopeManager.getStats();
         const retrievalConfig = context.retriever.getConfig();
 
@@ -139,6 +221,19 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
           console.log();
           console.log("Memories by category:");
           Object.entries(stats.categoryCounts).forEach(([category, count]) => console.log(`  \u2022 ${category}: ${count}`));
+          console.log();
+          console.log(`Never recalled: ${stats.neverRecalledCount}`);
+          if (stats.hotMemories.length > 0) {
+            console.log("Hot memories:");
+            stats.hotMemories.forEach(m => {
+              const text = m.text.slice(0, 80) + (m.text.length > 80 ? "..." : "");
+              console.log(`  \u2022 ${m.id.slice(0, 8)} (${m.accessCount}x) ${text}`);
+            });
+          }
+          if (report) {
+            console.log();
+            formatHealthReport(report).forEach(line => console.log(line));
+          }
         }
       } catch (error) {
         console.error("Failed to get statistics:", error);
@@ -155,25 +250,82 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
       try {
         const scopeFilter = options.scope ? [options.scope] : undefined;
         const deleted = await context.store.delete(id, scopeFilter);
-        if (deleted) console.log(`Memory ${id} deleted.`);
+        if (deleted) console.log(`Memory ${id} ${context.store.softDeleteEnabled ? "moved to trash" : "deleted"}.`);
         else { console.log(`Memory ${id} not found.`); process.exit(1); }
       } catch (error) {
+        exitOnAmbiguousId(error);
         console.error("Failed to delete memory:", error);
         process.exit(1);
       }
     });
 
+  // History
+  memory
+    .command("history <id>")
+    .description("Show the revision history of a memory")
+    .option("--scope <scope>", "Scope for access control")
+    .option("--json", "Output as JSON")
+    .action(async (id, options) => {
+      try {
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const revisions = await context.store.getHistory(id, scopeFilter);
+
+        if (options.json) {
+          console.log(formatJson(revisions.map(r => ({ ...r, vector: undefined }))));
+        } else if (revisions.length === 0) {
+          console.log(`No history found for memory ${id}.`);
+        } else {
+          console.log(`History of memory ${revisions[0].memoryId}:\n`);
+          revisions.forEach(r => {
+            const date = new Date(r.changedAt).toISOString().replace("T", " ").split(".")[0];
+            const text = r.text.slice(0, 100) + (r.text.length > 100 ? "..." : "");
+            console.log(`r${r.revision} ${r.action.padEnd(8)} ${date} [${r.category}:${r.scope}, ${r.importance.toFixed(2)}] ${text}`);
+          });
+        }
+      } catch (error) {
+        exitOnAmbiguousId(error);
+        console.error("Failed to get memory history:", error);
+        process.exit(1);
+      }
+    });
+
+  // Rollback
+  memory
+    .command("rollback <id> <revision>")
+    .description("Restore a memory to an earlier revision")
+    .option("--scope <scope>", "Scope for access control")
+    .action(async (id, revision, options) => {
+      try {
+        const revisionNumber = parseInt(revision, 10);
+        if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+          console.error("Revision must be a positive integer.");
+          process.exit(1);
+        }
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const restored = await context.store.rollback(id, revisionNumber, scopeFilter);
+        if (context.embedder) await indexChunks(context.store, context.embedder, [restored], context.chunking);
+        console.log(`Memory ${restored.id} rolled back to revision ${revisionNumber}.`);
+      } catch (error) {
+        exitOnAmbiguousId(error);
+        console.error("Rollback failed:", error);
+        process.exit(1);
+      }
+    });
+
   // Bulk delete
   memory
     .command("delete-bulk")
     .description("Bulk delete memories with filters")
-    .option("--scope <scopes...>", "Scopes to delete from (required)")
+    .option("--scope <scopes...>", "Scopes to delete from (required unless --where is given)")
     .option("--before <date>", "Delete before date (YYYY-MM-DD)")
+    .option("--where <filter>", 'Metadata filter, e.g. \'metadata.type = "session-summary"\'')
     .option("--dry-run", "Show what would be deleted")
     .action(async (options) => {
       try {
-        if (!options.scope || options.scope.length === 0) {
-          console.error("At least one scope must be specified.");
+        const scopes: string[] = options.scope ?? [];
+        const filter = parseFilterOptions(options);
+        if (scopes.length === 0 && !filter) {
+          console.error("At least one scope or a --where filter must be specified.");
           process.exit(1);
         }
         let beforeTimestamp: number | undefined;
@@ -183,11 +335,11 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
           beforeTimestamp = date.getTime();
         }
         if (options.dryRun) {
-          const stats = await context.store.stats(options.scope);
+          const stats = await context.store.stats(scopes, filter);
           console.log(`DRY RUN: Would delete from ${stats.totalCount} memories.`);
         } else {
-          const count = await context.store.bulkDelete(options.scope, beforeTimestamp);
-          console.log(`Deleted ${count} memories.`);
+          const count = await context.store.bulkDelete(scopes, beforeTimestamp, filter);
+          console.log(`${context.store.softDeleteEnabled ? "Moved to trash" : "Deleted"} ${count} memories.`);
         }
       } catch (error) {
         console.error("Bulk delete failed:", error);
@@ -195,30 +347,464 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
       }
     });
 
+  // Trash
+  const trash = memory.command("trash").description("Inspect, restore and purge soft-deleted memories");
+
+  trash
+    .command("list")
+    .description("List memories in the trash")
+    .option("--scope <scope>", "Filter by scope")
+    .option("--limit <n>", "Maximum number of results", "20")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const limit = parseInt(options.limit) || 20;
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const memories = await context.store.listTrash(scopeFilter, limit);
+
+        if (options.json) {
+          console.log(formatJson(memories));
+        } else if (memories.length === 0) {
+          console.log("Trash is empty.");
+        } else {
+          console.log(`Found ${memories.length} trashed memories:\n`);
+          memories.forEach((memory, i) => {
+            const deletedDate = new Date(memory.deletedAt || 0).toISOString().split("T")[0];
+            const text = memory.text.slice(0, 100) + (memory.text.length > 100 ? "..." : "");
+            console.log(`${i + 1}. ${memory.id.slice(0, 8)} [${memory.category}:${memory.scope}] ${text} (deleted ${deletedDate})`);
+          });
+        }
+      } catch (error) {
+        console.error("Failed to list trash:", error);
+        process.exit(1);
+      }
+    });
+
+  trash
+    .command("restore <id>")
+    .description("Restore a trashed memory by ID or prefix")
+    .option("--scope <scope>", "Scope for access control")
+    .action(async (id, options) => {
+      try {
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const restored = await context.store.restore(id, scopeFilter);
+        if (restored) console.log(`Memory ${restored.id} restored.`);
+        else { console.log(`No trashed memory matches ${id}.`); process.exit(1); }
+      } catch (error) {
+        exitOnAmbiguousId(error);
+        console.error("Failed to restore memory:", error);
+        process.exit(1);
+      }
+    });
+
+  trash
+    .command("purge")
+    .description("Permanently remove trashed memories")
+    .option("--older-than <age>", "Only purge memories trashed longer ago than this (e.g. 30d, 12h) or before a date (YYYY-MM-DD)")
+    .option("--scope <scopes...>", "Only purge from these scopes")
+    .action(async (options) => {
+      try {
+        let deletedBefore: number | undefined;
+        if (options.olderThan) {
+          const durationMs = parseDuration(options.olderThan);
+          const date = new Date(options.olderThan);
+          if (durationMs !== null) deletedBefore = Date.now() - durationMs;
+          else if (!isNaN(date.getTime())) deletedBefore = date.getTime();
+          else { console.error("Invalid --older-than value. Use a duration (30d) or a date (YYYY-MM-DD)."); process.exit(1); }
+        }
+        const count = await context.store.purgeTrash(options.scope, deletedBefore);
+        console.log(`Purged ${count} memories from trash.`);
+      } catch (error) {
+        console.error("Trash purge failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Retention
+  const retention = memory.command("retention").description("Inspect expiry and retention rules");
+
+  retention
+    .command("preview")
+    .description("Show which memories the retention sweeper would remove now")
+    .option("--limit <n>", "Maximum number of memories to show", "50")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        if (!context.retention) {
+          console.error("Retention is not configured.");
+          process.exit(1);
+        }
+        const limit = parseInt(options.limit) || 50;
+        const plan = await context.retention.preview();
+
+        if (options.json) {
+          console.log(formatJson({
+            total: plan.matches.length,
+            counts: plan.counts,
+            memories: plan.matches.slice(0, limit).map(m => ({ ...m.entry, vector: undefined, reason: m.reason })),
+          }));
+        } else if (plan.matches.length === 0) {
+          console.log("Nothing to remove.");
+        } else {
+          console.log(`Would remove ${plan.matches.length} memories:`);
+          Object.entries(plan.counts).forEach(([reason, count]) => console.log(`  ${reason}: ${count}`));
+          console.log("");
+          plan.matches.slice(0, limit).forEach((match, i) => {
+            const date = new Date(match.entry.timestamp || 0).toISOString().split("T")[0];
+            const text = match.entry.text.slice(0, 80) + (match.entry.text.length > 80 ? "..." : "");
+            console.log(`${i + 1}. ${match.entry.id.slice(0, 8)} (${match.reason}) [${match.entry.category}:${match.entry.scope}] ${text} (${date})`);
+          });
+          if (plan.matches.length > limit) console.log(`... and ${plan.matches.length - limit} more`);
+        }
+      } catch (error) {
+        console.error("Retention preview failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Vector index
+  const index = memory.command("index").description("Manage the ANN index on memory vectors and the FTS index");
+
+  index
+    .command("status")
+    .description("Show vector index status")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const status = await context.store.vectorIndexStatus();
+        const fts = await context.store.ftsIndexStatus();
+        if (options.json) {
+          console.log(formatJson({ ...status, fts }));
+          return;
+        }
+        if (!status.exists) {
+          console.log(`No vector index (${status.rowCount} rows, searches use a brute-force scan).`);
+        } else {
+          console.log(`Vector index: ${status.name} (${status.type})`);
+          console.log(`\u2022 Rows: ${status.rowCount}`);
+          console.log(`\u2022 Indexed: ${status.indexedRows}, unindexed: ${status.unindexedRows}`);
+          if (status.builtAt) {
+            console.log(`\u2022 Last built: ${new Date(status.builtAt).toISOString()} at ${status.builtAtRows} rows`);
+          }
+        }
+        console.log(fts.exists
+          ? `FTS index: ${fts.name} (indexed: ${fts.indexedRows}, unindexed: ${fts.unindexedRows})`
+          : "No FTS index (BM25 search is off).");
+      } catch (error) {
+        console.error("Index status failed:", error);
+        process.exit(1);
+      }
+    });
+
+  index
+    .command("build")
+    .description("Build or rebuild the vector index")
+    .option("--type <type>", `Index type (${VECTOR_INDEX_TYPES.join(", ")})`)
+    .action(async (options) => {
+      try {
+        if (options.type && !VECTOR_INDEX_TYPES.includes(options.type)) {
+          console.error(`Invalid --type: ${options.type}. Use one of: ${VECTOR_INDEX_TYPES.join(", ")}`);
+          process.exit(1);
+        }
+        const status = await context.store.buildVectorIndex(options.type as VectorIndexType | undefined);
+        console.log(`Built vector index ${status.name} (${status.type}) over ${status.indexedRows} rows.`);
+      } catch (error) {
+        console.error("Index build failed:", error);
+        process.exit(1);
+      }
+    });
+
+  index
+    .command("refresh")
+    .description("Add rows written since the last update to the FTS and vector indices")
+    .action(async () => {
+      try {
+        const fts = await context.store.refreshFtsIndex();
+        console.log(fts.exists ? `FTS index covers ${fts.indexedRows} rows (${fts.unindexedRows} unindexed).` : "No FTS index to refresh.");
+      } catch (error) {
+        console.error("Index refresh failed:", error);
+        process.exit(1);
+      }
+    });
+
+  index
+    .command("drop")
+    .description("Drop the vector index")
+    .action(async () => {
+      try {
+        const dropped = await context.store.dropVectorIndex();
+        console.log(dropped ? "Dropped vector index." : "No vector index to drop.");
+      } catch (error) {
+        console.error("Index drop failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Embedding columns
+  const embeddings = memory.command("embeddings").description("Manage the vector columns of embedding models");
+
+  embeddings
+    .command("status")
+    .description("Show each model's vector column, how much of it is filled and which one answers searches")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const columns = await context.store.embeddingColumns();
+        if (options.json) {
+          console.log(formatJson(columns));
+          return;
+        }
+        if (columns.length === 0) {
+          console.log("No embedding model columns (store opened without an embedding model).");
+          return;
+        }
+        console.log("Embedding columns:");
+        columns.forEach(column => console.log(`\u2022 ${formatEmbeddingColumn(column)}`));
+      } catch (error) {
+        console.error("Embeddings status failed:", error);
+        process.exit(1);
+      }
+    });
+
+  embeddings
+    .command("backfill")
+    .description("Embed rows that have no vector in the active (and previous) model's column")
+    .option("--batch-size <n>", "Texts per embedding request")
+    .action(async (options) => {
+      try {
+        const batchSize = options.batchSize ? clampInt(parseInt(options.batchSize, 10) || 64, 1, 1000) : undefined;
+        let results;
+        if (context.embeddingBackfill) {
+          results = await context.embeddingBackfill.run(batchSize);
+        } else if (context.embedder) {
+          results = [await backfillEmbeddings(context.store, context.embedder, batchSize)];
+        } else {
+          console.error("Backfill requires an embedder.");
+          process.exit(1);
+        }
+        for (const result of results) {
+          console.log(`${result.model}: filled ${result.filled}, ${result.remaining} remaining`);
+        }
+        const serving = await context.store.servingEmbedding();
+        if (serving) console.log(`Searches use ${serving.model} (${serving.dimensions}d).`);
+      } catch (error) {
+        console.error("Embeddings backfill failed:", error);
+        process.exit(1);
+      }
+    });
+
+  embeddings
+    .command("drop <modelOrColumn>")
+    .description("Drop the vector column of a model that is no longer used")
+    .action(async (modelOrColumn) => {
+      try {
+        const dropped = await context.store.dropEmbeddingColumn(modelOrColumn);
+        console.log(`Dropped vector column ${dropped.column} (${dropped.model}). Run "memory optimize" to reclaim the space.`);
+      } catch (error) {
+        console.error("Embeddings drop failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Snapshots
+  const snapshot = memory.command("snapshot").description("List, tag, compare and restore table versions");
+
+  snapshot
+    .command("list")
+    .description("Show recent versions of the memories table")
+    .option("--limit <n>", "Number of versions", "20")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const snapshots = await context.store.listSnapshots(clampInt(parseInt(options.limit), 1, 1000));
+        if (options.json) {
+          console.log(formatJson(snapshots));
+          return;
+        }
+        snapshots.forEach(s => {
+          const tags = s.tags.length > 0 ? ` [${s.tags.join(", ")}]` : "";
+          console.log(`v${s.version}  ${new Date(s.timestamp).toISOString()}  ${s.rowCount} memories${tags}`);
+        });
+      } catch (error) {
+        console.error("Snapshot list failed:", error);
+        process.exit(1);
+      }
+    });
+
+  snapshot
+    .command("tag <name>")
+    .description("Name a version so it is kept by version pruning")
+    .option("--version <n>", "Version to tag (default: current)")
+    .action(async (name, options) => {
+      try {
+        const version = options.version !== undefined ? parseInt(options.version) : undefined;
+        if (version !== undefined && !Number.isInteger(version)) {
+          console.error("Invalid --version value.");
+          process.exit(1);
+        }
+        const tagged = await context.store.tagSnapshot(name, version);
+        console.log(`Tagged version ${tagged} as "${name}".`);
+      } catch (error) {
+        console.error("Snapshot tag failed:", error);
+        process.exit(1);
+      }
+    });
+
+  snapshot
+    .command("untag <name>")
+    .description("Remove a snapshot tag so its version can be pruned")
+    .action(async (name) => {
+      try {
+        const removed = await context.store.untagSnapshot(name);
+        console.log(removed ? `Removed tag "${name}".` : `No tag named "${name}".`);
+      } catch (error) {
+        console.error("Snapshot untag failed:", error);
+        process.exit(1);
+      }
+    });
+
+  snapshot
+    .command("diff <from> [to]")
+    .description("List memory IDs added, removed and changed between two versions or tags (to defaults to current)")
+    .option("--json", "Output as JSON")
+    .action(async (from, to, options) => {
+      try {
+        const diff = await context.store.diffSnapshots(parseSnapshotRef(from), to !== undefined ? parseSnapshotRef(to) : undefined);
+        if (options.json) {
+          console.log(formatJson(diff));
+          return;
+        }
+        console.log(`v${diff.from} -> v${diff.to}`);
+        printSnapshotDiff(diff);
+      } catch (error) {
+        console.error("Snapshot diff failed:", error);
+        process.exit(1);
+      }
+    });
+
+  snapshot
+    .command("restore <ref>")
+    .description("Rewind the memories table to a version or tag")
+    .option("--dry-run", "Show what the restore would change")
+    .action(async (ref, options) => {
+      try {
+        const target = parseSnapshotRef(ref);
+        if (options.dryRun) {
+          // Diff from the target to now, then flip it to read as current -> target
+          const diff = await context.store.diffSnapshots(target);
+          console.log(`DRY RUN: restoring v${diff.from} would change the current table (v${diff.to}) as follows:`);
+          printSnapshotDiff({ from: diff.to, to: diff.from, added: diff.removed, removed: diff.added, changed: diff.changed });
+          return;
+        }
+        const result = await context.store.restoreSnapshot(target);
+        console.log(
+          `Restored version ${result.to} as new version ${result.version}: ` +
+          `${result.added.length} memories back, ${result.removed.length} removed, ${result.changed.length} reverted.`,
+        );
+      } catch (error) {
+        console.error("Snapshot restore failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Optimize
+  memory
+    .command("optimize")
+    .description("Compact the tables, prune old versions and refresh indices")
+    .option("--keep-versions <duration>", "Prune table versions older than this (e.g. 7d, 12h)")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        let keepVersionsMs: number | undefined;
+        if (options.keepVersions) {
+          const parsed = parseDuration(options.keepVersions);
+          if (parsed === null) {
+            console.error("Invalid --keep-versions value. Use a duration such as 7d or 12h.");
+            process.exit(1);
+          }
+          keepVersionsMs = parsed;
+        }
+
+        const report = context.compaction
+          ? await context.compaction.run(keepVersionsMs)
+          : await context.store.optimize(keepVersionsMs ?? DEFAULT_COMPACTION_CONFIG.keepVersionsMs);
+
+        if (options.json) {
+          console.log(formatJson(report));
+          return;
+        }
+        console.log(`Optimized: ${summarizeOptimizeReport(report)}`);
+        for (const table of report.tables) {
+          console.log(`  ${table.table}: -${table.fragmentsRemoved}/+${table.fragmentsAdded} fragments, ${table.versionsRemoved} versions pruned`);
+        }
+      } catch (error) {
+        console.error("Optimize failed:", error);
+        process.exit(1);
+      }
+    });
+
+  // Encryption
+  memory
+    .command("encrypt")
+    .description("Encrypt plaintext memories and revisions with the current key")
+    .option("--rotate-key", "Re-encrypt data under the previous key (set the old key in the previous-key env var or file)")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      try {
+        const cipher = context.cipher;
+        if (!cipher) {
+          console.error("Encryption is not enabled. Set encryption.enabled and provide a key first.");
+          process.exit(1);
+        }
+        if (options.rotateKey && cipher.previousKeyIds.length === 0) {
+          console.error("--rotate-key needs the old key as the previous key (encryption.previousKeyEnv or encryption.previousKeyFile).");
+          process.exit(1);
+        }
+
+        const result = await context.store.reencrypt();
+        if (options.json) {
+          console.log(formatJson({ keyId: cipher.keyId, ...result }));
+          return;
+        }
+        console.log(`Encrypted with key ${cipher.keyId}: ${result.memories} memories, ${result.revisions} revisions rewritten`);
+        if (options.rotateKey) {
+          console.log(`Key ${cipher.previousKeyIds.join(", ")} is no longer used and can be removed.`);
+        }
+      } catch (error) {
+        console.error("Encrypt failed:", error);
+        process.exit(1);
+      }
+    });
+
   // Export
   memory
     .command("export")
     .description("Export memories to JSON")
     .option("--scope <scope>", "Export specific scope")
     .option("--category <category>", "Export specific category")
+    .option("--where <filter>", 'Metadata filter, e.g. \'metadata.type = "session-summary"\'')
+    .option("--since <time>", "Only memories created at or after a date (2026-01-01) or duration ago (7d)")
+    .option("--until <time>", "Only memories created before a date or duration ago")
     .option("--output <file>", "Output file (default: stdout)")
     .action(async (options) => {
       try {
         const scopeFilter = options.scope ? [options.scope] : undefined;
-        const memories = await context.store.list(scopeFilter, options.category, 1000);
-        const exportData = {
-          version: "1.0",
-          exportedAt: new Date().toISOString(),
-          count: memories.length,
-          memories: memories.map(m => ({ ...m, vector: undefined })),
-        };
-        const output = formatJson(exportData);
+        const filter = parseFilterOptions(options);
+        // Written as memories arrive, so memory use does not grow with the table; the count goes last
+        const fs = await import("node:fs");
+        const out = options.output ? fs.createWriteStream(options.output) : process.stdout;
+        await writeChunk(out, `{\n  "version": "1.0",\n  "exportedAt": ${JSON.stringify(new Date().toISOString())},\n  "memories": [`);
+        let count = 0;
+        for await (const memory of context.store.iterate({ scopeFilter, category: options.category, filter })) {
+          const { vector: _vector, ...exported } = memory;
+          await writeChunk(out, `${count > 0 ? "," : ""}\n    ${formatJson(exported).replace(/\n/g, "\n    ")}`);
+          count++;
+        }
+        await writeChunk(out, `${count > 0 ? "\n  " : ""}],\n  "count": ${count}\n}\n`);
         if (options.output) {
-          const fs = await import("node:fs/promises");
-          await fs.writeFile(options.output, output);
-          console.log(`Exported ${memories.length} memories to ${options.output}`);
-        } else {
-          console.log(output);
+          out.end();
+          await finished(out);
+          console.log(`Exported ${count} memories to ${options.output}`);
         }
       } catch (error) {
         console.error("Export failed:", error);
@@ -231,6 +817,7 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
     .command("import <file>")
     .description("Import memories from JSON file")
     .option("--scope <scope>", "Import into specific scope")
+    .option("--tag <tags...>", "Add these tags to every imported memory")
     .option("--dry-run", "Show what would be imported")
     .action(async (file, options) => {
       try {
@@ -249,21 +836,33 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
         }
 
         const targetScope = options.scope || context.scopeManager.getDefaultScope();
-        let imported = 0, skipped = 0;
+        const extraTags = normalizeTags(options.tag);
+        const items: BatchStoreItem[] = [];
+        let skipped = 0;
 
         for (const memory of data.memories) {
-          try {
-            const text = memory.text;
-            if (!text || typeof text !== "string" || text.length < 2) { skipped++; continue; }
-            const existing = await context.retriever.retrieve({ query: text, limit: 1, scopeFilter: [targetScope] });
-            if (existing.length > 0 && existing[0].score > 0.95) { skipped++; continue; }
-            const vector = await context.embedder.embedPassage(text);
-            await context.store.store({ text, vector, importance: memory.importance ?? 0.7, category: memory.category || "other", scope: targetScope });
-            imported++;
-          } catch { skipped++; }
+          const text = memory.text;
+          if (!text || typeof text !== "string" || text.length < 2) { skipped++; continue; }
+          items.push({
+            text,
+            importance: memory.importance ?? 0.7,
+            category: memory.category || "other",
+            scope: targetScope,
+            tags: normalizeTags([...normalizeTags(memory.tags), ...extraTags]),
+          });
         }
 
-        console.log(`Import completed: ${imported} imported, ${skipped} skipped`);
+        // A failed batch is reported and skipped; the batches after it are still imported
+        let failed = 0;
+        const result = await storeDeduplicated(context.store, context.embedder, items, {
+          chunking: context.chunking,
+          onChunkError: (error, indices) => {
+            failed += indices.length;
+            console.error(`Skipping ${indices.length} memories after a failed batch:`, error instanceof Error ? error.message : error);
+          },
+        });
+        skipped += result.duplicates.length + result.skipped.length;
+        console.log(`Import completed: ${result.stored.length} imported, ${skipped} skipped${failed > 0 ? ` (${failed} in failed batches)` : ""}`);
       } catch (error) {
         console.error("Import failed:", error);
         process.exit(1);
@@ -295,9 +894,13 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
         const table = await db.openTable("memories");
 
         let query = table.query().select(["id", "text", "category", "scope", "importance", "timestamp", "metadata"]);
+        // Chunk rows are rebuilt from their memories below
+        if ((await table.schema()).fields.some(f => f.name === "parentId")) query = query.where("parentId IS NULL");
         if (limit) query = query.limit(limit);
 
+        // Source rows written with encryption on need the same key to be read
         const rows = (await query.toArray())
+          .map((r: any) => context.cipher ? context.cipher.openFields(r) : r)
           .filter((r: any) => r && typeof r.text === "string" && r.text.trim().length > 0)
           .filter((r: any) => r.id && r.id !== "__schema__");
 
@@ -325,7 +928,7 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
               if (exists) { skipped++; continue; }
             }
 
-            await context.store.importEntry({
+            await context.store.upsert({
               id,
               text: String(row.text),
               vector,
@@ -335,6 +938,7 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
               timestamp: typeof row.timestamp === "number" ? row.timestamp : Date.now(),
               metadata: typeof row.metadata === "string" ? row.metadata : "{}",
             });
+            await indexChunks(context.store, context.embedder, [{ id, text: String(row.text) }], context.chunking);
             imported++;
           }
 
@@ -350,6 +954,43 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
       }
     });
 
+  // Re-chunk
+  memory
+    .command("rechunk")
+    .description("Chunk long memories again, e.g. ones stored before chunking was enabled or after changing chunk settings")
+    .option("--scope <scope>", "Only memories in this scope")
+    .option("--dry-run", "Show how many memories would be chunked")
+    .action(async (options) => {
+      try {
+        const chunking = context.chunking ?? DEFAULT_CHUNKING_CONFIG;
+        if (!chunking.enabled) {
+          console.error("Chunking is disabled (chunking.enabled).");
+          process.exit(1);
+        }
+        if (!context.embedder) {
+          console.error("Re-chunk requires an embedder.");
+          return;
+        }
+
+        const scopeFilter = options.scope ? [options.scope] : undefined;
+        const long: MemoryEntry[] = [];
+        for await (const entry of context.store.iterate({ scopeFilter })) {
+          if (needsChunking(entry.text, chunking)) long.push(entry);
+        }
+
+        if (options.dryRun) {
+          console.log(`DRY RUN: Would chunk ${long.length} memories longer than ${chunking.minChars} characters`);
+          return;
+        }
+
+        const chunks = await indexChunks(context.store, context.embedder, long, chunking);
+        console.log(`Re-chunk completed: ${long.length} memories, ${chunks} chunks`);
+      } catch (error) {
+        console.error("Re-chunk failed:", error);
+        process.exit(1);
+      }
+    });
+
   // Migration commands
   const migrate = memory.command("migrate").description("Migration utilities");
 
@@ -394,6 +1035,30 @@ export function registerMemoryCLI(program: Command, context: CLIContext): void {
       }
     });
 
+  migrate
+    .command("schema")
+    .description("Show or apply memory table schema migrations")
+    .option("--status", "Show current and pending schema versions (default)")
+    .option("--run", "Apply pending schema migrations")
+    .action(async (options) => {
+      try {
+        if (options.run) {
+          const applied = await context.store.migrateSchema();
+          if (applied.length === 0) console.log("Schema is up to date.");
+          else applied.forEach(m => console.log(`Applied migration ${m.version}: ${m.description}`));
+        }
+        const status = await context.store.schemaStatus();
+        console.log(`Schema version: ${status.currentVersion} (latest: ${status.latestVersion})`);
+        if (status.pending.length > 0) {
+          console.log("Pending migrations:");
+          status.pending.forEach(m => console.log(`  ${m.version}. ${m.description}`));
+        }
+      } catch (error) {
+        console.error("Schema migration failed:", error);
+        process.exit(1);
+      }
+    });
+
   migrate
     .command("verify")
     .description("Verify migration results")
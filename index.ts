@@ -2,18 +2,27 @@
  * Memory LanceDB Voyage Plugin
  * LanceDB-backed long-term memory with hybrid retrieval, Voyage AI embedding & reranking
  */
-import { normalizeBaseUrl, getUrlHost } from "./src/utils.js";
+import { normalizeBaseUrl, getUrlHost, normalizeTags } from "./src/utils.js";
 
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import { join, dirname, basename } from "node:path";
-import { readFile, readdir, writeFile, mkdir } from "node:fs/promises";
+import { readFile, readdir, mkdir, open, unlink } from "node:fs/promises";
 
 import { MemoryStore } from "./src/store.js";
 import { createEmbedder, getVectorDimensions } from "./src/embedder.js";
 import { createEmbedderFromConfig } from "./src/embedder-factory.js";
+import { createRerankerFromConfig } from "./src/reranker-factory.js";
 import { createRetriever, DEFAULT_RETRIEVAL_CONFIG } from "./src/retriever.js";
 import { createScopeManager } from "./src/scopes.js";
 import { createMigrator } from "./src/migrate.js";
+import { createRetentionSweeper } from "./src/retention.js";
+import { createCompactionService } from "./src/compaction.js";
+import { createFieldCipher } from "./src/encryption.js";
+import { HEALTH_REPORT_FILE, createHealthReportService } from "./src/health.js";
+import { createEmbeddingBackfillService } from "./src/embedding-columns.js";
+import { storeDeduplicated } from "./src/batch-store.js";
+import { indexChunks, recallText } from "./src/chunking.js";
+import type { VectorIndexStatus } from "./src/vector-index.js";
 import { registerAllMemoryTools } from "./src/tools.js";
 import { shouldSkipRetrieval } from "./src/adaptive-retrieval.js";
 import { memoryConfigSchema, type PluginConfig } from "./src/config.js";
@@ -95,7 +104,7 @@ const CAPTURE_JUDGMENT_PROMPT = `你是記憶管理員。分析以下對話，
 - 臨時性的狀態查詢
 
 如果值得記住，回傳 JSON：
-{"store": true, "memories": [{"text": "精煉的記憶文字", "category": "fact|decision|preference|entity|other", "importance": 0.5-1.0}]}
+{"store": true, "memories": [{"text": "精煉的記憶文字", "category": "fact|decision|preference|entity|other", "importance": 0.5-1.0, "tags": ["相關元件或事件編號，可省略"]}]}
 
 如果不值得，回傳：
 {"store": false}
@@ -104,7 +113,7 @@ const CAPTURE_JUDGMENT_PROMPT = `你是記憶管理員。分析以下對話，
 
 type LlmMemoryJudgment =
   | { store: false }
-  | { store: true; memories: Array<{ text: string; category: string; importance: number }> };
+  | { store: true; memories: Array<{ text: string; category: string; importance: number; tags?: string[] }> };
 
 export async function callLlmForCaptureJudgment(
   conversationText: string,
@@ -219,6 +228,7 @@ export async function callLlmForCaptureJudgment(
           if (typeof mem.importance !== "number" || mem.importance < 0.5 || mem.importance > 1.0) {
             mem.importance = 0.7;
           }
+          mem.tags = normalizeTags(mem.tags);
         }
       }
 
@@ -408,9 +418,24 @@ const memoryLanceDBVoyagePlugin = {
     const config = memoryConfigSchema.parse(api.pluginConfig);
     const resolvedDbPath = api.resolvePath(config.dbPath);
     const vectorDim = getVectorDimensions(config.embedding.model, config.embedding.dimensions);
+    const previous = config.embedding.previous;
 
     // Initialize core components
-    const store = new MemoryStore({ dbPath: resolvedDbPath, vectorDim });
+    const cipher = createFieldCipher(config.encryption);
+    const store = new MemoryStore({
+      dbPath: resolvedDbPath,
+      vectorDim,
+      embeddingModel: config.embedding.model,
+      previousEmbedding: previous
+        ? { model: previous.model, dimensions: getVectorDimensions(previous.model, previous.dimensions) }
+        : undefined,
+      softDelete: config.softDelete,
+      vectorIndex: config.vectorIndex,
+      readOnly: config.readOnly,
+      writeLock: config.writeLock,
+      encryption: cipher ? { cipher, plaintextFts: config.encryption.plaintextFts } : undefined,
+      fts: config.fts,
+    });
     const embedder = createEmbedderFromConfig({
       provider: config.embedding.provider,
       apiKey: config.embedding.apiKey,
@@ -418,17 +443,37 @@ const memoryLanceDBVoyagePlugin = {
       dimensions: config.embedding.dimensions,
       baseUrl: config.embedding.baseUrl,
     });
-    // Pass same Voyage API key for reranking
+    // Embeds queries for the previous model's column until the backfill completes
+    const previousEmbedder = previous ? createEmbedderFromConfig(previous) : undefined;
+    const { reranker: rerankerConfig, ...retrievalConfig } = config.retrieval;
+    const reranker = rerankerConfig ? createRerankerFromConfig(rerankerConfig) : undefined;
+    if (!reranker && retrievalConfig.rerank === "cross-encoder") {
+      api.logger.warn(
+        `memory-lancedb-voyage: no reranker for ${config.embedding.provider} embeddings, cross-encoder reranking falls back to cosine (set retrieval.reranker)`,
+      );
+    }
     const retriever = createRetriever(store, embedder, {
       ...DEFAULT_RETRIEVAL_CONFIG,
-      ...config.retrieval,
-    }, config.embedding.apiKey);
+      ...retrievalConfig,
+    }, reranker, previousEmbedder);
     const scopeManager = createScopeManager(config.scopes);
     const migrator = createMigrator(store);
+    const retention = createRetentionSweeper(store, config.retention, api.logger);
+    const compaction = createCompactionService(store, config.compaction, api.logger);
+    const healthReportPath = config.healthReport.path
+      ? api.resolvePath(config.healthReport.path)
+      : join(resolvedDbPath, HEALTH_REPORT_FILE);
+    const healthReport = createHealthReportService(store, healthReportPath, config.healthReport, api.logger);
+    const embeddingBackfill = createEmbeddingBackfillService(
+      store,
+      previousEmbedder ? [embedder, previousEmbedder] : [embedder],
+      config.embeddingBackfill,
+      api.logger,
+    );
     const captureBuffer = new ConversationBuffer(20, 3000);
 
     api.logger.info(
-      `memory-lancedb-voyage: registered (db: ${resolvedDbPath}, model: ${config.embedding.model})`,
+      `memory-lancedb-voyage: registered (db: ${resolvedDbPath}, model: ${config.embedding.model}${previous ? `, previous model: ${previous.model}` : ""}${config.readOnly ? ", read-only" : ""}${cipher ? ", encrypted" : ""})`,
     );
 
     // ========================================================================
@@ -437,8 +482,8 @@ const memoryLanceDBVoyagePlugin = {
 
     registerAllMemoryTools(
       api,
-      { retriever, store, scopeManager, embedder, agentId: undefined },
-      { enableManagementTools: config.enableManagementTools },
+      { retriever, store, scopeManager, embedder, agentId: undefined, chunking: config.chunking },
+      { enableManagementTools: config.enableManagementTools, readOnly: config.readOnly },
     );
 
     // ========================================================================
@@ -446,7 +491,7 @@ const memoryLanceDBVoyagePlugin = {
     // ========================================================================
 
     api.registerCli(
-      createMemoryCLI({ store, retriever, scopeManager, migrator, embedder }),
+      createMemoryCLI({ store, retriever, scopeManager, migrator, embedder, retention, compaction, cipher, chunking: config.chunking, embeddingBackfill }),
       { commands: ["memory"] },
     );
 
@@ -471,7 +516,7 @@ const memoryLanceDBVoyagePlugin = {
           if (results.length === 0) return;
 
           const memoryContext = results
-            .map((r) => `- [${r.entry.category}:${r.entry.scope}] ${sanitizeForContext(r.entry.text)} (${(r.score * 100).toFixed(0)}%${r.sources?.bm25 ? ", vector+BM25" : ""}${r.sources?.reranked ? "+reranked" : ""})`)
+            .map((r) => `- [${r.entry.category}:${r.entry.scope}] ${sanitizeForContext(recallText(r, config.chunking))} (${(r.score * 100).toFixed(0)}%${r.sources?.bm25 ? ", vector+BM25" : ""}${r.sources?.reranked ? "+reranked" : ""})`)
             .join("\n");
 
           api.logger.info?.(`memory-lancedb-voyage: injecting ${results.length} memories for agent ${agentId}`);
@@ -491,7 +536,7 @@ const memoryLanceDBVoyagePlugin = {
     }
 
     // Auto-capture
-    if (config.autoCapture) {
+    if (config.autoCapture && !config.readOnly) {
       api.on("agent_end", async (event, ctx) => {
         if (!event.success || !event.messages || event.messages.length === 0) return;
 
@@ -564,19 +609,19 @@ const memoryLanceDBVoyagePlugin = {
               }
 
               // LLM said store=true — use LLM-refined memories
-              let stored = 0;
-              for (const mem of judgment.memories.slice(0, 5)) {
-                const memText = `[auto-captured] ${mem.text}`;
-                const category = (mem.category as "fact" | "decision" | "preference" | "entity" | "other") || "other";
-                const importance = mem.importance;
-
-                const vector = await embedder.embedPassage(memText);
-                const existing = await store.vectorSearch(vector, 1, 0.1, [defaultScope]);
-                if (existing.length > 0 && existing[0].score > 0.95) continue;
-
-                await store.store({ text: memText, vector, importance, category, scope: defaultScope });
-                stored++;
-              }
+              const { stored: storedEntries } = await storeDeduplicated(
+                store,
+                embedder,
+                judgment.memories.slice(0, 5).map(mem => ({
+                  text: `[auto-captured] ${mem.text}`,
+                  category: (mem.category as "fact" | "decision" | "preference" | "entity" | "other") || "other",
+                  importance: mem.importance,
+                  scope: defaultScope,
+                  tags: mem.tags,
+                })),
+                { chunking: config.chunking },
+              );
+              const stored = storedEntries.length;
 
               if (stored > 0) {
                 api.logger.info(`memory-lancedb-voyage: LLM auto-captured ${stored} memories in scope ${defaultScope}`);
@@ -589,17 +634,18 @@ const memoryLanceDBVoyagePlugin = {
           }
 
           // Heuristic fallback (original logic, also used when captureLlm=false)
-          let stored = 0;
-          for (const text of heuristicPassed.slice(0, 3)) {
-            const prefixedText = config.captureLlm ? `[auto-captured] ${text}` : text;
-            const category = detectCategory(text);
-            const vector = await embedder.embedPassage(prefixedText);
-            const existing = await store.vectorSearch(vector, 1, 0.1, [defaultScope]);
-            if (existing.length > 0 && existing[0].score > 0.95) continue;
-
-            await store.store({ text: prefixedText, vector, importance: 0.7, category, scope: defaultScope });
-            stored++;
-          }
+          const { stored: storedEntries } = await storeDeduplicated(
+            store,
+            embedder,
+            heuristicPassed.slice(0, 3).map(text => ({
+              text: config.captureLlm ? `[auto-captured] ${text}` : text,
+              category: detectCategory(text),
+              importance: 0.7,
+              scope: defaultScope,
+            })),
+            { chunking: config.chunking },
+          );
+          const stored = storedEntries.length;
 
           if (stored > 0) {
             api.logger.info(`memory-lancedb-voyage: auto-captured ${stored} memories in scope ${defaultScope} (heuristic)`);
@@ -614,7 +660,7 @@ const memoryLanceDBVoyagePlugin = {
     // Session Memory Hook
     // ========================================================================
 
-    if (config.sessionMemory.enabled) {
+    if (config.sessionMemory.enabled && !config.readOnly) {
       const sessionMessageCount = config.sessionMemory.messageCount;
 
       api.registerHook("command:new", async (event) => {
@@ -660,7 +706,7 @@ const memoryLanceDBVoyagePlugin = {
           ].join("\n");
 
           const vector = await embedder.embedPassage(memoryText);
-          await store.store({
+          const summary = await store.store({
             text: memoryText,
             vector,
             category: "fact",
@@ -673,8 +719,11 @@ const memoryLanceDBVoyagePlugin = {
               date: dateStr,
             }),
           });
+          const chunks = await indexChunks(store, embedder, [summary], config.chunking);
 
-          api.logger.info(`memory-lancedb-voyage: stored session summary for ${currentSessionId || "unknown"}`);
+          api.logger.info(
+            `memory-lancedb-voyage: stored session summary for ${currentSessionId || "unknown"}${chunks > 0 ? ` (${chunks} chunks)` : ""}`,
+          );
         } catch (err) {
           api.logger.warn(`memory-lancedb-voyage: session summary failed: ${String(err)}`);
         }
@@ -693,39 +742,75 @@ const memoryLanceDBVoyagePlugin = {
         const backupDir = api.resolvePath(join(resolvedDbPath, "..", "backups"));
         await mkdir(backupDir, { recursive: true });
 
-        const allMemories = await store.list(undefined, undefined, 10000, 0);
-        if (allMemories.length === 0) return;
-
         const dateStr = new Date().toISOString().split("T")[0];
         const backupFile = join(backupDir, `memory-backup-${dateStr}.jsonl`);
 
-        const lines = allMemories.map(m => JSON.stringify({
-          id: m.id,
-          text: m.text,
-          category: m.category,
-          scope: m.scope,
-          importance: m.importance,
-          timestamp: m.timestamp,
-          metadata: m.metadata,
-        }));
-
-        await writeFile(backupFile, lines.join("\n") + "\n");
+        // Stream page by page so the backup covers the whole table. With
+        // encryption on, text and metadata stay encrypted in the backup too.
+        let count = 0;
+        const out = await open(backupFile, "w", 0o600);
+        try {
+          for await (const m of store.iterate()) {
+            const line: Record<string, unknown> = {
+              id: m.id,
+              text: m.text,
+              category: m.category,
+              scope: m.scope,
+              importance: m.importance,
+              timestamp: m.timestamp,
+              metadata: m.metadata,
+              tags: m.tags,
+              expiresAt: m.expiresAt,
+            };
+            await out.write(JSON.stringify(cipher ? cipher.sealFields(line) : line) + "\n");
+            count++;
+          }
+        } finally {
+          await out.close();
+        }
+        if (count === 0) {
+          await unlink(backupFile).catch(() => {});
+          return;
+        }
 
         const files = (await readdir(join(resolvedDbPath, "..", "backups")))
           .filter(f => f.startsWith("memory-backup-") && f.endsWith(".jsonl")).sort();
         if (files.length > 7) {
-          const { unlink } = await import("node:fs/promises");
           for (const old of files.slice(0, files.length - 7)) {
             await unlink(join(backupDir, old)).catch(() => {});
           }
         }
 
-        api.logger.info(`memory-lancedb-voyage: backup completed (${allMemories.length} entries)`);
+        api.logger.info(`memory-lancedb-voyage: backup completed (${count} entries)`);
       } catch (err) {
         api.logger.warn(`memory-lancedb-voyage: backup failed: ${String(err)}`);
       }
     }
 
+    // ========================================================================
+    // Vector Index Maintenance (build past threshold, retrain on growth)
+    // ========================================================================
+
+    let indexTimer: ReturnType<typeof setInterval> | null = null;
+    const INDEX_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+    async function runIndexMaintenance() {
+      try {
+        const decision = await store.maintainVectorIndex();
+        if (decision.action !== "none") {
+          api.logger.info(`memory-lancedb-voyage: vector index ${decision.action === "build" ? "built" : "retrained"} (${decision.reason})`);
+        }
+      } catch (err) {
+        api.logger.warn(`memory-lancedb-voyage: vector index maintenance failed: ${String(err)}`);
+      }
+    }
+
+    function describeVectorIndex(status?: VectorIndexStatus): string {
+      if (!status) return "unknown";
+      if (!status.exists) return "none";
+      return `${status.type ?? "unknown"}, ${status.unindexedRows} unindexed`;
+    }
+
     // ========================================================================
     // Service Registration
     // ========================================================================
@@ -740,7 +825,8 @@ const memoryLanceDBVoyagePlugin = {
           api.logger.info(
             `memory-lancedb-voyage: initialized (embedding: ${embedTest.success ? "OK" : "FAIL"}, ` +
             `retrieval: ${retrievalTest.success ? "OK" : "FAIL"}, ` +
-            `mode: ${retrievalTest.mode}, FTS: ${retrievalTest.hasFtsSupport ? "enabled" : "disabled"})`,
+            `mode: ${retrievalTest.mode}, FTS: ${retrievalTest.hasFtsSupport ? "enabled" : "disabled"}, ` +
+            `vector index: ${describeVectorIndex(retrievalTest.vectorIndex)})`,
           );
 
           if (!embedTest.success) {
@@ -749,6 +835,11 @@ const memoryLanceDBVoyagePlugin = {
 
           setTimeout(() => runBackup(), 60_000);
           backupTimer = setInterval(() => runBackup(), BACKUP_INTERVAL_MS);
+
+          if (config.vectorIndex.auto && !config.readOnly) {
+            void runIndexMaintenance();
+            indexTimer = setInterval(() => runIndexMaintenance(), INDEX_CHECK_INTERVAL_MS);
+          }
         } catch (error) {
           api.logger.warn(`memory-lancedb-voyage: startup test failed: ${String(error)}`);
         }
@@ -758,9 +849,90 @@ const memoryLanceDBVoyagePlugin = {
           clearInterval(backupTimer);
           backupTimer = null;
         }
+        if (indexTimer) {
+          clearInterval(indexTimer);
+          indexTimer = null;
+        }
+        void store.flushAccess();
         api.logger.info("memory-lancedb-voyage: stopped");
       },
     });
+
+    // ========================================================================
+    // Retention Sweeper (expiry + retention rules)
+    // ========================================================================
+
+    if (config.retention.enabled && !config.readOnly) {
+      api.registerService({
+        id: "memory-lancedb-voyage-retention",
+        start: () => {
+          retention.start();
+          api.logger.info(
+            `memory-lancedb-voyage: retention sweeper started (${config.retention.rules.length} rules, every ${config.retention.sweepIntervalMinutes}m)`,
+          );
+        },
+        stop: () => {
+          retention.stop();
+        },
+      });
+    }
+
+    // ========================================================================
+    // Compaction (optimize, version pruning, index refresh)
+    // ========================================================================
+
+    if (config.compaction.enabled && !config.readOnly) {
+      api.registerService({
+        id: "memory-lancedb-voyage-compaction",
+        start: () => {
+          compaction.start();
+          api.logger.info(
+            `memory-lancedb-voyage: compaction scheduled (every ${config.compaction.intervalHours}h, keeping versions for ${config.compaction.keepVersions})`,
+          );
+        },
+        stop: () => {
+          compaction.stop();
+        },
+      });
+    }
+
+    // ========================================================================
+    // Health Report (stats JSON file for dashboards and capacity checks)
+    // ========================================================================
+
+    if (config.healthReport.enabled) {
+      api.registerService({
+        id: "memory-lancedb-voyage-health-report",
+        start: () => {
+          healthReport.start();
+          api.logger.info(
+            `memory-lancedb-voyage: health report scheduled (every ${config.healthReport.intervalHours}h, ${healthReportPath})`,
+          );
+        },
+        stop: () => {
+          healthReport.stop();
+        },
+      });
+    }
+
+    // ========================================================================
+    // Embedding Backfill (vector columns of a new or previous model)
+    // ========================================================================
+
+    if (config.embeddingBackfill.enabled && !config.readOnly) {
+      api.registerService({
+        id: "memory-lancedb-voyage-embedding-backfill",
+        start: () => {
+          embeddingBackfill.start();
+          api.logger.info(
+            `memory-lancedb-voyage: embedding backfill scheduled (every ${config.embeddingBackfill.intervalMinutes}m, batches of ${config.embeddingBackfill.batchSize})`,
+          );
+        },
+        stop: () => {
+          embeddingBackfill.stop();
+        },
+      });
+    }
   },
 };
 
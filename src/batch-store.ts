@@ -0,0 +1,149 @@
+/**
+ * Batch Store
+ * Embed many memories per embedder call, drop near-duplicates, write in one add
+ */
+
+import type { IEmbedder } from "./embedder-interface.js";
+import { indexChunks, type ChunkingConfig } from "./chunking.js";
+import type { IMemoryStore, MemoryEntry } from "./store-interface.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BatchStoreItem {
+  text: string;
+  category: MemoryEntry["category"];
+  scope: string;
+  importance: number;
+  tags?: string[];
+  expiresAt?: number | null;
+  metadata?: string;
+}
+
+export interface BatchDuplicate {
+  /** Position of the item in the input */
+  index: number;
+  /** Existing memory the item duplicates */
+  existingId?: string;
+  /** Earlier item in the same input that the item duplicates */
+  duplicateOfIndex?: number;
+  similarity: number;
+}
+
+export interface BatchStoreResult {
+  stored: Array<{ index: number; entry: MemoryEntry }>;
+  duplicates: BatchDuplicate[];
+  /** Items with empty text, no embedding, or in a round that failed (see onChunkError) */
+  skipped: number[];
+}
+
+export interface BatchStoreOptions {
+  /** Search score above which an item counts as a duplicate (default: 0.95) */
+  dedupeThreshold?: number;
+  /** Items embedded and written per round (default: 128) */
+  chunkSize?: number;
+  /** How long items are chunked (default: DEFAULT_CHUNKING_CONFIG) */
+  chunking?: ChunkingConfig;
+  /**
+   * Called when a round fails to embed or write. Its items that were not
+   * stored count as skipped and later rounds still run. Without it, the
+   * error is thrown.
+   */
+  onChunkError?: (error: unknown, indices: number[]) => void;
+}
+
+export const DEFAULT_DEDUPE_THRESHOLD = 0.95;
+const DEFAULT_CHUNK_SIZE = 128;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/** Same scale as IMemoryStore.vectorSearch scores: 1 / (1 + L2 distance) */
+function similarityScore(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - (b[i] ?? 0);
+    sum += d * d;
+  }
+  return 1 / (1 + Math.sqrt(sum));
+}
+
+// ============================================================================
+// Batch Store
+// ============================================================================
+
+/** Embed, dedupe and write one round of items, recording each in result */
+async function storeChunk(
+  store: IMemoryStore,
+  embedder: IEmbedder,
+  chunk: BatchStoreItem[],
+  start: number,
+  threshold: number,
+  chunking: ChunkingConfig | undefined,
+  result: BatchStoreResult,
+): Promise<void> {
+  const vectors = await embedder.embedBatchPassage(chunk.map(item => item.text));
+
+  const accepted: Array<{ index: number; item: BatchStoreItem; vector: number[] }> = [];
+  for (let i = 0; i < chunk.length; i++) {
+    const index = start + i;
+    const item = chunk[i];
+    const vector = vectors[i];
+    if (!item.text?.trim() || !vector || vector.length === 0) {
+      result.skipped.push(index);
+      continue;
+    }
+
+    // Earlier chunks are already in the table, so the search covers them too
+    const [existing] = await store.vectorSearch(vector, 1, 0.1, [item.scope]);
+    if (existing && existing.score > threshold) {
+      result.duplicates.push({ index, existingId: existing.entry.id, similarity: existing.score });
+      continue;
+    }
+
+    const twin = accepted.find(a => a.item.scope === item.scope && similarityScore(a.vector, vector) > threshold);
+    if (twin) {
+      result.duplicates.push({ index, duplicateOfIndex: twin.index, similarity: similarityScore(twin.vector, vector) });
+      continue;
+    }
+
+    accepted.push({ index, item, vector });
+  }
+
+  const entries = await store.storeBatch(accepted.map(({ item, vector }) => ({ ...item, vector })));
+  entries.forEach((entry, i) => result.stored.push({ index: accepted[i].index, entry }));
+  await indexChunks(store, embedder, entries, chunking);
+}
+
+/**
+ * Store many memories with one embedding request and one table write per
+ * chunk. An item is dropped when it is a near-duplicate of an existing memory
+ * in its scope, or of an earlier item in the same input.
+ */
+export async function storeDeduplicated(
+  store: IMemoryStore,
+  embedder: IEmbedder,
+  items: BatchStoreItem[],
+  options: BatchStoreOptions = {},
+): Promise<BatchStoreResult> {
+  const threshold = options.dedupeThreshold ?? DEFAULT_DEDUPE_THRESHOLD;
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  const result: BatchStoreResult = { stored: [], duplicates: [], skipped: [] };
+
+  for (let start = 0; start < items.length; start += chunkSize) {
+    const chunk = items.slice(start, start + chunkSize);
+    try {
+      await storeChunk(store, embedder, chunk, start, threshold, options.chunking, result);
+    } catch (error) {
+      if (!options.onChunkError) throw error;
+      const handled = new Set([...result.stored.map(s => s.index), ...result.duplicates.map(d => d.index), ...result.skipped]);
+      const failed = chunk.map((_, i) => start + i).filter(index => !handled.has(index));
+      result.skipped.push(...failed);
+      options.onChunkError(error, failed);
+    }
+  }
+
+  return result;
+}
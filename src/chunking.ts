@@ -0,0 +1,164 @@
+/**
+ * Chunked Storage
+ * Long memories (session summaries, imported documents) are split into
+ * overlapping chunks that are embedded separately and stored as child rows
+ * of the memory. Searches match chunks and return the parent memory.
+ */
+
+import type { IEmbedder } from "./embedder-interface.js";
+import type { IMemoryStore, MemoryEntry, MemorySearchResult } from "./store-interface.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChunkingConfig {
+  enabled: boolean;
+  /** Texts longer than this are chunked */
+  minChars: number;
+  /** Target chunk length; chunks end at a paragraph, sentence or word break */
+  chunkChars: number;
+  /** Characters repeated from the end of the previous chunk */
+  overlapChars: number;
+  /** What recall shows for a chunk match: the matched chunk or the whole memory */
+  recallText: "chunk" | "parent";
+}
+
+/** A chunk to store, with its embedding */
+export interface ChunkInput {
+  text: string;
+  vector: number[];
+}
+
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+  enabled: true,
+  minChars: 2000,
+  chunkChars: 1000,
+  overlapChars: 200,
+  recallText: "chunk",
+};
+
+export const RECALL_TEXT_MODES = ["chunk", "parent"] as const;
+
+/** Preferred chunk boundaries, best first */
+const BREAKS = ["\n\n", "\n", ". ", "! ", "? ", "; ", " "];
+
+// ============================================================================
+// Splitting
+// ============================================================================
+
+/** Position of the best break in text[min, max), or max when there is none */
+function breakBefore(text: string, min: number, max: number): number {
+  for (const separator of BREAKS) {
+    const at = text.lastIndexOf(separator, max - separator.length);
+    if (at >= min) return at + separator.length;
+  }
+  return max;
+}
+
+export function needsChunking(text: string, config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG): boolean {
+  return config.enabled && text.length > config.minChars;
+}
+
+/**
+ * Split text into chunks of at most chunkChars. Each chunk after the first
+ * starts overlapChars before the end of the previous one, at a word start,
+ * so a fact on a boundary is whole in at least one chunk.
+ */
+export function splitIntoChunks(text: string, config: Pick<ChunkingConfig, "chunkChars" | "overlapChars"> = DEFAULT_CHUNKING_CONFIG): string[] {
+  const size = Math.max(50, Math.floor(config.chunkChars));
+  const overlap = Math.min(Math.max(0, Math.floor(config.overlapChars)), Math.floor(size / 2));
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < text.length) {
+    const limit = Math.min(text.length, start + size);
+    const end = limit < text.length ? breakBefore(text, start + Math.floor(size / 2), limit) : limit;
+    const chunk = text.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= text.length) break;
+
+    let next = end - overlap;
+    const wordStart = text.indexOf(" ", next);
+    if (wordStart !== -1 && wordStart < end) next = wordStart + 1;
+    start = Math.max(next, start + 1);
+  }
+
+  return chunks;
+}
+
+// ============================================================================
+// Chunk Rows
+// ============================================================================
+
+/** Child row for one chunk; scope, category and timestamp follow the parent */
+export function chunkEntry(parent: MemoryEntry, chunk: ChunkInput, index: number, count: number, id: string): MemoryEntry {
+  return {
+    id,
+    parentId: parent.id,
+    text: chunk.text,
+    vector: chunk.vector,
+    category: parent.category,
+    scope: parent.scope,
+    importance: parent.importance,
+    timestamp: parent.timestamp,
+    metadata: JSON.stringify({ chunkIndex: index, chunkCount: count }),
+    tags: [],
+  };
+}
+
+/** Position of a chunk row within its parent, from its metadata */
+export function chunkPosition(metadata: string | undefined): { index: number; count: number } {
+  try {
+    const parsed = JSON.parse(metadata || "{}");
+    return {
+      index: typeof parsed?.chunkIndex === "number" ? parsed.chunkIndex : 0,
+      count: typeof parsed?.chunkCount === "number" ? parsed.chunkCount : 1,
+    };
+  } catch {
+    return { index: 0, count: 1 };
+  }
+}
+
+// ============================================================================
+// Indexing
+// ============================================================================
+
+/**
+ * Embed and store the chunks of each long memory, replacing earlier chunks.
+ * Failures are logged, not thrown: the memory itself is already stored and
+ * still matches as a whole. Returns the number of chunks written.
+ */
+export async function indexChunks(
+  store: IMemoryStore,
+  embedder: IEmbedder,
+  entries: Array<Pick<MemoryEntry, "id" | "text">>,
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG,
+): Promise<number> {
+  let written = 0;
+  for (const entry of entries) {
+    if (!needsChunking(entry.text, config)) continue;
+    try {
+      const texts = splitIntoChunks(entry.text, config);
+      const vectors = await embedder.embedBatchPassage(texts);
+      const chunks = texts
+        .map((text, i) => ({ text, vector: vectors[i] }))
+        .filter(chunk => Array.isArray(chunk.vector) && chunk.vector.length > 0);
+      written += await store.replaceChunks(entry.id, chunks);
+    } catch (err) {
+      console.warn(`memory-lancedb-voyage: chunking memory ${entry.id} failed:`, err);
+    }
+  }
+  return written;
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+/** Text to show for a search result under the configured recallText mode */
+export function recallText(result: MemorySearchResult, config: Pick<ChunkingConfig, "recallText"> = DEFAULT_CHUNKING_CONFIG): string {
+  const { chunk } = result;
+  if (!chunk || config.recallText === "parent") return result.entry.text;
+  return `${chunk.text} (part ${chunk.index + 1}/${chunk.count})`;
+}
@@ -0,0 +1,148 @@
+/**
+ * Table Compaction
+ * Periodic optimize: merge small fragments, prune old table versions and fold
+ * new rows into existing indices
+ */
+
+import type * as LanceDB from "@lancedb/lancedb";
+import type { MemoryStore } from "./store.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CompactionConfig {
+  enabled: boolean;
+  intervalHours: number;
+  /** Table versions older than this are pruned, as a duration string (e.g. "7d") */
+  keepVersions: string;
+  keepVersionsMs: number;
+}
+
+/** Result of optimizing one table, flattened from LanceDB's OptimizeStats */
+export interface TableOptimizeStats {
+  table: string;
+  fragmentsRemoved: number;
+  fragmentsAdded: number;
+  filesRemoved: number;
+  filesAdded: number;
+  versionsRemoved: number;
+  bytesRemoved: number;
+}
+
+export interface OptimizeReport {
+  tables: TableOptimizeStats[];
+  /** Bytes freed by pruning old versions, summed over all tables */
+  bytesReclaimed: number;
+  /** "created" when the FTS index was missing and has now been built */
+  ftsIndex: "optimized" | "created" | "missing";
+  durationMs: number;
+}
+
+interface CompactionLogger {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+}
+
+export const DEFAULT_COMPACTION_CONFIG: CompactionConfig = {
+  enabled: true,
+  intervalHours: 24,
+  keepVersions: "7d",
+  keepVersionsMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unit]}`;
+}
+
+export function toTableOptimizeStats(table: string, stats: LanceDB.OptimizeStats): TableOptimizeStats {
+  return {
+    table,
+    fragmentsRemoved: stats.compaction.fragmentsRemoved,
+    fragmentsAdded: stats.compaction.fragmentsAdded,
+    filesRemoved: stats.compaction.filesRemoved,
+    filesAdded: stats.compaction.filesAdded,
+    versionsRemoved: stats.prune.oldVersionsRemoved,
+    bytesRemoved: stats.prune.bytesRemoved,
+  };
+}
+
+/** One-line summary for logs and CLI output */
+export function summarizeOptimizeReport(report: OptimizeReport): string {
+  const sum = (key: keyof Omit<TableOptimizeStats, "table">) => report.tables.reduce((total, t) => total + t[key], 0);
+  return (
+    `compacted ${sum("fragmentsRemoved")} fragments into ${sum("fragmentsAdded")}, ` +
+    `pruned ${sum("versionsRemoved")} versions, reclaimed ${formatBytes(report.bytesReclaimed)}, ` +
+    `FTS index ${report.ftsIndex} (${report.durationMs}ms)`
+  );
+}
+
+// ============================================================================
+// Compaction Service
+// ============================================================================
+
+export class CompactionService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly config: CompactionConfig,
+    private readonly logger?: CompactionLogger,
+  ) {}
+
+  /**
+   * Optimize all tables now. `keepVersionsMs` overrides the configured
+   * version retention for this run.
+   */
+  run(keepVersionsMs = this.config.keepVersionsMs): Promise<OptimizeReport> {
+    return this.store.optimize(keepVersionsMs);
+  }
+
+  start(): void {
+    if (!this.config.enabled || this.timer) return;
+    const intervalMs = Math.max(1, this.config.intervalHours) * 60 * 60_000;
+    this.timer = setInterval(() => void this.runScheduled(), intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runScheduled(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const report = await this.run();
+      this.logger?.info(`memory-lancedb-voyage: optimize ${summarizeOptimizeReport(report)}`);
+    } catch (err) {
+      this.logger?.warn(`memory-lancedb-voyage: optimize failed: ${String(err)}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export function createCompactionService(
+  store: MemoryStore,
+  config: CompactionConfig = DEFAULT_COMPACTION_CONFIG,
+  logger?: CompactionLogger,
+): CompactionService {
+  return new CompactionService(store, config, logger);
+}
@@ -2,7 +2,18 @@
  * Configuration for memory-lancedb-voyage plugin.
  * Uses a manual parse() pattern matching the built-in memory-lancedb config.ts.
  */
-import { normalizeBaseUrl } from "./utils.js";
+import { normalizeBaseUrl, parseDuration } from "./utils.js";
+import type { RetentionConfig, RetentionRule } from "./retention.js";
+import { DEFAULT_COMPACTION_CONFIG, type CompactionConfig } from "./compaction.js";
+import { DEFAULT_WRITE_LOCK_CONFIG, type WriteLockConfig } from "./write-lock.js";
+import { DEFAULT_ENCRYPTION_CONFIG, type EncryptionConfig } from "./encryption.js";
+import { DEFAULT_HEALTH_REPORT_CONFIG, type HealthReportConfig } from "./health.js";
+import { DEFAULT_CHUNKING_CONFIG, RECALL_TEXT_MODES, type ChunkingConfig } from "./chunking.js";
+import { DEFAULT_EMBEDDING_BACKFILL_CONFIG, type EmbeddingBackfillConfig } from "./embedding-columns.js";
+import { DEFAULT_RRF_K, FUSION_STRATEGIES, type FusionStrategy } from "./fusion.js";
+import { RERANKER_PROVIDERS, type RerankerConfig, type RerankerProvider } from "./reranker-interface.js";
+import { DEFAULT_FTS_CONFIG, FTS_LANGUAGES, FTS_TOKENIZERS, type FtsConfig, type FtsTokenizer } from "./fts.js";
+import { MIN_VECTOR_INDEX_ROWS, VECTOR_INDEX_TYPES, type VectorIndexConfig, type VectorIndexType } from "./vector-index.js";
 
 import fs from "node:fs";
 import { homedir } from "node:os";
@@ -17,14 +28,20 @@ export type MemoryCategory = (typeof MEMORY_CATEGORIES)[number];
 
 export type EmbeddingProvider = "voyage" | "openai" | "jina";
 
+export interface EmbeddingSettings {
+  provider: EmbeddingProvider;
+  apiKey: string;
+  model: string;
+  dimensions?: number;
+  baseUrl?: string;
+}
+
 export interface PluginConfig {
-  embedding: {
-    provider: EmbeddingProvider;
-    apiKey: string;
-    model: string;
-    dimensions?: number;
-    baseUrl?: string;
+  embedding: EmbeddingSettings & {
+    /** Model the database was built with; answers searches until the new model's column is backfilled */
+    previous?: EmbeddingSettings;
   };
+  embeddingBackfill: EmbeddingBackfillConfig;
   dbPath: string;
   autoCapture: boolean;
   autoRecall: boolean;
@@ -35,13 +52,21 @@ export interface PluginConfig {
   captureLlmUrl: string;
   captureLlmApiKey: string;
   enableManagementTools: boolean;
+  softDelete: boolean;
+  readOnly: boolean;
+  writeLock: WriteLockConfig;
+  encryption: EncryptionConfig;
   retrieval: {
     mode: "hybrid" | "vector";
+    fusion: FusionStrategy;
     vectorWeight: number;
     bm25Weight: number;
+    rrfK: number;
     minScore: number;
     rerank: "cross-encoder" | "lightweight" | "none";
     rerankModel: string;
+    /** Reranker of cross-encoder mode; null means cosine reranking */
+    reranker: RerankerConfig | null;
     candidatePoolSize: number;
     recencyHalfLifeDays: number;
     recencyWeight: number;
@@ -49,8 +74,18 @@ export interface PluginConfig {
     lengthNormAnchor: number;
     hardMinScore: number;
     timeDecayHalfLifeDays: number;
+    trackAccess: boolean;
+    accessWeight: number;
+    nprobes: number;
+    refineFactor: number;
   };
+  vectorIndex: VectorIndexConfig;
   sessionMemory: { enabled: boolean; messageCount: number };
+  retention: RetentionConfig;
+  compaction: CompactionConfig;
+  healthReport: HealthReportConfig;
+  chunking: ChunkingConfig;
+  fts: FtsConfig;
   scopes?: {
     default?: string;
     definitions?: Record<string, { description: string }>;
@@ -139,6 +174,192 @@ const PROVIDER_DEFAULT_MODELS: Record<EmbeddingProvider, string> = {
   jina: "jina-embeddings-v3",
 };
 
+// ============================================================================
+// Embedding settings
+// ============================================================================
+
+function parseEmbeddingSettings(embedding: Record<string, unknown>, path: string): EmbeddingSettings {
+  // Provider (default: "voyage" for backward compatibility)
+  const provider = (typeof embedding.provider === "string" && VALID_PROVIDERS.has(embedding.provider)
+    ? embedding.provider
+    : DEFAULT_PROVIDER) as EmbeddingProvider;
+
+  if (typeof embedding.provider === "string" && !VALID_PROVIDERS.has(embedding.provider)) {
+    throw new Error(
+      `Unknown embedding provider: ${embedding.provider}. Supported providers: voyage, openai, jina`,
+    );
+  }
+
+  // API key: try config value, then provider-specific env var, then VOYAGE_API_KEY fallback
+  const envVarName = PROVIDER_ENV_VARS[provider];
+  const apiKey = typeof embedding.apiKey === "string"
+    ? embedding.apiKey
+    : process.env[envVarName] || process.env.VOYAGE_API_KEY || "";
+  if (!apiKey) {
+    throw new Error(`${path}.apiKey is required (set directly or via ${envVarName} env var)`);
+  }
+
+  const defaultModel = PROVIDER_DEFAULT_MODELS[provider];
+  const model = typeof embedding.model === "string" ? embedding.model : defaultModel;
+  const overrideDims = typeof embedding.dimensions === "number" ? embedding.dimensions : undefined;
+  const baseUrl = typeof embedding.baseUrl === "string" ? embedding.baseUrl : undefined;
+  vectorDimsForModel(model, overrideDims); // validate
+
+  return {
+    provider,
+    apiKey: resolveEnvVars(apiKey),
+    model,
+    dimensions: overrideDims,
+    baseUrl,
+  };
+}
+
+// ============================================================================
+// Reranker settings
+// ============================================================================
+
+const RERANKER_ENV_VARS: Record<Exclude<RerankerProvider, "llm">, string> = {
+  voyage: "VOYAGE_API_KEY",
+  jina: "JINA_API_KEY",
+  cohere: "COHERE_API_KEY",
+};
+
+const RERANKER_DEFAULT_MODELS: Record<Exclude<RerankerProvider, "llm">, string> = {
+  voyage: "rerank-2",
+  jina: "jina-reranker-v2-base-multilingual",
+  cohere: "rerank-v3.5",
+};
+
+const DEFAULT_RERANK_TIMEOUT_MS = 5_000;
+const DEFAULT_LLM_RERANK_TIMEOUT_MS = 20_000;
+
+interface CaptureLlmSettings {
+  model: string;
+  url: string;
+  apiKey: string;
+}
+
+/**
+ * Reranker of cross-encoder mode. Without a retrieval.reranker block, Voyage
+ * and Jina embedding users rerank with their embedding provider and key;
+ * other providers use Voyage only when VOYAGE_API_KEY is set. An embedding
+ * key is never sent to a different provider.
+ */
+function parseRerankerSettings(
+  ret: Record<string, unknown>,
+  embedding: EmbeddingSettings,
+  captureLlm: CaptureLlmSettings,
+): RerankerConfig | null {
+  const legacyModel = typeof ret.rerankModel === "string" ? ret.rerankModel : RERANKER_DEFAULT_MODELS.voyage;
+  const sameProviderDefault = embedding.provider === "voyage" || embedding.provider === "jina" ? embedding.provider : null;
+
+  if (typeof ret.reranker !== "object" || ret.reranker === null) {
+    if (sameProviderDefault) {
+      return {
+        provider: sameProviderDefault,
+        apiKey: embedding.apiKey,
+        model: sameProviderDefault === "voyage" ? legacyModel : RERANKER_DEFAULT_MODELS.jina,
+        timeoutMs: DEFAULT_RERANK_TIMEOUT_MS,
+      };
+    }
+    const voyageKey = process.env.VOYAGE_API_KEY;
+    return voyageKey
+      ? { provider: "voyage", apiKey: voyageKey, model: legacyModel, timeoutMs: DEFAULT_RERANK_TIMEOUT_MS }
+      : null;
+  }
+
+  const raw = ret.reranker as Record<string, unknown>;
+  if (raw.provider !== undefined && !RERANKER_PROVIDERS.includes(raw.provider as RerankerProvider)) {
+    throw new Error(
+      `Unknown retrieval.reranker.provider: ${String(raw.provider)}. Supported providers: ${RERANKER_PROVIDERS.join(", ")}`,
+    );
+  }
+  const provider = (raw.provider as RerankerProvider | undefined) ?? sameProviderDefault ?? "voyage";
+  const baseUrl = typeof raw.baseUrl === "string" && raw.baseUrl.trim() ? raw.baseUrl.trim() : undefined;
+
+  const timeoutMs = typeof raw.timeoutMs === "number"
+    ? raw.timeoutMs
+    : provider === "llm" ? DEFAULT_LLM_RERANK_TIMEOUT_MS : DEFAULT_RERANK_TIMEOUT_MS;
+  if (timeoutMs < 1_000) {
+    throw new Error("retrieval.reranker.timeoutMs must be at least 1000");
+  }
+
+  if (provider === "llm") {
+    return {
+      provider,
+      apiKey: typeof raw.apiKey === "string" ? resolveEnvVars(raw.apiKey) : captureLlm.apiKey,
+      model: typeof raw.model === "string" ? raw.model : captureLlm.model,
+      baseUrl: baseUrl
+        ? normalizeBaseUrl(baseUrl)
+        : captureLlm.url || (process.env.OPENCLAW_GATEWAY_URL ? normalizeBaseUrl(process.env.OPENCLAW_GATEWAY_URL) : undefined),
+      timeoutMs,
+    };
+  }
+
+  const envVarName = RERANKER_ENV_VARS[provider];
+  const apiKey = typeof raw.apiKey === "string"
+    ? resolveEnvVars(raw.apiKey)
+    : provider === embedding.provider ? embedding.apiKey : process.env[envVarName] || "";
+  // Self-hosted Cohere-compatible servers often need no key
+  if (!apiKey && !(provider === "cohere" && baseUrl)) {
+    throw new Error(`retrieval.reranker.apiKey is required (set directly or via ${envVarName} env var)`);
+  }
+
+  return {
+    provider,
+    apiKey,
+    model: typeof raw.model === "string" ? raw.model : provider === "voyage" ? legacyModel : RERANKER_DEFAULT_MODELS[provider],
+    baseUrl,
+    timeoutMs,
+  };
+}
+
+// ============================================================================
+// Retention rules
+// ============================================================================
+
+function parseRetentionRules(value: unknown): RetentionRule[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error("retention.rules must be an array");
+  }
+
+  return value.map((raw, i) => {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error(`retention.rules[${i}] must be an object`);
+    }
+    const rule = raw as Record<string, unknown>;
+    const name = typeof rule.name === "string" && rule.name ? rule.name : `rule-${i + 1}`;
+
+    const olderThanMs = typeof rule.olderThan === "string" ? parseDuration(rule.olderThan) : null;
+    if (olderThanMs === null) {
+      throw new Error(`retention rule "${name}": olderThan must be a duration such as "30d" or "12h"`);
+    }
+    if (rule.category !== undefined && !MEMORY_CATEGORIES.includes(rule.category as MemoryCategory)) {
+      throw new Error(`retention rule "${name}": unknown category ${String(rule.category)}`);
+    }
+    if (rule.maxImportance !== undefined && typeof rule.maxImportance !== "number") {
+      throw new Error(`retention rule "${name}": maxImportance must be a number`);
+    }
+    if (rule.metadata !== undefined && (typeof rule.metadata !== "object" || rule.metadata === null || Array.isArray(rule.metadata))) {
+      throw new Error(`retention rule "${name}": metadata must be an object`);
+    }
+    if (rule.scope === undefined && rule.category === undefined && rule.maxImportance === undefined && rule.metadata === undefined) {
+      throw new Error(`retention rule "${name}" needs at least one of scope, category, maxImportance or metadata`);
+    }
+
+    return {
+      name,
+      scope: typeof rule.scope === "string" ? rule.scope : undefined,
+      category: rule.category as MemoryCategory | undefined,
+      maxImportance: rule.maxImportance as number | undefined,
+      metadata: rule.metadata as RetentionRule["metadata"],
+      olderThan: rule.olderThan as string,
+      olderThanMs,
+    };
+  });
+}
+
 // ============================================================================
 // Config Parser (matches built-in plugin pattern)
 // ============================================================================
@@ -156,42 +377,150 @@ export const memoryConfigSchema = {
       throw new Error("embedding config is required");
     }
 
-    // Provider (default: "voyage" for backward compatibility)
-    const provider = (typeof embedding.provider === "string" && VALID_PROVIDERS.has(embedding.provider)
-      ? embedding.provider
-      : DEFAULT_PROVIDER) as EmbeddingProvider;
+    const active = parseEmbeddingSettings(embedding, "embedding");
 
-    if (typeof embedding.provider === "string" && !VALID_PROVIDERS.has(embedding.provider)) {
-      throw new Error(
-        `Unknown embedding provider: ${embedding.provider}. Supported providers: voyage, openai, jina`,
-      );
+    // Previous model, kept while its replacement's vector column is backfilled
+    let previous: EmbeddingSettings | undefined;
+    if (typeof embedding.previous === "object" && embedding.previous !== null) {
+      const raw = embedding.previous as Record<string, unknown>;
+      // Same provider: the active key is the default
+      const sameProvider = (raw.provider ?? DEFAULT_PROVIDER) === active.provider;
+      previous = parseEmbeddingSettings(sameProvider ? { apiKey: active.apiKey, ...raw } : raw, "embedding.previous");
+      if (
+        previous.model === active.model &&
+        vectorDimsForModel(previous.model, previous.dimensions) === vectorDimsForModel(active.model, active.dimensions)
+      ) {
+        throw new Error("embedding.previous must use a different model or dimensions than embedding");
+      }
     }
 
-    // API key: try config value, then provider-specific env var, then VOYAGE_API_KEY fallback
-    const envVarName = PROVIDER_ENV_VARS[provider];
-    const apiKey = typeof embedding.apiKey === "string"
-      ? embedding.apiKey
-      : process.env[envVarName] || process.env.VOYAGE_API_KEY || "";
-    if (!apiKey) {
-      throw new Error(`embedding.apiKey is required (set directly or via ${envVarName} env var)`);
+    const backfill = (typeof cfg.embeddingBackfill === "object" && cfg.embeddingBackfill !== null
+      ? cfg.embeddingBackfill
+      : {}) as Record<string, unknown>;
+    const backfillBatchSize = typeof backfill.batchSize === "number"
+      ? Math.floor(backfill.batchSize)
+      : DEFAULT_EMBEDDING_BACKFILL_CONFIG.batchSize;
+    if (backfillBatchSize < 1 || backfillBatchSize > 1000) {
+      throw new Error("embeddingBackfill.batchSize must be between 1 and 1000");
     }
 
-    const defaultModel = PROVIDER_DEFAULT_MODELS[provider];
-    const model = typeof embedding.model === "string" ? embedding.model : defaultModel;
-    const overrideDims = typeof embedding.dimensions === "number" ? embedding.dimensions : undefined;
-    const baseUrl = typeof embedding.baseUrl === "string" ? embedding.baseUrl : undefined;
-    vectorDimsForModel(model, overrideDims); // validate
-
     // Retrieval config
     const ret = (typeof cfg.retrieval === "object" && cfg.retrieval !== null
       ? cfg.retrieval
       : {}) as Record<string, unknown>;
+    if (ret.fusion !== undefined && !FUSION_STRATEGIES.includes(ret.fusion as FusionStrategy)) {
+      throw new Error(`Unknown retrieval.fusion: ${String(ret.fusion)}. Supported values: ${FUSION_STRATEGIES.join(", ")}`);
+    }
+    const vectorWeight = typeof ret.vectorWeight === "number" ? ret.vectorWeight : 0.7;
+    const bm25Weight = typeof ret.bm25Weight === "number" ? ret.bm25Weight : 0.3;
+    if (vectorWeight < 0 || bm25Weight < 0 || vectorWeight + bm25Weight <= 0) {
+      throw new Error("retrieval.vectorWeight and retrieval.bm25Weight must not be negative, and at least one must be positive");
+    }
+    if (typeof ret.rrfK === "number" && ret.rrfK < 1) {
+      throw new Error("retrieval.rrfK must be at least 1");
+    }
+
+    const captureLlm: CaptureLlmSettings = {
+      model: typeof cfg.captureLlmModel === "string"
+        ? cfg.captureLlmModel
+        : "anthropic/claude-haiku-4-5-20251001",
+      url: typeof cfg.captureLlmUrl === "string"
+        ? normalizeBaseUrl(cfg.captureLlmUrl)
+        : "",
+      apiKey: typeof cfg.captureLlmApiKey === "string"
+        ? resolveEnvVars(cfg.captureLlmApiKey)
+        : process.env.OPENCLAW_LLM_API_KEY || "",
+    };
+    const reranker = parseRerankerSettings(ret, active, captureLlm);
 
     // Session memory config
     const sm = (typeof cfg.sessionMemory === "object" && cfg.sessionMemory !== null
       ? cfg.sessionMemory
       : {}) as Record<string, unknown>;
 
+    // Vector index config
+    const vi = (typeof cfg.vectorIndex === "object" && cfg.vectorIndex !== null
+      ? cfg.vectorIndex
+      : {}) as Record<string, unknown>;
+    if (vi.type !== undefined && !VECTOR_INDEX_TYPES.includes(vi.type as VectorIndexType)) {
+      throw new Error(`Unknown vectorIndex.type: ${String(vi.type)}. Supported types: ${VECTOR_INDEX_TYPES.join(", ")}`);
+    }
+    if (typeof vi.minRows === "number" && vi.minRows < MIN_VECTOR_INDEX_ROWS) {
+      throw new Error(`vectorIndex.minRows must be at least ${MIN_VECTOR_INDEX_ROWS}`);
+    }
+
+    const wl = (typeof cfg.writeLock === "object" && cfg.writeLock !== null
+      ? cfg.writeLock
+      : {}) as Record<string, unknown>;
+    if (typeof wl.leaseMs === "number" && wl.leaseMs < 1_000) {
+      throw new Error("writeLock.leaseMs must be at least 1000");
+    }
+
+    const enc = (typeof cfg.encryption === "object" && cfg.encryption !== null
+      ? cfg.encryption
+      : {}) as Record<string, unknown>;
+
+    // Retention config
+    const retention = (typeof cfg.retention === "object" && cfg.retention !== null
+      ? cfg.retention
+      : {}) as Record<string, unknown>;
+
+    // Compaction config
+    const compaction = (typeof cfg.compaction === "object" && cfg.compaction !== null
+      ? cfg.compaction
+      : {}) as Record<string, unknown>;
+    const keepVersions = typeof compaction.keepVersions === "string"
+      ? compaction.keepVersions
+      : DEFAULT_COMPACTION_CONFIG.keepVersions;
+    const keepVersionsMs = parseDuration(keepVersions);
+    if (keepVersionsMs === null) {
+      throw new Error(`compaction.keepVersions must be a duration such as "7d" or "12h"`);
+    }
+
+    // Health report config
+    const health = (typeof cfg.healthReport === "object" && cfg.healthReport !== null
+      ? cfg.healthReport
+      : {}) as Record<string, unknown>;
+
+    // Chunking config
+    const chunking = (typeof cfg.chunking === "object" && cfg.chunking !== null
+      ? cfg.chunking
+      : {}) as Record<string, unknown>;
+    const chunkChars = typeof chunking.chunkChars === "number" ? Math.floor(chunking.chunkChars) : DEFAULT_CHUNKING_CONFIG.chunkChars;
+    if (chunkChars < 200) {
+      throw new Error("chunking.chunkChars must be at least 200");
+    }
+    const overlapChars = typeof chunking.overlapChars === "number" ? Math.floor(chunking.overlapChars) : DEFAULT_CHUNKING_CONFIG.overlapChars;
+    if (overlapChars < 0 || overlapChars > chunkChars / 2) {
+      throw new Error("chunking.overlapChars must be between 0 and half of chunking.chunkChars");
+    }
+    if (chunking.recallText !== undefined && !RECALL_TEXT_MODES.includes(chunking.recallText as ChunkingConfig["recallText"])) {
+      throw new Error(`Unknown chunking.recallText: ${String(chunking.recallText)}. Supported values: ${RECALL_TEXT_MODES.join(", ")}`);
+    }
+
+    // Full-text search tokenizer
+    const fts = (typeof cfg.fts === "object" && cfg.fts !== null
+      ? cfg.fts
+      : {}) as Record<string, unknown>;
+    if (fts.tokenizer !== undefined && !FTS_TOKENIZERS.includes(fts.tokenizer as FtsTokenizer)) {
+      throw new Error(`Unknown fts.tokenizer: ${String(fts.tokenizer)}. Supported values: ${FTS_TOKENIZERS.join(", ")}`);
+    }
+    const ftsLanguage = typeof fts.language === "string"
+      ? FTS_LANGUAGES.find(language => language.toLowerCase() === (fts.language as string).toLowerCase())
+      : DEFAULT_FTS_CONFIG.language;
+    if (!ftsLanguage) {
+      throw new Error(`Unknown fts.language: ${String(fts.language)}. Supported values: ${FTS_LANGUAGES.join(", ")}`);
+    }
+    const ngramMinLength = typeof fts.ngramMinLength === "number" ? Math.floor(fts.ngramMinLength) : DEFAULT_FTS_CONFIG.ngramMinLength;
+    const ngramMaxLength = typeof fts.ngramMaxLength === "number" ? Math.floor(fts.ngramMaxLength) : DEFAULT_FTS_CONFIG.ngramMaxLength;
+    if (ngramMinLength < 1 || ngramMaxLength < ngramMinLength || ngramMaxLength > 10) {
+      throw new Error("fts.ngramMinLength must be at least 1 and fts.ngramMaxLength between it and 10");
+    }
+    const refreshRows = typeof fts.refreshRows === "number" ? Math.floor(fts.refreshRows) : DEFAULT_FTS_CONFIG.refreshRows;
+    if (refreshRows < 1) {
+      throw new Error("fts.refreshRows must be at least 1");
+    }
+
     const captureMaxChars =
       typeof cfg.captureMaxChars === "number" ? Math.floor(cfg.captureMaxChars) : undefined;
     if (
@@ -202,12 +531,13 @@ export const memoryConfigSchema = {
     }
 
     return {
-      embedding: {
-        provider,
-        apiKey: resolveEnvVars(apiKey),
-        model,
-        dimensions: overrideDims,
-        baseUrl,
+      embedding: { ...active, previous },
+      embeddingBackfill: {
+        enabled: backfill.enabled !== false,
+        batchSize: backfillBatchSize,
+        intervalMinutes: typeof backfill.intervalMinutes === "number"
+          ? backfill.intervalMinutes
+          : DEFAULT_EMBEDDING_BACKFILL_CONFIG.intervalMinutes,
       },
       dbPath: typeof cfg.dbPath === "string" ? cfg.dbPath : resolveDefaultDbPath(),
       autoCapture: cfg.autoCapture !== false,
@@ -215,23 +545,35 @@ export const memoryConfigSchema = {
       captureAssistant: cfg.captureAssistant === true,
       captureMaxChars: captureMaxChars ?? DEFAULT_CAPTURE_MAX_CHARS,
       captureLlm: cfg.captureLlm !== false,
-      captureLlmModel: typeof cfg.captureLlmModel === "string"
-        ? cfg.captureLlmModel
-        : "anthropic/claude-haiku-4-5-20251001",
-      captureLlmUrl: typeof cfg.captureLlmUrl === "string"
-        ? normalizeBaseUrl(cfg.captureLlmUrl)
-        : "",
-      captureLlmApiKey: typeof cfg.captureLlmApiKey === "string"
-        ? resolveEnvVars(cfg.captureLlmApiKey)
-        : process.env.OPENCLAW_LLM_API_KEY || "",
+      captureLlmModel: captureLlm.model,
+      captureLlmUrl: captureLlm.url,
+      captureLlmApiKey: captureLlm.apiKey,
       enableManagementTools: cfg.enableManagementTools === true,
+      softDelete: cfg.softDelete !== false,
+      readOnly: cfg.readOnly === true,
+      writeLock: {
+        enabled: wl.enabled !== false,
+        timeoutMs: typeof wl.timeoutMs === "number" ? wl.timeoutMs : DEFAULT_WRITE_LOCK_CONFIG.timeoutMs,
+        leaseMs: typeof wl.leaseMs === "number" ? wl.leaseMs : DEFAULT_WRITE_LOCK_CONFIG.leaseMs,
+      },
+      encryption: {
+        enabled: enc.enabled === true,
+        keyEnv: typeof enc.keyEnv === "string" ? enc.keyEnv : DEFAULT_ENCRYPTION_CONFIG.keyEnv,
+        keyFile: typeof enc.keyFile === "string" ? enc.keyFile : undefined,
+        previousKeyEnv: typeof enc.previousKeyEnv === "string" ? enc.previousKeyEnv : DEFAULT_ENCRYPTION_CONFIG.previousKeyEnv,
+        previousKeyFile: typeof enc.previousKeyFile === "string" ? enc.previousKeyFile : undefined,
+        plaintextFts: enc.plaintextFts === true,
+      },
       retrieval: {
         mode: ret.mode === "vector" ? "vector" : "hybrid",
-        vectorWeight: typeof ret.vectorWeight === "number" ? ret.vectorWeight : 0.7,
-        bm25Weight: typeof ret.bm25Weight === "number" ? ret.bm25Weight : 0.3,
+        fusion: (ret.fusion as FusionStrategy | undefined) ?? "legacy",
+        vectorWeight,
+        bm25Weight,
+        rrfK: typeof ret.rrfK === "number" ? ret.rrfK : DEFAULT_RRF_K,
         minScore: typeof ret.minScore === "number" ? ret.minScore : 0.3,
         rerank: (ret.rerank === "lightweight" || ret.rerank === "none") ? ret.rerank : "cross-encoder",
         rerankModel: typeof ret.rerankModel === "string" ? ret.rerankModel : "rerank-2",
+        reranker,
         candidatePoolSize: typeof ret.candidatePoolSize === "number" ? ret.candidatePoolSize : 20,
         recencyHalfLifeDays: typeof ret.recencyHalfLifeDays === "number" ? ret.recencyHalfLifeDays : 14,
         recencyWeight: typeof ret.recencyWeight === "number" ? ret.recencyWeight : 0.10,
@@ -239,11 +581,62 @@ export const memoryConfigSchema = {
         lengthNormAnchor: typeof ret.lengthNormAnchor === "number" ? ret.lengthNormAnchor : 500,
         hardMinScore: typeof ret.hardMinScore === "number" ? ret.hardMinScore : 0.35,
         timeDecayHalfLifeDays: typeof ret.timeDecayHalfLifeDays === "number" ? ret.timeDecayHalfLifeDays : 60,
+        trackAccess: ret.trackAccess !== false,
+        accessWeight: typeof ret.accessWeight === "number" ? ret.accessWeight : 0,
+        nprobes: typeof ret.nprobes === "number" ? ret.nprobes : 20,
+        refineFactor: typeof ret.refineFactor === "number" ? ret.refineFactor : 0,
+      },
+      vectorIndex: {
+        auto: vi.auto !== false,
+        type: (vi.type as VectorIndexType | undefined) ?? "ivf_pq",
+        minRows: typeof vi.minRows === "number" ? Math.floor(vi.minRows) : 10_000,
+        retrainGrowth: typeof vi.retrainGrowth === "number" ? vi.retrainGrowth : 0.5,
       },
       sessionMemory: {
         enabled: sm.enabled === true,
         messageCount: typeof sm.messageCount === "number" ? sm.messageCount : 15,
       },
+      retention: {
+        enabled: retention.enabled !== false,
+        sweepIntervalMinutes: typeof retention.sweepIntervalMinutes === "number" ? retention.sweepIntervalMinutes : 60,
+        rules: parseRetentionRules(retention.rules),
+      },
+      compaction: {
+        enabled: compaction.enabled !== false,
+        intervalHours: typeof compaction.intervalHours === "number" ? compaction.intervalHours : DEFAULT_COMPACTION_CONFIG.intervalHours,
+        keepVersions,
+        keepVersionsMs,
+      },
+      healthReport: {
+        enabled: health.enabled === true,
+        path: typeof health.path === "string" ? health.path : undefined,
+        intervalHours: typeof health.intervalHours === "number" ? health.intervalHours : DEFAULT_HEALTH_REPORT_CONFIG.intervalHours,
+      },
+      chunking: {
+        enabled: chunking.enabled !== false,
+        minChars: typeof chunking.minChars === "number" ? Math.floor(chunking.minChars) : DEFAULT_CHUNKING_CONFIG.minChars,
+        chunkChars,
+        overlapChars,
+        recallText: (chunking.recallText as ChunkingConfig["recallText"] | undefined) ?? DEFAULT_CHUNKING_CONFIG.recallText,
+      },
+      fts: {
+        tokenizer: (fts.tokenizer as FtsTokenizer | undefined) ?? DEFAULT_FTS_CONFIG.tokenizer,
+        language: ftsLanguage,
+        stem: fts.stem !== false,
+        removeStopWords: fts.removeStopWords !== false,
+        stopWords: Array.isArray(fts.stopWords)
+          ? fts.stopWords.filter((word): word is string => typeof word === "string" && word.trim().length > 0).map(word => word.trim())
+          : [],
+        asciiFolding: fts.asciiFolding !== false,
+        lowercase: fts.lowercase !== false,
+        ngramMinLength,
+        ngramMaxLength,
+        autoRefresh: fts.autoRefresh !== false,
+        refreshDelaySeconds: typeof fts.refreshDelaySeconds === "number"
+          ? Math.max(1, fts.refreshDelaySeconds)
+          : DEFAULT_FTS_CONFIG.refreshDelaySeconds,
+        refreshRows,
+      },
       scopes: typeof cfg.scopes === "object" && cfg.scopes !== null
         ? cfg.scopes as PluginConfig["scopes"]
         : undefined,
@@ -0,0 +1,213 @@
+/**
+ * Embedding Columns
+ * One vector column per embedding model in the memories table, so the model
+ * can change without a new database: the new model's column is backfilled in
+ * the background while the previous model's column keeps answering searches,
+ * and searches cut over once the backfill is complete.
+ */
+
+import type { IEmbedder } from "./embedder-interface.js";
+import type { MemoryStore } from "./store.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** An embedding model, identified by name and output dimensions */
+export interface EmbeddingModelRef {
+  model: string;
+  dimensions: number;
+}
+
+/** Vector column holding the embeddings of one model */
+export interface EmbeddingColumn extends EmbeddingModelRef {
+  column: string;
+}
+
+export interface EmbeddingColumnStatus extends EmbeddingColumn {
+  /** Rows (trashed memories and chunks included) that have no vector in this column */
+  missingRows: number;
+  totalRows: number;
+  /** Written by the configured embedding model */
+  active: boolean;
+  /** Answers vector searches */
+  serving: boolean;
+}
+
+/** A row that needs a vector, with its (decrypted) text */
+export interface MissingVector {
+  id: string;
+  text: string;
+}
+
+export interface BackfillResult extends EmbeddingModelRef {
+  filled: number;
+  remaining: number;
+}
+
+export interface EmbeddingBackfillConfig {
+  enabled: boolean;
+  /** Texts per embedding request */
+  batchSize: number;
+  intervalMinutes: number;
+}
+
+interface BackfillLogger {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+}
+
+/** Column of databases created before models had their own columns */
+export const DEFAULT_VECTOR_COLUMN = "vector";
+
+export const EMBEDDING_COLUMNS_META_KEY = "embeddingColumns";
+
+export const DEFAULT_EMBEDDING_BACKFILL_CONFIG: EmbeddingBackfillConfig = {
+  enabled: true,
+  batchSize: 64,
+  intervalMinutes: 5,
+};
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/** Column name for a model, e.g. vector_text_embedding_3_large_3072 */
+export function embeddingColumnName(ref: EmbeddingModelRef): string {
+  const slug = ref.model.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return `vector_${slug}_${ref.dimensions}`;
+}
+
+export function sameEmbeddingModel(a: EmbeddingModelRef, b: EmbeddingModelRef): boolean {
+  return a.model === b.model && a.dimensions === b.dimensions;
+}
+
+/** Column registry as stored in the meta table; invalid entries are dropped */
+export function parseEmbeddingColumns(raw: string | undefined): EmbeddingColumn[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((c): c is EmbeddingColumn =>
+      typeof c?.column === "string" && typeof c?.model === "string" && typeof c?.dimensions === "number");
+  } catch {
+    return [];
+  }
+}
+
+export function formatEmbeddingColumn(status: EmbeddingColumnStatus): string {
+  const filled = status.totalRows - status.missingRows;
+  const pct = status.totalRows > 0 ? ((filled / status.totalRows) * 100).toFixed(0) : "100";
+  const roles = [status.active ? "active" : null, status.serving ? "serving" : null].filter(Boolean).join(", ");
+  return `${status.model} (${status.dimensions}d) in ${status.column}: ${filled}/${status.totalRows} rows (${pct}%)${roles ? ` [${roles}]` : ""}`;
+}
+
+// ============================================================================
+// Backfill
+// ============================================================================
+
+/**
+ * Embed every row that has no vector in the embedder's column. Rows whose
+ * text changes while they are embedded are skipped and picked up by the
+ * next run. Stops early when a batch fills nothing, so rows the embedder
+ * cannot handle do not loop forever.
+ */
+export async function backfillEmbeddings(
+  store: MemoryStore,
+  embedder: IEmbedder,
+  batchSize = DEFAULT_EMBEDDING_BACKFILL_CONFIG.batchSize,
+): Promise<BackfillResult> {
+  const ref = { model: embedder.model, dimensions: embedder.dimensions };
+  const size = Math.max(1, Math.floor(batchSize));
+  let filled = 0;
+
+  for (;;) {
+    const missing = await store.missingVectors(ref, size);
+    if (missing.length === 0) break;
+
+    const vectors = await embedder.embedBatchPassage(missing.map(row => row.text));
+    const written = await store.setVectors(ref, missing.map((row, i) => ({ ...row, vector: vectors[i] })));
+    filled += written;
+    if (written === 0 || missing.length < size) break;
+  }
+
+  const status = (await store.embeddingColumns()).find(c => sameEmbeddingModel(c, ref));
+  return { ...ref, filled, remaining: status?.missingRows ?? 0 };
+}
+
+// ============================================================================
+// Backfill Service
+// ============================================================================
+
+/**
+ * Fills the columns of the configured embedding models in the background:
+ * the active model's column until searches can cut over to it, and the
+ * previous model's column for memories written during the migration.
+ */
+export class EmbeddingBackfillService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly embedders: IEmbedder[],
+    private readonly config: EmbeddingBackfillConfig,
+    private readonly logger?: BackfillLogger,
+  ) {}
+
+  /** Backfill every column now */
+  async run(batchSize = this.config.batchSize): Promise<BackfillResult[]> {
+    const results: BackfillResult[] = [];
+    for (const embedder of this.embedders) {
+      results.push(await backfillEmbeddings(this.store, embedder, batchSize));
+    }
+    return results;
+  }
+
+  start(): void {
+    if (!this.config.enabled || this.timer) return;
+    const intervalMs = Math.max(1, this.config.intervalMinutes) * 60_000;
+    this.timer = setInterval(() => void this.runScheduled(), intervalMs);
+    this.timer.unref?.();
+    void this.runScheduled();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runScheduled(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const servingBefore = await this.store.servingEmbedding();
+      for (const result of await this.run()) {
+        if (result.filled > 0) {
+          this.logger?.info(
+            `memory-lancedb-voyage: backfilled ${result.filled} ${result.model} vectors (${result.remaining} remaining)`,
+          );
+        }
+      }
+      const servingAfter = await this.store.servingEmbedding();
+      if (servingBefore && servingAfter && !sameEmbeddingModel(servingBefore, servingAfter)) {
+        this.logger?.info(`memory-lancedb-voyage: vector search cut over from ${servingBefore.model} to ${servingAfter.model}`);
+      }
+    } catch (err) {
+      this.logger?.warn(`memory-lancedb-voyage: embedding backfill failed: ${String(err)}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export function createEmbeddingBackfillService(
+  store: MemoryStore,
+  embedders: IEmbedder[],
+  config: EmbeddingBackfillConfig = DEFAULT_EMBEDDING_BACKFILL_CONFIG,
+  logger?: BackfillLogger,
+): EmbeddingBackfillService {
+  return new EmbeddingBackfillService(store, embedders, config, logger);
+}
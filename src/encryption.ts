@@ -0,0 +1,171 @@
+/**
+ * Field Encryption
+ * AES-256-GCM for memory text and metadata, keyed from an env var or key file
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EncryptionConfig {
+  enabled: boolean;
+  /** Env var holding the key (64 hex chars or base64 of 32 bytes) */
+  keyEnv: string;
+  /** File holding the key; takes precedence over keyEnv */
+  keyFile?: string;
+  /** Decrypt-only key, used while `memory encrypt --rotate-key` runs */
+  previousKeyEnv: string;
+  previousKeyFile?: string;
+  /** Keep a plaintext copy of the text for BM25 (ftsText column) */
+  plaintextFts: boolean;
+}
+
+export type EncryptedField = "text" | "metadata";
+
+export const ENCRYPTED_FIELDS: readonly EncryptedField[] = ["text", "metadata"];
+
+export const DEFAULT_ENCRYPTION_CONFIG: EncryptionConfig = {
+  enabled: false,
+  keyEnv: "OPENCLAW_MEMORY_ENCRYPTION_KEY",
+  previousKeyEnv: "OPENCLAW_MEMORY_ENCRYPTION_KEY_PREVIOUS",
+  plaintextFts: false,
+};
+
+const PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+// ============================================================================
+// Key Loading
+// ============================================================================
+
+/** Accepts 64 hex chars or base64 of exactly 32 bytes */
+export function parseEncryptionKey(raw: string): Buffer {
+  const value = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, "hex") : Buffer.from(value, "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Encryption key must be ${KEY_LENGTH} bytes (64 hex chars or base64), got ${key.length} bytes`);
+  }
+  return key;
+}
+
+function loadKey(env: string, file?: string): Buffer | null {
+  if (file) return parseEncryptionKey(readFileSync(file, "utf8"));
+  const value = process.env[env];
+  return value ? parseEncryptionKey(value) : null;
+}
+
+/** Short, non-secret fingerprint stored with each value to pick the key */
+export function encryptionKeyId(key: Buffer): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 8);
+}
+
+// ============================================================================
+// Field Cipher
+// ============================================================================
+
+/**
+ * Encrypts one field value at a time as `enc:v1:<keyId>:<base64url>`. The
+ * memory id and field name are bound as associated data, so a value copied
+ * to another memory or field fails to decrypt. Values without the prefix are
+ * plaintext written before encryption was enabled and pass through.
+ */
+export class FieldCipher {
+  readonly keyId: string;
+  readonly previousKeyIds: string[];
+  private readonly keys = new Map<string, Buffer>();
+
+  constructor(key: Buffer, previousKeys: Buffer[] = []) {
+    this.keyId = encryptionKeyId(key);
+    this.previousKeyIds = previousKeys.map(encryptionKeyId).filter(id => id !== this.keyId);
+    for (const previous of previousKeys) this.keys.set(encryptionKeyId(previous), previous);
+    this.keys.set(this.keyId, key);
+  }
+
+  encrypt(plaintext: string, memoryId: string, field: EncryptedField): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv("aes-256-gcm", this.keys.get(this.keyId)!, iv);
+    cipher.setAAD(Buffer.from(`${memoryId}:${field}`));
+    const body = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    return `${PREFIX}${this.keyId}:${Buffer.concat([iv, cipher.getAuthTag(), body]).toString("base64url")}`;
+  }
+
+  decrypt(value: string, memoryId: string, field: EncryptedField): string {
+    if (!isEncrypted(value)) return value;
+
+    const [keyId, payload] = value.slice(PREFIX.length).split(":");
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Cannot decrypt ${field} of memory ${memoryId}: key ${keyId} is not configured`);
+    }
+
+    const raw = Buffer.from(payload ?? "", "base64url");
+    try {
+      const decipher = createDecipheriv("aes-256-gcm", key, raw.subarray(0, IV_LENGTH));
+      decipher.setAAD(Buffer.from(`${memoryId}:${field}`));
+      decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+      return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString("utf8");
+    } catch (err) {
+      throw new Error(`Cannot decrypt ${field} of memory ${memoryId}: authentication failed`, { cause: err });
+    }
+  }
+
+  /** Prefix of every value encrypted under the current key */
+  get currentPrefix(): string {
+    return `${PREFIX}${this.keyId}:`;
+  }
+
+  /** True when the value is ciphertext under the current key */
+  isCurrent(value: unknown): boolean {
+    return typeof value === "string" && value.startsWith(this.currentPrefix);
+  }
+
+  /**
+   * Copy of a row or entry with its text and metadata encrypted (or
+   * decrypted). `idField` names the column holding the memory id.
+   */
+  sealFields<T extends Record<string, unknown>>(row: T, idField = "id"): T {
+    return this.mapFields(row, idField, (value, id, field) => this.encrypt(value, id, field));
+  }
+
+  openFields<T extends Record<string, unknown>>(row: T, idField = "id"): T {
+    return this.mapFields(row, idField, (value, id, field) => this.decrypt(value, id, field));
+  }
+
+  private mapFields<T extends Record<string, unknown>>(
+    row: T,
+    idField: string,
+    transform: (value: string, memoryId: string, field: EncryptedField) => string,
+  ): T {
+    const memoryId = row[idField] as string;
+    const mapped: Record<string, unknown> = { ...row };
+    for (const field of ENCRYPTED_FIELDS) {
+      const value = row[field];
+      if (typeof value === "string") mapped[field] = transform(value, memoryId, field);
+    }
+    return mapped as T;
+  }
+}
+
+export function isEncrypted(value: unknown): boolean {
+  return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+/**
+ * Cipher for the configured keys, or null when encryption is off. Throws
+ * when encryption is on but no key is available.
+ */
+export function createFieldCipher(config: EncryptionConfig): FieldCipher | null {
+  if (!config.enabled) return null;
+
+  const key = loadKey(config.keyEnv, config.keyFile);
+  if (!key) {
+    throw new Error(`Encryption is enabled but no key was found (set ${config.keyEnv} or encryption.keyFile)`);
+  }
+  const previous = loadKey(config.previousKeyEnv, config.previousKeyFile);
+  return new FieldCipher(key, previous ? [previous] : []);
+}
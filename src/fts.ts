@@ -0,0 +1,149 @@
+/**
+ * Full-Text Search Options
+ * Tokenizer settings of the BM25 index. The default simple tokenizer splits
+ * text at whitespace and punctuation, which leaves a run of Chinese or
+ * Japanese characters as a single token; the ngram tokenizer indexes
+ * overlapping character n-grams instead, so CJK queries match inside
+ * sentences. LanceDB tokenizes queries with the options the index was built
+ * with; normalizeFtsQuery() adds what the index does not know about.
+ *
+ * Rows written after the index was last updated are not in it; LanceDB
+ * scans them during each search, and MemoryStore refreshes the index once
+ * writes pause or enough rows are waiting, so that scan stays short.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const FTS_TOKENIZERS = ["simple", "whitespace", "ngram"] as const;
+
+export type FtsTokenizer = typeof FTS_TOKENIZERS[number];
+
+/** Stemmer and stop word languages supported by LanceDB */
+export const FTS_LANGUAGES = [
+  "Arabic", "Danish", "Dutch", "English", "Finnish", "French", "German", "Greek", "Hungarian",
+  "Italian", "Norwegian", "Portuguese", "Romanian", "Russian", "Spanish", "Swedish", "Tamil", "Turkish",
+] as const;
+
+export interface FtsConfig {
+  /** simple: split at whitespace and punctuation; whitespace: at whitespace only; ngram: character n-grams (CJK) */
+  tokenizer: FtsTokenizer;
+  /** Language of stemming and built-in stop words */
+  language: string;
+  stem: boolean;
+  removeStopWords: boolean;
+  /** Extra words dropped from queries, on top of the language's stop words */
+  stopWords: string[];
+  /** Fold accented and full-width characters to ASCII (café matches cafe) */
+  asciiFolding: boolean;
+  lowercase: boolean;
+  /** N-gram lengths of the ngram tokenizer */
+  ngramMinLength: number;
+  ngramMaxLength: number;
+  /** Fold newly written rows into the index in the background */
+  autoRefresh: boolean;
+  /** Refresh this long after the last write */
+  refreshDelaySeconds: number;
+  /** Refresh right away once this many rows are unindexed */
+  refreshRows: number;
+}
+
+/** Options the index is built with, as passed to LanceDB's Index.fts() */
+export interface FtsIndexOptions {
+  baseTokenizer: FtsTokenizer;
+  language: string;
+  stem: boolean;
+  removeStopWords: boolean;
+  asciiFolding: boolean;
+  lowercase: boolean;
+  ngramMinLength?: number;
+  ngramMaxLength?: number;
+}
+
+/** LanceDB's own defaults, so indices built before these options existed need no rebuild */
+export const DEFAULT_FTS_CONFIG: FtsConfig = {
+  tokenizer: "simple",
+  language: "English",
+  stem: true,
+  removeStopWords: true,
+  stopWords: [],
+  asciiFolding: true,
+  lowercase: true,
+  ngramMinLength: 2,
+  ngramMaxLength: 3,
+  autoRefresh: true,
+  refreshDelaySeconds: 30,
+  refreshRows: 500,
+};
+
+export const FTS_INDEX_META_KEY = "ftsIndex";
+
+// ============================================================================
+// Index Options
+// ============================================================================
+
+/** Index options of a config; n-gram lengths only matter to the ngram tokenizer */
+export function ftsIndexOptions(config: FtsConfig = DEFAULT_FTS_CONFIG): FtsIndexOptions {
+  const options: FtsIndexOptions = {
+    baseTokenizer: config.tokenizer,
+    language: config.language,
+    stem: config.stem,
+    removeStopWords: config.removeStopWords,
+    asciiFolding: config.asciiFolding,
+    lowercase: config.lowercase,
+  };
+  if (config.tokenizer === "ngram") {
+    options.ngramMinLength = config.ngramMinLength;
+    options.ngramMaxLength = config.ngramMaxLength;
+  }
+  return options;
+}
+
+/**
+ * Whether an index built with the stored options (from the meta table) needs
+ * a rebuild. An index without stored options was built with the defaults.
+ */
+export function ftsIndexOutdated(stored: string | undefined, options: FtsIndexOptions): boolean {
+  let built: FtsIndexOptions = ftsIndexOptions(DEFAULT_FTS_CONFIG);
+  if (stored) {
+    try {
+      built = JSON.parse(stored);
+    } catch {
+      return true;
+    }
+  }
+  return JSON.stringify(sortKeys(built)) !== JSON.stringify(sortKeys(options));
+}
+
+function sortKeys(options: FtsIndexOptions): Array<[string, unknown]> {
+  return Object.entries(options).sort(([a], [b]) => a.localeCompare(b));
+}
+
+// ============================================================================
+// Query Normalization
+// ============================================================================
+
+function foldWord(word: string, config: FtsConfig): string {
+  let folded = config.lowercase ? word.toLowerCase() : word;
+  if (config.asciiFolding) folded = folded.normalize("NFKD").replace(/\p{M}/gu, "");
+  return folded;
+}
+
+/**
+ * Query text for a BM25 search: the configured extra stop words are removed
+ * (compared the way the index compares tokens), and queries too short to
+ * contain a single n-gram become empty. An empty result means nothing can
+ * match.
+ */
+export function normalizeFtsQuery(query: string, config: FtsConfig = DEFAULT_FTS_CONFIG): string {
+  let words = query.trim().split(/\s+/).filter(Boolean);
+  if (config.stopWords.length > 0) {
+    const stopWords = new Set(config.stopWords.map(word => foldWord(word, config)));
+    words = words.filter(word => !stopWords.has(foldWord(word.replace(/^[\p{P}\p{S}]+|[\p{P}\p{S}]+$/gu, ""), config)));
+  }
+
+  const normalized = words.join(" ");
+  if (config.tokenizer === "ngram" && [...normalized].length < config.ngramMinLength) return "";
+  return normalized;
+}
@@ -0,0 +1,131 @@
+/**
+ * Result Fusion
+ * Strategies that merge the vector and BM25 result lists of a hybrid search
+ * into one scored list, weighted by retrieval.vectorWeight and bm25Weight.
+ */
+
+import type { MemorySearchResult } from "./store-interface.js";
+import type { RetrievalResult } from "./retriever.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * legacy: vector score plus 15% of it for a BM25 hit, BM25-only hits at 0.5 or more (weights unused)
+ * rrf: weighted reciprocal rank fusion, scaled so rank 1 in both lists scores 1
+ * weighted: weighted mean of the vector score and the BM25 score relative to the best BM25 hit
+ */
+export const FUSION_STRATEGIES = ["legacy", "rrf", "weighted"] as const;
+
+export type FusionStrategy = typeof FUSION_STRATEGIES[number];
+
+export interface FusionConfig {
+  fusion: FusionStrategy;
+  vectorWeight: number;
+  bm25Weight: number;
+  /** RRF rank constant: larger values flatten the difference between ranks */
+  rrfK: number;
+}
+
+/** A search hit with its 1-based position in its result list */
+export type RankedResult = MemorySearchResult & { rank: number };
+
+export const DEFAULT_RRF_K = 60;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function clamp01(value: number, fallback: number): number {
+  if (!Number.isFinite(value)) return fallback;
+  return Math.min(1, Math.max(0, value));
+}
+
+/** Weights scaled to sum to 1; both at 0 counts as equal weights */
+function normalizedWeights(config: Pick<FusionConfig, "vectorWeight" | "bm25Weight">): { vector: number; bm25: number } {
+  const vector = Math.max(0, config.vectorWeight);
+  const bm25 = Math.max(0, config.bm25Weight);
+  const total = vector + bm25;
+  return total > 0 ? { vector: vector / total, bm25: bm25 / total } : { vector: 0.5, bm25: 0.5 };
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+type ScoreFn = (vector: RankedResult | undefined, bm25: RankedResult | undefined) => number;
+
+function legacyScore(): ScoreFn {
+  return (vector, bm25) => vector
+    ? vector.score + (bm25 ? 0.15 * vector.score : 0)
+    : Math.max(bm25!.score, 0.5);
+}
+
+function rrfScore(config: FusionConfig): ScoreFn {
+  const weights = normalizedWeights(config);
+  const k = Math.max(1, config.rrfK);
+  return (vector, bm25) => {
+    const raw = (vector ? weights.vector / (k + vector.rank) : 0) + (bm25 ? weights.bm25 / (k + bm25.rank) : 0);
+    return raw * (k + 1);
+  };
+}
+
+function weightedScore(config: FusionConfig, bm25Results: RankedResult[]): ScoreFn {
+  const weights = normalizedWeights(config);
+  const bestBm25 = Math.max(0, ...bm25Results.map(r => r.score));
+  return (vector, bm25) =>
+    weights.vector * (vector?.score ?? 0) + weights.bm25 * (bm25 && bestBm25 > 0 ? bm25.score / bestBm25 : 0);
+}
+
+function scoreFn(config: FusionConfig, bm25Results: RankedResult[]): ScoreFn {
+  switch (config.fusion) {
+    case "rrf":
+      return rrfScore(config);
+    case "weighted":
+      return weightedScore(config, bm25Results);
+    default:
+      return legacyScore();
+  }
+}
+
+// ============================================================================
+// Fusion
+// ============================================================================
+
+/**
+ * The score minScore and hardMinScore compare against. RRF scores follow
+ * ranks, not relevance, so a result fused by rrf is judged by its best
+ * source score instead.
+ */
+export function thresholdScore(result: RetrievalResult, fusion: FusionStrategy): number {
+  if (fusion !== "rrf" || !result.sources.fused) return result.score;
+  return Math.max(result.sources.vector?.score ?? 0, result.sources.bm25?.score ?? 0);
+}
+
+/** Merge both result lists by memory ID and sort by fused score */
+export function fuseResults(vectorResults: RankedResult[], bm25Results: RankedResult[], config: FusionConfig): RetrievalResult[] {
+  const vectorMap = new Map(vectorResults.map(result => [result.entry.id, result]));
+  const bm25Map = new Map(bm25Results.map(result => [result.entry.id, result]));
+  const score = scoreFn(config, bm25Results);
+
+  const fused: RetrievalResult[] = [];
+  for (const id of new Set([...vectorMap.keys(), ...bm25Map.keys()])) {
+    const vectorResult = vectorMap.get(id);
+    const bm25Result = bm25Map.get(id);
+    const fusedScore = clamp01(score(vectorResult, bm25Result), 0.1);
+
+    fused.push({
+      entry: (vectorResult ?? bm25Result!).entry,
+      chunk: vectorResult?.chunk ?? bm25Result?.chunk,
+      score: fusedScore,
+      sources: {
+        vector: vectorResult ? { score: vectorResult.score, rank: vectorResult.rank } : undefined,
+        bm25: bm25Result ? { score: bm25Result.score, rank: bm25Result.rank } : undefined,
+        fused: { score: fusedScore },
+      },
+    });
+  }
+
+  return fused.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,284 @@
+/**
+ * Storage Health Report
+ * Content statistics (age, importance, text length, vector sanity) and
+ * on-disk statistics (size, fragments, versions, index coverage), plus a
+ * service that writes the report to a JSON file on a schedule
+ */
+
+import { readdir, rename, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { formatBytes } from "./compaction.js";
+import type { IMemoryStore, MemoryEntry, MemoryStats } from "./store-interface.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HistogramBucket {
+  label: string;
+  count: number;
+}
+
+export interface ContentStats {
+  /** Memories by age since creation, youngest bucket first */
+  ageHistogram: HistogramBucket[];
+  /** Memories by importance in steps of 0.2 */
+  importanceHistogram: HistogramBucket[];
+  averageImportance: number | null;
+  /** Mean text length in characters (after decryption) */
+  averageTextLength: number | null;
+  /** Vectors that are all zeros or contain non-finite values */
+  emptyVectors: number;
+  /** Vectors whose length differs from the configured dimension */
+  mismatchedVectors: number;
+  oldestTimestamp: number | null;
+  newestTimestamp: number | null;
+}
+
+export interface IndexCoverage {
+  exists: boolean;
+  name?: string;
+  type?: string;
+  column?: string;
+  indexedRows: number;
+  unindexedRows: number;
+}
+
+export interface TableStorageStats {
+  name: string;
+  rows: number;
+  /** Bytes of the current table version */
+  bytes: number;
+  fragments: number;
+  /** Fragments small enough that compaction would merge them */
+  smallFragments: number;
+  versions: number;
+}
+
+export interface StorageStats {
+  /** Everything under dbPath, old versions included; null for remote URIs */
+  diskBytes: number | null;
+  tables: TableStorageStats[];
+  ftsIndex: IndexCoverage;
+  vectorIndex: IndexCoverage;
+}
+
+export interface HealthReport extends MemoryStats {
+  generatedAt: number;
+  content: ContentStats;
+  /** Null for backends without on-disk storage */
+  storage: StorageStats | null;
+}
+
+export interface HealthReportConfig {
+  enabled: boolean;
+  /** Report file; defaults to memory-health.json inside dbPath */
+  path?: string;
+  intervalHours: number;
+}
+
+interface HealthReportLogger {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+}
+
+export const DEFAULT_HEALTH_REPORT_CONFIG: HealthReportConfig = {
+  enabled: false,
+  intervalHours: 6,
+};
+
+export const HEALTH_REPORT_FILE = "memory-health.json";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AGE_BUCKETS: Array<{ label: string; maxAgeMs: number }> = [
+  { label: "<1d", maxAgeMs: DAY_MS },
+  { label: "1-7d", maxAgeMs: 7 * DAY_MS },
+  { label: "7-30d", maxAgeMs: 30 * DAY_MS },
+  { label: "30-90d", maxAgeMs: 90 * DAY_MS },
+  { label: "90-365d", maxAgeMs: 365 * DAY_MS },
+  { label: ">365d", maxAgeMs: Infinity },
+];
+const IMPORTANCE_LABELS = ["0.0-0.2", "0.2-0.4", "0.4-0.6", "0.6-0.8", "0.8-1.0"];
+
+// ============================================================================
+// Content Statistics
+// ============================================================================
+
+/**
+ * Accumulates ContentStats one memory at a time, so stores can scan in
+ * batches without holding every vector in memory.
+ */
+export class ContentStatsCollector {
+  private readonly ages = AGE_BUCKETS.map(() => 0);
+  private readonly importance = IMPORTANCE_LABELS.map(() => 0);
+  private count = 0;
+  private importanceSum = 0;
+  private textLengthSum = 0;
+  private emptyVectors = 0;
+  private mismatchedVectors = 0;
+  private oldest: number | null = null;
+  private newest: number | null = null;
+
+  constructor(
+    private readonly vectorDim: number,
+    private readonly now = Date.now(),
+  ) {}
+
+  add(entry: Pick<MemoryEntry, "text" | "vector" | "importance" | "timestamp">): void {
+    this.count++;
+
+    const age = Math.max(0, this.now - entry.timestamp);
+    this.ages[AGE_BUCKETS.findIndex(bucket => age < bucket.maxAgeMs)]++;
+    this.oldest = this.oldest === null ? entry.timestamp : Math.min(this.oldest, entry.timestamp);
+    this.newest = this.newest === null ? entry.timestamp : Math.max(this.newest, entry.timestamp);
+
+    const importance = Number.isFinite(entry.importance) ? Math.min(1, Math.max(0, entry.importance)) : 0;
+    this.importance[Math.min(IMPORTANCE_LABELS.length - 1, Math.floor(importance * IMPORTANCE_LABELS.length))]++;
+    this.importanceSum += importance;
+    this.textLengthSum += entry.text.length;
+
+    const vector = entry.vector ?? [];
+    if (vector.length !== this.vectorDim) this.mismatchedVectors++;
+    if (vector.length === 0 || vector.every(v => v === 0) || vector.some(v => !Number.isFinite(v))) this.emptyVectors++;
+  }
+
+  result(): ContentStats {
+    return {
+      ageHistogram: AGE_BUCKETS.map((bucket, i) => ({ label: bucket.label, count: this.ages[i] })),
+      importanceHistogram: IMPORTANCE_LABELS.map((label, i) => ({ label, count: this.importance[i] })),
+      averageImportance: this.count > 0 ? this.importanceSum / this.count : null,
+      averageTextLength: this.count > 0 ? this.textLengthSum / this.count : null,
+      emptyVectors: this.emptyVectors,
+      mismatchedVectors: this.mismatchedVectors,
+      oldestTimestamp: this.oldest,
+      newestTimestamp: this.newest,
+    };
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/** Total size of the files below a local directory; null for URIs */
+export async function directorySize(path: string): Promise<number | null> {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(path)) return null;
+
+  let total = 0;
+  const walk = async (dir: string): Promise<void> => {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      const full = join(dir, entry.name);
+      if (entry.isDirectory()) await walk(full);
+      else if (entry.isFile()) total += (await stat(full)).size;
+    }
+  };
+  try {
+    await walk(path);
+  } catch {
+    return null;
+  }
+  return total;
+}
+
+function formatDate(timestamp: number | null): string {
+  return timestamp === null ? "-" : new Date(timestamp).toISOString().split("T")[0];
+}
+
+function formatCoverage(index: IndexCoverage): string {
+  if (!index.exists) return "none";
+  const total = index.indexedRows + index.unindexedRows;
+  const pct = total > 0 ? ((index.indexedRows / total) * 100).toFixed(0) : "100";
+  return `${index.type ?? "index"}${index.column ? ` on ${index.column}` : ""}, ${index.indexedRows}/${total} rows indexed (${pct}%)`;
+}
+
+/** Human-readable lines for the CLI and the memory_stats tool */
+export function formatHealthReport(report: HealthReport): string[] {
+  const { content, storage } = report;
+  const histogram = (buckets: HistogramBucket[]) => buckets.map(b => `${b.label}: ${b.count}`).join(", ");
+  const lines = [
+    `Content:`,
+    `  \u2022 Age: ${histogram(content.ageHistogram)}`,
+    `  \u2022 Importance: ${histogram(content.importanceHistogram)}` +
+      (content.averageImportance === null ? "" : ` (mean ${content.averageImportance.toFixed(2)})`),
+    `  \u2022 Average text length: ${content.averageTextLength === null ? "-" : `${Math.round(content.averageTextLength)} chars`}`,
+    `  \u2022 Oldest: ${formatDate(content.oldestTimestamp)}, newest: ${formatDate(content.newestTimestamp)}`,
+    `  \u2022 Empty vectors: ${content.emptyVectors}, mismatched dimensions: ${content.mismatchedVectors}`,
+  ];
+  if (storage) {
+    lines.push(
+      `Storage:`,
+      `  \u2022 On disk: ${storage.diskBytes === null ? "unknown" : formatBytes(storage.diskBytes)}`,
+      ...storage.tables.map(t =>
+        `  \u2022 ${t.name}: ${t.rows} rows, ${formatBytes(t.bytes)}, ${t.fragments} fragments (${t.smallFragments} small), ${t.versions} versions`),
+      `  \u2022 FTS index: ${formatCoverage(storage.ftsIndex)}`,
+      `  \u2022 Vector index: ${formatCoverage(storage.vectorIndex)}`,
+    );
+  }
+  return lines;
+}
+
+// ============================================================================
+// Health Report Service
+// ============================================================================
+
+/**
+ * Writes the health report to a JSON file at start and then every
+ * intervalHours, for dashboards and capacity checks outside the agent.
+ */
+export class HealthReportService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly store: IMemoryStore,
+    private readonly path: string,
+    private readonly config: HealthReportConfig,
+    private readonly logger?: HealthReportLogger,
+  ) {}
+
+  /** Generate and write the report now; the file is replaced atomically */
+  async write(): Promise<HealthReport> {
+    const report = await this.store.healthReport();
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(report, null, 2), { mode: 0o600 });
+    await rename(tmpPath, this.path);
+    return report;
+  }
+
+  start(): void {
+    if (!this.config.enabled || this.timer) return;
+    const intervalMs = Math.max(1, this.config.intervalHours) * 60 * 60_000;
+    this.timer = setInterval(() => void this.runScheduled(), intervalMs);
+    this.timer.unref?.();
+    void this.runScheduled();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runScheduled(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const report = await this.write();
+      this.logger?.info(`memory-lancedb-voyage: health report written to ${this.path} (${report.totalCount} memories)`);
+    } catch (err) {
+      this.logger?.warn(`memory-lancedb-voyage: health report failed: ${String(err)}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export function createHealthReportService(
+  store: IMemoryStore,
+  path: string,
+  config: HealthReportConfig = DEFAULT_HEALTH_REPORT_CONFIG,
+  logger?: HealthReportLogger,
+): HealthReportService {
+  return new HealthReportService(store, path, config, logger);
+}
@@ -0,0 +1,256 @@
+/**
+ * Revision History
+ * Companion LanceDB table that keeps a snapshot of a memory after every mutation
+ */
+
+import type * as LanceDB from "@lancedb/lancedb";
+import { randomUUID } from "node:crypto";
+import type { FieldCipher } from "./encryption.js";
+import { AmbiguousIdError, assertIdOrPrefix, idMatchCondition, toIdMatch } from "./id-resolver.js";
+import { addColumnIfMissing } from "./schema.js";
+import type { MemoryEntry } from "./store-interface.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RevisionAction = "create" | "update" | "delete" | "restore" | "rollback";
+
+export interface MemoryRevision {
+  id: string;
+  memoryId: string;
+  revision: number;
+  action: RevisionAction;
+  text: string;
+  vector: number[];
+  category: MemoryEntry["category"];
+  scope: string;
+  importance: number;
+  timestamp: number;
+  metadata: string;
+  tags: string[];
+  changedAt: number;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function escapeSqlLiteral(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+function rowToRevision(row: Record<string, unknown>): MemoryRevision {
+  return {
+    id: row.id as string,
+    memoryId: row.memoryId as string,
+    revision: Number(row.revision),
+    action: row.action as RevisionAction,
+    text: row.text as string,
+    vector: row.vector ? Array.from(row.vector as Iterable<number>) : [],
+    category: row.category as MemoryEntry["category"],
+    scope: (row.scope as string | undefined) ?? "global",
+    importance: row.importance as number,
+    timestamp: row.timestamp as number,
+    metadata: (row.metadata as string) || "{}",
+    tags: row.tags ? Array.from(row.tags as Iterable<string>) : [],
+    changedAt: row.changedAt as number,
+  };
+}
+
+/**
+ * Revisions of the memory a full ID or prefix names, oldest first. A memory
+ * belongs to the scope of its latest revision; memories outside scopeFilter
+ * are dropped before the prefix is checked for ambiguity, so neither the
+ * error nor its text previews reveal them.
+ */
+export function selectMemoryRevisions(idOrPrefix: string, revisions: MemoryRevision[], scopeFilter?: string[]): MemoryRevision[] {
+  const needle = idOrPrefix.toLowerCase();
+  const latest = new Map<string, MemoryRevision>();
+  for (const r of revisions) {
+    const current = latest.get(r.memoryId);
+    if (!current || current.revision < r.revision) latest.set(r.memoryId, r);
+  }
+
+  const matches = latest.has(needle) ? [latest.get(needle)!] : [...latest.values()];
+  const accessible = scopeFilter && scopeFilter.length > 0
+    ? matches.filter(r => scopeFilter.includes(r.scope))
+    : matches;
+
+  if (accessible.length > 1) {
+    throw new AmbiguousIdError(idOrPrefix, accessible.map(r => toIdMatch({ id: r.memoryId, text: r.text, scope: r.scope })));
+  }
+  if (accessible.length === 0) {
+    if (matches.length === 0) return [];
+    throw new Error(`Memory ${matches.length === 1 ? matches[0].memoryId : idOrPrefix} is outside accessible scopes`);
+  }
+
+  const { memoryId } = accessible[0];
+  return revisions
+    .filter(r => r.memoryId === memoryId)
+    .sort((a, b) => a.revision - b.revision);
+}
+
+// ============================================================================
+// Memory History
+// ============================================================================
+
+export const HISTORY_TABLE_NAME = "memory_history";
+
+const REENCRYPT_BATCH_SIZE = 500;
+
+export class MemoryHistory {
+  private constructor(
+    private readonly table: LanceDB.Table,
+    private readonly cipher?: FieldCipher,
+  ) {}
+
+  /** Revision text and metadata are encrypted with `cipher` when given */
+  static async open(
+    db: LanceDB.Connection,
+    vectorDim: number,
+    options: { readOnly?: boolean; cipher?: FieldCipher } = {},
+  ): Promise<MemoryHistory> {
+    if (options.readOnly) {
+      return new MemoryHistory(await db.openTable(HISTORY_TABLE_NAME), options.cipher);
+    }
+    const table = await MemoryHistory.openOrCreate(db, vectorDim);
+    // History tables created before tags existed
+    await addColumnIfMissing(table, "tags", "arrow_cast(NULL, 'List(Utf8)')");
+    return new MemoryHistory(table, options.cipher);
+  }
+
+  private static async openOrCreate(db: LanceDB.Connection, vectorDim: number): Promise<LanceDB.Table> {
+    try {
+      return await db.openTable(HISTORY_TABLE_NAME);
+    } catch (_openErr) {
+      const schemaRevision: MemoryRevision = {
+        id: "__schema__",
+        memoryId: "__schema__",
+        revision: 0,
+        action: "create",
+        text: "",
+        vector: Array.from({ length: vectorDim }).fill(0) as number[],
+        category: "other",
+        scope: "global",
+        importance: 0,
+        timestamp: 0,
+        metadata: "{}",
+        tags: [""],
+        changedAt: 0,
+      };
+
+      try {
+        const table = await db.createTable(HISTORY_TABLE_NAME, [schemaRevision as unknown as Record<string, unknown>]);
+        await table.delete('id = "__schema__"');
+        return table;
+      } catch (createErr) {
+        if (String(createErr).includes("already exists")) {
+          return db.openTable(HISTORY_TABLE_NAME);
+        }
+        throw createErr;
+      }
+    }
+  }
+
+  async optimize(cleanupOlderThan: Date): Promise<LanceDB.OptimizeStats> {
+    return this.table.optimize({ cleanupOlderThan });
+  }
+
+  /** Pick up revisions committed by other processes */
+  async checkoutLatest(): Promise<void> {
+    await this.table.checkoutLatest();
+  }
+
+  /**
+   * Append one revision per entry. Revision numbers are assigned per memory,
+   * continuing from the highest revision already recorded.
+   */
+  async record(entries: MemoryEntry[], action: RevisionAction): Promise<void> {
+    if (entries.length === 0) return;
+
+    const memoryIds = [...new Set(entries.map(e => e.id))];
+    const idList = memoryIds.map(id => `'${escapeSqlLiteral(id)}'`).join(", ");
+    const existing = await this.table.query()
+      .select(["memoryId", "revision"])
+      .where(`memoryId IN (${idList})`)
+      .toArray();
+
+    const latest = new Map<string, number>();
+    for (const row of existing) {
+      const memoryId = row.memoryId as string;
+      latest.set(memoryId, Math.max(latest.get(memoryId) ?? 0, Number(row.revision)));
+    }
+
+    const changedAt = Date.now();
+    const rows = entries.map((entry): MemoryRevision => {
+      const revision = (latest.get(entry.id) ?? 0) + 1;
+      latest.set(entry.id, revision);
+      return {
+        id: randomUUID(),
+        memoryId: entry.id,
+        revision,
+        action,
+        text: entry.text,
+        vector: Array.from(entry.vector as Iterable<number>),
+        category: entry.category,
+        scope: entry.scope,
+        importance: entry.importance,
+        timestamp: entry.timestamp,
+        metadata: entry.metadata || "{}",
+        tags: entry.tags ?? [],
+        changedAt,
+      };
+    });
+
+    await this.table.add(rows.map(row => this.seal(row)));
+  }
+
+  /**
+   * Re-encrypt revisions that are plaintext or under a previous key.
+   * Returns the number of revisions rewritten.
+   */
+  async reencrypt(): Promise<number> {
+    if (!this.cipher) return 0;
+
+    const prefix = escapeSqlLiteral(this.cipher.currentPrefix);
+    const where = `text NOT LIKE '${prefix}%' OR metadata NOT LIKE '${prefix}%'`;
+    let rewritten = 0;
+    for (;;) {
+      const rows = await this.table.query().where(where).limit(REENCRYPT_BATCH_SIZE).toArray();
+      if (rows.length === 0) break;
+
+      await this.table
+        .mergeInsert("id")
+        .whenMatchedUpdateAll()
+        .execute(rows.map(row => this.seal(rowToRevision(this.open(row)))));
+      rewritten += rows.length;
+      if (rows.length < REENCRYPT_BATCH_SIZE) break;
+    }
+    return rewritten;
+  }
+
+  /** Revisions recorded without a vector (another model's memory) store null */
+  private seal(revision: MemoryRevision): Record<string, unknown> {
+    const row = { ...revision, vector: revision.vector.length > 0 ? revision.vector : null } as Record<string, unknown>;
+    return this.cipher ? this.cipher.sealFields(row, "memoryId") : row;
+  }
+
+  private open(row: Record<string, unknown>): Record<string, unknown> {
+    return this.cipher ? this.cipher.openFields(row, "memoryId") : row;
+  }
+
+  /**
+   * List revisions for a memory, oldest first. Accepts a full ID or an 8+ char
+   * prefix so that history of already-deleted memories can still be looked up.
+   * With a scopeFilter, only memories in those scopes can match.
+   */
+  async list(idOrPrefix: string, scopeFilter?: string[]): Promise<MemoryRevision[]> {
+    assertIdOrPrefix(idOrPrefix);
+    const rows = await this.table.query()
+      .where(idMatchCondition(idOrPrefix.toLowerCase(), "memoryId"))
+      .toArray();
+
+    return selectMemoryRevisions(idOrPrefix, rows.map(row => rowToRevision(this.open(row))), scopeFilter);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Memory ID Resolution
+ * Full IDs and 8+ char prefixes, matched server-side with a LIKE predicate
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IdMatch {
+  id: string;
+  scope: string;
+  /** First characters of the memory text */
+  preview: string;
+}
+
+const PREVIEW_LENGTH = 60;
+const MAX_LISTED_MATCHES = 10;
+
+/**
+ * Thrown when a prefix matches more than one memory. The message lists the
+ * matches so CLI output and tool errors are actionable on their own.
+ */
+export class AmbiguousIdError extends Error {
+  constructor(
+    readonly prefix: string,
+    readonly matches: IdMatch[],
+    label = "memories",
+  ) {
+    const listed = matches.slice(0, MAX_LISTED_MATCHES).map(m => `\n  - ${m.id} [${m.scope}] ${m.preview}`).join("");
+    const more = matches.length > MAX_LISTED_MATCHES ? `\n  ... and ${matches.length - MAX_LISTED_MATCHES} more` : "";
+    super(`Ambiguous prefix "${prefix}" matches ${matches.length} ${label}. Use a longer prefix or full ID:${listed}${more}`);
+    this.name = "AmbiguousIdError";
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const FULL_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const PREFIX_PATTERN = /^[0-9a-f]{8}[0-9a-f-]*$/i;
+
+/** Throws unless the input is a full UUID or a hex prefix of at least 8 chars */
+export function assertIdOrPrefix(idOrPrefix: string): void {
+  if (!FULL_ID_PATTERN.test(idOrPrefix) && !PREFIX_PATTERN.test(idOrPrefix)) {
+    throw new Error(`Invalid memory ID format: ${idOrPrefix}`);
+  }
+}
+
+/**
+ * SQL predicate on `column` for an already validated ID or prefix. The input
+ * is restricted to hex digits and hyphens, so it needs no LIKE escaping.
+ */
+export function idMatchCondition(idOrPrefix: string, column = "id"): string {
+  return FULL_ID_PATTERN.test(idOrPrefix)
+    ? `${column} = '${idOrPrefix}'`
+    : `${column} LIKE '${idOrPrefix}%'`;
+}
+
+export function toIdMatch(row: Record<string, unknown>): IdMatch {
+  const text = (row.text as string | undefined) ?? "";
+  return {
+    id: row.id as string,
+    scope: (row.scope as string | undefined) ?? "global",
+    preview: text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}...` : text,
+  };
+}
@@ -0,0 +1,653 @@
+/**
+ * In-Memory Store
+ * Ephemeral IMemoryStore backend: brute-force cosine search and a simple BM25
+ * over entries held in process memory. Nothing is persisted.
+ */
+
+import { randomUUID } from "node:crypto";
+import { selectMemoryRevisions, type MemoryRevision, type RevisionAction } from "./history.js";
+import { AmbiguousIdError, assertIdOrPrefix, toIdMatch } from "./id-resolver.js";
+import { ContentStatsCollector, type HealthReport } from "./health.js";
+import { matchesMetadataFilter } from "./metadata-filter.js";
+import { chunkEntry, chunkPosition, type ChunkInput } from "./chunking.js";
+import type { EmbeddingModelRef } from "./embedding-columns.js";
+import {
+  compareListKeys,
+  decodeListCursor,
+  encodeListCursor,
+  type IMemoryStore,
+  type ListOptions,
+  type ListPage,
+  type MatchedChunk,
+  type MemoryEntry,
+  type MemoryFilter,
+  type MemorySearchResult,
+  type MemoryStats,
+  type MemoryUpdate,
+  type RetentionCriteria,
+} from "./store-interface.js";
+import { normalizeTags } from "./utils.js";
+import type { VectorIndexStatus } from "./vector-index.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface InMemoryStoreConfig {
+  /** Reject vectors of any other length when set */
+  vectorDim?: number;
+  /** Move deleted memories to the trash instead of removing them (default: true) */
+  softDelete?: boolean;
+  /** BM25 term saturation (default: 1.2) */
+  k1?: number;
+  /** BM25 length normalization (default: 0.75) */
+  b?: number;
+}
+
+const HOT_MEMORY_LIMIT = 5;
+const MAX_LIST_PAGE = 1000;
+const ITERATE_BATCH_SIZE = 500;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function clampInt(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  return Math.min(max, Math.max(min, Math.floor(value)));
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * (b[i] ?? 0);
+    normA += a[i] * a[i];
+    normB += (b[i] ?? 0) * (b[i] ?? 0);
+  }
+  const norm = Math.sqrt(normA) * Math.sqrt(normB);
+  return norm === 0 ? 0 : dot / norm;
+}
+
+/**
+ * Same scale as MemoryStore scores, 1 / (1 + L2 distance), using the L2
+ * distance between unit vectors with this cosine similarity.
+ */
+function cosineToScore(cosine: number): number {
+  return 1 / (1 + Math.sqrt(Math.max(0, 2 - 2 * cosine)));
+}
+
+/** Same mapping MemoryStore applies to LanceDB's raw BM25 scores */
+function normalizeBm25Score(raw: number): number {
+  return raw > 0 ? 1 / (1 + Math.exp(-raw / 5)) : 0.5;
+}
+
+function isLive(entry: MemoryEntry, now = Date.now()): boolean {
+  return !entry.deletedAt && (entry.expiresAt == null || entry.expiresAt > now);
+}
+
+function matchesScope(entry: MemoryEntry, scopeFilter?: string[]): boolean {
+  return !scopeFilter || scopeFilter.length === 0 || scopeFilter.includes(entry.scope);
+}
+
+function matchesTags(entry: MemoryEntry, filter?: MemoryFilter): boolean {
+  const tags = normalizeTags(filter?.tags);
+  if (tags.length === 0) return true;
+  const own = new Set(entry.tags ?? []);
+  return filter?.tagMode === "all" ? tags.every(tag => own.has(tag)) : tags.some(tag => own.has(tag));
+}
+
+function matchesWhere(entry: MemoryEntry, filter?: MemoryFilter): boolean {
+  return !filter?.where || matchesMetadataFilter(filter.where, entry.metadata);
+}
+
+function matchesTimeRange(entry: MemoryEntry, filter?: MemoryFilter): boolean {
+  return (filter?.since === undefined || entry.timestamp >= filter.since)
+    && (filter?.until === undefined || entry.timestamp < filter.until);
+}
+
+function copyEntry(entry: MemoryEntry, withVector = true): MemoryEntry {
+  return { ...entry, vector: withVector ? [...entry.vector] : [], tags: [...(entry.tags ?? [])] };
+}
+
+function toMatchedChunk(chunk: MemoryEntry): MatchedChunk {
+  return { id: chunk.id, text: chunk.text, vector: [...chunk.vector], ...chunkPosition(chunk.metadata) };
+}
+
+/**
+ * One result per memory: the memory's own score or, when higher, the score
+ * of its best chunk.
+ */
+function bestPerMemory(hits: Array<{ entry: MemoryEntry; score: number; parent?: MemoryEntry }>): MemorySearchResult[] {
+  const best = new Map<string, MemorySearchResult>();
+  for (const hit of hits) {
+    const memory = hit.parent ?? hit.entry;
+    const current = best.get(memory.id);
+    if (current && current.score >= hit.score) continue;
+    best.set(memory.id, hit.parent
+      ? { entry: copyEntry(hit.parent), score: hit.score, chunk: toMatchedChunk(hit.entry) }
+      : { entry: copyEntry(hit.entry), score: hit.score });
+  }
+  return [...best.values()];
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+export class InMemoryStore implements IMemoryStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+  /** Chunk entries by parent id */
+  private readonly chunks = new Map<string, MemoryEntry[]>();
+  private readonly revisions: MemoryRevision[] = [];
+
+  constructor(private readonly config: InMemoryStoreConfig = {}) {}
+
+  get softDeleteEnabled(): boolean {
+    return this.config.softDelete !== false;
+  }
+
+  get readOnly(): boolean {
+    return false;
+  }
+
+  get hasFtsSupport(): boolean {
+    return true;
+  }
+
+  // --------------------------------------------------------------------------
+  // Writes
+  // --------------------------------------------------------------------------
+
+  async store(entry: Omit<MemoryEntry, "id" | "timestamp">): Promise<MemoryEntry> {
+    const [stored] = await this.storeBatch([entry]);
+    return stored;
+  }
+
+  async storeBatch(entries: Array<Omit<MemoryEntry, "id" | "timestamp">>): Promise<MemoryEntry[]> {
+    const now = Date.now();
+    const fullEntries = entries.map((entry): MemoryEntry => {
+      this.assertVectorDim(entry.vector);
+      return {
+        ...entry,
+        id: randomUUID(),
+        timestamp: now,
+        metadata: entry.metadata || "{}",
+        tags: normalizeTags(entry.tags),
+      };
+    });
+
+    for (const entry of fullEntries) this.entries.set(entry.id, copyEntry(entry));
+    this.recordRevision(fullEntries, "create");
+    return fullEntries;
+  }
+
+  /** Supersedes a trashed memory with the same id; a live one is left alone */
+  async importEntry(entry: MemoryEntry): Promise<MemoryEntry> {
+    const full = this.normalizeImported(entry);
+    const existing = this.entries.get(full.id);
+    if (!existing || existing.deletedAt) {
+      this.entries.set(full.id, copyEntry(full));
+      this.chunks.delete(full.id);
+    }
+    this.recordRevision([full], "create");
+    return full;
+  }
+
+  async upsert(entry: MemoryEntry): Promise<MemoryEntry> {
+    const full = this.normalizeImported(entry);
+    const existing = this.entries.get(full.id);
+    if (existing) {
+      full.updatedAt = Date.now();
+      full.accessCount ??= existing.accessCount ?? 0;
+      full.lastAccessedAt ??= existing.lastAccessedAt ?? null;
+    }
+
+    this.entries.set(full.id, copyEntry(full));
+    this.chunks.delete(full.id);
+    this.recordRevision([full], existing ? "update" : "create");
+    return full;
+  }
+
+  async update(id: string, updates: MemoryUpdate, scopeFilter?: string[]): Promise<MemoryEntry | null> {
+    const resolved = await this.resolveId(id, { scopeFilter });
+    const current = resolved ? this.entries.get(resolved) : undefined;
+    if (!current || current.deletedAt) return null;
+    if (updates.vector) this.assertVectorDim(updates.vector);
+
+    const updated: MemoryEntry = {
+      ...current,
+      text: updates.text ?? current.text,
+      vector: updates.vector ?? current.vector,
+      category: updates.category ?? current.category,
+      importance: updates.importance ?? current.importance,
+      metadata: updates.metadata ?? current.metadata ?? "{}",
+      tags: updates.tags !== undefined ? normalizeTags(updates.tags) : current.tags,
+      updatedAt: Date.now(),
+    };
+
+    this.entries.set(updated.id, copyEntry(updated));
+    if (updates.text !== undefined || updates.vector !== undefined) this.chunks.delete(updated.id);
+    this.recordRevision([updated], "update");
+    return copyEntry(updated);
+  }
+
+  async bumpImportance(id: string, delta: number, scopeFilter?: string[]): Promise<MemoryEntry | null> {
+    if (!Number.isFinite(delta)) {
+      throw new Error(`Invalid importance delta: ${delta}`);
+    }
+    const resolved = await this.resolveId(id, { scopeFilter });
+    const current = resolved ? this.entries.get(resolved) : undefined;
+    if (!current || current.deletedAt) return null;
+
+    current.importance = Math.max(0, Math.min(1, current.importance + delta));
+    current.updatedAt = Date.now();
+    this.recordRevision([current], "update");
+    return copyEntry(current);
+  }
+
+  async delete(id: string, scopeFilter?: string[]): Promise<boolean> {
+    const resolved = await this.resolveId(id, { scopeFilter });
+    if (!resolved) return false;
+    this.remove([resolved]);
+    return true;
+  }
+
+  async deleteMany(ids: string[]): Promise<number> {
+    const live = ids.filter(id => {
+      const entry = this.entries.get(id);
+      return entry && !entry.deletedAt;
+    });
+    this.remove(live);
+    return live.length;
+  }
+
+  async bulkDelete(scopeFilter: string[], beforeTimestamp?: number, filter?: MemoryFilter): Promise<number> {
+    if (scopeFilter.length === 0 && !beforeTimestamp && !filter?.where) {
+      throw new Error("Bulk delete requires at least scope, timestamp or metadata filter for safety");
+    }
+
+    const ids = [...this.entries.values()]
+      .filter(e => !e.deletedAt)
+      .filter(e => scopeFilter.length === 0 || scopeFilter.includes(e.scope))
+      .filter(e => !beforeTimestamp || e.timestamp < beforeTimestamp)
+      .filter(e => matchesWhere(e, filter) && matchesTimeRange(e, filter))
+      .map(e => e.id);
+    this.remove(ids);
+    return ids.length;
+  }
+
+  async replaceChunks(parentId: string, chunks: ChunkInput[]): Promise<number> {
+    const parent = this.entries.get(parentId);
+    if (!parent || parent.deletedAt) throw new Error(`Memory ${parentId} not found`);
+    for (const chunk of chunks) this.assertVectorDim(chunk.vector);
+
+    this.chunks.set(parentId, chunks.map((chunk, index) =>
+      copyEntry(chunkEntry(parent, chunk, index, chunks.length, randomUUID()))));
+    return chunks.length;
+  }
+
+  // --------------------------------------------------------------------------
+  // Reads
+  // --------------------------------------------------------------------------
+
+  async hasId(id: string): Promise<boolean> {
+    const entry = this.entries.get(id);
+    return Boolean(entry && !entry.deletedAt);
+  }
+
+  async resolveId(idOrPrefix: string, options: { scopeFilter?: string[]; trashed?: boolean } = {}): Promise<string | null> {
+    assertIdOrPrefix(idOrPrefix);
+
+    const needle = idOrPrefix.toLowerCase();
+    const candidates = [...this.entries.values()]
+      .filter(e => (options.trashed ? Boolean(e.deletedAt) : !e.deletedAt))
+      .filter(e => e.id.startsWith(needle));
+    if (candidates.length === 0) return null;
+
+    const exact = candidates.find(e => e.id === needle);
+    const matches = (exact ? [exact] : candidates).map(e => toIdMatch({ id: e.id, text: e.text, scope: e.scope }));
+    const { scopeFilter } = options;
+    const accessible = scopeFilter && scopeFilter.length > 0
+      ? matches.filter(m => scopeFilter.includes(m.scope))
+      : matches;
+
+    if (accessible.length > 1) {
+      throw new AmbiguousIdError(idOrPrefix, accessible, options.trashed ? "trashed memories" : "memories");
+    }
+    if (accessible.length === 0) {
+      throw new Error(`Memory ${matches.length === 1 ? matches[0].id : idOrPrefix} is outside accessible scopes`);
+    }
+    return accessible[0].id;
+  }
+
+  async vectorSearch(
+    vector: number[],
+    limit = 5,
+    minScore = 0.3,
+    scopeFilter?: string[],
+    filter?: MemoryFilter,
+  ): Promise<MemorySearchResult[]> {
+    const safeLimit = clampInt(limit, 1, 20);
+    const hits = this.searchDocuments(scopeFilter, filter)
+      .map(doc => ({ ...doc, score: cosineToScore(cosineSimilarity(vector, doc.entry.vector)) }))
+      .filter(hit => hit.score >= minScore);
+    return bestPerMemory(hits)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, safeLimit);
+  }
+
+  /**
+   * Okapi BM25 over the live memories in scope and their chunks. Document
+   * frequencies are computed per query, which is fine at the sizes this
+   * store is meant for.
+   */
+  async bm25Search(query: string, limit = 5, scopeFilter?: string[], filter?: MemoryFilter): Promise<MemorySearchResult[]> {
+    const safeLimit = clampInt(limit, 1, 20);
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    const k1 = this.config.k1 ?? 1.2;
+    const b = this.config.b ?? 0.75;
+    const docs = this.searchDocuments(scopeFilter, filter).map(doc => ({ ...doc, tokens: tokenize(doc.entry.text) }));
+    if (docs.length === 0) return [];
+
+    const avgLength = docs.reduce((sum, d) => sum + d.tokens.length, 0) / docs.length || 1;
+    const docFrequency = new Map<string, number>();
+    for (const term of terms) {
+      docFrequency.set(term, docs.filter(d => d.tokens.includes(term)).length);
+    }
+
+    const hits: Array<{ entry: MemoryEntry; parent?: MemoryEntry; score: number }> = [];
+    for (const { entry, parent, tokens } of docs) {
+      let raw = 0;
+      for (const term of terms) {
+        const tf = tokens.filter(t => t === term).length;
+        if (tf === 0) continue;
+        const df = docFrequency.get(term)!;
+        const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+        raw += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * tokens.length / avgLength));
+      }
+      if (raw > 0) hits.push({ entry, parent, score: normalizeBm25Score(raw) });
+    }
+
+    return bestPerMemory(hits).sort((x, y) => y.score - x.score).slice(0, safeLimit);
+  }
+
+  async list(scopeFilter?: string[], category?: string, limit = 20, offset = 0, filter?: MemoryFilter): Promise<MemoryEntry[]> {
+    return this.listable(scopeFilter, category, filter)
+      .slice(offset, offset + limit)
+      .map(entry => copyEntry(entry, false));
+  }
+
+  async listCursor(options: ListOptions = {}): Promise<ListPage> {
+    const limit = clampInt(options.limit ?? 20, 1, MAX_LIST_PAGE);
+    let entries = this.listable(options.scopeFilter, options.category, options.filter);
+    if (options.cursor) {
+      const after = decodeListCursor(options.cursor);
+      entries = entries.filter(entry => compareListKeys(after, entry) < 0);
+    }
+
+    const page = entries.slice(0, limit);
+    return {
+      entries: page.map(entry => copyEntry(entry, false)),
+      nextCursor: entries.length > limit ? encodeListCursor(page[page.length - 1]) : null,
+    };
+  }
+
+  async *iterate(options: Omit<ListOptions, "cursor" | "limit"> & { batchSize?: number } = {}): AsyncGenerator<MemoryEntry> {
+    let cursor: string | null = null;
+    do {
+      const page: ListPage = await this.listCursor({ ...options, limit: options.batchSize ?? ITERATE_BATCH_SIZE, cursor });
+      yield* page.entries;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  async stats(scopeFilter?: string[], filter?: MemoryFilter): Promise<MemoryStats> {
+    const entries = this.searchable(scopeFilter, filter);
+    const scopeCounts: Record<string, number> = {};
+    const categoryCounts: Record<string, number> = {};
+    for (const entry of entries) {
+      scopeCounts[entry.scope] = (scopeCounts[entry.scope] || 0) + 1;
+      categoryCounts[entry.category] = (categoryCounts[entry.category] || 0) + 1;
+    }
+
+    const hotMemories = entries
+      .filter(e => (e.accessCount ?? 0) > 0)
+      .sort((a, b) => (b.accessCount! - a.accessCount!) || ((b.lastAccessedAt || 0) - (a.lastAccessedAt || 0)))
+      .slice(0, HOT_MEMORY_LIMIT)
+      .map(e => ({ id: e.id, text: e.text, accessCount: e.accessCount!, lastAccessedAt: e.lastAccessedAt ?? null }));
+
+    return {
+      totalCount: entries.length,
+      scopeCounts,
+      categoryCounts,
+      neverRecalledCount: entries.filter(e => !e.accessCount).length,
+      hotMemories,
+    };
+  }
+
+  /** Without a configured vectorDim, vectors are checked against the first memory's */
+  async healthReport(scopeFilter?: string[]): Promise<HealthReport> {
+    const generatedAt = Date.now();
+    const entries = this.searchable(scopeFilter);
+    const collector = new ContentStatsCollector(this.config.vectorDim ?? entries[0]?.vector.length ?? 0, generatedAt);
+    for (const entry of entries) collector.add(entry);
+    return { ...(await this.stats(scopeFilter)), generatedAt, content: collector.result(), storage: null };
+  }
+
+  async findForRetention(criteria: RetentionCriteria): Promise<MemoryEntry[]> {
+    return [...this.entries.values()]
+      .filter(e => !e.deletedAt)
+      .filter(e => !criteria.scope || e.scope === criteria.scope)
+      .filter(e => !criteria.category || e.category === criteria.category)
+      .filter(e => criteria.importanceBelow === undefined || e.importance < criteria.importanceBelow)
+      .filter(e => criteria.timestampBefore === undefined || e.timestamp < criteria.timestampBefore)
+      .filter(e => criteria.expiresBefore === undefined || (e.expiresAt != null && e.expiresAt <= criteria.expiresBefore))
+      .map(e => copyEntry(e, false));
+  }
+
+  /** There is no ANN index; every search is a brute-force scan */
+  async vectorIndexStatus(): Promise<VectorIndexStatus> {
+    return { exists: false, rowCount: this.entries.size, indexedRows: 0, unindexedRows: this.entries.size };
+  }
+
+  /** Entries hold a single vector each; the caller keeps to one model */
+  async servingEmbedding(): Promise<EmbeddingModelRef | null> {
+    return null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Access Tracking
+  // --------------------------------------------------------------------------
+
+  /** Applied right away; there is no write to batch */
+  recordAccess(ids: string[]): void {
+    const now = Date.now();
+    for (const id of ids) {
+      const entry = this.entries.get(id);
+      if (!entry || entry.deletedAt) continue;
+      entry.accessCount = (entry.accessCount ?? 0) + 1;
+      entry.lastAccessedAt = now;
+    }
+  }
+
+  async flushAccess(): Promise<void> {}
+
+  // --------------------------------------------------------------------------
+  // Trash and History
+  // --------------------------------------------------------------------------
+
+  async listTrash(scopeFilter?: string[], limit = 20, offset = 0): Promise<MemoryEntry[]> {
+    return [...this.entries.values()]
+      .filter(e => e.deletedAt && matchesScope(e, scopeFilter))
+      .sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0))
+      .slice(offset, offset + limit)
+      .map(e => copyEntry(e, false));
+  }
+
+  async restore(id: string, scopeFilter?: string[]): Promise<MemoryEntry | null> {
+    const resolved = await this.resolveId(id, { scopeFilter, trashed: true });
+    const entry = resolved ? this.entries.get(resolved) : undefined;
+    if (!entry) return null;
+
+    entry.deletedAt = null;
+    this.recordRevision([entry], "restore");
+    return copyEntry(entry);
+  }
+
+  async purgeTrash(scopeFilter?: string[], deletedBefore?: number): Promise<number> {
+    const purged = [...this.entries.values()]
+      .filter(e => e.deletedAt && matchesScope(e, scopeFilter))
+      .filter(e => !deletedBefore || e.deletedAt! < deletedBefore);
+    for (const entry of purged) {
+      this.entries.delete(entry.id);
+      this.chunks.delete(entry.id);
+    }
+    return purged.length;
+  }
+
+  async getHistory(id: string, scopeFilter?: string[]): Promise<MemoryRevision[]> {
+    assertIdOrPrefix(id);
+    const needle = id.toLowerCase();
+    const matching = this.revisions.filter(r => r.memoryId.startsWith(needle));
+    return selectMemoryRevisions(id, matching, scopeFilter)
+      .map(r => ({ ...r, vector: [...r.vector], tags: [...r.tags] }));
+  }
+
+  async rollback(id: string, revision: number, scopeFilter?: string[]): Promise<MemoryEntry> {
+    const revisions = await this.getHistory(id, scopeFilter);
+    if (revisions.length === 0) {
+      throw new Error(`No history found for memory ${id}`);
+    }
+
+    const target = revisions.find(r => r.revision === revision);
+    if (!target) {
+      throw new Error(`Revision ${revision} not found for memory ${revisions[0].memoryId}`);
+    }
+
+    const current = this.entries.get(target.memoryId);
+    const restored: MemoryEntry = {
+      id: target.memoryId,
+      text: target.text,
+      vector: target.vector,
+      category: target.category,
+      scope: target.scope,
+      importance: target.importance,
+      timestamp: target.timestamp,
+      metadata: target.metadata,
+      tags: target.tags,
+      updatedAt: Date.now(),
+      accessCount: current?.accessCount ?? 0,
+      lastAccessedAt: current?.lastAccessedAt ?? null,
+    };
+
+    this.entries.set(restored.id, copyEntry(restored));
+    this.chunks.delete(restored.id);
+    this.recordRevision([restored], "rollback");
+    return restored;
+  }
+
+  // --------------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------------
+
+  /** Live, unexpired memories passing the scope, tag, metadata and time filters */
+  private searchable(scopeFilter?: string[], filter?: MemoryFilter): MemoryEntry[] {
+    const now = Date.now();
+    return [...this.entries.values()].filter(e =>
+      isLive(e, now) && matchesScope(e, scopeFilter) && matchesTags(e, filter) && matchesWhere(e, filter) && matchesTimeRange(e, filter));
+  }
+
+  /** Searchable memories plus the chunks of each, which carry their parent */
+  private searchDocuments(scopeFilter?: string[], filter?: MemoryFilter): Array<{ entry: MemoryEntry; parent?: MemoryEntry }> {
+    return this.searchable(scopeFilter, filter).flatMap(entry => [
+      { entry },
+      ...(this.chunks.get(entry.id) ?? []).map(chunk => ({ entry: chunk, parent: entry })),
+    ]);
+  }
+
+  /** Searchable memories in list order, newest first */
+  private listable(scopeFilter?: string[], category?: string, filter?: MemoryFilter): MemoryEntry[] {
+    return this.searchable(scopeFilter, filter)
+      .filter(e => !category || e.category === category)
+      .sort(compareListKeys);
+  }
+
+  private remove(ids: string[]): void {
+    const removed: MemoryEntry[] = [];
+    const now = Date.now();
+    for (const id of ids) {
+      const entry = this.entries.get(id);
+      if (!entry) continue;
+      removed.push(copyEntry(entry));
+      if (this.softDeleteEnabled) {
+        entry.deletedAt = now;
+      } else {
+        this.entries.delete(id);
+        this.chunks.delete(id);
+      }
+    }
+    this.recordRevision(removed, "delete");
+  }
+
+  private normalizeImported(entry: MemoryEntry): MemoryEntry {
+    if (!entry.id || typeof entry.id !== "string") {
+      throw new Error("importEntry requires a stable id");
+    }
+    this.assertVectorDim(entry.vector);
+
+    return {
+      ...entry,
+      scope: entry.scope || "global",
+      importance: Number.isFinite(entry.importance) ? entry.importance : 0.7,
+      timestamp: Number.isFinite(entry.timestamp) ? entry.timestamp : Date.now(),
+      metadata: entry.metadata || "{}",
+      tags: normalizeTags(entry.tags),
+      deletedAt: null,
+      expiresAt: entry.expiresAt ?? null,
+    };
+  }
+
+  private assertVectorDim(vector: number[] | undefined): void {
+    const { vectorDim } = this.config;
+    if (vectorDim === undefined) return;
+    if (!Array.isArray(vector) || vector.length !== vectorDim) {
+      throw new Error(
+        `Vector dimension mismatch: expected ${vectorDim}, got ${Array.isArray(vector) ? vector.length : "non-array"}`,
+      );
+    }
+  }
+
+  private recordRevision(entries: MemoryEntry[], action: RevisionAction): void {
+    const changedAt = Date.now();
+    for (const entry of entries) {
+      const previous = this.revisions.filter(r => r.memoryId === entry.id).length;
+      this.revisions.push({
+        id: randomUUID(),
+        memoryId: entry.id,
+        revision: previous + 1,
+        action,
+        text: entry.text,
+        vector: [...entry.vector],
+        category: entry.category,
+        scope: entry.scope,
+        importance: entry.importance,
+        timestamp: entry.timestamp,
+        metadata: entry.metadata || "{}",
+        tags: [...(entry.tags ?? [])],
+        changedAt,
+      });
+    }
+  }
+}
+
+export function createInMemoryStore(config?: InMemoryStoreConfig): InMemoryStore {
+  return new InMemoryStore(config);
+}
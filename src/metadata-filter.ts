@@ -0,0 +1,345 @@
+/**
+ * Metadata Filters
+ * A small filter language over the JSON metadata of a memory, e.g.
+ * `metadata.type = "session-summary" AND metadata.sessionId IN ("a", "b")`
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MetadataValue = string | number | boolean | null;
+
+export type ComparisonOp = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+/** Parsed filter; `path` is the key path below `metadata` */
+export type MetadataFilter =
+  | { kind: "and" | "or"; clauses: MetadataFilter[] }
+  | { kind: "compare"; path: string[]; op: ComparisonOp; value: MetadataValue }
+  | { kind: "in"; path: string[]; negated: boolean; values: MetadataValue[] }
+  | { kind: "null"; path: string[]; negated: boolean };
+
+/**
+ * Metadata keys copied into their own plaintext columns on write, so filters
+ * on them run in the database instead of after reading every row.
+ */
+export const PROMOTED_METADATA_COLUMNS: Readonly<Record<string, string>> = {
+  type: "metadataType",
+  sessionId: "metadataSessionId",
+};
+
+const MAX_FILTER_LENGTH = 2000;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+type Token =
+  | { type: "word"; value: string; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "number"; value: number; pos: number }
+  | { type: "punct"; value: string; pos: number }
+  | { type: "end"; pos: number };
+
+const WORD_PATTERN = /[A-Za-z_][A-Za-z0-9_.-]*/y;
+const NUMBER_PATTERN = /-?\d+(\.\d+)?([eE][+-]?\d+)?/y;
+const PUNCT_PATTERN = /!=|<>|<=|>=|[=<>(),]/y;
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+function fail(message: string, pos: number): never {
+  throw new Error(`Invalid metadata filter at position ${pos + 1}: ${message}`);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const match = (pattern: RegExp): string | null => {
+    pattern.lastIndex = pos;
+    const m = pattern.exec(input);
+    return m ? m[0] : null;
+  };
+
+  while (pos < input.length) {
+    const ch = input[pos];
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = pos;
+      let value = "";
+      pos++;
+      while (pos < input.length && input[pos] !== ch) {
+        if (input[pos] === "\\" && pos + 1 < input.length) pos++;
+        value += input[pos++];
+      }
+      if (pos >= input.length) fail("unterminated string", start);
+      pos++;
+      tokens.push({ type: "string", value, pos: start });
+      continue;
+    }
+
+    const number = match(NUMBER_PATTERN);
+    if (number) {
+      tokens.push({ type: "number", value: Number(number), pos });
+      pos += number.length;
+      continue;
+    }
+
+    const word = match(WORD_PATTERN);
+    if (word) {
+      tokens.push({ type: "word", value: word, pos });
+      pos += word.length;
+      continue;
+    }
+
+    const punct = match(PUNCT_PATTERN);
+    if (punct) {
+      tokens.push({ type: "punct", value: punct === "<>" ? "!=" : punct, pos });
+      pos += punct.length;
+      continue;
+    }
+
+    fail(`unexpected character "${ch}"`, pos);
+  }
+
+  tokens.push({ type: "end", pos: input.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): MetadataFilter {
+    const filter = this.parseOr();
+    const next = this.peek();
+    if (next.type !== "end") fail("expected AND, OR or end of filter", next.pos);
+    return filter;
+  }
+
+  private parseOr(): MetadataFilter {
+    const clauses = [this.parseAnd()];
+    while (this.acceptKeyword("OR")) clauses.push(this.parseAnd());
+    return clauses.length === 1 ? clauses[0] : { kind: "or", clauses };
+  }
+
+  private parseAnd(): MetadataFilter {
+    const clauses = [this.parsePrimary()];
+    while (this.acceptKeyword("AND")) clauses.push(this.parsePrimary());
+    return clauses.length === 1 ? clauses[0] : { kind: "and", clauses };
+  }
+
+  private parsePrimary(): MetadataFilter {
+    if (this.acceptPunct("(")) {
+      const inner = this.parseOr();
+      this.expectPunct(")");
+      return inner;
+    }
+
+    const path = this.parsePath();
+
+    if (this.acceptKeyword("IS")) {
+      const negated = this.acceptKeyword("NOT");
+      this.expectKeyword("NULL");
+      return { kind: "null", path, negated };
+    }
+
+    const negated = this.acceptKeyword("NOT");
+    if (negated || this.peekKeyword("IN")) {
+      this.expectKeyword("IN");
+      this.expectPunct("(");
+      const values = [this.parseValue()];
+      while (this.acceptPunct(",")) values.push(this.parseValue());
+      this.expectPunct(")");
+      return { kind: "in", path, negated, values };
+    }
+
+    const token = this.next();
+    if (token.type !== "punct" || !["=", "!=", "<", "<=", ">", ">="].includes(token.value)) {
+      fail("expected a comparison operator, IN or IS", token.pos);
+    }
+    return { kind: "compare", path, op: token.value as ComparisonOp, value: this.parseValue() };
+  }
+
+  private parsePath(): string[] {
+    const token = this.next();
+    if (token.type !== "word") fail("expected a metadata field", token.pos);
+    const [root, ...path] = token.value.split(".");
+    if (root !== "metadata" || path.length === 0) {
+      fail(`field "${token.value}" must start with "metadata."`, token.pos);
+    }
+    if (!path.every(key => KEY_PATTERN.test(key))) fail(`invalid field "${token.value}"`, token.pos);
+    return path;
+  }
+
+  private parseValue(): MetadataValue {
+    const token = this.next();
+    if (token.type === "string" || token.type === "number") return token.value;
+    if (token.type === "word") {
+      const keyword = token.value.toLowerCase();
+      if (keyword === "true") return true;
+      if (keyword === "false") return false;
+      if (keyword === "null") return null;
+    }
+    fail("expected a string, number, true, false or null", token.pos);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== "end") this.index++;
+    return token;
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === "word" && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.peekKeyword(keyword)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) fail(`expected ${keyword}`, this.peek().pos);
+  }
+
+  private acceptPunct(value: string): boolean {
+    const token = this.peek();
+    if (token.type !== "punct" || token.value !== value) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) fail(`expected "${value}"`, this.peek().pos);
+  }
+}
+
+/**
+ * Parse a filter expression. Conditions compare `metadata.<key>[.<key>...]`
+ * with `=`, `!=`, `<`, `<=`, `>`, `>=`, `IN (...)`, `NOT IN (...)`,
+ * `IS NULL` or `IS NOT NULL`, and combine with AND, OR and parentheses.
+ * Keywords are case-insensitive. Throws with the position of the first error.
+ */
+export function parseMetadataFilter(input: string): MetadataFilter {
+  if (input.length > MAX_FILTER_LENGTH) {
+    throw new Error(`Invalid metadata filter: longer than ${MAX_FILTER_LENGTH} characters`);
+  }
+  if (!input.trim()) throw new Error("Invalid metadata filter: empty");
+  return new Parser(tokenize(input)).parse();
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function parseMetadata(metadata: string | undefined): unknown {
+  try {
+    return JSON.parse(metadata || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function resolvePath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== "object" || current === null || Array.isArray(current)) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/** Missing keys compare equal to null */
+function valuesEqual(actual: unknown, expected: MetadataValue): boolean {
+  return (actual ?? null) === expected;
+}
+
+function compareOrdered(actual: unknown, op: ComparisonOp, expected: MetadataValue): boolean {
+  const comparable = (typeof actual === "number" && typeof expected === "number")
+    || (typeof actual === "string" && typeof expected === "string");
+  if (!comparable) return false;
+  const a = actual as number | string;
+  const b = expected as number | string;
+  switch (op) {
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    default: return a >= b;
+  }
+}
+
+function evaluate(filter: MetadataFilter, metadata: unknown): boolean {
+  switch (filter.kind) {
+    case "and": return filter.clauses.every(clause => evaluate(clause, metadata));
+    case "or": return filter.clauses.some(clause => evaluate(clause, metadata));
+    case "null": return (resolvePath(metadata, filter.path) == null) !== filter.negated;
+    case "in": {
+      const actual = resolvePath(metadata, filter.path);
+      return filter.values.some(value => valuesEqual(actual, value)) !== filter.negated;
+    }
+    case "compare": {
+      const actual = resolvePath(metadata, filter.path);
+      if (filter.op === "=") return valuesEqual(actual, filter.value);
+      if (filter.op === "!=") return !valuesEqual(actual, filter.value);
+      return compareOrdered(actual, filter.op, filter.value);
+    }
+  }
+}
+
+/**
+ * True when the memory's metadata JSON satisfies the filter. Values compare
+ * strictly (the string "1" does not equal the number 1); unparseable
+ * metadata behaves like `{}`.
+ */
+export function matchesMetadataFilter(filter: MetadataFilter, metadata: string | undefined): boolean {
+  return evaluate(filter, parseMetadata(metadata));
+}
+
+// ============================================================================
+// Promoted Columns
+// ============================================================================
+
+/** Values of the promoted columns for a memory; non-string values are left out */
+export function promotedMetadataValues(metadata: string | undefined): Record<string, string | null> {
+  const parsed = parseMetadata(metadata);
+  const values: Record<string, string | null> = {};
+  for (const [key, column] of Object.entries(PROMOTED_METADATA_COLUMNS)) {
+    const value = resolvePath(parsed, [key]);
+    values[column] = typeof value === "string" ? value : null;
+  }
+  return values;
+}
+
+/**
+ * Equality conditions on promoted keys that every match must satisfy: the
+ * `=` and `IN` clauses at the top level of an AND. The database can apply
+ * these up front; the full filter is still evaluated on the rows it returns.
+ */
+export function promotedEqualities(filter: MetadataFilter): Array<{ column: string; values: string[] }> {
+  const clauses = filter.kind === "and" ? filter.clauses : [filter];
+  const equalities: Array<{ column: string; values: string[] }> = [];
+  for (const clause of clauses) {
+    if (!("path" in clause) || clause.path.length !== 1) continue;
+    if (!Object.hasOwn(PROMOTED_METADATA_COLUMNS, clause.path[0])) continue;
+    const column = PROMOTED_METADATA_COLUMNS[clause.path[0]];
+
+    let values: MetadataValue[] | null = null;
+    if (clause.kind === "compare" && clause.op === "=") values = [clause.value];
+    if (clause.kind === "in" && !clause.negated) values = clause.values;
+    if (values && values.every((v): v is string => typeof v === "string")) {
+      equalities.push({ column, values: values as string[] });
+    }
+  }
+  return equalities;
+}
@@ -6,7 +6,7 @@
 import { homedir } from "node:os";
 import { join } from "node:path";
 import fs from "node:fs/promises";
-import type { MemoryStore, MemoryEntry } from "./store.js";
+import type { IMemoryStore, MemoryEntry } from "./store-interface.js";
 import { loadLanceDB } from "./store.js";
 
 // ============================================================================
@@ -56,7 +56,7 @@ function getDefaultLegacyPaths(): string[] {
 // ============================================================================
 
 export class MemoryMigrator {
-  constructor(private targetStore: MemoryStore) {}
+  constructor(private targetStore: IMemoryStore) {}
 
   async migrate(options: MigrationOptions = {}): Promise<MigrationResult> {
     const result: MigrationResult = {
@@ -253,11 +253,11 @@ export class MemoryMigrator {
 // Factory
 // ============================================================================
 
-export function createMigrator(targetStore: MemoryStore): MemoryMigrator {
+export function createMigrator(targetStore: IMemoryStore): MemoryMigrator {
   return new MemoryMigrator(targetStore);
 }
 
-export async function migrateFromLegacy(targetStore: MemoryStore, options: MigrationOptions = {}): Promise<MigrationResult> {
+export async function migrateFromLegacy(targetStore: IMemoryStore, options: MigrationOptions = {}): Promise<MigrationResult> {
   return createMigrator(targetStore).migrate(options);
 }
 
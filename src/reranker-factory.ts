@@ -0,0 +1,25 @@
+/**
+ * Reranker Provider Factory
+ * Creates the correct reranker implementation based on config.
+ */
+
+import { RERANKER_PROVIDERS, type IReranker, type RerankerConfig } from "./reranker-interface.js";
+import { CohereReranker, JinaReranker, VoyageReranker } from "./reranker.js";
+import { LlmReranker } from "./reranker-llm.js";
+
+export function createRerankerFromConfig(config: RerankerConfig): IReranker {
+  switch (config.provider) {
+    case "voyage":
+      return new VoyageReranker(config);
+    case "jina":
+      return new JinaReranker(config);
+    case "cohere":
+      return new CohereReranker(config);
+    case "llm":
+      return new LlmReranker(config);
+    default:
+      throw new Error(
+        `Unknown reranker provider: ${String(config.provider)}. Supported providers: ${RERANKER_PROVIDERS.join(", ")}`,
+      );
+  }
+}
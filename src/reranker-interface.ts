@@ -0,0 +1,45 @@
+/**
+ * Reranker Provider Interface
+ * Abstraction layer for switching between Voyage AI, Jina, Cohere-compatible
+ * and LLM rerankers.
+ */
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const RERANKER_PROVIDERS = ["voyage", "jina", "cohere", "llm"] as const;
+
+export type RerankerProvider = typeof RERANKER_PROVIDERS[number];
+
+export interface RerankerConfig {
+  provider: RerankerProvider;
+  /** Empty for endpoints without authentication */
+  apiKey: string;
+  model: string;
+  /** Rerank endpoint URL; for llm, the gateway base URL (/v1/chat/completions is appended) */
+  baseUrl?: string;
+  timeoutMs: number;
+}
+
+// ============================================================================
+// Reranker Interface
+// ============================================================================
+
+export interface RerankScore {
+  /** Position of the document in the rerank() input */
+  index: number;
+  /** Relevance to the query, 0 to 1 */
+  score: number;
+}
+
+export interface IReranker {
+  readonly provider: RerankerProvider;
+  readonly model: string;
+  /**
+   * Scores for the documents relevant to the query, most relevant first.
+   * Documents the provider leaves out were judged less relevant. Throws on
+   * API errors and timeouts.
+   */
+  rerank(query: string, documents: string[]): Promise<RerankScore[]>;
+}
@@ -0,0 +1,110 @@
+/**
+ * LLM Reranker
+ * Listwise reranking through an OpenAI-compatible chat completions gateway
+ * (the capture LLM gateway by default): the model sees every candidate at
+ * once and returns their order.
+ */
+
+import { normalizeBaseUrl } from "./utils.js";
+import type { IReranker, RerankerConfig, RerankScore } from "./reranker-interface.js";
+
+// ============================================================================
+// Prompt
+// ============================================================================
+
+const DEFAULT_LLM_GATEWAY_URL = "http://localhost:3000";
+
+/** Characters of each candidate shown to the model */
+const MAX_DOCUMENT_CHARS = 500;
+
+const LLM_RERANK_PROMPT = `You rank memory snippets by how well they answer a search query.
+
+Reply with JSON only:
+{"ranking": [snippet numbers, most relevant first]}
+
+Leave out snippets that are unrelated to the query.`;
+
+export function buildLlmRerankPrompt(query: string, documents: string[]): string {
+  const snippets = documents.map((doc, i) => `[${i}] ${doc.slice(0, MAX_DOCUMENT_CHARS).replace(/\s+/g, " ").trim()}`);
+  return `Query: ${query}\n\nSnippets:\n${snippets.join("\n")}`;
+}
+
+/**
+ * Scores from the model's ranking: 1 for first place, falling evenly by
+ * position over all candidates. Unknown and repeated numbers are skipped.
+ */
+export function parseLlmRanking(content: string, count: number): RerankScore[] {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) throw new Error("LLM rerank: response is not JSON");
+
+  let ranking: unknown;
+  try {
+    ranking = (JSON.parse(jsonMatch[0]) as { ranking?: unknown }).ranking;
+  } catch {
+    throw new Error("LLM rerank: response is not JSON");
+  }
+  if (!Array.isArray(ranking)) throw new Error("LLM rerank: invalid response shape");
+
+  const seen = new Set<number>();
+  for (const index of ranking) {
+    if (Number.isInteger(index) && index >= 0 && index < count) seen.add(index);
+  }
+  return [...seen].map((index, position) => ({ index, score: 1 - position / count }));
+}
+
+// ============================================================================
+// LlmReranker Class
+// ============================================================================
+
+export class LlmReranker implements IReranker {
+  readonly provider = "llm" as const;
+  readonly model: string;
+  private readonly url: string;
+
+  constructor(private readonly config: RerankerConfig) {
+    this.model = config.model;
+    this.url = `${normalizeBaseUrl(config.baseUrl || DEFAULT_LLM_GATEWAY_URL)}/v1/chat/completions`;
+  }
+
+  async rerank(query: string, documents: string[]): Promise<RerankScore[]> {
+    if (documents.length === 0) return [];
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.config.apiKey) headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          messages: [
+            { role: "system", content: LLM_RERANK_PROMPT },
+            { role: "user", content: buildLlmRerankPrompt(query, documents) },
+          ],
+          max_tokens: 256,
+          temperature: 0,
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`LLM rerank gateway returned ${response.status}`);
+      }
+
+      const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+      const content = data.choices?.[0]?.message?.content?.trim();
+      if (!content) throw new Error("LLM rerank: empty response");
+      return parseLlmRanking(content, documents.length);
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error(`LLM rerank timed out (${this.config.timeoutMs / 1000}s)`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
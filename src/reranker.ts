@@ -0,0 +1,147 @@
+/**
+ * Rerank API Providers
+ * Voyage AI, Jina and Cohere-compatible /rerank endpoints (Cohere, Hugging
+ * Face TEI and other self-hosted servers). Uses native fetch — no SDK dependency.
+ */
+
+import type { IReranker, RerankerConfig, RerankScore } from "./reranker-interface.js";
+
+// ============================================================================
+// Shared Request Handling
+// ============================================================================
+
+const DEFAULT_VOYAGE_RERANK_URL = "https://api.voyageai.com/v1/rerank";
+const DEFAULT_JINA_RERANK_URL = "https://api.jina.ai/v1/rerank";
+const DEFAULT_COHERE_RERANK_URL = "https://api.cohere.com/v2/rerank";
+
+async function postRerank(
+  label: string,
+  url: string,
+  apiKey: string,
+  body: Record<string, unknown>,
+  timeoutMs: number,
+): Promise<unknown> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`${label} rerank API returned ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new Error(`${label} rerank timed out (${timeoutMs / 1000}s)`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Scores from a response's result list, accepting relevance_score (Voyage,
+ * Jina, Cohere) or score (TEI). Entries with an unknown index are dropped.
+ */
+export function parseRerankScores(label: string, items: unknown, count: number): RerankScore[] {
+  if (!Array.isArray(items)) {
+    throw new Error(`${label} rerank: invalid response shape`);
+  }
+  const scores: RerankScore[] = [];
+  for (const item of items) {
+    const index = item?.index;
+    const score = typeof item?.relevance_score === "number" ? item.relevance_score : item?.score;
+    if (Number.isInteger(index) && index >= 0 && index < count && typeof score === "number" && Number.isFinite(score)) {
+      scores.push({ index, score });
+    }
+  }
+  return scores.sort((a, b) => b.score - a.score);
+}
+
+// ============================================================================
+// Voyage AI
+// ============================================================================
+
+export class VoyageReranker implements IReranker {
+  readonly provider = "voyage" as const;
+  readonly model: string;
+
+  constructor(private readonly config: RerankerConfig) {
+    this.model = config.model;
+  }
+
+  async rerank(query: string, documents: string[]): Promise<RerankScore[]> {
+    if (documents.length === 0) return [];
+    const data = await postRerank("Voyage", this.config.baseUrl || DEFAULT_VOYAGE_RERANK_URL, this.config.apiKey, {
+      model: this.model,
+      query,
+      documents,
+      top_k: documents.length,
+    }, this.config.timeoutMs) as { data?: unknown };
+    return parseRerankScores("Voyage", data?.data, documents.length);
+  }
+}
+
+// ============================================================================
+// Jina
+// ============================================================================
+
+export class JinaReranker implements IReranker {
+  readonly provider = "jina" as const;
+  readonly model: string;
+
+  constructor(private readonly config: RerankerConfig) {
+    this.model = config.model;
+  }
+
+  async rerank(query: string, documents: string[]): Promise<RerankScore[]> {
+    if (documents.length === 0) return [];
+    const data = await postRerank("Jina", this.config.baseUrl || DEFAULT_JINA_RERANK_URL, this.config.apiKey, {
+      model: this.model,
+      query,
+      documents,
+      top_n: documents.length,
+      return_documents: false,
+    }, this.config.timeoutMs) as { results?: unknown };
+    return parseRerankScores("Jina", data?.results, documents.length);
+  }
+}
+
+// ============================================================================
+// Cohere-compatible
+// ============================================================================
+
+/**
+ * Cohere's rerank API or a server with the same request shape. Self-hosted
+ * servers disagree on where the documents go, so requests to a custom
+ * baseUrl carry them as both documents (Cohere, vLLM, Infinity) and texts
+ * (TEI), and a bare result array (TEI) is accepted as well.
+ */
+export class CohereReranker implements IReranker {
+  readonly provider = "cohere" as const;
+  readonly model: string;
+
+  constructor(private readonly config: RerankerConfig) {
+    this.model = config.model;
+  }
+
+  async rerank(query: string, documents: string[]): Promise<RerankScore[]> {
+    if (documents.length === 0) return [];
+    const body: Record<string, unknown> = { model: this.model, query, documents, top_n: documents.length };
+    if (this.config.baseUrl) body.texts = documents;
+
+    const data = await postRerank(
+      "Cohere-compatible", this.config.baseUrl || DEFAULT_COHERE_RERANK_URL, this.config.apiKey, body, this.config.timeoutMs,
+    ) as { results?: unknown } | unknown[];
+    return parseRerankScores("Cohere-compatible", Array.isArray(data) ? data : data?.results, documents.length);
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Retention Policies
+ * Per-memory expiry and rule-based cleanup, enforced by a periodic sweeper
+ */
+
+import type { IMemoryStore, MemoryEntry } from "./store-interface.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RetentionRule {
+  name: string;
+  scope?: string;
+  category?: MemoryEntry["category"];
+  /** Only memories with importance strictly below this value */
+  maxImportance?: number;
+  /** Key/value pairs that must all be present in the memory's metadata JSON */
+  metadata?: Record<string, string | number | boolean>;
+  /** Minimum age, as a duration string (e.g. "90d") */
+  olderThan: string;
+  olderThanMs: number;
+}
+
+export interface RetentionConfig {
+  enabled: boolean;
+  sweepIntervalMinutes: number;
+  rules: RetentionRule[];
+}
+
+export interface RetentionMatch {
+  entry: MemoryEntry;
+  /** "expired" for memories past their expiresAt, otherwise the rule name */
+  reason: string;
+}
+
+export interface RetentionPlan {
+  matches: RetentionMatch[];
+  counts: Record<string, number>;
+}
+
+interface RetentionLogger {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+}
+
+export const EXPIRED_REASON = "expired";
+
+export const DEFAULT_RETENTION_CONFIG: RetentionConfig = {
+  enabled: true,
+  sweepIntervalMinutes: 60,
+  rules: [],
+};
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function metadataMatches(metadata: string | undefined, expected: Record<string, string | number | boolean>): boolean {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(metadata || "{}");
+  } catch {
+    return false;
+  }
+  if (!parsed || typeof parsed !== "object") return false;
+  return Object.entries(expected).every(([key, value]) => parsed[key] === value);
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Work out which memories retention would remove right now. Each memory is
+ * attributed to the first reason that matches it: expiry first, then rules in
+ * config order.
+ */
+export async function planRetention(
+  store: IMemoryStore,
+  rules: RetentionRule[],
+  now = Date.now(),
+): Promise<RetentionPlan> {
+  const matches: RetentionMatch[] = [];
+  const counts: Record<string, number> = {};
+  const seen = new Set<string>();
+
+  const add = (entries: MemoryEntry[], reason: string) => {
+    for (const entry of entries) {
+      if (seen.has(entry.id)) continue;
+      seen.add(entry.id);
+      matches.push({ entry, reason });
+      counts[reason] = (counts[reason] || 0) + 1;
+    }
+  };
+
+  add(await store.findForRetention({ expiresBefore: now }), EXPIRED_REASON);
+
+  for (const rule of rules) {
+    const candidates = await store.findForRetention({
+      scope: rule.scope,
+      category: rule.category,
+      importanceBelow: rule.maxImportance,
+      timestampBefore: now - rule.olderThanMs,
+    });
+    const metadata = rule.metadata;
+    add(metadata ? candidates.filter(e => metadataMatches(e.metadata, metadata)) : candidates, rule.name);
+  }
+
+  return { matches, counts };
+}
+
+// ============================================================================
+// Sweeper
+// ============================================================================
+
+export class RetentionSweeper {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly store: IMemoryStore,
+    private readonly config: RetentionConfig,
+    private readonly logger?: RetentionLogger,
+  ) {}
+
+  preview(now = Date.now()): Promise<RetentionPlan> {
+    return planRetention(this.store, this.config.rules, now);
+  }
+
+  /**
+   * Remove everything the current plan matches. Removal goes through the
+   * store's normal delete path, so soft delete and revision history apply.
+   */
+  async sweep(now = Date.now()): Promise<RetentionPlan & { removed: number }> {
+    const plan = await this.preview(now);
+    const removed = await this.store.deleteMany(plan.matches.map(m => m.entry.id));
+    return { ...plan, removed };
+  }
+
+  start(): void {
+    if (!this.config.enabled || this.timer) return;
+    const intervalMs = Math.max(1, this.config.sweepIntervalMinutes) * 60_000;
+    this.timer = setInterval(() => void this.runScheduled(), intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runScheduled(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const result = await this.sweep();
+      if (result.removed > 0) {
+        const summary = Object.entries(result.counts).map(([reason, count]) => `${reason}: ${count}`).join(", ");
+        this.logger?.info(`memory-lancedb-voyage: retention removed ${result.removed} memories (${summary})`);
+      }
+    } catch (err) {
+      this.logger?.warn(`memory-lancedb-voyage: retention sweep failed: ${String(err)}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export function createRetentionSweeper(
+  store: IMemoryStore,
+  config: RetentionConfig = DEFAULT_RETENTION_CONFIG,
+  logger?: RetentionLogger,
+): RetentionSweeper {
+  return new RetentionSweeper(store, config, logger);
+}
@@ -1,11 +1,14 @@
 /**
  * Hybrid Retrieval System
- * Vector search + BM25 full-text search with RRF fusion, Voyage AI reranking
+ * Vector search + BM25 full-text search with configurable fusion and reranking
  */
 
-import type { MemoryStore, MemorySearchResult } from "./store.js";
+import type { IMemoryStore, MemoryFilter, MemorySearchResult, VectorSearchOptions } from "./store-interface.js";
+import type { VectorIndexStatus } from "./vector-index.js";
 import type { IEmbedder } from "./embedder-interface.js";
+import type { IReranker } from "./reranker-interface.js";
 import { filterNoise } from "./noise-filter.js";
+import { DEFAULT_RRF_K, fuseResults, thresholdScore, type FusionStrategy, type RankedResult } from "./fusion.js";
 
 // ============================================================================
 // Types & Configuration
@@ -13,19 +16,31 @@ import { filterNoise } from "./noise-filter.js";
 
 export interface RetrievalConfig {
   mode: "hybrid" | "vector";
+  /** How vector and BM25 results are combined in hybrid mode (see fusion.ts) */
+  fusion: FusionStrategy;
   vectorWeight: number;
   bm25Weight: number;
+  /** RRF rank constant (fusion: "rrf") */
+  rrfK: number;
   minScore: number;
   rerank: "cross-encoder" | "lightweight" | "none";
   candidatePoolSize: number;
   recencyHalfLifeDays: number;
   recencyWeight: number;
   filterNoise: boolean;
-  /** Voyage AI reranker model (default: rerank-2) */
+  /** Voyage AI reranker model when retrieval.reranker sets none (default: rerank-2) */
   rerankModel: string;
   lengthNormAnchor: number;
   hardMinScore: number;
   timeDecayHalfLifeDays: number;
+  /** Record accessCount/lastAccessedAt for returned memories */
+  trackAccess: boolean;
+  /** Maximum boost for frequently recalled memories. 0 disables the stage. */
+  accessWeight: number;
+  /** IVF partitions probed per vector query when an ANN index exists */
+  nprobes: number;
+  /** Re-rank this multiple of candidates with exact distances. 0 disables refinement. */
+  refineFactor: number;
 }
 
 export interface RetrievalContext {
@@ -33,6 +48,16 @@ export interface RetrievalContext {
   limit: number;
   scopeFilter?: string[];
   category?: string;
+  tags?: string[];
+  tagMode?: MemoryFilter["tagMode"];
+  /** Parsed metadata filter (see parseMetadataFilter) */
+  where?: MemoryFilter["where"];
+  /** Only memories created at or after this time (epoch ms) */
+  since?: number;
+  /** Only memories created before this time (epoch ms) */
+  until?: number;
+  /** Count this retrieval as a recall of the returned memories (default: true) */
+  trackAccess?: boolean;
 }
 
 export interface RetrievalResult extends MemorySearchResult {
@@ -50,8 +75,10 @@ export interface RetrievalResult extends MemorySearchResult {
 
 export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
   mode: "hybrid",
+  fusion: "legacy",
   vectorWeight: 0.7,
   bm25Weight: 0.3,
+  rrfK: DEFAULT_RRF_K,
   minScore: 0.3,
   rerank: "cross-encoder",
   candidatePoolSize: 20,
@@ -62,8 +89,15 @@ export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
   lengthNormAnchor: 500,
   hardMinScore: 0.35,
   timeDecayHalfLifeDays: 60,
+  trackAccess: true,
+  accessWeight: 0,
+  nprobes: 20,
+  refineFactor: 0,
 };
 
+/** Access count at which the access boost reaches its maximum */
+const ACCESS_COUNT_SATURATION = 20;
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -78,6 +112,11 @@ function clamp01(value: number, fallback: number): number {
   return Math.min(1, Math.max(0, value));
 }
 
+/** Text a result was matched on: the chunk for chunk matches, else the memory */
+function matchedText(result: MemorySearchResult): string {
+  return result.chunk?.text ?? result.entry.text;
+}
+
 function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) throw new Error("Vector dimensions must match for cosine similarity");
   let dotProduct = 0;
@@ -96,32 +135,39 @@ function cosineSimilarity(a: number[], b: number[]): number {
 // Memory Retriever
 // ============================================================================
 
-const VOYAGE_RERANK_URL = "https://api.voyageai.com/v1/rerank";
-
 export class MemoryRetriever {
   constructor(
-    private store: MemoryStore,
+    private store: IMemoryStore,
     private embedder: IEmbedder,
     private config: RetrievalConfig = DEFAULT_RETRIEVAL_CONFIG,
-    private voyageApiKey?: string,
+    private reranker?: IReranker,
+    private previousEmbedder?: IEmbedder,
   ) {}
 
   async retrieve(context: RetrievalContext): Promise<RetrievalResult[]> {
-    const { query, limit, scopeFilter, category } = context;
+    const { query, limit, scopeFilter, category, tags, tagMode, where, since, until } = context;
     const safeLimit = clampInt(limit, 1, 20);
+    const filter: MemoryFilter | undefined = (tags && tags.length > 0) || where || since !== undefined || until !== undefined
+      ? { tags, tagMode, where, since, until }
+      : undefined;
+
+    const results = this.config.mode === "vector" || !this.store.hasFtsSupport
+      ? await this.vectorOnlyRetrieval(query, safeLimit, scopeFilter, category, filter)
+      : await this.hybridRetrieval(query, safeLimit, scopeFilter, category, filter);
 
-    if (this.config.mode === "vector" || !this.store.hasFtsSupport) {
-      return this.vectorOnlyRetrieval(query, safeLimit, scopeFilter, category);
+    if (this.config.trackAccess && context.trackAccess !== false && results.length > 0) {
+      this.store.recordAccess(results.map(r => r.entry.id));
     }
 
-    return this.hybridRetrieval(query, safeLimit, scopeFilter, category);
+    return results;
   }
 
   private async vectorOnlyRetrieval(
-    query: string, limit: number, scopeFilter?: string[], category?: string,
+    query: string, limit: number, scopeFilter?: string[], category?: string, filter?: MemoryFilter,
   ): Promise<RetrievalResult[]> {
-    const queryVector = await this.embedder.embedQuery(query);
-    const results = await this.store.vectorSearch(queryVector, limit, this.config.minScore, scopeFilter);
+    const embedder = await this.queryEmbedder();
+    const queryVector = await embedder.embedQuery(query);
+    const results = await this.store.vectorSearch(queryVector, limit, this.config.minScore, scopeFilter, filter, this.vectorSearchOptions(embedder));
 
     const filtered = category ? results.filter(r => r.entry.category === category) : results;
     const mapped = filtered.map((result, index) => ({
@@ -133,18 +179,19 @@ export class MemoryRetriever {
   }
 
   private async hybridRetrieval(
-    query: string, limit: number, scopeFilter?: string[], category?: string,
+    query: string, limit: number, scopeFilter?: string[], category?: string, filter?: MemoryFilter,
   ): Promise<RetrievalResult[]> {
     const candidatePoolSize = Math.max(this.config.candidatePoolSize, limit * 2);
-    const queryVector = await this.embedder.embedQuery(query);
+    const embedder = await this.queryEmbedder();
+    const queryVector = await embedder.embedQuery(query);
 
     const [vectorResults, bm25Results] = await Promise.all([
-      this.runVectorSearch(queryVector, candidatePoolSize, scopeFilter, category),
-      this.runBM25Search(query, candidatePoolSize, scopeFilter, category),
+      this.runVectorSearch(queryVector, embedder, candidatePoolSize, scopeFilter, category, filter),
+      this.runBM25Search(query, candidatePoolSize, scopeFilter, category, filter),
     ]);
 
-    const fusedResults = this.fuseResults(vectorResults, bm25Results);
-    const filtered = fusedResults.filter(r => r.score >= this.config.minScore);
+    const fusedResults = fuseResults(vectorResults, bm25Results, this.config);
+    const filtered = fusedResults.filter(r => thresholdScore(r, this.config.fusion) >= this.config.minScore);
 
     const reranked = this.config.rerank !== "none"
       ? await this.rerankResults(query, queryVector, filtered.slice(0, limit * 2))
@@ -153,12 +200,28 @@ export class MemoryRetriever {
     return this.applyPostProcessing(reranked, limit);
   }
 
+  private vectorSearchOptions(embedder: IEmbedder): VectorSearchOptions {
+    return { nprobes: this.config.nprobes, refineFactor: this.config.refineFactor, model: embedder.model };
+  }
+
+  /**
+   * Embedder of the model whose column answers searches: the previous model
+   * while the store backfills the current model's column.
+   */
+  private async queryEmbedder(): Promise<IEmbedder> {
+    if (!this.previousEmbedder) return this.embedder;
+    const serving = await this.store.servingEmbedding();
+    return serving?.model === this.previousEmbedder.model && serving.dimensions === this.previousEmbedder.dimensions
+      ? this.previousEmbedder
+      : this.embedder;
+  }
+
   private applyPostProcessing(results: RetrievalResult[], limit: number): RetrievalResult[] {
-    const boosted = this.applyRecencyBoost(results);
+    const boosted = this.applyAccessBoost(this.applyRecencyBoost(results));
     const weighted = this.applyImportanceWeight(boosted);
     const lengthNormalized = this.applyLengthNormalization(weighted);
     const timeDecayed = this.applyTimeDecay(lengthNormalized);
-    const hardFiltered = timeDecayed.filter(r => r.score >= this.config.hardMinScore);
+    const hardFiltered = timeDecayed.filter(r => thresholdScore(r, this.config.fusion) >= this.config.hardMinScore);
     const denoised = this.config.filterNoise
       ? filterNoise(hardFiltered, r => r.entry.text)
       : hardFiltered;
@@ -167,142 +230,71 @@ export class MemoryRetriever {
   }
 
   private async runVectorSearch(
-    queryVector: number[], limit: number, scopeFilter?: string[], category?: string,
-  ): Promise<Array<MemorySearchResult & { rank: number }>> {
-    const results = await this.store.vectorSearch(queryVector, limit, 0.1, scopeFilter);
+    queryVector: number[], embedder: IEmbedder, limit: number, scopeFilter?: string[], category?: string, filter?: MemoryFilter,
+  ): Promise<RankedResult[]> {
+    const results = await this.store.vectorSearch(queryVector, limit, 0.1, scopeFilter, filter, this.vectorSearchOptions(embedder));
     const filtered = category ? results.filter(r => r.entry.category === category) : results;
     return filtered.map((result, index) => ({ ...result, rank: index + 1 }));
   }
 
   private async runBM25Search(
-    query: string, limit: number, scopeFilter?: string[], category?: string,
-  ): Promise<Array<MemorySearchResult & { rank: number }>> {
-    const results = await this.store.bm25Search(query, limit, scopeFilter);
+    query: string, limit: number, scopeFilter?: string[], category?: string, filter?: MemoryFilter,
+  ): Promise<RankedResult[]> {
+    const results = await this.store.bm25Search(query, limit, scopeFilter, filter);
     const filtered = category ? results.filter(r => r.entry.category === category) : results;
     return filtered.map((result, index) => ({ ...result, rank: index + 1 }));
   }
 
-  private fuseResults(
-    vectorResults: Array<MemorySearchResult & { rank: number }>,
-    bm25Results: Array<MemorySearchResult & { rank: number }>,
-  ): RetrievalResult[] {
-    const vectorMap = new Map<string, MemorySearchResult & { rank: number }>();
-    const bm25Map = new Map<string, MemorySearchResult & { rank: number }>();
-
-    vectorResults.forEach(result => vectorMap.set(result.entry.id, result));
-    bm25Results.forEach(result => bm25Map.set(result.entry.id, result));
-
-    const allIds = new Set([...vectorMap.keys(), ...bm25Map.keys()]);
-    const fusedResults: RetrievalResult[] = [];
-
-    for (const id of allIds) {
-      const vectorResult = vectorMap.get(id);
-      const bm25Result = bm25Map.get(id);
-      const baseResult = vectorResult || bm25Result!;
-
-      const vectorScore = vectorResult ? vectorResult.score : 0;
-      const bm25Hit = bm25Result ? 1 : 0;
-
-      const fusedScore = vectorResult
-        ? clamp01(vectorScore + (bm25Hit * 0.15 * vectorScore), 0.1)
-        : clamp01(Math.max(bm25Result!.score, 0.5), 0.1);
-
-      fusedResults.push({
-        entry: baseResult.entry,
-        score: fusedScore,
-        sources: {
-          vector: vectorResult ? { score: vectorResult.score, rank: vectorResult.rank } : undefined,
-          bm25: bm25Result ? { score: bm25Result.score, rank: bm25Result.rank } : undefined,
-          fused: { score: fusedScore },
-        },
-      });
-    }
-
-    return fusedResults.sort((a, b) => b.score - a.score);
-  }
-
   /**
-   * Rerank using Voyage AI rerank API (cross-encoder).
-   * Falls back to cosine similarity if API unavailable.
+   * Rerank with the configured reranker (cross-encoder mode).
+   * Falls back to cosine similarity if none is configured or it fails.
    */
   private async rerankResults(query: string, queryVector: number[], results: RetrievalResult[]): Promise<RetrievalResult[]> {
     if (results.length === 0) return results;
 
-    if (this.config.rerank === "cross-encoder" && this.voyageApiKey) {
+    if (this.config.rerank === "cross-encoder" && this.reranker) {
       try {
-        const documents = results.map(r => r.entry.text);
-        const model = this.config.rerankModel || "rerank-2";
-
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 5000);
-
-        const response = await fetch(VOYAGE_RERANK_URL, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${this.voyageApiKey}`,
-          },
-          body: JSON.stringify({
-            model,
-            query,
-            documents,
-            top_k: results.length,
-          }),
-          signal: controller.signal,
+        const scores = await this.reranker.rerank(query, results.map(matchedText));
+
+        // Keep only the first score per known candidate, whatever the provider returned
+        const returnedIndices = new Set<number>();
+        const valid = scores.filter(item => {
+          if (!Number.isInteger(item.index) || item.index < 0 || item.index >= results.length) return false;
+          if (returnedIndices.has(item.index)) return false;
+          returnedIndices.add(item.index);
+          return true;
         });
 
-        clearTimeout(timeout);
-
-        if (response.ok) {
-          const data = await response.json() as {
-            data?: Array<{ index: number; relevance_score: number }>;
+        const reranked = valid.map(item => {
+          const original = results[item.index];
+          const blendedScore = clamp01(
+            item.score * 0.6 + original.score * 0.4,
+            original.score * 0.5,
+          );
+          return {
+            ...original,
+            score: blendedScore,
+            sources: {
+              ...original.sources,
+              reranked: { score: item.score },
+            },
           };
+        });
 
-          if (!Array.isArray(data.data)) {
-            console.warn("Voyage rerank: invalid response shape, falling back to cosine");
-          } else {
-            const returnedIndices = new Set(data.data.map(r => r.index));
-
-            const reranked = data.data
-              .filter(item => item.index >= 0 && item.index < results.length)
-              .map(item => {
-                const original = results[item.index];
-                const blendedScore = clamp01(
-                  item.relevance_score * 0.6 + original.score * 0.4,
-                  original.score * 0.5,
-                );
-                return {
-                  ...original,
-                  score: blendedScore,
-                  sources: {
-                    ...original.sources,
-                    reranked: { score: item.relevance_score },
-                  },
-                };
-              });
-
-            const unreturned = results
-              .filter((_, idx) => !returnedIndices.has(idx))
-              .map(r => ({ ...r, score: r.score * 0.8 }));
-
-            return [...reranked, ...unreturned].sort((a, b) => b.score - a.score);
-          }
-        } else {
-          console.warn(`Voyage rerank API returned ${response.status}, falling back to cosine`);
-        }
+        const unreturned = results
+          .filter((_, idx) => !returnedIndices.has(idx))
+          .map(r => ({ ...r, score: r.score * 0.8 }));
+
+        return [...reranked, ...unreturned].sort((a, b) => b.score - a.score);
       } catch (error) {
-        if (error instanceof Error && error.name === "AbortError") {
-          console.warn("Voyage rerank timed out (5s), falling back to cosine");
-        } else {
-          console.warn("Voyage rerank failed, falling back to cosine:", error);
-        }
+        console.warn(`${error instanceof Error ? error.message : String(error)}, falling back to cosine`);
       }
     }
 
     // Fallback: lightweight cosine similarity rerank
     try {
       const reranked = results.map(result => {
-        const cosineScore = cosineSimilarity(queryVector, result.entry.vector);
+        const cosineScore = cosineSimilarity(queryVector, result.chunk?.vector ?? result.entry.vector);
         const combinedScore = (result.score * 0.7) + (cosineScore * 0.3);
         return {
           ...result,
@@ -332,6 +324,20 @@ export class MemoryRetriever {
     return boosted.sort((a, b) => b.score - a.score);
   }
 
+  private applyAccessBoost(results: RetrievalResult[]): RetrievalResult[] {
+    const { accessWeight } = this.config;
+    if (!accessWeight || accessWeight <= 0) return results;
+
+    const boosted = results.map(r => {
+      const count = r.entry.accessCount ?? 0;
+      if (count <= 0) return r;
+      const saturation = Math.min(1, Math.log1p(count) / Math.log1p(ACCESS_COUNT_SATURATION));
+      return { ...r, score: clamp01(r.score + saturation * accessWeight, r.score) };
+    });
+
+    return boosted.sort((a, b) => b.score - a.score);
+  }
+
   private applyImportanceWeight(results: RetrievalResult[]): RetrievalResult[] {
     const baseWeight = 0.7;
     const weighted = results.map(r => {
@@ -346,8 +352,9 @@ export class MemoryRetriever {
     const anchor = this.config.lengthNormAnchor;
     if (!anchor || anchor <= 0) return results;
 
+    // A chunk match is judged by the chunk, not by the length of the whole memory
     const normalized = results.map(r => {
-      const charLen = r.entry.text.length;
+      const charLen = matchedText(r).length;
       const ratio = charLen / anchor;
       const logRatio = Math.log2(Math.max(ratio, 1));
       const factor = 1 / (1 + 0.5 * logRatio);
@@ -363,7 +370,8 @@ export class MemoryRetriever {
 
     const now = Date.now();
     const decayed = results.map(r => {
-      const ts = (r.entry.timestamp && r.entry.timestamp > 0) ? r.entry.timestamp : now;
+      // A recent recall counts as fresh use, so frequently used memories don't decay
+      const ts = Math.max(r.entry.timestamp || 0, r.entry.lastAccessedAt || 0) || now;
       const ageDays = (now - ts) / 86_400_000;
       const factor = 0.5 + 0.5 * Math.exp(-ageDays / halfLife);
       return { ...r, score: clamp01(r.score * factor, r.score * 0.5) };
@@ -403,11 +411,16 @@ export class MemoryRetriever {
   }
 
   async test(query = "test query"): Promise<{
-    success: boolean; mode: string; hasFtsSupport: boolean; error?: string;
+    success: boolean; mode: string; hasFtsSupport: boolean; vectorIndex?: VectorIndexStatus; error?: string;
   }> {
     try {
-      await this.retrieve({ query, limit: 1 });
-      return { success: true, mode: this.config.mode, hasFtsSupport: this.store.hasFtsSupport };
+      await this.retrieve({ query, limit: 1, trackAccess: false });
+      return {
+        success: true,
+        mode: this.config.mode,
+        hasFtsSupport: this.store.hasFtsSupport,
+        vectorIndex: await this.vectorIndexStatus(),
+      };
     } catch (error) {
       return {
         success: false,
@@ -417,6 +430,15 @@ export class MemoryRetriever {
       };
     }
   }
+
+  /** Index status is informational, so a failure to read it is not a test failure */
+  private async vectorIndexStatus(): Promise<VectorIndexStatus | undefined> {
+    try {
+      return await this.store.vectorIndexStatus();
+    } catch {
+      return undefined;
+    }
+  }
 }
 
 // ============================================================================
@@ -424,11 +446,12 @@ export class MemoryRetriever {
 // ============================================================================
 
 export function createRetriever(
-  store: MemoryStore,
+  store: IMemoryStore,
   embedder: IEmbedder,
   config?: Partial<RetrievalConfig>,
-  voyageApiKey?: string,
+  reranker?: IReranker,
+  previousEmbedder?: IEmbedder,
 ): MemoryRetriever {
   const fullConfig = { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
-  return new MemoryRetriever(store, embedder, fullConfig, voyageApiKey);
+  return new MemoryRetriever(store, embedder, fullConfig, reranker, previousEmbedder);
 }
@@ -0,0 +1,242 @@
+/**
+ * Schema Versioning
+ * Ordered migration steps for the memories table. The applied version is kept
+ * in a small key/value meta table that lives next to the memories table.
+ */
+
+import type * as LanceDB from "@lancedb/lancedb";
+import { PROMOTED_METADATA_COLUMNS, promotedMetadataValues } from "./metadata-filter.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  up(table: LanceDB.Table): Promise<void>;
+}
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  pending: Array<{ version: number; description: string }>;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function escapeSqlLiteral(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+export async function addColumnIfMissing(table: LanceDB.Table, name: string, valueSql: string): Promise<void> {
+  const schema = await table.schema();
+  if (schema.fields.some(field => field.name === name)) return;
+  await table.addColumns([{ name, valueSql }]);
+}
+
+const BACKFILL_BATCH_SIZE = 500;
+
+/**
+ * Copy promoted metadata keys of existing rows into their columns. Encrypted
+ * metadata cannot be read here and stays null, which is what writes under
+ * encryption store as well.
+ */
+async function backfillPromotedMetadata(table: LanceDB.Table): Promise<void> {
+  const candidates = Object.keys(PROMOTED_METADATA_COLUMNS)
+    .map(key => `metadata LIKE '%"${key}"%'`)
+    .join(" OR ");
+  const rows = await table.query().select(["id", "metadata"]).where(candidates).toArray();
+
+  const idsByValue = new Map<string, { column: string; value: string; ids: string[] }>();
+  for (const row of rows) {
+    for (const [column, value] of Object.entries(promotedMetadataValues(row.metadata as string))) {
+      if (value === null) continue;
+      const key = JSON.stringify([column, value]);
+      const group = idsByValue.get(key) ?? { column, value, ids: [] };
+      group.ids.push(row.id as string);
+      idsByValue.set(key, group);
+    }
+  }
+
+  for (const { column, value, ids } of idsByValue.values()) {
+    for (let i = 0; i < ids.length; i += BACKFILL_BATCH_SIZE) {
+      const idList = ids.slice(i, i + BACKFILL_BATCH_SIZE).map(id => `'${escapeSqlLiteral(id)}'`).join(", ");
+      await table.update({ where: `id IN (${idList})`, values: { [column]: value } });
+    }
+  }
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/**
+ * Append new steps at the end; never reorder or edit a released step. Steps
+ * must be idempotent, because databases created by an older plugin version may
+ * already contain some of the columns without a recorded schema version.
+ * New columns also have to be added to the schema entry in MemoryStore.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: "Add deletedAt column for soft delete",
+    up: (table) => addColumnIfMissing(table, "deletedAt", "cast(NULL as double)"),
+  },
+  {
+    version: 2,
+    description: "Add updatedAt column",
+    up: (table) => addColumnIfMissing(table, "updatedAt", "cast(NULL as double)"),
+  },
+  {
+    version: 3,
+    description: "Add tags column",
+    up: (table) => addColumnIfMissing(table, "tags", "arrow_cast(NULL, 'List(Utf8)')"),
+  },
+  {
+    version: 4,
+    description: "Add expiresAt column for per-memory expiry",
+    up: (table) => addColumnIfMissing(table, "expiresAt", "cast(NULL as double)"),
+  },
+  {
+    version: 5,
+    description: "Add accessCount and lastAccessedAt columns for access tracking",
+    up: async (table) => {
+      await addColumnIfMissing(table, "accessCount", "cast(NULL as double)");
+      await addColumnIfMissing(table, "lastAccessedAt", "cast(NULL as double)");
+    },
+  },
+  {
+    version: 6,
+    description: "Add ftsText column for BM25 over encrypted memories",
+    up: (table) => addColumnIfMissing(table, "ftsText", "cast(NULL as string)"),
+  },
+  {
+    version: 7,
+    description: "Add promoted metadata columns (metadataType, metadataSessionId) for metadata filters",
+    up: async (table) => {
+      for (const column of Object.values(PROMOTED_METADATA_COLUMNS)) {
+        await addColumnIfMissing(table, column, "cast(NULL as string)");
+      }
+      await backfillPromotedMetadata(table);
+    },
+  },
+  {
+    version: 8,
+    description: "Add parentId column for chunks of long memories",
+    up: (table) => addColumnIfMissing(table, "parentId", "cast(NULL as string)"),
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+// ============================================================================
+// Meta Table
+// ============================================================================
+
+export const META_TABLE_NAME = "memories_meta";
+const SCHEMA_VERSION_KEY = "schemaVersion";
+
+export class MetaTable {
+  private constructor(private readonly table: LanceDB.Table) {}
+
+  static async open(db: LanceDB.Connection, options: { readOnly?: boolean } = {}): Promise<MetaTable> {
+    if (options.readOnly) {
+      return new MetaTable(await db.openTable(META_TABLE_NAME));
+    }
+    try {
+      return new MetaTable(await db.openTable(META_TABLE_NAME));
+    } catch (_openErr) {
+      try {
+        const table = await db.createTable(META_TABLE_NAME, [{ key: "__schema__", value: "", updatedAt: 0 }]);
+        await table.delete("key = '__schema__'");
+        return new MetaTable(table);
+      } catch (createErr) {
+        if (String(createErr).includes("already exists")) {
+          return new MetaTable(await db.openTable(META_TABLE_NAME));
+        }
+        throw createErr;
+      }
+    }
+  }
+
+  async checkoutLatest(): Promise<void> {
+    await this.table.checkoutLatest();
+  }
+
+  async optimize(cleanupOlderThan: Date): Promise<LanceDB.OptimizeStats> {
+    return this.table.optimize({ cleanupOlderThan });
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const rows = await this.table.query().where(`key = '${escapeSqlLiteral(key)}'`).limit(1).toArray();
+    return rows.length > 0 ? (rows[0].value as string) : undefined;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.table
+      .mergeInsert("key")
+      .whenMatchedUpdateAll()
+      .whenNotMatchedInsertAll()
+      .execute([{ key, value, updatedAt: Date.now() }]);
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    const raw = await this.get(SCHEMA_VERSION_KEY);
+    const version = raw === undefined ? 0 : parseInt(raw, 10);
+    return Number.isFinite(version) ? version : 0;
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    await this.set(SCHEMA_VERSION_KEY, String(version));
+  }
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+export async function getSchemaStatus(meta: MetaTable): Promise<SchemaStatus> {
+  const currentVersion = await meta.getSchemaVersion();
+  return {
+    currentVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    pending: SCHEMA_MIGRATIONS
+      .filter(m => m.version > currentVersion)
+      .map(m => ({ version: m.version, description: m.description })),
+  };
+}
+
+/**
+ * Apply pending migrations in order. The recorded version is advanced after
+ * each step, so a failure leaves the database at the last completed step.
+ * Returns the migrations that were applied.
+ */
+export async function runSchemaMigrations(table: LanceDB.Table, meta: MetaTable): Promise<SchemaMigration[]> {
+  const currentVersion = await meta.getSchemaVersion();
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    console.warn(
+      `Memory schema version ${currentVersion} is newer than this plugin supports (${LATEST_SCHEMA_VERSION}). Upgrade the plugin before writing to this database.`,
+    );
+    return [];
+  }
+
+  const applied: SchemaMigration[] = [];
+  for (const migration of SCHEMA_MIGRATIONS) {
+    if (migration.version <= currentVersion) continue;
+    try {
+      await migration.up(table);
+    } catch (err) {
+      throw new Error(
+        `Schema migration ${migration.version} (${migration.description}) failed: ${err instanceof Error ? err.message : String(err)}`,
+        { cause: err },
+      );
+    }
+    await meta.setSchemaVersion(migration.version);
+    applied.push(migration);
+  }
+
+  return applied;
+}
@@ -0,0 +1,99 @@
+/**
+ * Snapshots
+ * Point-in-time views of the memories table, backed by LanceDB table versions
+ * and tags
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Snapshot {
+  version: number;
+  timestamp: number;
+  /** Live (not trashed) memories in this version */
+  rowCount: number;
+  tags: string[];
+}
+
+export interface SnapshotDiff {
+  from: number;
+  to: number;
+  /** Live in `to` but not in `from` */
+  added: string[];
+  /** Live in `from` but not in `to` (deleted or trashed) */
+  removed: string[];
+  /** Live in both with different content */
+  changed: string[];
+}
+
+export interface SnapshotRestore extends SnapshotDiff {
+  /** New current version created by the restore */
+  version: number;
+}
+
+/** A table version number or a tag name */
+export type SnapshotRef = number | string;
+
+/**
+ * Columns compared when diffing. Access counters are left out, since every
+ * recall changes them.
+ */
+export const SNAPSHOT_DIFF_COLUMNS = ["id", "text", "category", "scope", "importance", "metadata", "tags", "expiresAt", "updatedAt"];
+
+const TAG_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9._-]{0,63}$/;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Digits are a version number, anything else a tag name */
+export function parseSnapshotRef(ref: string): SnapshotRef {
+  const trimmed = ref.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+  assertTagName(trimmed);
+  return trimmed;
+}
+
+/** Tags must start with a letter so they never read as version numbers */
+export function assertTagName(name: string): void {
+  if (!TAG_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid snapshot tag "${name}". Use a letter followed by letters, digits, ".", "_" or "-" (max 64 chars).`);
+  }
+}
+
+function rowSignature(row: Record<string, unknown>): string {
+  return JSON.stringify(SNAPSHOT_DIFF_COLUMNS.map(column => {
+    const value = row[column];
+    if (value && typeof value === "object" && Symbol.iterator in value) return Array.from(value as Iterable<unknown>);
+    return value ?? null;
+  }));
+}
+
+/**
+ * Compare the live rows of two versions by id. Rows must carry the
+ * SNAPSHOT_DIFF_COLUMNS.
+ */
+export function diffSnapshotRows(
+  fromRows: Array<Record<string, unknown>>,
+  toRows: Array<Record<string, unknown>>,
+  versions: { from: number; to: number },
+): SnapshotDiff {
+  const before = new Map(fromRows.map(row => [row.id as string, rowSignature(row)]));
+  const after = new Map(toRows.map(row => [row.id as string, rowSignature(row)]));
+
+  const diff: SnapshotDiff = { ...versions, added: [], removed: [], changed: [] };
+  for (const [id, signature] of after) {
+    const previous = before.get(id);
+    if (previous === undefined) diff.added.push(id);
+    else if (previous !== signature) diff.changed.push(id);
+  }
+  for (const id of before.keys()) {
+    if (!after.has(id)) diff.removed.push(id);
+  }
+
+  diff.added.sort();
+  diff.removed.sort();
+  diff.changed.sort();
+  return diff;
+}
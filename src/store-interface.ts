@@ -0,0 +1,215 @@
+/**
+ * Memory Store Interface
+ * Abstraction over storage backends: the LanceDB-backed MemoryStore and the
+ * ephemeral InMemoryStore.
+ */
+
+import type { ChunkInput } from "./chunking.js";
+import type { EmbeddingModelRef } from "./embedding-columns.js";
+import type { HealthReport } from "./health.js";
+import type { MemoryRevision } from "./history.js";
+import type { MetadataFilter } from "./metadata-filter.js";
+import type { VectorIndexStatus } from "./vector-index.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MemoryEntry {
+  id: string;
+  text: string;
+  vector: number[];
+  category: "preference" | "fact" | "decision" | "entity" | "other";
+  scope: string;
+  importance: number;
+  timestamp: number;
+  metadata?: string; // JSON string for extensible metadata
+  tags?: string[]; // lowercase labels, e.g. component names or incident IDs
+  deletedAt?: number | null; // set when the memory is in the trash
+  updatedAt?: number | null; // last in-place modification
+  expiresAt?: number | null; // removed by the retention sweeper after this time
+  accessCount?: number; // times returned by recall
+  lastAccessedAt?: number | null;
+  parentId?: string | null; // set on chunk rows: the memory the chunk belongs to
+}
+
+/** Chunk of a long memory that matched a search (see chunking.ts) */
+export interface MatchedChunk {
+  id: string;
+  text: string;
+  vector: number[];
+  /** Zero-based position within the parent */
+  index: number;
+  count: number;
+}
+
+export interface MemorySearchResult {
+  entry: MemoryEntry;
+  score: number;
+  /** Set when the score comes from one of the memory's chunks */
+  chunk?: MatchedChunk;
+}
+
+/** Optional filters applied in addition to scope and category */
+export interface MemoryFilter {
+  tags?: string[];
+  /** "any" matches memories with at least one of the tags, "all" requires every tag (default: "any") */
+  tagMode?: "any" | "all";
+  /** Condition on the metadata JSON, from parseMetadataFilter() */
+  where?: MetadataFilter;
+  /** Only memories created at or after this time (epoch ms) */
+  since?: number;
+  /** Only memories created before this time (epoch ms) */
+  until?: number;
+}
+
+export interface ListOptions {
+  scopeFilter?: string[];
+  category?: string;
+  filter?: MemoryFilter;
+  /** Page size (default: 20, max: 1000) */
+  limit?: number;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string | null;
+}
+
+export interface ListPage {
+  entries: MemoryEntry[];
+  /** Pass to the next listCursor call; null on the last page */
+  nextCursor: string | null;
+}
+
+/** Criteria for memories that a retention rule may remove. All fields are ANDed. */
+export interface RetentionCriteria {
+  scope?: string;
+  category?: string;
+  importanceBelow?: number;
+  timestampBefore?: number;
+  expiresBefore?: number;
+}
+
+export interface HotMemory {
+  id: string;
+  text: string;
+  accessCount: number;
+  lastAccessedAt: number | null;
+}
+
+export interface MemoryStats {
+  totalCount: number;
+  scopeCounts: Record<string, number>;
+  categoryCounts: Record<string, number>;
+  neverRecalledCount: number;
+  hotMemories: HotMemory[];
+}
+
+/** Fields that update() may change in place */
+export interface MemoryUpdate {
+  text?: string;
+  vector?: number[];
+  importance?: number;
+  category?: MemoryEntry["category"];
+  metadata?: string;
+  tags?: string[];
+}
+
+/** ANN query tuning; unset values use LanceDB defaults */
+export interface VectorSearchOptions {
+  nprobes?: number;
+  refineFactor?: number;
+  /** Embedding model of the query vector, which picks the vector column (default: the model memories are written with) */
+  model?: string;
+}
+
+// ============================================================================
+// Store Interface
+// ============================================================================
+
+/**
+ * What the retriever, tools, batch store, migrator and retention sweeper need
+ * from a backend. Table maintenance (vector index builds, compaction,
+ * snapshots, schema migrations, encryption) is specific to MemoryStore.
+ */
+export interface IMemoryStore {
+  readonly softDeleteEnabled: boolean;
+  readonly readOnly: boolean;
+  readonly hasFtsSupport: boolean;
+
+  // Writes
+  store(entry: Omit<MemoryEntry, "id" | "timestamp">): Promise<MemoryEntry>;
+  storeBatch(entries: Array<Omit<MemoryEntry, "id" | "timestamp">>): Promise<MemoryEntry[]>;
+  importEntry(entry: MemoryEntry): Promise<MemoryEntry>;
+  upsert(entry: MemoryEntry): Promise<MemoryEntry>;
+  update(id: string, updates: MemoryUpdate, scopeFilter?: string[]): Promise<MemoryEntry | null>;
+  bumpImportance(id: string, delta: number, scopeFilter?: string[]): Promise<MemoryEntry | null>;
+  delete(id: string, scopeFilter?: string[]): Promise<boolean>;
+  deleteMany(ids: string[]): Promise<number>;
+  bulkDelete(scopeFilter: string[], beforeTimestamp?: number, filter?: MemoryFilter): Promise<number>;
+  /** Replace the chunks of a live memory; returns the number stored */
+  replaceChunks(parentId: string, chunks: ChunkInput[]): Promise<number>;
+
+  // Reads
+  hasId(id: string): Promise<boolean>;
+  resolveId(idOrPrefix: string, options?: { scopeFilter?: string[]; trashed?: boolean }): Promise<string | null>;
+  vectorSearch(
+    vector: number[],
+    limit?: number,
+    minScore?: number,
+    scopeFilter?: string[],
+    filter?: MemoryFilter,
+    options?: VectorSearchOptions,
+  ): Promise<MemorySearchResult[]>;
+  bm25Search(query: string, limit?: number, scopeFilter?: string[], filter?: MemoryFilter): Promise<MemorySearchResult[]>;
+  list(scopeFilter?: string[], category?: string, limit?: number, offset?: number, filter?: MemoryFilter): Promise<MemoryEntry[]>;
+  listCursor(options?: ListOptions): Promise<ListPage>;
+  iterate(options?: Omit<ListOptions, "cursor" | "limit"> & { batchSize?: number }): AsyncGenerator<MemoryEntry>;
+  stats(scopeFilter?: string[], filter?: MemoryFilter): Promise<MemoryStats>;
+  /** stats() plus content and storage statistics; scans every matching memory */
+  healthReport(scopeFilter?: string[]): Promise<HealthReport>;
+  findForRetention(criteria: RetentionCriteria): Promise<MemoryEntry[]>;
+  vectorIndexStatus(): Promise<VectorIndexStatus>;
+  /** Model whose vectors answer searches; null when the backend does not track models */
+  servingEmbedding(): Promise<EmbeddingModelRef | null>;
+
+  // Access tracking
+  recordAccess(ids: string[]): void;
+  flushAccess(): Promise<void>;
+
+  // Trash and history
+  listTrash(scopeFilter?: string[], limit?: number, offset?: number): Promise<MemoryEntry[]>;
+  restore(id: string, scopeFilter?: string[]): Promise<MemoryEntry | null>;
+  purgeTrash(scopeFilter?: string[], deletedBefore?: number): Promise<number>;
+  getHistory(id: string, scopeFilter?: string[]): Promise<MemoryRevision[]>;
+  rollback(id: string, revision: number, scopeFilter?: string[]): Promise<MemoryEntry>;
+}
+
+// ============================================================================
+// List Cursors
+// ============================================================================
+
+/** Sort key of list order, shared by all backends so cursors mean the same thing */
+export interface ListKey {
+  id: string;
+  timestamp: number;
+}
+
+/** Newest first, ties broken by id so the order is stable across pages */
+export function compareListKeys(a: ListKey, b: ListKey): number {
+  return b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+export function encodeListCursor(key: ListKey): string {
+  return Buffer.from(JSON.stringify({ t: key.timestamp, id: key.id })).toString("base64url");
+}
+
+export function decodeListCursor(cursor: string): ListKey {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof parsed?.t === "number" && Number.isFinite(parsed.t) && typeof parsed?.id === "string") {
+      return { timestamp: parsed.t, id: parsed.id };
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error("Invalid list cursor");
+}
@@ -4,30 +4,135 @@
 
 import type * as LanceDB from "@lancedb/lancedb";
 import { randomUUID } from "node:crypto";
+import { HISTORY_TABLE_NAME, MemoryHistory, type MemoryRevision, type RevisionAction } from "./history.js";
+import {
+  LATEST_SCHEMA_VERSION,
+  META_TABLE_NAME,
+  MetaTable,
+  addColumnIfMissing,
+  getSchemaStatus,
+  runSchemaMigrations,
+  type SchemaMigration,
+  type SchemaStatus,
+} from "./schema.js";
+import { normalizeTags } from "./utils.js";
+import { AmbiguousIdError, assertIdOrPrefix, idMatchCondition, toIdMatch } from "./id-resolver.js";
+import {
+  DEFAULT_VECTOR_INDEX_CONFIG,
+  MIN_VECTOR_INDEX_ROWS,
+  createVectorIndexConfig,
+  decideVectorIndexAction,
+  vectorIndexTypeFromStats,
+  type VectorIndexConfig,
+  type VectorIndexDecision,
+  type VectorIndexStatus,
+  type VectorIndexType,
+} from "./vector-index.js";
+import { toTableOptimizeStats, type OptimizeReport } from "./compaction.js";
+import {
+  SNAPSHOT_DIFF_COLUMNS,
+  assertTagName,
+  diffSnapshotRows,
+  type Snapshot,
+  type SnapshotDiff,
+  type SnapshotRef,
+  type SnapshotRestore,
+} from "./snapshots.js";
+import { ReadOnlyStoreError, createWriteLock, withCommitRetry, type WriteLock, type WriteLockConfig } from "./write-lock.js";
+import type { FieldCipher } from "./encryption.js";
+import {
+  ContentStatsCollector,
+  directorySize,
+  type HealthReport,
+  type IndexCoverage,
+  type StorageStats,
+  type TableStorageStats,
+} from "./health.js";
+import { PROMOTED_METADATA_COLUMNS, matchesMetadataFilter, promotedEqualities, promotedMetadataValues } from "./metadata-filter.js";
+import { chunkEntry, chunkPosition, type ChunkInput } from "./chunking.js";
+import {
+  DEFAULT_VECTOR_COLUMN,
+  EMBEDDING_COLUMNS_META_KEY,
+  embeddingColumnName,
+  parseEmbeddingColumns,
+  sameEmbeddingModel,
+  type EmbeddingColumn,
+  type EmbeddingColumnStatus,
+  type EmbeddingModelRef,
+  type MissingVector,
+} from "./embedding-columns.js";
+import { DEFAULT_FTS_CONFIG, FTS_INDEX_META_KEY, ftsIndexOptions, ftsIndexOutdated, normalizeFtsQuery, type FtsConfig } from "./fts.js";
+import {
+  compareListKeys,
+  decodeListCursor,
+  encodeListCursor,
+  type HotMemory,
+  type IMemoryStore,
+  type ListKey,
+  type ListOptions,
+  type ListPage,
+  type MatchedChunk,
+  type MemoryEntry,
+  type MemoryFilter,
+  type MemorySearchResult,
+  type MemoryStats,
+  type MemoryUpdate,
+  type RetentionCriteria,
+  type VectorSearchOptions,
+} from "./store-interface.js";
+
+export type {
+  HotMemory,
+  IMemoryStore,
+  ListOptions,
+  ListPage,
+  MatchedChunk,
+  MemoryEntry,
+  MemoryFilter,
+  MemorySearchResult,
+  MemoryStats,
+  MemoryUpdate,
+  RetentionCriteria,
+  VectorSearchOptions,
+} from "./store-interface.js";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export interface MemoryEntry {
-  id: string;
-  text: string;
-  vector: number[];
-  category: "preference" | "fact" | "decision" | "entity" | "other";
-  scope: string;
-  importance: number;
-  timestamp: number;
-  metadata?: string; // JSON string for extensible metadata
+export interface StoreConfig {
+  dbPath: string;
+  vectorDim: number;
+  /** Move deleted memories to the trash instead of removing them (default: true) */
+  softDelete?: boolean;
+  vectorIndex?: VectorIndexConfig;
+  /** Refuse every write; the database must already exist (default: false) */
+  readOnly?: boolean;
+  /** Cross-process lock file taken around writes */
+  writeLock?: Partial<WriteLockConfig>;
+  /** Encrypt text and metadata at rest */
+  encryption?: StoreEncryption;
+  /** BM25 index tokenizer; the index is rebuilt when these change (default: LanceDB's simple tokenizer) */
+  fts?: FtsConfig;
+  /**
+   * Embedding model of the vectors written (`vectorDim` is its dimension).
+   * When set, each model gets its own vector column; unset keeps the single
+   * "vector" column.
+   */
+  embeddingModel?: string;
+  /** Model the table was built with; its column answers searches until the new one is backfilled */
+  previousEmbedding?: EmbeddingModelRef;
 }
 
-export interface MemorySearchResult {
-  entry: MemoryEntry;
-  score: number;
+export interface StoreEncryption {
+  cipher: FieldCipher;
+  /** Keep a plaintext copy of the text in ftsText so BM25 keeps working */
+  plaintextFts: boolean;
 }
 
-export interface StoreConfig {
-  dbPath: string;
-  vectorDim: number;
+export interface ReencryptResult {
+  memories: number;
+  revisions: number;
 }
 
 // ============================================================================
@@ -60,24 +165,231 @@ function escapeSqlLiteral(value: string): string {
   return value.replace(/'/g, "''");
 }
 
+function scopeCondition(scopeFilter?: string[]): string | null {
+  if (!scopeFilter || scopeFilter.length === 0) return null;
+  const scopeConditions = scopeFilter
+    .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
+    .join(" OR ");
+  return `((${scopeConditions}) OR scope IS NULL)`;
+}
+
+function notExpiredCondition(now = Date.now()): string {
+  return `(expiresAt IS NULL OR expiresAt > ${now})`;
+}
+
+function tagCondition(filter?: MemoryFilter): string | null {
+  const tags = normalizeTags(filter?.tags);
+  if (tags.length === 0) return null;
+  const fn = filter?.tagMode === "all" ? "array_has_all" : "array_has_any";
+  return `${fn}(tags, make_array(${tags.map(tag => `'${escapeSqlLiteral(tag)}'`).join(", ")}))`;
+}
+
+/**
+ * Equality conditions on the promoted metadata columns implied by the filter.
+ * Only a prefilter: the full metadata filter still runs on the returned rows.
+ */
+function promotedMetadataCondition(filter?: MemoryFilter): string | null {
+  if (!filter?.where) return null;
+  const conditions = promotedEqualities(filter.where).map(({ column, values }) =>
+    `${column} IN (${values.map(v => `'${escapeSqlLiteral(v)}'`).join(", ")})`);
+  return conditions.length > 0 ? conditions.join(" AND ") : null;
+}
+
+function timeRangeCondition(filter?: MemoryFilter): string | null {
+  const conditions: string[] = [];
+  if (filter?.since !== undefined && Number.isFinite(filter.since)) conditions.push(`timestamp >= ${filter.since}`);
+  if (filter?.until !== undefined && Number.isFinite(filter.until)) conditions.push(`timestamp < ${filter.until}`);
+  return conditions.length > 0 ? conditions.join(" AND ") : null;
+}
+
+function rowTags(value: unknown): string[] {
+  return value ? Array.from(value as Iterable<string>) : [];
+}
+
+/** Rows that sort after the cursor key in list order */
+function afterCursorCondition(key: ListKey): string {
+  const id = escapeSqlLiteral(key.id);
+  return `(timestamp < ${key.timestamp} OR (timestamp = ${key.timestamp} AND id < '${id}'))`;
+}
+
+function parseVectorIndexBuild(raw: string | undefined): { rows: number; builtAt: number } | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed?.rows === "number" ? { rows: parsed.rows, builtAt: parsed.builtAt } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Complete row for merge-insert writes. Merge-insert needs every table column
+ * in the source batch, so unset optional fields become explicit nulls.
+ */
+function entryToRow(entry: MemoryEntry): Record<string, unknown> {
+  return {
+    id: entry.id,
+    text: entry.text,
+    vector: entry.vector,
+    category: entry.category,
+    scope: entry.scope,
+    importance: entry.importance,
+    timestamp: entry.timestamp,
+    metadata: entry.metadata || "{}",
+    tags: entry.tags ?? [],
+    deletedAt: entry.deletedAt ?? null,
+    updatedAt: entry.updatedAt ?? null,
+    expiresAt: entry.expiresAt ?? null,
+    accessCount: entry.accessCount ?? null,
+    lastAccessedAt: entry.lastAccessedAt ?? null,
+    ftsText: null,
+    ...promotedMetadataValues(entry.metadata),
+    parentId: entry.parentId ?? null,
+  };
+}
+
+function rowToEntry(row: Record<string, unknown>): MemoryEntry {
+  return {
+    id: row.id as string,
+    text: row.text as string,
+    vector: row.vector ? Array.from(row.vector as Iterable<number>) : [],
+    category: row.category as MemoryEntry["category"],
+    scope: (row.scope as string | undefined) ?? "global",
+    importance: row.importance as number,
+    timestamp: row.timestamp as number,
+    metadata: (row.metadata as string) || "{}",
+    tags: rowTags(row.tags),
+    deletedAt: typeof row.deletedAt === "number" ? row.deletedAt : null,
+    updatedAt: typeof row.updatedAt === "number" ? row.updatedAt : null,
+    expiresAt: typeof row.expiresAt === "number" ? row.expiresAt : null,
+    accessCount: typeof row.accessCount === "number" ? row.accessCount : 0,
+    lastAccessedAt: typeof row.lastAccessedAt === "number" ? row.lastAccessedAt : null,
+    parentId: typeof row.parentId === "string" ? row.parentId : null,
+  };
+}
+
+/** Entry of a search hit; the vector is kept for reranking and MMR */
+function rowToSearchEntry(row: Record<string, unknown>): MemoryEntry {
+  return {
+    id: row.id as string,
+    text: row.text as string,
+    vector: row.vector as number[],
+    category: row.category as MemoryEntry["category"],
+    scope: (row.scope as string | undefined) ?? "global",
+    importance: row.importance as number,
+    timestamp: row.timestamp as number,
+    metadata: (row.metadata as string) || "{}",
+    tags: rowTags(row.tags),
+    accessCount: typeof row.accessCount === "number" ? row.accessCount : 0,
+    lastAccessedAt: typeof row.lastAccessedAt === "number" ? row.lastAccessedAt : null,
+  };
+}
+
+function rowToMatchedChunk(row: Record<string, unknown>): MatchedChunk {
+  return {
+    id: row.id as string,
+    text: row.text as string,
+    vector: row.vector ? Array.from(row.vector as Iterable<number>) : [],
+    ...chunkPosition(row.metadata as string | undefined),
+  };
+}
+
 // ============================================================================
 // Memory Store
 // ============================================================================
 
+/** LIVE_CONDITION for a (possibly old) table version with these columns */
+function liveConditionFor(fields: Set<string>): string | null {
+  const conditions = [fields.has("deletedAt") ? "deletedAt IS NULL" : null, fields.has("parentId") ? "parentId IS NULL" : null];
+  const present = conditions.filter((c): c is string => Boolean(c));
+  return present.length > 0 ? present.join(" AND ") : null;
+}
+
+/** Dimensions of the fixed-size vector columns in a table schema */
+async function vectorColumnDims(table: LanceDB.Table): Promise<Map<string, number>> {
+  const dims = new Map<string, number>();
+  for (const field of (await table.schema()).fields) {
+    const listSize = (field.type as { listSize?: number }).listSize;
+    if (typeof listSize === "number") dims.set(field.name, listSize);
+  }
+  return dims;
+}
+
+async function countLiveRows(table: LanceDB.Table): Promise<number> {
+  const live = liveConditionFor(new Set((await table.schema()).fields.map(f => f.name)));
+  return live ? table.countRows(live) : table.countRows();
+}
+
+/**
+ * Live rows of a (possibly old) table version, limited to the columns that
+ * version actually has.
+ */
+async function snapshotRows(table: LanceDB.Table): Promise<Array<Record<string, unknown>>> {
+  const fields = new Set((await table.schema()).fields.map(f => f.name));
+  const query = table.query().select(SNAPSHOT_DIFF_COLUMNS.filter(column => fields.has(column)));
+  const live = liveConditionFor(fields);
+  return (live ? query.where(live) : query).toArray();
+}
+
 const TABLE_NAME = "memories";
+/** Memories that are not in the trash and not chunk rows */
+const LIVE_CONDITION = "deletedAt IS NULL AND parentId IS NULL";
+/** Chunks are never trashed themselves, so this matches memories only */
+const TRASH_CONDITION = "deletedAt IS NOT NULL";
+const CHUNK_CONDITION = "parentId IS NOT NULL";
+const ACCESS_FLUSH_DELAY_MS = 2000;
+const HOT_MEMORY_LIMIT = 5;
+const MAX_LIST_PAGE = 1000;
+const ITERATE_BATCH_SIZE = 500;
+const FILTERED_FETCH_LIMIT = 200;
+const LIST_COLUMNS = ["id", "text", "category", "scope", "importance", "timestamp", "metadata", "tags", "expiresAt"];
+const VECTOR_INDEX_META_KEY = "vectorIndex";
+const TAGGED_PRUNE_MARGIN_MS = 60_000;
+const SERVING_CHECK_INTERVAL_MS = 60_000;
+/**
+ * Writes that need no FTS refresh afterwards: they fold new rows into the
+ * indices themselves, or only touch access and importance columns
+ */
+const FTS_REFRESH_SKIPPED_OPERATIONS = new Set(["optimize", "refreshFtsIndex", "flushAccess", "bumpImportance"]);
 
-export class MemoryStore {
+export class MemoryStore implements IMemoryStore {
   private db: LanceDB.Connection | null = null;
   private table: LanceDB.Table | null = null;
+  private history: MemoryHistory | null = null;
+  private meta: MetaTable | null = null;
   private initPromise: Promise<void> | null = null;
   private ftsIndexCreated = false;
-
-  constructor(private readonly config: StoreConfig) {}
+  private pendingAccess = new Map<string, number>();
+  private accessFlushTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly writeLock: WriteLock | null;
+  /** Registered model columns; empty when embeddingModel is not configured */
+  private embeddingColumnList: EmbeddingColumn[] = [];
+  /** Column written with entry vectors */
+  private activeColumn: EmbeddingColumn;
+  /** Column searched by the retriever and returned with search results */
+  private servingColumn: EmbeddingColumn;
+  private servingCheckedAt = 0;
+  private ftsRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private ftsRefreshRunning = false;
+
+  constructor(private readonly config: StoreConfig) {
+    this.writeLock = config.readOnly ? null : createWriteLock(config.dbPath, config.writeLock);
+    this.activeColumn = { column: DEFAULT_VECTOR_COLUMN, model: config.embeddingModel ?? "", dimensions: config.vectorDim };
+    this.servingColumn = this.activeColumn;
+  }
 
   get dbPath(): string {
     return this.config.dbPath;
   }
 
+  get softDeleteEnabled(): boolean {
+    return this.config.softDelete !== false;
+  }
+
+  get readOnly(): boolean {
+    return this.config.readOnly === true;
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (this.table) return;
     if (this.initPromise) return this.initPromise;
@@ -91,7 +403,18 @@ export class MemoryStore {
   private async doInitialize(): Promise<void> {
     const lancedb = await loadLanceDB();
     const db = await lancedb.connect(this.config.dbPath);
+    if (this.readOnly) {
+      await this.openReadOnly(db);
+    } else {
+      // Creation and migrations write, so they wait for other processes too
+      await this.writeLock!.run(() => this.openWritable(db));
+    }
+  }
+
+  private async openWritable(db: LanceDB.Connection): Promise<void> {
+    const meta = await MetaTable.open(db);
     let table: LanceDB.Table;
+    let created = false;
 
     try {
       table = await db.openTable(TABLE_NAME);
@@ -105,11 +428,19 @@ export class MemoryStore {
         importance: 0,
         timestamp: 0,
         metadata: "{}",
+        tags: [""],
+        deletedAt: 0,
+        updatedAt: 0,
+        expiresAt: 0,
+        accessCount: 0,
+        lastAccessedAt: 0,
       };
 
       try {
-        table = await db.createTable(TABLE_NAME, [schemaEntry as unknown as Record<string, unknown>]);
+        const promotedColumns = Object.fromEntries(Object.values(PROMOTED_METADATA_COLUMNS).map(column => [column, ""]));
+        table = await db.createTable(TABLE_NAME, [{ ...schemaEntry, ftsText: "", ...promotedColumns, parentId: "" } as unknown as Record<string, unknown>]);
         await table.delete('id = "__schema__"');
+        created = true;
       } catch (createErr) {
         if (String(createErr).includes("already exists")) {
           table = await db.openTable(TABLE_NAME);
@@ -119,7 +450,71 @@ export class MemoryStore {
       }
     }
 
-    // Validate vector dimensions
+    await this.openEmbeddingColumns(table, meta, true);
+
+    // A freshly created table already has the latest schema
+    if (created) {
+      await meta.setSchemaVersion(LATEST_SCHEMA_VERSION);
+    } else {
+      const applied = await runSchemaMigrations(table, meta);
+      for (const migration of applied) {
+        console.log(`Applied memory schema migration ${migration.version}: ${migration.description}`);
+      }
+    }
+
+    // Create FTS index for BM25 search
+    try {
+      this.ftsIndexCreated = await this.createFtsIndex(table, meta);
+    } catch (err) {
+      console.warn("Failed to create FTS index, falling back to vector-only search:", err);
+      this.ftsIndexCreated = false;
+    }
+
+    this.history = await MemoryHistory.open(db, this.config.vectorDim, { cipher: this.cipher });
+    this.meta = meta;
+    this.db = db;
+    this.table = table;
+  }
+
+  /**
+   * Open an existing database without creating tables, migrating or building
+   * indices. A database that is missing or needs a migration is an error.
+   */
+  private async openReadOnly(db: LanceDB.Connection): Promise<void> {
+    let table: LanceDB.Table;
+    let meta: MetaTable;
+    let history: MemoryHistory;
+    try {
+      table = await db.openTable(TABLE_NAME);
+      meta = await MetaTable.open(db, { readOnly: true });
+      history = await MemoryHistory.open(db, this.config.vectorDim, { readOnly: true, cipher: this.cipher });
+    } catch (err) {
+      throw new Error(
+        `No memory database at ${this.config.dbPath}. Read-only mode cannot create one; open it once without readOnly first.`,
+        { cause: err },
+      );
+    }
+
+    await this.openEmbeddingColumns(table, meta, false);
+
+    const status = await getSchemaStatus(meta);
+    if (status.pending.length > 0) {
+      throw new Error(
+        `Memory schema is at version ${status.currentVersion}, this plugin needs ${status.latestVersion}. Open the database once without readOnly to migrate it.`,
+      );
+    }
+
+    this.ftsIndexCreated = await this.hasFtsIndex(table);
+    if (this.ftsIndexCreated && ftsIndexOutdated(await meta.get(FTS_INDEX_META_KEY), ftsIndexOptions(this.ftsConfig))) {
+      console.warn("memory-lancedb-voyage: FTS index was built with other tokenizer options; open the database once without readOnly to rebuild it");
+    }
+    this.history = history;
+    this.meta = meta;
+    this.db = db;
+    this.table = table;
+  }
+
+  private async assertVectorDim(table: LanceDB.Table): Promise<void> {
     const sample = await table.query().limit(1).toArray();
     if (sample.length > 0 && sample[0]?.vector?.length) {
       const existingDim = sample[0].vector.length;
@@ -129,55 +524,343 @@ export class MemoryStore {
         );
       }
     }
+  }
 
-    // Create FTS index for BM25 search
+  /**
+   * Map embedding models to vector columns. The registry in the meta table
+   * starts with the original "vector" column, owned by the previous model
+   * when one is configured. A writable store adds a column for a new model;
+   * searches stay on the previous model's column until the new one has a
+   * vector in every row.
+   */
+  private async openEmbeddingColumns(table: LanceDB.Table, meta: MetaTable, writable: boolean): Promise<void> {
+    const model = this.config.embeddingModel;
+    if (!model) return this.assertVectorDim(table);
+
+    const active: EmbeddingModelRef = { model, dimensions: this.config.vectorDim };
+    const previous = this.config.previousEmbedding;
+    const dims = await vectorColumnDims(table);
+    let columns = parseEmbeddingColumns(await meta.get(EMBEDDING_COLUMNS_META_KEY));
+
+    if (columns.length === 0) {
+      const tableDim = dims.get(DEFAULT_VECTOR_COLUMN);
+      const owner = [previous, active].find(ref => ref && ref.dimensions === tableDim);
+      if (!owner) {
+        throw new Error(
+          `Vector dimension mismatch: table=${tableDim}, config=${active.dimensions}. Set embedding.previous to the model the table was built with, or use a new dbPath.`,
+        );
+      }
+      columns = [{ column: DEFAULT_VECTOR_COLUMN, model: owner.model, dimensions: owner.dimensions }];
+      if (writable) await meta.set(EMBEDDING_COLUMNS_META_KEY, JSON.stringify(columns));
+    }
+
+    const previousColumn = previous ? columns.find(c => sameEmbeddingModel(c, previous)) : undefined;
+    let activeColumn = columns.find(c => sameEmbeddingModel(c, active));
+    if (!activeColumn) {
+      if (!writable) {
+        throw new Error(`No vector column for ${model} yet. Open the database once without readOnly to add it.`);
+      }
+      // Without a previous model, searches would run on an empty column until the backfill completes
+      if (!previousColumn && await table.countRows() > 0) {
+        throw new Error(
+          `No vector column for ${model} (existing: ${columns.map(c => c.model).join(", ")}). Set embedding.previous to the model the table was built with.`,
+        );
+      }
+      activeColumn = { column: embeddingColumnName(active), ...active };
+      await addColumnIfMissing(table, activeColumn.column, `arrow_cast(NULL, 'FixedSizeList(${active.dimensions}, Float32)')`);
+      columns = [...columns, activeColumn];
+      await meta.set(EMBEDDING_COLUMNS_META_KEY, JSON.stringify(columns));
+      console.log(`memory-lancedb-voyage: added vector column ${activeColumn.column} for ${model}`);
+    }
+    if (dims.has(activeColumn.column) && dims.get(activeColumn.column) !== active.dimensions) {
+      throw new Error(`Vector column ${activeColumn.column} has ${dims.get(activeColumn.column)} dimensions, expected ${active.dimensions}`);
+    }
+
+    if (previous && !previousColumn) {
+      console.warn(`memory-lancedb-voyage: no vector column for previous embedding model ${previous.model}, ignoring it`);
+    }
+
+    this.embeddingColumnList = columns;
+    this.activeColumn = activeColumn;
+    this.servingColumn = previousColumn && previousColumn !== activeColumn
+      && await table.countRows(`${activeColumn.column} IS NULL`) > 0
+      ? previousColumn
+      : activeColumn;
+    this.servingCheckedAt = Date.now();
+  }
+
+  /**
+   * Run a write while holding the cross-process write lock. Tables are moved
+   * to the latest version first, so reads inside the write see commits from
+   * other processes; commit conflicts are retried.
+   */
+  private async mutate<T>(operation: string, write: () => Promise<T>): Promise<T> {
+    if (this.readOnly) throw new ReadOnlyStoreError(operation);
+    await this.ensureInitialized();
+
+    const result = await this.writeLock!.run(() => withCommitRetry(async () => {
+      await Promise.all([this.table!.checkoutLatest(), this.meta!.checkoutLatest(), this.history!.checkoutLatest()]);
+      return write();
+    }));
+    if (!FTS_REFRESH_SKIPPED_OPERATIONS.has(operation)) this.scheduleFtsRefresh();
+    return result;
+  }
+
+  /**
+   * Record a revision without failing the mutation that triggered it.
+   */
+  private async recordRevision(entries: MemoryEntry[], action: RevisionAction): Promise<void> {
+    // The history table has one vector column, sized for the model of the "vector" column
+    const revisions = this.activeColumn.column === DEFAULT_VECTOR_COLUMN
+      ? entries
+      : entries.map(entry => ({ ...entry, vector: [] }));
     try {
-      await this.createFtsIndex(table);
-      this.ftsIndexCreated = true;
+      await this.history!.record(revisions, action);
     } catch (err) {
-      console.warn("Failed to create FTS index, falling back to vector-only search:", err);
-      this.ftsIndexCreated = false;
+      console.warn(`Failed to record ${action} revision for ${entries.length} memories:`, err);
     }
-
-    this.db = db;
-    this.table = table;
   }
 
-  private async createFtsIndex(table: LanceDB.Table): Promise<void> {
+  /**
+   * Index the BM25 column. An FTS index on another column is dropped first:
+   * after enabling encryption, an index on text would keep plaintext tokens
+   * of memories that are now encrypted. An index built with other tokenizer
+   * options is rebuilt. Returns false when encryption leaves no plaintext
+   * column to index.
+   */
+  private async createFtsIndex(table: LanceDB.Table, meta: MetaTable): Promise<boolean> {
+    const column = this.ftsColumn;
     try {
       const indices = await table.listIndices();
-      const hasFtsIndex = indices?.some((idx: any) =>
-        idx.indexType === "FTS" || idx.columns?.includes("text"),
-      );
+      for (const idx of indices) {
+        if (idx.indexType === "FTS" && (!column || !idx.columns.includes(column))) {
+          await table.dropIndex(idx.name);
+        }
+      }
+      if (!column) return false;
 
-      if (!hasFtsIndex) {
+      const options = ftsIndexOptions(this.ftsConfig);
+      const exists = indices.some(idx => idx.indexType === "FTS" && idx.columns.includes(column));
+      const outdated = exists && ftsIndexOutdated(await meta.get(FTS_INDEX_META_KEY), options);
+      if (!exists || outdated) {
         const lancedb = await loadLanceDB();
-        await table.createIndex("text", {
-          config: (lancedb as any).Index.fts(),
+        await table.createIndex(column, {
+          config: (lancedb as any).Index.fts(options),
+          replace: true,
         });
+        await meta.set(FTS_INDEX_META_KEY, JSON.stringify(options));
+        if (outdated) console.log(`memory-lancedb-voyage: rebuilt FTS index on ${column} with new tokenizer options`);
       }
+      return true;
     } catch (err) {
       throw new Error(`FTS index creation failed: ${err instanceof Error ? err.message : String(err)}`);
     }
   }
 
+  private async hasFtsIndex(table: LanceDB.Table): Promise<boolean> {
+    const column = this.ftsColumn;
+    if (!column) return false;
+    const indices = await table.listIndices();
+    return indices.some(idx => idx.indexType === "FTS" && idx.columns.includes(column));
+  }
+
+  /**
+   * Text column BM25 searches: text itself without encryption, the plaintext
+   * ftsText copy when encryption.plaintextFts is on, none otherwise.
+   */
+  private get ftsColumn(): string | null {
+    const encryption = this.config.encryption;
+    if (!encryption) return "text";
+    return encryption.plaintextFts ? "ftsText" : null;
+  }
+
+  private get cipher(): FieldCipher | undefined {
+    return this.config.encryption?.cipher;
+  }
+
+  /**
+   * Row as written to the table, with text and metadata encrypted when
+   * configured. Promoted metadata columns stay empty under encryption. The
+   * vector goes to the active model's column; other models' columns are
+   * cleared for backfill, or left out of the row (which keeps them in a
+   * merge-insert update) when the text is unchanged.
+   */
+  private toRow(entry: MemoryEntry, keepOtherVectors = false): Record<string, unknown> {
+    const { vector, ...fields } = entryToRow(entry);
+    const row: Record<string, unknown> = { ...fields, [this.activeColumn.column]: (vector as number[]).length > 0 ? vector : null };
+    for (const { column } of this.embeddingColumnList) {
+      if (column !== this.activeColumn.column && !keepOtherVectors) row[column] = null;
+    }
+    const encryption = this.config.encryption;
+    if (!encryption) return row;
+    const promoted = Object.fromEntries(Object.values(PROMOTED_METADATA_COLUMNS).map(column => [column, null]));
+    return { ...encryption.cipher.sealFields(row), ftsText: encryption.plaintextFts ? entry.text : null, ...promoted };
+  }
+
+  /**
+   * Row as read from the table, with text and metadata decrypted and
+   * `vector` taken from the given column (default: the active model's).
+   */
+  private openRow<T extends Record<string, unknown>>(row: T, vectorColumn = this.activeColumn.column): T {
+    const opened = this.cipher ? this.cipher.openFields(row) : row;
+    return vectorColumn === DEFAULT_VECTOR_COLUMN ? opened : { ...opened, vector: opened[vectorColumn] };
+  }
+
+  /**
+   * SQL conditions shared by search, list and stats. The promoted metadata
+   * columns are only trusted without encryption, where writes fill them.
+   */
+  private filterConditions(scopeFilter?: string[], filter?: MemoryFilter): string[] {
+    return [
+      scopeCondition(scopeFilter),
+      tagCondition(filter),
+      timeRangeCondition(filter),
+      this.cipher ? null : promotedMetadataCondition(filter),
+      LIVE_CONDITION,
+      notExpiredCondition(),
+    ].filter((c): c is string => Boolean(c));
+  }
+
+  /** Metadata filter check on an opened (decrypted) row */
+  private matchesWhere(row: Record<string, unknown>, filter?: MemoryFilter): boolean {
+    return !filter?.where || matchesMetadataFilter(filter.where, row.metadata as string | undefined);
+  }
+
+  /**
+   * Search condition matching memories that pass the filters, and chunk rows
+   * in scope. A chunk only counts once its parent passes the filters, which
+   * withChunkHits() checks.
+   */
+  private searchCondition(scopeFilter?: string[], filter?: MemoryFilter): string {
+    const chunks = [CHUNK_CONDITION, scopeCondition(scopeFilter)].filter(Boolean).join(" AND ");
+    return `((${this.filterConditions(scopeFilter, filter).join(" AND ")}) OR (${chunks}))`;
+  }
+
+  /**
+   * Fold chunk matches into search results: a chunk match counts for its
+   * parent memory when it scores higher than the parent itself. Parents
+   * found only through a chunk are read and checked against the filters.
+   */
+  private async withChunkHits(
+    results: MemorySearchResult[],
+    chunkHits: Map<string, { chunk: MatchedChunk; score: number }>,
+    limit: number,
+    vectorColumn: string,
+    scopeFilter?: string[],
+    filter?: MemoryFilter,
+  ): Promise<MemorySearchResult[]> {
+    if (chunkHits.size === 0) return results;
+
+    const byId = new Map(results.map(result => [result.entry.id, result]));
+    const missing = [...chunkHits.keys()].filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      const idList = missing.map(id => `'${escapeSqlLiteral(id)}'`).join(", ");
+      const rows = await this.table!.query()
+        .where([`id IN (${idList})`, ...this.filterConditions(scopeFilter, filter)].join(" AND "))
+        .toArray();
+      for (const row of rows.map(raw => this.openRow(raw, vectorColumn))) {
+        const rowScope = (row.scope as string | undefined) ?? "global";
+        if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) continue;
+        if (!this.matchesWhere(row, filter)) continue;
+        const hit = chunkHits.get(row.id as string)!;
+        byId.set(row.id as string, { entry: rowToSearchEntry(row), score: hit.score, chunk: hit.chunk });
+      }
+    }
+
+    for (const [parentId, hit] of chunkHits) {
+      const result = byId.get(parentId);
+      if (result && !result.chunk && hit.score > result.score) {
+        byId.set(parentId, { ...result, score: hit.score, chunk: hit.chunk });
+      }
+    }
+
+    return [...byId.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
   async store(entry: Omit<MemoryEntry, "id" | "timestamp">): Promise<MemoryEntry> {
-    await this.ensureInitialized();
+    return this.mutate("store", async () => {
+      const fullEntry: MemoryEntry = {
+        ...entry,
+        id: randomUUID(),
+        timestamp: Date.now(),
+        metadata: entry.metadata || "{}",
+        tags: normalizeTags(entry.tags),
+      };
 
-    const fullEntry: MemoryEntry = {
-      ...entry,
-      id: randomUUID(),
-      timestamp: Date.now(),
-      metadata: entry.metadata || "{}",
-    };
+      await this.table!.add([this.toRow(fullEntry)]);
+      await this.recordRevision([fullEntry], "create");
+      return fullEntry;
+    });
+  }
 
-    await this.table!.add([fullEntry as unknown as Record<string, unknown>]);
-    return fullEntry;
+  /**
+   * Store several memories with a single table write. Each gets its own id
+   * and a "create" revision.
+   */
+  async storeBatch(entries: Array<Omit<MemoryEntry, "id" | "timestamp">>): Promise<MemoryEntry[]> {
+    if (entries.length === 0) return [];
+    return this.mutate("storeBatch", async () => {
+      const now = Date.now();
+      const fullEntries = entries.map((entry): MemoryEntry => ({
+        ...entry,
+        id: randomUUID(),
+        timestamp: now,
+        metadata: entry.metadata || "{}",
+        tags: normalizeTags(entry.tags),
+      }));
+
+      await this.table!.add(fullEntries.map(entry => this.toRow(entry)));
+      await this.recordRevision(fullEntries, "create");
+      return fullEntries;
+    });
   }
 
   async importEntry(entry: MemoryEntry): Promise<MemoryEntry> {
-    await this.ensureInitialized();
+    return this.mutate("importEntry", async () => {
+      const full = this.normalizeImported(entry);
+
+      // An imported entry supersedes a trashed memory with the same id; a live
+      // memory with that id is left alone
+      const live = await this.table!.countRows(`id = '${escapeSqlLiteral(full.id)}' AND ${LIVE_CONDITION}`);
+      if (live === 0) await this.deleteChunks([full.id]);
+      await this.table!
+        .mergeInsert("id")
+        .whenMatchedUpdateAll({ where: `target.${TRASH_CONDITION}` })
+        .whenNotMatchedInsertAll()
+        .execute([this.toRow(full)]);
+      await this.recordRevision([full], "create");
+      return full;
+    });
+  }
+
+  /**
+   * Insert or replace a memory by id in a single merge-insert, so readers
+   * never see it missing. Replacing revives a trashed memory and drops its
+   * chunks. Access counters are kept unless the entry sets them.
+   */
+  async upsert(entry: MemoryEntry): Promise<MemoryEntry> {
+    return this.mutate("upsert", async () => {
+      const full = this.normalizeImported(entry);
+
+      const current = await this.table!.query()
+        .select(["text", "accessCount", "lastAccessedAt"])
+        .where(`id = '${escapeSqlLiteral(full.id)}'`)
+        .limit(1)
+        .toArray();
+      if (current.length > 0) {
+        full.updatedAt = Date.now();
+        full.accessCount ??= typeof current[0].accessCount === "number" ? current[0].accessCount : 0;
+        full.lastAccessedAt ??= typeof current[0].lastAccessedAt === "number" ? current[0].lastAccessedAt : null;
+      }
 
+      await this.writeEntry(full, current.length > 0 && this.openRow(current[0]).text === full.text);
+      if (current.length > 0) await this.deleteChunks([full.id]);
+      await this.recordRevision([full], current.length > 0 ? "update" : "create");
+      return full;
+    });
+  }
+
+  private normalizeImported(entry: MemoryEntry): MemoryEntry {
     if (!entry.id || typeof entry.id !== "string") {
       throw new Error("importEntry requires a stable id");
     }
@@ -189,181 +872,261 @@ export class MemoryStore {
       );
     }
 
-    const full: MemoryEntry = {
+    return {
       ...entry,
       scope: entry.scope || "global",
       importance: Number.isFinite(entry.importance) ? entry.importance : 0.7,
       timestamp: Number.isFinite(entry.timestamp) ? entry.timestamp : Date.now(),
       metadata: entry.metadata || "{}",
+      tags: normalizeTags(entry.tags),
+      deletedAt: null,
+      expiresAt: entry.expiresAt ?? null,
     };
+  }
 
-    await this.table!.add([full as unknown as Record<string, unknown>]);
-    return full;
+  /**
+   * Write a complete row in one atomic merge-insert keyed on id. Other
+   * models' vectors are kept when the caller knows the text is unchanged.
+   */
+  private async writeEntry(entry: MemoryEntry, keepOtherVectors = false): Promise<void> {
+    await this.table!
+      .mergeInsert("id")
+      .whenMatchedUpdateAll()
+      .whenNotMatchedInsertAll()
+      .execute([this.toRow(entry, keepOtherVectors)]);
   }
 
   async hasId(id: string): Promise<boolean> {
     await this.ensureInitialized();
     const safeId = escapeSqlLiteral(id);
-    const res = await this.table!.query().select(["id"]).where(`id = '${safeId}'`).limit(1).toArray();
+    const res = await this.table!.query().select(["id"]).where(`id = '${safeId}' AND ${LIVE_CONDITION}`).limit(1).toArray();
     return res.length > 0;
   }
 
-  async vectorSearch(vector: number[], limit = 5, minScore = 0.3, scopeFilter?: string[]): Promise<MemorySearchResult[]> {
+  async vectorSearch(
+    vector: number[],
+    limit = 5,
+    minScore = 0.3,
+    scopeFilter?: string[],
+    filter?: MemoryFilter,
+    options?: VectorSearchOptions,
+  ): Promise<MemorySearchResult[]> {
     await this.ensureInitialized();
 
     const safeLimit = clampInt(limit, 1, 20);
-    const fetchLimit = Math.min(safeLimit * 10, 200);
-
-    let query = this.table!.vectorSearch(vector).limit(fetchLimit);
+    const fetchLimit = filter?.where ? FILTERED_FETCH_LIMIT : Math.min(safeLimit * 10, FILTERED_FETCH_LIMIT);
+    const { column } = this.searchColumn(options?.model, vector.length);
 
-    if (scopeFilter && scopeFilter.length > 0) {
-      const scopeConditions = scopeFilter
-        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
-        .join(" OR ");
-      query = query.where(`(${scopeConditions}) OR scope IS NULL`);
-    }
+    let query = this.table!.vectorSearch(vector)
+      .column(column)
+      .limit(fetchLimit)
+      .where(this.searchCondition(scopeFilter, filter));
+    if (options?.nprobes) query = query.nprobes(options.nprobes);
+    if (options?.refineFactor) query = query.refineFactor(options.refineFactor);
 
     const results = await query.toArray();
     const mapped: MemorySearchResult[] = [];
+    const chunkHits = new Map<string, { chunk: MatchedChunk; score: number }>();
 
-    for (const row of results) {
+    for (const raw of results) {
+      const row = this.openRow(raw, column);
       const distance = row._distance ?? 0;
       const score = 1 / (1 + distance);
       if (score < minScore) continue;
 
       const rowScope = (row.scope as string | undefined) ?? "global";
       if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) continue;
+      if (typeof row.parentId === "string") {
+        // Results come nearest first, so the first chunk of a parent is its best
+        if (!chunkHits.has(row.parentId)) chunkHits.set(row.parentId, { chunk: rowToMatchedChunk(row), score });
+        continue;
+      }
+      if (!this.matchesWhere(row, filter)) continue;
 
-      mapped.push({
-        entry: {
-          id: row.id as string,
-          text: row.text as string,
-          vector: row.vector as number[],
-          category: row.category as MemoryEntry["category"],
-          scope: rowScope,
-          importance: row.importance as number,
-          timestamp: row.timestamp as number,
-          metadata: (row.metadata as string) || "{}",
-        },
-        score,
-      });
+      mapped.push({ entry: rowToSearchEntry(row), score });
 
       if (mapped.length >= safeLimit) break;
     }
 
-    return mapped;
+    return this.withChunkHits(mapped, chunkHits, safeLimit, column, scopeFilter, filter);
   }
 
-  async bm25Search(query: string, limit = 5, scopeFilter?: string[]): Promise<MemorySearchResult[]> {
+  async bm25Search(query: string, limit = 5, scopeFilter?: string[], filter?: MemoryFilter): Promise<MemorySearchResult[]> {
     await this.ensureInitialized();
 
     if (!this.ftsIndexCreated) return [];
 
     const safeLimit = clampInt(limit, 1, 20);
+    const ftsQuery = normalizeFtsQuery(query, this.ftsConfig);
+    if (!ftsQuery) return [];
 
     try {
-      let searchQuery = this.table!.search(query, "fts").limit(safeLimit);
-
-      if (scopeFilter && scopeFilter.length > 0) {
-        const scopeConditions = scopeFilter
-          .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
-          .join(" OR ");
-        searchQuery = searchQuery.where(`(${scopeConditions}) OR scope IS NULL`);
-      }
+      // Chunk rows compete for the same slots, so fetch more than the limit
+      const fetchLimit = filter?.where ? FILTERED_FETCH_LIMIT : Math.min(safeLimit * 4, FILTERED_FETCH_LIMIT);
+      // Not a fast search: rows written since the last index refresh are found by scanning the unindexed tail
+      const searchQuery = this.table!.search(ftsQuery, "fts", this.ftsColumn!).limit(fetchLimit).where(this.searchCondition(scopeFilter, filter));
 
       const results = await searchQuery.toArray();
       const mapped: MemorySearchResult[] = [];
+      const chunkHits = new Map<string, { chunk: MatchedChunk; score: number }>();
 
-      for (const row of results) {
+      // Vectors come from the serving column, like those of vector search hits
+      const vectorColumn = this.servingColumn.column;
+      for (const raw of results) {
+        const row = this.openRow(raw, vectorColumn);
         const rowScope = (row.scope as string | undefined) ?? "global";
         if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) continue;
 
         const rawScore = typeof row._score === "number" ? row._score : 0;
         const normalizedScore = rawScore > 0 ? 1 / (1 + Math.exp(-rawScore / 5)) : 0.5;
 
-        mapped.push({
-          entry: {
-            id: row.id as string,
-            text: row.text as string,
-            vector: row.vector as number[],
-            category: row.category as MemoryEntry["category"],
-            scope: rowScope,
-            importance: row.importance as number,
-            timestamp: row.timestamp as number,
-            metadata: (row.metadata as string) || "{}",
-          },
-          score: normalizedScore,
-        });
+        if (typeof row.parentId === "string") {
+          if (!chunkHits.has(row.parentId)) chunkHits.set(row.parentId, { chunk: rowToMatchedChunk(row), score: normalizedScore });
+          continue;
+        }
+        if (!this.matchesWhere(row, filter)) continue;
+
+        mapped.push({ entry: rowToSearchEntry(row), score: normalizedScore });
+        if (mapped.length >= safeLimit) break;
       }
 
-      return mapped;
+      return await this.withChunkHits(mapped, chunkHits, safeLimit, vectorColumn, scopeFilter, filter);
     } catch (err) {
       console.warn("BM25 search failed, falling back to empty results:", err);
       return [];
     }
   }
 
-  async delete(id: string, scopeFilter?: string[]): Promise<boolean> {
+  /**
+   * Resolve a full ID or 8+ char prefix to a single memory ID. Prefixes are
+   * matched server-side, so any memory in the table can be found. Returns null
+   * when nothing matches; throws AmbiguousIdError listing the accessible
+   * matches when there is more than one.
+   */
+  async resolveId(idOrPrefix: string, options: { scopeFilter?: string[]; trashed?: boolean } = {}): Promise<string | null> {
     await this.ensureInitialized();
+    assertIdOrPrefix(idOrPrefix);
 
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    const prefixRegex = /^[0-9a-f]{8,}$/i;
-    const isFullId = uuidRegex.test(id);
-    const isPrefix = !isFullId && prefixRegex.test(id);
+    const needle = idOrPrefix.toLowerCase();
+    const rows = await this.table!.query()
+      .select(["id", "text", "scope"])
+      .where(`${idMatchCondition(needle)} AND ${options.trashed ? TRASH_CONDITION : LIVE_CONDITION}`)
+      .toArray();
+    if (rows.length === 0) return null;
 
-    if (!isFullId && !isPrefix) {
-      throw new Error(`Invalid memory ID format: ${id}`);
+    const exact = rows.find(row => row.id === needle);
+    const matches = (exact ? [exact] : rows).map(row => toIdMatch(this.openRow(row)));
+    const { scopeFilter } = options;
+    const accessible = scopeFilter && scopeFilter.length > 0
+      ? matches.filter(m => scopeFilter.includes(m.scope))
+      : matches;
+
+    if (accessible.length > 1) {
+      throw new AmbiguousIdError(idOrPrefix, accessible, options.trashed ? "trashed memories" : "memories");
+    }
+    if (accessible.length === 0) {
+      throw new Error(`Memory ${matches.length === 1 ? matches[0].id : idOrPrefix} is outside accessible scopes`);
     }
+    return accessible[0].id;
+  }
 
-    let candidates: any[];
-    if (isFullId) {
-      candidates = await this.table!.query().where(`id = '${id}'`).limit(1).toArray();
-    } else {
-      const all = await this.table!.query().select(["id", "scope"]).limit(1000).toArray();
-      candidates = all.filter((r: any) => (r.id as string).startsWith(id));
-      if (candidates.length > 1) {
-        throw new Error(`Ambiguous prefix "${id}" matches ${candidates.length} memories. Use a longer prefix or full ID.`);
+  async delete(id: string, scopeFilter?: string[]): Promise<boolean> {
+    return this.mutate("delete", async () => {
+      const resolved = await this.resolveId(id, { scopeFilter });
+      if (!resolved) return false;
+
+      const resolvedId = escapeSqlLiteral(resolved);
+      const fullRows = await this.table!.query().where(`id = '${resolvedId}'`).limit(1).toArray();
+
+      if (this.softDeleteEnabled) {
+        await this.table!.update({ where: `id = '${resolvedId}'`, values: { deletedAt: Date.now() } });
+      } else {
+        await this.table!.delete(`id = '${resolvedId}'`);
+        await this.deleteChunks([resolved]);
       }
-    }
-    if (candidates.length === 0) return false;
+      await this.recordRevision(fullRows.map(row => rowToEntry(this.openRow(row))), "delete");
+      return true;
+    });
+  }
 
-    const resolvedId = candidates[0].id as string;
-    const rowScope = (candidates[0].scope as string | undefined) ?? "global";
+  async list(scopeFilter?: string[], category?: string, limit = 20, offset = 0, filter?: MemoryFilter): Promise<MemoryEntry[]> {
+    await this.ensureInitialized();
+    const keys = await this.listKeys(this.listConditions(scopeFilter, category, filter), filter);
+    return this.fetchListEntries(keys.slice(offset, offset + limit));
+  }
 
-    if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
-      throw new Error(`Memory ${resolvedId} is outside accessible scopes`);
-    }
+  /**
+   * One page of memories, newest first. Only the (id, timestamp) keys are
+   * sorted in memory; the page itself is fetched by id, and later pages skip
+   * earlier rows server-side via the cursor.
+   */
+  async listCursor(options: ListOptions = {}): Promise<ListPage> {
+    await this.ensureInitialized();
 
-    await this.table!.delete(`id = '${resolvedId}'`);
-    return true;
+    const limit = clampInt(options.limit ?? 20, 1, MAX_LIST_PAGE);
+    const conditions = this.listConditions(options.scopeFilter, options.category, options.filter);
+    if (options.cursor) conditions.push(afterCursorCondition(decodeListCursor(options.cursor)));
+
+    const keys = await this.listKeys(conditions, options.filter);
+    const page = keys.slice(0, limit);
+    return {
+      entries: await this.fetchListEntries(page),
+      nextCursor: keys.length > limit ? encodeListCursor(page[page.length - 1]) : null,
+    };
   }
 
-  async list(scopeFilter?: string[], category?: string, limit = 20, offset = 0): Promise<MemoryEntry[]> {
+  /**
+   * Iterate every matching memory in list order, one page at a time. The
+   * sorted keys are read once up front; each page is then fetched by id, so
+   * memories deleted meanwhile are skipped and later writes are not included.
+   */
+  async *iterate(options: Omit<ListOptions, "cursor" | "limit"> & { batchSize?: number } = {}): AsyncGenerator<MemoryEntry> {
     await this.ensureInitialized();
 
-    let query = this.table!.query();
-    const conditions: string[] = [];
-
-    if (scopeFilter && scopeFilter.length > 0) {
-      const scopeConditions = scopeFilter
-        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
-        .join(" OR ");
-      conditions.push(`((${scopeConditions}) OR scope IS NULL)`);
+    const batchSize = clampInt(options.batchSize ?? ITERATE_BATCH_SIZE, 1, MAX_LIST_PAGE);
+    const keys = await this.listKeys(this.listConditions(options.scopeFilter, options.category, options.filter), options.filter);
+    for (let start = 0; start < keys.length; start += batchSize) {
+      yield* await this.fetchListEntries(keys.slice(start, start + batchSize));
     }
+  }
 
+  private listConditions(scopeFilter?: string[], category?: string, filter?: MemoryFilter): string[] {
+    const conditions = this.filterConditions(scopeFilter, filter);
     if (category) {
       conditions.push(`category = '${escapeSqlLiteral(category)}'`);
     }
+    return conditions;
+  }
 
-    if (conditions.length > 0) {
-      query = query.where(conditions.join(" AND "));
-    }
+  /**
+   * Sorted keys of the matching rows. With a metadata filter the metadata is
+   * read (and decrypted) too, so the filter applies before paging.
+   */
+  private async listKeys(conditions: string[], filter?: MemoryFilter): Promise<ListKey[]> {
+    const rows = await this.table!.query()
+      .where(conditions.join(" AND "))
+      .select(filter?.where ? ["id", "timestamp", "metadata"] : ["id", "timestamp"])
+      .toArray();
+    return rows
+      .filter(row => this.matchesWhere(this.openRow(row), filter))
+      .map(row => ({ id: row.id as string, timestamp: (row.timestamp as number) || 0 }))
+      .sort(compareListKeys);
+  }
+
+  private async fetchListEntries(keys: ListKey[]): Promise<MemoryEntry[]> {
+    if (keys.length === 0) return [];
 
-    const results = await query
-      .select(["id", "text", "category", "scope", "importance", "timestamp", "metadata"])
+    const ids = keys.map(k => `'${escapeSqlLiteral(k.id)}'`).join(", ");
+    const rows = await this.table!.query()
+      .where(`id IN (${ids}) AND ${LIVE_CONDITION}`)
+      .select(LIST_COLUMNS)
       .toArray();
 
-    return results
+    const byId = new Map(rows.map(row => [row.id as string, row]));
+    return keys
+      .map(key => byId.get(key.id))
+      .filter((row): row is NonNullable<typeof row> => Boolean(row))
+      .map(row => this.openRow(row))
       .map((row): MemoryEntry => ({
         id: row.id as string,
         text: row.text as string,
@@ -373,126 +1136,1050 @@ export class MemoryStore {
         importance: row.importance as number,
         timestamp: row.timestamp as number,
         metadata: (row.metadata as string) || "{}",
-      }))
-      .sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))
-      .slice(offset, offset + limit);
+        tags: rowTags(row.tags),
+        expiresAt: typeof row.expiresAt === "number" ? row.expiresAt : null,
+      }));
   }
 
-  async stats(scopeFilter?: string[]): Promise<{
-    totalCount: number;
-    scopeCounts: Record<string, number>;
-    categoryCounts: Record<string, number>;
-  }> {
+  async stats(scopeFilter?: string[], filter?: MemoryFilter): Promise<MemoryStats> {
     await this.ensureInitialized();
 
-    let query = this.table!.query();
-
-    if (scopeFilter && scopeFilter.length > 0) {
-      const scopeConditions = scopeFilter
-        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
-        .join(" OR ");
-      query = query.where(`((${scopeConditions}) OR scope IS NULL)`);
-    }
-
-    const results = await query.select(["scope", "category"]).toArray();
+    const conditions = this.filterConditions(scopeFilter, filter);
+    const columns = ["id", "scope", "category", "accessCount", "lastAccessedAt"];
+    const results = (await this.table!.query()
+      .where(conditions.join(" AND "))
+      .select(filter?.where ? [...columns, "metadata"] : columns)
+      .toArray())
+      .filter(row => this.matchesWhere(this.openRow(row), filter));
 
     const scopeCounts: Record<string, number> = {};
     const categoryCounts: Record<string, number> = {};
+    let neverRecalledCount = 0;
 
     for (const row of results) {
       const scope = (row.scope as string | undefined) ?? "global";
       const category = row.category as string;
       scopeCounts[scope] = (scopeCounts[scope] || 0) + 1;
       categoryCounts[category] = (categoryCounts[category] || 0) + 1;
+      if (!row.accessCount) neverRecalledCount++;
     }
 
-    return { totalCount: results.length, scopeCounts, categoryCounts };
+    const hotRows = results
+      .filter(row => typeof row.accessCount === "number" && row.accessCount > 0)
+      .sort((a, b) => (b.accessCount - a.accessCount) || ((b.lastAccessedAt || 0) - (a.lastAccessedAt || 0)))
+      .slice(0, HOT_MEMORY_LIMIT);
+
+    let hotMemories: HotMemory[] = [];
+    if (hotRows.length > 0) {
+      const idList = hotRows.map(row => `'${escapeSqlLiteral(row.id as string)}'`).join(", ");
+      const texts = new Map<string, string>();
+      const textRows = await this.table!.query().where(`id IN (${idList})`).select(["id", "text"]).toArray();
+      for (const row of textRows.map(raw => this.openRow(raw))) texts.set(row.id as string, row.text as string);
+      hotMemories = hotRows.map(row => ({
+        id: row.id as string,
+        text: texts.get(row.id as string) ?? "",
+        accessCount: row.accessCount as number,
+        lastAccessedAt: typeof row.lastAccessedAt === "number" ? row.lastAccessedAt : null,
+      }));
+    }
+
+    return { totalCount: results.length, scopeCounts, categoryCounts, neverRecalledCount, hotMemories };
   }
 
-  async update(
-    id: string,
-    updates: { text?: string; vector?: number[]; importance?: number; category?: MemoryEntry["category"]; metadata?: string },
-    scopeFilter?: string[],
-  ): Promise<MemoryEntry | null> {
+  /**
+   * stats() plus content statistics from a batched scan of the matching
+   * memories, and storage statistics. Storage always covers the whole
+   * database, whatever the scope filter.
+   */
+  async healthReport(scopeFilter?: string[]): Promise<HealthReport> {
     await this.ensureInitialized();
+    const generatedAt = Date.now();
+    const stats = await this.stats(scopeFilter);
+
+    const { column, dimensions } = this.servingColumn;
+    const collector = new ContentStatsCollector(dimensions, generatedAt);
+    const keys = await this.listKeys(this.filterConditions(scopeFilter));
+    for (let i = 0; i < keys.length; i += ITERATE_BATCH_SIZE) {
+      const idList = keys.slice(i, i + ITERATE_BATCH_SIZE).map(k => `'${escapeSqlLiteral(k.id)}'`).join(", ");
+      const rows = await this.table!.query()
+        .where(`id IN (${idList})`)
+        .select(["id", "text", column, "importance", "timestamp"])
+        .toArray();
+      for (const row of rows.map(raw => this.openRow(raw, column))) {
+        collector.add({
+          text: (row.text as string) ?? "",
+          vector: row.vector ? Array.from(row.vector as Iterable<number>) : [],
+          importance: row.importance as number,
+          timestamp: (row.timestamp as number) || 0,
+        });
+      }
+    }
 
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    const prefixRegex = /^[0-9a-f]{8,}$/i;
-    const isFullId = uuidRegex.test(id);
-    const isPrefix = !isFullId && prefixRegex.test(id);
+    return { ...stats, generatedAt, content: collector.result(), storage: await this.storageStats() };
+  }
 
-    if (!isFullId && !isPrefix) {
-      throw new Error(`Invalid memory ID format: ${id}`);
+  private async storageStats(): Promise<StorageStats> {
+    const tables: TableStorageStats[] = [];
+    for (const name of [TABLE_NAME, HISTORY_TABLE_NAME, META_TABLE_NAME]) {
+      const table = name === TABLE_NAME ? this.table! : await this.db!.openTable(name);
+      try {
+        const stats = await table.stats();
+        tables.push({
+          name,
+          rows: stats.numRows,
+          bytes: stats.totalBytes,
+          fragments: stats.fragmentStats.numFragments,
+          smallFragments: stats.fragmentStats.numSmallFragments,
+          versions: (await table.listVersions()).length,
+        });
+      } finally {
+        if (table !== this.table) table.close();
+      }
     }
 
-    let rows: any[];
-    if (isFullId) {
-      const safeId = escapeSqlLiteral(id);
-      rows = await this.table!.query().where(`id = '${safeId}'`).limit(1).toArray();
-    } else {
-      const all = await this.table!.query().select(["id", "text", "vector", "category", "scope", "importance", "timestamp", "metadata"]).limit(1000).toArray();
-      rows = all.filter((r: any) => (r.id as string).startsWith(id));
-      if (rows.length > 1) {
-        throw new Error(`Ambiguous prefix "${id}" matches ${rows.length} memories.`);
+    const ftsIndex = await this.ftsIndexStatus();
+    const vector = await this.vectorIndexStatus();
+    return {
+      diskBytes: await directorySize(this.config.dbPath),
+      tables,
+      ftsIndex,
+      vectorIndex: {
+        exists: vector.exists,
+        name: vector.name,
+        type: vector.type,
+        column: this.servingColumn.column,
+        indexedRows: vector.indexedRows,
+        unindexedRows: vector.unindexedRows,
+      },
+    };
+  }
+
+  async update(id: string, updates: MemoryUpdate, scopeFilter?: string[]): Promise<MemoryEntry | null> {
+    return this.mutate("update", async () => {
+      const resolved = await this.resolveId(id, { scopeFilter });
+      if (!resolved) return null;
+
+      const rows = await this.table!.query()
+        .where(`id = '${escapeSqlLiteral(resolved)}' AND ${LIVE_CONDITION}`)
+        .limit(1)
+        .toArray();
+      if (rows.length === 0) return null;
+
+      const row = this.openRow(rows[0]);
+      const rowScope = (row.scope as string | undefined) ?? "global";
+
+      const updated: MemoryEntry = {
+        id: row.id as string,
+        text: updates.text ?? (row.text as string),
+        vector: updates.vector ?? (row.vector ? Array.from(row.vector as Iterable<number>) : []),
+        category: updates.category ?? (row.category as MemoryEntry["category"]),
+        scope: rowScope,
+        importance: updates.importance ?? (row.importance as number),
+        timestamp: row.timestamp as number,
+        metadata: updates.metadata ?? ((row.metadata as string) || "{}"),
+        tags: updates.tags !== undefined ? normalizeTags(updates.tags) : rowTags(row.tags),
+        updatedAt: Date.now(),
+        expiresAt: typeof row.expiresAt === "number" ? row.expiresAt : null,
+        accessCount: typeof row.accessCount === "number" ? row.accessCount : 0,
+        lastAccessedAt: typeof row.lastAccessedAt === "number" ? row.lastAccessedAt : null,
+      };
+
+      await this.writeEntry(updated, updated.text === row.text);
+      // Chunks are derived from the text and its embedding; the caller re-chunks
+      if (updates.text !== undefined || updates.vector !== undefined) await this.deleteChunks([updated.id]);
+      await this.recordRevision([updated], "update");
+
+      return updated;
+    });
+  }
+
+  /**
+   * Raise (or lower) a memory's importance in place, clamped to [0, 1]. The
+   * arithmetic runs inside a single table update, so concurrent bumps are
+   * not lost. Returns null when no live memory matches.
+   */
+  async bumpImportance(id: string, delta: number, scopeFilter?: string[]): Promise<MemoryEntry | null> {
+    if (!Number.isFinite(delta)) {
+      throw new Error(`Invalid importance delta: ${delta}`);
+    }
+    return this.mutate("bumpImportance", async () => {
+      const resolved = await this.resolveId(id, { scopeFilter });
+      if (!resolved) return null;
+
+      const where = `id = '${escapeSqlLiteral(resolved)}' AND ${LIVE_CONDITION}`;
+      await this.table!.update({
+        where,
+        valuesSql: {
+          importance: `greatest(least(importance + ${delta}, 1.0), 0.0)`,
+          updatedAt: String(Date.now()),
+        },
+      });
+
+      const rows = await this.table!.query().where(where).limit(1).toArray();
+      if (rows.length === 0) return null;
+      const bumped = rowToEntry(this.openRow(rows[0]));
+      await this.recordRevision([bumped], "update");
+      return bumped;
+    });
+  }
+
+  /**
+   * Delete live memories in the given scopes, older than beforeTimestamp and
+   * matching the filter's time range and metadata condition. At least one of
+   * scope, beforeTimestamp or a metadata condition is required.
+   */
+  async bulkDelete(scopeFilter: string[], beforeTimestamp?: number, filter?: MemoryFilter): Promise<number> {
+    return this.mutate("bulkDelete", async () => {
+      const conditions: string[] = [];
+
+      if (scopeFilter.length > 0) {
+        const scopeConditions = scopeFilter
+          .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
+          .join(" OR ");
+        conditions.push(`(${scopeConditions})`);
+      }
+
+      if (beforeTimestamp) {
+        conditions.push(`timestamp < ${beforeTimestamp}`);
+      }
+
+      if (conditions.length === 0 && !filter?.where) {
+        throw new Error("Bulk delete requires at least scope, timestamp or metadata filter for safety");
       }
+
+      const filterConditions = [timeRangeCondition(filter), this.cipher ? null : promotedMetadataCondition(filter)]
+        .filter((c): c is string => Boolean(c));
+      let whereClause = [...conditions, ...filterConditions, LIVE_CONDITION].join(" AND ");
+      const countResults = (await this.table!.query().where(whereClause).toArray())
+        .filter(row => this.matchesWhere(this.openRow(row), filter));
+      const deleteCount = countResults.length;
+
+      if (deleteCount > 0) {
+        if (filter?.where) {
+          const ids = countResults.map(row => `'${escapeSqlLiteral(row.id as string)}'`).join(", ");
+          whereClause = `id IN (${ids}) AND ${LIVE_CONDITION}`;
+        }
+        if (this.softDeleteEnabled) {
+          await this.table!.update({ where: whereClause, values: { deletedAt: Date.now() } });
+        } else {
+          await this.table!.delete(whereClause);
+          await this.deleteChunks(countResults.map(row => row.id as string));
+        }
+        await this.recordRevision(countResults.map(row => rowToEntry(this.openRow(row))), "delete");
+      }
+
+      return deleteCount;
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Chunks
+  // --------------------------------------------------------------------------
+
+  /**
+   * Replace the chunk rows of a live memory with the given chunks. Chunks
+   * take scope, category and timestamp from the parent and have no history
+   * of their own. Returns the number of chunks stored.
+   */
+  async replaceChunks(parentId: string, chunks: ChunkInput[]): Promise<number> {
+    return this.mutate("replaceChunks", async () => {
+      const rows = await this.table!.query()
+        .where(`id = '${escapeSqlLiteral(parentId)}' AND ${LIVE_CONDITION}`)
+        .limit(1)
+        .toArray();
+      if (rows.length === 0) throw new Error(`Memory ${parentId} not found`);
+
+      const parent = rowToEntry(this.openRow(rows[0]));
+      await this.deleteChunks([parentId]);
+      if (chunks.length === 0) return 0;
+
+      await this.table!.add(chunks.map((chunk, index) =>
+        this.toRow(chunkEntry(parent, chunk, index, chunks.length, randomUUID()))));
+      return chunks.length;
+    });
+  }
+
+  /** Remove the chunk rows of the given memories; runs inside mutate() */
+  private async deleteChunks(parentIds: string[]): Promise<void> {
+    for (let i = 0; i < parentIds.length; i += ITERATE_BATCH_SIZE) {
+      const idList = parentIds.slice(i, i + ITERATE_BATCH_SIZE).map(id => `'${escapeSqlLiteral(id)}'`).join(", ");
+      const where = `parentId IN (${idList})`;
+      if (await this.table!.countRows(where) > 0) await this.table!.delete(where);
     }
+  }
 
-    if (rows.length === 0) return null;
+  // --------------------------------------------------------------------------
+  // Access Tracking
+  // --------------------------------------------------------------------------
+
+  /**
+   * Count a recall of each memory. Writes are batched and applied in the
+   * background, so callers never wait on them.
+   */
+  recordAccess(ids: string[]): void {
+    for (const id of ids) {
+      this.pendingAccess.set(id, (this.pendingAccess.get(id) ?? 0) + 1);
+    }
+    if (this.pendingAccess.size === 0 || this.accessFlushTimer) return;
+
+    this.accessFlushTimer = setTimeout(() => {
+      this.accessFlushTimer = null;
+      void this.flushAccess();
+    }, ACCESS_FLUSH_DELAY_MS);
+    this.accessFlushTimer.unref?.();
+  }
+
+  /**
+   * Write queued accesses now. Failures are logged, not thrown.
+   */
+  async flushAccess(): Promise<void> {
+    if (this.accessFlushTimer) {
+      clearTimeout(this.accessFlushTimer);
+      this.accessFlushTimer = null;
+    }
+    if (this.pendingAccess.size === 0) return;
+
+    const pending = this.pendingAccess;
+    this.pendingAccess = new Map();
+    // Read-only processes still rank by access counts, they just never add to them
+    if (this.readOnly) return;
+
+    // One update per distinct increment keeps the number of writes small
+    const byIncrement = new Map<number, string[]>();
+    for (const [id, count] of pending) {
+      byIncrement.set(count, [...(byIncrement.get(count) ?? []), id]);
+    }
+
+    try {
+      await this.mutate("flushAccess", async () => {
+        const now = Date.now();
+        for (const [increment, ids] of byIncrement) {
+          const idList = ids.map(id => `'${escapeSqlLiteral(id)}'`).join(", ");
+          await this.table!.update({
+            where: `id IN (${idList}) AND ${LIVE_CONDITION}`,
+            valuesSql: { accessCount: `coalesce(accessCount, 0) + ${increment}`, lastAccessedAt: String(now) },
+          });
+        }
+      });
+    } catch (err) {
+      console.warn(`Failed to record access for ${pending.size} memories:`, err);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Retention
+  // --------------------------------------------------------------------------
+
+  /**
+   * Find live memories matching retention criteria. Vectors are not loaded.
+   */
+  async findForRetention(criteria: RetentionCriteria): Promise<MemoryEntry[]> {
+    await this.ensureInitialized();
+
+    const conditions = [LIVE_CONDITION];
+    if (criteria.scope) conditions.push(`scope = '${escapeSqlLiteral(criteria.scope)}'`);
+    if (criteria.category) conditions.push(`category = '${escapeSqlLiteral(criteria.category)}'`);
+    if (criteria.importanceBelow !== undefined) conditions.push(`importance < ${Number(criteria.importanceBelow)}`);
+    if (criteria.timestampBefore !== undefined) conditions.push(`timestamp < ${Number(criteria.timestampBefore)}`);
+    if (criteria.expiresBefore !== undefined) conditions.push(`expiresAt <= ${Number(criteria.expiresBefore)}`);
+
+    const results = await this.table!.query()
+      .where(conditions.join(" AND "))
+      .select(["id", "text", "category", "scope", "importance", "timestamp", "metadata", "tags", "expiresAt"])
+      .toArray();
+
+    return results.map(row => ({ ...rowToEntry(this.openRow(row)), vector: [] }));
+  }
+
+  /**
+   * Delete memories by full ID, honoring the soft delete setting.
+   * Returns the number of memories removed.
+   */
+  async deleteMany(ids: string[]): Promise<number> {
+    return this.mutate("deleteMany", async () => {
+      if (ids.length === 0) return 0;
+
+      const idList = ids.map(id => `'${escapeSqlLiteral(id)}'`).join(", ");
+      const whereClause = `id IN (${idList}) AND ${LIVE_CONDITION}`;
+      const rows = await this.table!.query().where(whereClause).toArray();
+      if (rows.length === 0) return 0;
+
+      if (this.softDeleteEnabled) {
+        await this.table!.update({ where: whereClause, values: { deletedAt: Date.now() } });
+      } else {
+        await this.table!.delete(whereClause);
+        await this.deleteChunks(rows.map(row => row.id as string));
+      }
+      await this.recordRevision(rows.map(row => rowToEntry(this.openRow(row))), "delete");
+      return rows.length;
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Trash (soft-deleted memories)
+  // --------------------------------------------------------------------------
+
+  async listTrash(scopeFilter?: string[], limit = 20, offset = 0): Promise<MemoryEntry[]> {
+    await this.ensureInitialized();
+
+    const conditions = [scopeCondition(scopeFilter), TRASH_CONDITION].filter(Boolean);
+    const results = await this.table!.query()
+      .where(conditions.join(" AND "))
+      .select(["id", "text", "category", "scope", "importance", "timestamp", "metadata", "tags", "deletedAt"])
+      .toArray();
+
+    return results
+      .map(row => ({ ...rowToEntry(this.openRow(row)), vector: [] }))
+      .sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0))
+      .slice(offset, offset + limit);
+  }
+
+  /**
+   * Bring a memory back from the trash. Returns null if no trashed memory matches.
+   */
+  async restore(id: string, scopeFilter?: string[]): Promise<MemoryEntry | null> {
+    return this.mutate("restore", async () => {
+      const resolved = await this.resolveId(id, { scopeFilter, trashed: true });
+      if (!resolved) return null;
+
+      const resolvedId = escapeSqlLiteral(resolved);
+
+      await this.table!.update({ where: `id = '${resolvedId}'`, valuesSql: { deletedAt: "NULL" } });
+      const rows = await this.table!.query().where(`id = '${resolvedId}'`).limit(1).toArray();
+      const restored = rowToEntry(this.openRow(rows[0]));
+      await this.recordRevision([restored], "restore");
+
+      return restored;
+    });
+  }
+
+  /**
+   * Permanently remove trashed memories and their chunks. Revisions stay in
+   * the history table, so purged memories can still be recovered with
+   * rollback().
+   */
+  async purgeTrash(scopeFilter?: string[], deletedBefore?: number): Promise<number> {
+    return this.mutate("purgeTrash", async () => {
+      const conditions = [TRASH_CONDITION];
+      if (scopeFilter && scopeFilter.length > 0) {
+        const scopeConditions = scopeFilter
+          .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
+          .join(" OR ");
+        conditions.push(`(${scopeConditions})`);
+      }
+      if (deletedBefore) {
+        conditions.push(`deletedAt < ${deletedBefore}`);
+      }
+
+      const whereClause = conditions.join(" AND ");
+      const purged = await this.table!.query().select(["id"]).where(whereClause).toArray();
+      if (purged.length > 0) {
+        await this.table!.delete(whereClause);
+        await this.deleteChunks(purged.map(row => row.id as string));
+      }
+
+      return purged.length;
+    });
+  }
+
+  /**
+   * List recorded revisions of a memory (oldest first). Works for deleted
+   * memories too, since history lives in its own table.
+   */
+  async getHistory(id: string, scopeFilter?: string[]): Promise<MemoryRevision[]> {
+    await this.ensureInitialized();
+
+    return this.history!.list(id, scopeFilter);
+  }
+
+  /**
+   * Restore a memory to the content of an earlier revision. Re-creates the
+   * memory if it has been deleted since, and drops its chunks. The rollback
+   * itself is recorded as a new revision, so it can be undone the same way.
+   */
+  async rollback(id: string, revision: number, scopeFilter?: string[]): Promise<MemoryEntry> {
+    return this.mutate("rollback", async () => {
+      const revisions = await this.getHistory(id, scopeFilter);
+      if (revisions.length === 0) {
+        throw new Error(`No history found for memory ${id}`);
+      }
+
+      const target = revisions.find(r => r.revision === revision);
+      if (!target) {
+        throw new Error(`Revision ${revision} not found for memory ${revisions[0].memoryId}`);
+      }
+
+      // Revision vectors belong to the model of the "vector" column; other models get backfilled
+      const restored: MemoryEntry = {
+        id: target.memoryId,
+        text: target.text,
+        vector: this.activeColumn.column === DEFAULT_VECTOR_COLUMN ? target.vector : [],
+        category: target.category,
+        scope: target.scope,
+        importance: target.importance,
+        timestamp: target.timestamp,
+        metadata: target.metadata,
+        tags: target.tags,
+        updatedAt: Date.now(),
+      };
+
+      const safeId = escapeSqlLiteral(restored.id);
+      const current = await this.table!.query().select(["text", "accessCount", "lastAccessedAt"]).where(`id = '${safeId}'`).limit(1).toArray();
+      if (current.length > 0) {
+        restored.accessCount = typeof current[0].accessCount === "number" ? current[0].accessCount : 0;
+        restored.lastAccessedAt = typeof current[0].lastAccessedAt === "number" ? current[0].lastAccessedAt : null;
+      }
+      await this.writeEntry(restored, current.length > 0 && this.openRow(current[0]).text === restored.text);
+      await this.deleteChunks([restored.id]);
+      await this.recordRevision([restored], "rollback");
+
+      return restored;
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Schema Versioning
+  // --------------------------------------------------------------------------
+
+  async schemaStatus(): Promise<SchemaStatus> {
+    await this.ensureInitialized();
+    return getSchemaStatus(this.meta!);
+  }
+
+  /**
+   * Apply any pending schema migrations. Initialization already does this, so
+   * this normally returns an empty list.
+   */
+  async migrateSchema(): Promise<SchemaMigration[]> {
+    return this.mutate("migrateSchema", async () => {
+      return runSchemaMigrations(this.table!, this.meta!);
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Vector Index
+  // --------------------------------------------------------------------------
 
-    const row = rows[0];
-    const rowScope = (row.scope as string | undefined) ?? "global";
+  async vectorIndexStatus(): Promise<VectorIndexStatus> {
+    await this.ensureInitialized();
+    const rowCount = await this.table!.countRows();
+    const built = parseVectorIndexBuild(await this.meta!.get(VECTOR_INDEX_META_KEY));
+    const indices = await this.table!.listIndices();
+    const index = indices.find(idx => idx.columns.includes(this.servingColumn.column));
 
-    if (scopeFilter && scopeFilter.length > 0 && !scopeFilter.includes(rowScope)) {
-      throw new Error(`Memory ${id} is outside accessible scopes`);
+    if (!index) {
+      return { exists: false, rowCount, indexedRows: 0, unindexedRows: rowCount };
     }
 
-    const updated: MemoryEntry = {
-      id: row.id as string,
-      text: updates.text ?? (row.text as string),
-      vector: updates.vector ?? (Array.from(row.vector as Iterable<number>)),
-      category: updates.category ?? (row.category as MemoryEntry["category"]),
-      scope: rowScope,
-      importance: updates.importance ?? (row.importance as number),
-      timestamp: row.timestamp as number,
-      metadata: updates.metadata ?? ((row.metadata as string) || "{}"),
+    const stats = await this.table!.indexStats(index.name);
+    return {
+      exists: true,
+      name: index.name,
+      type: stats?.indexType ?? index.indexType,
+      rowCount,
+      indexedRows: stats?.numIndexedRows ?? 0,
+      unindexedRows: stats?.numUnindexedRows ?? 0,
+      builtAtRows: built?.rows,
+      builtAt: built?.builtAt,
     };
+  }
 
-    const resolvedId = escapeSqlLiteral(row.id as string);
-    await this.table!.delete(`id = '${resolvedId}'`);
-    await this.table!.add([updated as unknown as Record<string, unknown>]);
+  /**
+   * Build (or rebuild) the ANN index over the serving vector column. Rows
+   * added later are still searched by brute force until the next build.
+   */
+  async buildVectorIndex(type?: VectorIndexType): Promise<VectorIndexStatus> {
+    return this.mutate("buildVectorIndex", async () => {
+      const rowCount = await this.table!.countRows();
+      if (rowCount < MIN_VECTOR_INDEX_ROWS) {
+        throw new Error(`Vector index needs at least ${MIN_VECTOR_INDEX_ROWS} rows, table has ${rowCount}`);
+      }
 
-    return updated;
+      const indexType = type ?? this.vectorIndexConfig.type;
+      const lancedb = await loadLanceDB();
+      await this.table!.createIndex(this.servingColumn.column, {
+        config: createVectorIndexConfig(lancedb, indexType),
+        replace: true,
+      });
+      await this.meta!.set(VECTOR_INDEX_META_KEY, JSON.stringify({ rows: rowCount, builtAt: Date.now(), type: indexType }));
+      return this.vectorIndexStatus();
+    });
   }
 
-  async bulkDelete(scopeFilter: string[], beforeTimestamp?: number): Promise<number> {
+  /**
+   * Drop the ANN index; searches fall back to a brute-force scan.
+   * Returns false when there was no index.
+   */
+  async dropVectorIndex(): Promise<boolean> {
+    return this.mutate("dropVectorIndex", async () => {
+      const indices = await this.table!.listIndices();
+      const index = indices.find(idx => idx.columns.includes(this.servingColumn.column));
+      if (!index) return false;
+
+      await this.table!.dropIndex(index.name);
+      await this.meta!.set(VECTOR_INDEX_META_KEY, "");
+      return true;
+    });
+  }
+
+  /**
+   * Build the index once the table passes the configured threshold, and
+   * retrain it after significant growth. No-op when automatic indexing is off.
+   */
+  async maintainVectorIndex(): Promise<VectorIndexDecision> {
+    const config = this.vectorIndexConfig;
+    if (!config.auto) return { action: "none", reason: "automatic indexing is disabled" };
+    if (this.readOnly) return { action: "none", reason: "store is read-only" };
+
+    // Decide under the lock so two processes do not both start a build
+    return this.mutate("maintainVectorIndex", async () => {
+      const status = await this.vectorIndexStatus();
+      const decision = decideVectorIndexAction(status, config);
+      if (decision.action !== "none") {
+        await this.buildVectorIndex(vectorIndexTypeFromStats(status.type) ?? config.type);
+      }
+      return decision;
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Embedding Columns
+  // --------------------------------------------------------------------------
+
+  /**
+   * Model whose column answers searches: the previous model while the active
+   * model's column is backfilled. Completion of a backfill by another process
+   * is noticed within a minute.
+   */
+  async servingEmbedding(): Promise<EmbeddingModelRef | null> {
+    await this.ensureInitialized();
+    if (this.embeddingColumnList.length === 0) return null;
+    if (Date.now() - this.servingCheckedAt > SERVING_CHECK_INTERVAL_MS) await this.refreshServingColumn();
+    return { model: this.servingColumn.model, dimensions: this.servingColumn.dimensions };
+  }
+
+  /** Vector columns with their fill state; empty when embeddingModel is not configured */
+  async embeddingColumns(): Promise<EmbeddingColumnStatus[]> {
     await this.ensureInitialized();
+    await this.refreshServingColumn();
+
+    const totalRows = await this.table!.countRows();
+    const statuses: EmbeddingColumnStatus[] = [];
+    for (const column of this.embeddingColumnList) {
+      statuses.push({
+        ...column,
+        missingRows: await this.table!.countRows(`${column.column} IS NULL`),
+        totalRows,
+        active: column === this.activeColumn,
+        serving: column === this.servingColumn,
+      });
+    }
+    return statuses;
+  }
+
+  /** Rows (trashed memories and chunks included) with no vector in the model's column */
+  async missingVectors(ref: EmbeddingModelRef, limit: number): Promise<MissingVector[]> {
+    await this.ensureInitialized();
+    const { column } = this.modelColumn(ref);
+    const rows = await this.table!.query()
+      .select(["id", "text"])
+      .where(`${column} IS NULL`)
+      .limit(Math.max(1, Math.floor(limit)))
+      .toArray();
+    return rows.map(raw => this.openRow(raw)).map(row => ({ id: row.id as string, text: (row.text as string) ?? "" }));
+  }
+
+  /**
+   * Fill the model's column for rows that still have no vector there and
+   * still have the text that was embedded. No revisions are recorded.
+   * Returns the number of rows filled.
+   */
+  async setVectors(ref: EmbeddingModelRef, items: Array<MissingVector & { vector: number[] }>): Promise<number> {
+    const valid = items.filter(item => Array.isArray(item.vector) && item.vector.length === ref.dimensions);
+    if (valid.length === 0) return 0;
+
+    return this.mutate("setVectors", async () => {
+      const { column } = this.modelColumn(ref);
+      const idList = valid.map(item => `'${escapeSqlLiteral(item.id)}'`).join(", ");
+      const rows = await this.table!.query()
+        .select(["id", "text"])
+        .where(`id IN (${idList}) AND ${column} IS NULL`)
+        .toArray();
+      const texts = new Map(rows.map(raw => this.openRow(raw)).map(row => [row.id as string, row.text as string]));
+
+      const updates = valid
+        .filter(item => texts.get(item.id) === item.text)
+        .map(item => ({ id: item.id, [column]: item.vector }));
+      if (updates.length > 0) {
+        // A merge-insert update keeps the columns the source rows leave out
+        await this.table!.mergeInsert("id").whenMatchedUpdateAll().execute(updates);
+      }
+      await this.refreshServingColumn();
+      return updates.length;
+    });
+  }
+
+  /**
+   * Remove a model's vector column, by model name or column name. The active
+   * and serving columns cannot be dropped. The space is reclaimed by the next
+   * optimize once old versions are pruned.
+   */
+  async dropEmbeddingColumn(modelOrColumn: string): Promise<EmbeddingColumn> {
+    return this.mutate("dropEmbeddingColumn", async () => {
+      const matches = this.embeddingColumnList.filter(c => c.column === modelOrColumn || c.model === modelOrColumn);
+      if (matches.length === 0) throw new Error(`No vector column for ${modelOrColumn}`);
+      if (matches.length > 1) {
+        throw new Error(`${modelOrColumn} matches several vector columns (${matches.map(c => c.column).join(", ")}); pass a column name`);
+      }
+
+      const [target] = matches;
+      if (target === this.activeColumn || target === this.servingColumn) {
+        throw new Error(`Vector column ${target.column} is ${target === this.activeColumn ? "active" : "serving searches"} and cannot be dropped`);
+      }
+
+      for (const index of await this.table!.listIndices()) {
+        if (index.columns.includes(target.column)) await this.table!.dropIndex(index.name);
+      }
+      await this.table!.dropColumns([target.column]);
+      this.embeddingColumnList = this.embeddingColumnList.filter(c => c !== target);
+      await this.meta!.set(EMBEDDING_COLUMNS_META_KEY, JSON.stringify(this.embeddingColumnList));
+      return target;
+    });
+  }
+
+  /** Column of a vector search: the query model's column, or the active one */
+  private searchColumn(model: string | undefined, dimensions: number): EmbeddingColumn {
+    if (!model || this.embeddingColumnList.length === 0) return this.activeColumn;
+    return this.modelColumn({ model, dimensions });
+  }
+
+  private modelColumn(ref: EmbeddingModelRef): EmbeddingColumn {
+    if (this.embeddingColumnList.length === 0 && sameEmbeddingModel(this.activeColumn, ref)) return this.activeColumn;
+    const column = this.embeddingColumnList.find(c => sameEmbeddingModel(c, ref));
+    if (!column) throw new Error(`No vector column for embedding model ${ref.model} (${ref.dimensions} dimensions)`);
+    return column;
+  }
+
+  /**
+   * Cut searches over to the active model once its column has a vector in
+   * every row. Searches never move back to the previous model.
+   */
+  private async refreshServingColumn(): Promise<void> {
+    this.servingCheckedAt = Date.now();
+    if (this.servingColumn === this.activeColumn) return;
+    await this.table!.checkoutLatest();
+    if (await this.table!.countRows(`${this.activeColumn.column} IS NULL`) === 0) {
+      this.servingColumn = this.activeColumn;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // FTS Index Refresh
+  // --------------------------------------------------------------------------
+
+  /** Rows the FTS index covers, and rows written since it was last updated */
+  async ftsIndexStatus(): Promise<IndexCoverage> {
+    await this.ensureInitialized();
+    const column = this.ftsColumn;
+    const fts = column
+      ? (await this.table!.listIndices()).find(idx => idx.indexType === "FTS" && idx.columns.includes(column))
+      : undefined;
+    if (!fts) return { exists: false, indexedRows: 0, unindexedRows: await this.table!.countRows() };
+
+    const stats = await this.table!.indexStats(fts.name);
+    return { exists: true, name: fts.name, type: "FTS", column: column!, indexedRows: stats?.numIndexedRows ?? 0, unindexedRows: stats?.numUnindexedRows ?? 0 };
+  }
+
+  /**
+   * Fold rows written since the last update into the FTS index (and the
+   * vector index). Small fragments are merged on the way, but unlike
+   * optimize() no table versions are pruned.
+   */
+  async refreshFtsIndex(): Promise<IndexCoverage> {
+    await this.mutate("refreshFtsIndex", async () => {
+      if (this.ftsIndexCreated) await this.table!.optimize({ cleanupOlderThan: new Date(0) });
+    });
+    return this.ftsIndexStatus();
+  }
+
+  /**
+   * After a write: refresh once writes pause for fts.refreshDelaySeconds, or
+   * right away when fts.refreshRows rows are unindexed. Until then LanceDB
+   * scans the unindexed rows during each BM25 search.
+   */
+  private scheduleFtsRefresh(): void {
+    const config = this.ftsConfig;
+    if (!this.ftsIndexCreated || !config.autoRefresh) return;
+
+    if (this.ftsRefreshTimer) clearTimeout(this.ftsRefreshTimer);
+    this.ftsRefreshTimer = setTimeout(() => void this.runFtsRefresh(), config.refreshDelaySeconds * 1000);
+    this.ftsRefreshTimer.unref?.();
+
+    void this.ftsIndexStatus()
+      .then(status => status.unindexedRows >= config.refreshRows ? this.runFtsRefresh() : undefined)
+      .catch(() => undefined);
+  }
 
-    const conditions: string[] = [];
+  private async runFtsRefresh(): Promise<void> {
+    if (this.ftsRefreshTimer) {
+      clearTimeout(this.ftsRefreshTimer);
+      this.ftsRefreshTimer = null;
+    }
+    if (this.ftsRefreshRunning) return;
+    this.ftsRefreshRunning = true;
+    try {
+      await this.refreshFtsIndex();
+    } catch (err) {
+      console.warn("memory-lancedb-voyage: FTS index refresh failed:", err);
+    } finally {
+      this.ftsRefreshRunning = false;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Compaction
+  // --------------------------------------------------------------------------
+
+  /**
+   * Optimize the memories, history and meta tables: merge small fragments,
+   * prune table versions older than `keepVersionsMs` and fold new rows into
+   * existing indices. Pruned versions are LanceDB's own snapshots; revision
+   * history lives in its own table and is kept. A missing FTS index is built.
+   */
+  async optimize(keepVersionsMs: number): Promise<OptimizeReport> {
+    return this.mutate("optimize", async () => {
+      const startedAt = Date.now();
+      const cleanupOlderThan = new Date(startedAt - Math.max(0, keepVersionsMs));
+
+      const tables = [
+        toTableOptimizeStats(TABLE_NAME, await this.table!.optimize({ cleanupOlderThan: await this.snapshotPruneCutoff(cleanupOlderThan) })),
+        toTableOptimizeStats(HISTORY_TABLE_NAME, await this.history!.optimize(cleanupOlderThan)),
+        toTableOptimizeStats(META_TABLE_NAME, await this.meta!.optimize(cleanupOlderThan)),
+      ];
+
+      let ftsIndex: OptimizeReport["ftsIndex"] = "optimized";
+      if (!this.ftsIndexCreated) {
+        try {
+          this.ftsIndexCreated = await this.createFtsIndex(this.table!, this.meta!);
+          ftsIndex = this.ftsIndexCreated ? "created" : "missing";
+        } catch (err) {
+          console.warn("Failed to create FTS index during optimize:", err);
+          ftsIndex = "missing";
+        }
+      }
 
-    if (scopeFilter.length > 0) {
-      const scopeConditions = scopeFilter
-        .map(scope => `scope = '${escapeSqlLiteral(scope)}'`)
-        .join(" OR ");
-      conditions.push(`(${scopeConditions})`);
+      return {
+        tables,
+        bytesReclaimed: tables.reduce((sum, t) => sum + t.bytesRemoved, 0),
+        ftsIndex,
+        durationMs: Date.now() - startedAt,
+      };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Encryption
+  // --------------------------------------------------------------------------
+
+  /**
+   * Rewrite memories (trashed ones included) and revisions that are
+   * plaintext or encrypted under a previous key, and fill or clear ftsText
+   * to match encryption.plaintextFts. Rows are rewritten in place, so no
+   * revisions are recorded.
+   */
+  async reencrypt(): Promise<ReencryptResult> {
+    const cipher = this.cipher;
+    if (!cipher) throw new Error("Encryption is not enabled");
+
+    return this.mutate("reencrypt", async () => {
+      const prefix = escapeSqlLiteral(cipher.currentPrefix);
+      const ftsCondition = this.config.encryption!.plaintextFts ? "ftsText IS NULL" : "ftsText IS NOT NULL";
+      const where = `text NOT LIKE '${prefix}%' OR metadata NOT LIKE '${prefix}%' OR ${ftsCondition}`;
+
+      let memories = 0;
+      for (;;) {
+        const rows = await this.table!.query().where(where).limit(ITERATE_BATCH_SIZE).toArray();
+        if (rows.length === 0) break;
+
+        await this.table!
+          .mergeInsert("id")
+          .whenMatchedUpdateAll()
+          .execute(rows.map(row => this.toRow(rowToEntry(this.openRow(row)), true)));
+        memories += rows.length;
+        if (rows.length < ITERATE_BATCH_SIZE) break;
+      }
+
+      return { memories, revisions: await this.history!.reencrypt() };
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Snapshots (LanceDB table versions)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Most recent versions of the memories table, newest first, with their
+   * tags. Versions older than compaction.keepVersions are pruned unless tagged.
+   */
+  async listSnapshots(limit = 20): Promise<Snapshot[]> {
+    await this.ensureInitialized();
+    await this.table!.checkoutLatest();
+
+    const tagsByVersion = new Map<number, string[]>();
+    for (const [tag, contents] of Object.entries(await (await this.table!.tags()).list())) {
+      tagsByVersion.set(contents.version, [...(tagsByVersion.get(contents.version) ?? []), tag]);
     }
 
-    if (beforeTimestamp) {
-      conditions.push(`timestamp < ${beforeTimestamp}`);
+    const versions = (await this.table!.listVersions())
+      .sort((a, b) => b.version - a.version)
+      .slice(0, Math.max(1, limit));
+
+    const handle = await this.db!.openTable(TABLE_NAME);
+    try {
+      const snapshots: Snapshot[] = [];
+      for (const version of versions) {
+        await handle.checkout(version.version);
+        snapshots.push({
+          version: version.version,
+          timestamp: version.timestamp.getTime(),
+          rowCount: await countLiveRows(handle),
+          tags: (tagsByVersion.get(version.version) ?? []).sort(),
+        });
+      }
+      return snapshots;
+    } finally {
+      handle.close();
     }
+  }
 
-    if (conditions.length === 0) {
-      throw new Error("Bulk delete requires at least scope or timestamp filter for safety");
+  /**
+   * Name a version (the current one by default). Tagged versions survive
+   * version pruning, and so do the versions after them. Returns the tagged
+   * version.
+   */
+  async tagSnapshot(name: string, version?: number): Promise<number> {
+    assertTagName(name);
+    return this.mutate("tagSnapshot", async () => {
+      const tags = await this.table!.tags();
+      const existing = (await tags.list())[name];
+      if (existing) {
+        throw new Error(`Snapshot tag "${name}" already exists (version ${existing.version})`);
+      }
+
+      const target = version ?? await this.table!.version();
+      await tags.create(name, target);
+      return target;
+    });
+  }
+
+  /**
+   * Memory ids added, removed or changed between two versions. `to`
+   * defaults to the current version.
+   */
+  async diffSnapshots(from: SnapshotRef, to?: SnapshotRef): Promise<SnapshotDiff> {
+    await this.ensureInitialized();
+    await this.table!.checkoutLatest();
+
+    const fromHandle = await this.openSnapshot(from);
+    const toHandle = to === undefined ? this.table! : await this.openSnapshot(to);
+    try {
+      return diffSnapshotRows(await snapshotRows(fromHandle), await snapshotRows(toHandle), {
+        from: await fromHandle.version(),
+        to: await toHandle.version(),
+      });
+    } finally {
+      fromHandle.close();
+      if (toHandle !== this.table) toHandle.close();
     }
+  }
+
+  /**
+   * Rewind the memories table to an earlier version. The restore is a new
+   * version, so it can itself be undone. Revision history is not rewound:
+   * memories that disappear get a "delete" revision and memories brought
+   * back or changed get a "rollback" revision.
+   */
+  async restoreSnapshot(ref: SnapshotRef): Promise<SnapshotRestore> {
+    return this.mutate("restoreSnapshot", async () => {
+      const target = await this.openSnapshot(ref);
+      try {
+        const currentFields = (await this.table!.schema()).fields.map(f => f.name);
+        const targetFields = new Set((await target.schema()).fields.map(f => f.name));
+        const missing = currentFields.filter(name => !targetFields.has(name));
+        if (missing.length > 0) {
+          throw new Error(`Snapshot ${ref} predates schema migrations (missing ${missing.join(", ")}) and cannot be restored`);
+        }
+
+        const diff = diffSnapshotRows(await snapshotRows(this.table!), await snapshotRows(target), {
+          from: await this.table!.version(),
+          to: await target.version(),
+        });
+        const removedRows = await this.rowsById(diff.removed);
+
+        await target.restore();
+        await this.table!.checkoutLatest();
+        this.ftsIndexCreated = await this.hasFtsIndex(this.table!);
+
+        const restoredRows = await this.rowsById([...diff.added, ...diff.changed]);
+        await this.recordRevision(removedRows.map(row => rowToEntry(row)), "delete");
+        await this.recordRevision(restoredRows.map(row => rowToEntry(row)), "rollback");
+
+        return { ...diff, version: await this.table!.version() };
+      } finally {
+        target.close();
+      }
+    });
+  }
 
-    const whereClause = conditions.join(" AND ");
-    const countResults = await this.table!.query().where(whereClause).toArray();
-    const deleteCount = countResults.length;
+  async untagSnapshot(name: string): Promise<boolean> {
+    return this.mutate("untagSnapshot", async () => {
+      const tags = await this.table!.tags();
+      if (!(await tags.list())[name]) return false;
+      await tags.delete(name);
+      return true;
+    });
+  }
+
+  /**
+   * LanceDB refuses to prune when a tagged version falls under the cutoff,
+   * and its cutoff is not exact to the millisecond, so pruning of the
+   * memories table stops a margin before the oldest tagged version.
+   */
+  private async snapshotPruneCutoff(cutoff: Date): Promise<Date> {
+    const tagged = new Set(Object.values(await (await this.table!.tags()).list()).map(t => t.version));
+    if (tagged.size === 0) return cutoff;
+
+    const oldestTagged = Math.min(
+      ...(await this.table!.listVersions()).filter(v => tagged.has(v.version)).map(v => v.timestamp.getTime()),
+    );
+    return new Date(Math.min(cutoff.getTime(), oldestTagged - TAGGED_PRUNE_MARGIN_MS));
+  }
 
-    if (deleteCount > 0) {
-      await this.table!.delete(whereClause);
+  /** A second handle on the memories table, checked out at a version or tag */
+  private async openSnapshot(ref: SnapshotRef): Promise<LanceDB.Table> {
+    const handle = await this.db!.openTable(TABLE_NAME);
+    try {
+      await handle.checkout(ref);
+      return handle;
+    } catch (err) {
+      handle.close();
+      throw new Error(`Snapshot ${ref} not found: ${err instanceof Error ? err.message : String(err)}`, { cause: err });
     }
+  }
+
+  private async rowsById(ids: string[]): Promise<Array<Record<string, unknown>>> {
+    if (ids.length === 0) return [];
+    const idList = ids.map(id => `'${escapeSqlLiteral(id)}'`).join(", ");
+    const rows = await this.table!.query().where(`id IN (${idList})`).toArray();
+    return rows.map(row => this.openRow(row));
+  }
+
+  private get ftsConfig(): FtsConfig {
+    return this.config.fts ?? DEFAULT_FTS_CONFIG;
+  }
 
-    return deleteCount;
+  private get vectorIndexConfig(): VectorIndexConfig {
+    return this.config.vectorIndex ?? DEFAULT_VECTOR_INDEX_CONFIG;
   }
 
   get hasFtsSupport(): boolean {
@@ -6,23 +6,32 @@
 import { Type } from "@sinclair/typebox";
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import type { MemoryRetriever, RetrievalResult } from "./retriever.js";
-import type { MemoryStore } from "./store.js";
+import type { IMemoryStore } from "./store-interface.js";
 import { isNoise } from "./noise-filter.js";
 import type { MemoryScopeManager } from "./scopes.js";
 import type { IEmbedder } from "./embedder-interface.js";
+import { normalizeTags, parseDuration, parseTimeBound } from "./utils.js";
+import { AmbiguousIdError } from "./id-resolver.js";
+import { parseMetadataFilter } from "./metadata-filter.js";
+import { formatHealthReport } from "./health.js";
+import { storeDeduplicated, type BatchStoreItem } from "./batch-store.js";
+import { indexChunks, recallText, type ChunkingConfig } from "./chunking.js";
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export const MEMORY_CATEGORIES = ["preference", "fact", "decision", "entity", "other"] as const;
+export const TAG_MODES = ["any", "all"] as const;
+const MAX_BATCH_MEMORIES = 20;
 
 interface ToolContext {
   retriever: MemoryRetriever;
-  store: MemoryStore;
+  store: IMemoryStore;
   scopeManager: MemoryScopeManager;
   embedder: IEmbedder;
   agentId?: string;
+  chunking?: ChunkingConfig;
 }
 
 // ============================================================================
@@ -39,18 +48,45 @@ function clamp01(value: number, fallback = 0.7): number {
   return Math.min(1, Math.max(0, value));
 }
 
+function formatTags(tags?: string[]): string {
+  return tags && tags.length > 0 ? ` ${tags.map(t => `#${t}`).join(" ")}` : "";
+}
+
+/** since/until parameters as epoch ms; throws on values parseTimeBound rejects */
+function parseTimeRange(params: { since?: string; until?: string }): { since?: number; until?: number } {
+  const range: { since?: number; until?: number } = {};
+  for (const key of ["since", "until"] as const) {
+    const value = params[key];
+    if (value === undefined || value === "") continue;
+    const bound = parseTimeBound(value);
+    if (bound === null) throw new Error(`Invalid ${key} "${value}". Use a date like 2026-01-01 or a duration like 7d.`);
+    range[key] = bound;
+  }
+  return range;
+}
+
 function sanitizeMemoryForSerialization(results: RetrievalResult[]) {
   return results.map(r => ({
     id: r.entry.id,
     text: r.entry.text,
     category: r.entry.category,
     scope: r.entry.scope,
+    tags: r.entry.tags ?? [],
     importance: r.entry.importance,
     score: r.score,
     sources: r.sources,
+    chunk: r.chunk ? { id: r.chunk.id, text: r.chunk.text, index: r.chunk.index, count: r.chunk.count } : undefined,
   }));
 }
 
+function ambiguousIdResult(error: AmbiguousIdError) {
+  const list = error.matches.map(m => `- [${m.id.slice(0, 8)}] ${m.preview}`).join("\n");
+  return {
+    content: [{ type: "text" as const, text: `"${error.prefix}" matches ${error.matches.length} memories. Specify a longer memoryId:\n${list}` }],
+    details: { error: "ambiguous_id", prefix: error.prefix, matches: error.matches },
+  };
+}
+
 // ============================================================================
 // Core Tools
 // ============================================================================
@@ -60,7 +96,7 @@ export function registerMemoryRecallTool(api: OpenClawPluginApi, context: ToolCo
     {
       name: "memory_recall",
       label: "Memory Recall",
-      description: "Search through long-term memories using hybrid retrieval (vector + keyword search). Use when you need context about user preferences, past decisions, or previously discussed topics.",
+      description: "Search through long-term memories using hybrid retrieval (vector + keyword search). Use when you need context about user preferences, past decisions, or previously discussed topics. Use since/until to search only a time window, e.g. decisions from the last sprint.",
       parameters: Type.Object({
         query: Type.String({ description: "Search query for finding relevant memories" }),
         limit: Type.Optional(Type.Number({ description: "Max results to return (default: 5, max: 20)" })),
@@ -71,10 +107,24 @@ export function registerMemoryRecallTool(api: OpenClawPluginApi, context: ToolCo
             enum: [...MEMORY_CATEGORIES],
           }),
         ),
+        tags: Type.Optional(Type.Array(Type.String(), { description: "Only return memories with these tags" })),
+        tagMode: Type.Optional(
+          Type.Unsafe<(typeof TAG_MODES)[number]>({
+            type: "string",
+            enum: [...TAG_MODES],
+            description: "any: at least one tag matches (default), all: every tag must match",
+          }),
+        ),
+        filter: Type.Optional(Type.String({
+          description: 'Condition on memory metadata, e.g. metadata.type = "session-summary" AND metadata.sessionId IN ("a", "b")',
+        })),
+        since: Type.Optional(Type.String({ description: "Only memories created at or after this time: a date (2026-01-01) or a duration ago (14d)" })),
+        until: Type.Optional(Type.String({ description: "Only memories created before this time: a date or a duration ago" })),
       }),
       async execute(_toolCallId, params) {
-        const { query, limit = 5, scope, category } = params as {
-          query: string; limit?: number; scope?: string; category?: string;
+        const { query, limit = 5, scope, category, tags, tagMode, filter, since, until } = params as {
+          query: string; limit?: number; scope?: string; category?: string; tags?: string[]; tagMode?: "any" | "all";
+          filter?: string; since?: string; until?: string;
         };
 
         try {
@@ -91,12 +141,16 @@ export function registerMemoryRecallTool(api: OpenClawPluginApi, context: ToolCo
             }
           }
 
-          const results = await context.retriever.retrieve({ query, limit: safeLimit, scopeFilter, category });
+          const tagFilter = normalizeTags(tags);
+          const where = filter ? parseMetadataFilter(filter) : undefined;
+          const results = await context.retriever.retrieve({
+            query, limit: safeLimit, scopeFilter, category, tags: tagFilter, tagMode, where, ...parseTimeRange({ since, until }),
+          });
 
           if (results.length === 0) {
             return {
               content: [{ type: "text", text: "No relevant memories found." }],
-              details: { count: 0, query, scopes: scopeFilter },
+              details: { count: 0, query, scopes: scopeFilter, tags: tagFilter },
             };
           }
 
@@ -106,7 +160,7 @@ export function registerMemoryRecallTool(api: OpenClawPluginApi, context: ToolCo
               if (r.sources.vector) sources.push("vector");
               if (r.sources.bm25) sources.push("BM25");
               if (r.sources.reranked) sources.push("reranked");
-              return `${i + 1}. [${r.entry.category}:${r.entry.scope}] ${r.entry.text} (${(r.score * 100).toFixed(0)}%${sources.length > 0 ? `, ${sources.join("+")}` : ""})`;
+              return `${i + 1}. [${r.entry.category}:${r.entry.scope}] ${recallText(r, context.chunking)}${formatTags(r.entry.tags)} (${(r.score * 100).toFixed(0)}%${sources.length > 0 ? `, ${sources.join("+")}` : ""})`;
             })
             .join("\n");
 
@@ -148,13 +202,27 @@ export function registerMemoryStoreTool(api: OpenClawPluginApi, context: ToolCon
           }),
         ),
         scope: Type.Optional(Type.String({ description: "Memory scope (optional, defaults to agent scope)" })),
+        tags: Type.Optional(Type.Array(Type.String(), { description: "Labels such as component names or incident IDs (e.g. [\"billing\", \"inc-42\"])" })),
+        ttl: Type.Optional(Type.String({ description: "Forget this memory after the given duration, e.g. \"12h\", \"7d\", \"2w\" (default: never)" })),
       }),
       async execute(_toolCallId, params) {
-        const { text, importance = 0.7, category = "other", scope } = params as {
-          text: string; importance?: number; category?: string; scope?: string;
+        const { text, importance = 0.7, category = "other", scope, tags, ttl } = params as {
+          text: string; importance?: number; category?: string; scope?: string; tags?: string[]; ttl?: string;
         };
 
         try {
+          let expiresAt: number | undefined;
+          if (ttl !== undefined) {
+            const ttlMs = parseDuration(ttl);
+            if (ttlMs === null || ttlMs <= 0) {
+              return {
+                content: [{ type: "text", text: `Invalid ttl "${ttl}". Use a duration such as 12h, 7d or 2w.` }],
+                details: { error: "invalid_ttl", ttl },
+              };
+            }
+            expiresAt = Date.now() + ttlMs;
+          }
+
           let targetScope = scope || context.scopeManager.getDefaultScope(context.agentId);
           if (!context.scopeManager.isAccessible(targetScope, context.agentId)) {
             return {
@@ -192,11 +260,15 @@ export function registerMemoryStoreTool(api: OpenClawPluginApi, context: ToolCon
             importance: safeImportance,
             category: category as any,
             scope: targetScope,
+            tags: normalizeTags(tags),
+            expiresAt,
           });
+          await indexChunks(context.store, context.embedder, [entry], context.chunking);
 
+          const expiryNote = expiresAt ? ` (expires ${new Date(expiresAt).toISOString()})` : "";
           return {
-            content: [{ type: "text", text: `Stored: "${text.slice(0, 100)}${text.length > 100 ? "..." : ""}" in scope '${targetScope}'` }],
-            details: { action: "created", id: entry.id, scope: entry.scope, category: entry.category, importance: entry.importance },
+            content: [{ type: "text", text: `Stored: "${text.slice(0, 100)}${text.length > 100 ? "..." : ""}" in scope '${targetScope}'${formatTags(entry.tags)}${expiryNote}` }],
+            details: { action: "created", id: entry.id, scope: entry.scope, category: entry.category, importance: entry.importance, tags: entry.tags, expiresAt: entry.expiresAt ?? null },
           };
         } catch (error) {
           return {
@@ -210,6 +282,113 @@ export function registerMemoryStoreTool(api: OpenClawPluginApi, context: ToolCon
   );
 }
 
+export function registerMemoryStoreBatchTool(api: OpenClawPluginApi, context: ToolContext) {
+  api.registerTool(
+    {
+      name: "memory_store_batch",
+      label: "Memory Store Batch",
+      description: "Save several pieces of information in long-term memory in one call. Prefer this over repeated memory_store calls.",
+      parameters: Type.Object({
+        memories: Type.Array(
+          Type.Object({
+            text: Type.String({ description: "Information to remember" }),
+            importance: Type.Optional(Type.Number({ description: "Importance score 0-1 (default: 0.7)" })),
+            category: Type.Optional(
+              Type.Unsafe<(typeof MEMORY_CATEGORIES)[number]>({
+                type: "string",
+                enum: [...MEMORY_CATEGORIES],
+              }),
+            ),
+            tags: Type.Optional(Type.Array(Type.String())),
+          }),
+          { description: `Memories to store (max ${MAX_BATCH_MEMORIES})` },
+        ),
+        scope: Type.Optional(Type.String({ description: "Memory scope for all memories (optional, defaults to agent scope)" })),
+      }),
+      async execute(_toolCallId, params) {
+        const { memories = [], scope } = params as {
+          memories?: Array<{ text: string; importance?: number; category?: string; tags?: string[] }>; scope?: string;
+        };
+
+        try {
+          if (memories.length === 0 || memories.length > MAX_BATCH_MEMORIES) {
+            return {
+              content: [{ type: "text", text: `Provide between 1 and ${MAX_BATCH_MEMORIES} memories.` }],
+              details: { error: "invalid_batch_size", count: memories.length },
+            };
+          }
+
+          const targetScope = scope || context.scopeManager.getDefaultScope(context.agentId);
+          if (!context.scopeManager.isAccessible(targetScope, context.agentId)) {
+            return {
+              content: [{ type: "text", text: `Access denied to scope: ${targetScope}` }],
+              details: { error: "scope_access_denied", requestedScope: targetScope },
+            };
+          }
+
+          const noise: number[] = [];
+          const candidates: Array<{ index: number; item: BatchStoreItem }> = [];
+          memories.forEach((memory, index) => {
+            if (typeof memory?.text !== "string" || isNoise(memory.text)) {
+              noise.push(index);
+              return;
+            }
+            candidates.push({
+              index,
+              item: {
+                text: memory.text,
+                importance: clamp01(memory.importance ?? 0.7, 0.7),
+                category: (MEMORY_CATEGORIES as readonly string[]).includes(memory.category ?? "")
+                  ? memory.category as BatchStoreItem["category"]
+                  : "other",
+                scope: targetScope,
+                tags: normalizeTags(memory.tags),
+              },
+            });
+          });
+
+          const result = await storeDeduplicated(context.store, context.embedder, candidates.map(c => c.item), {
+            dedupeThreshold: 0.98,
+            chunking: context.chunking,
+          });
+          const toInput = (i: number) => candidates[i].index;
+
+          const lines = result.stored.map(({ entry }) => `- [${entry.id.slice(0, 8)}] ${entry.text.slice(0, 80)}${entry.text.length > 80 ? "..." : ""}${formatTags(entry.tags)}`);
+          const notStored = [];
+          if (result.duplicates.length > 0) notStored.push(`${result.duplicates.length} duplicates`);
+          if (noise.length > 0) notStored.push(`${noise.length} skipped as noise`);
+          if (result.skipped.length > 0) notStored.push(`${result.skipped.length} failed to embed`);
+          const summary = `Stored ${result.stored.length} of ${memories.length} memories in scope '${targetScope}'` +
+            (notStored.length > 0 ? ` (${notStored.join(", ")})` : "");
+
+          return {
+            content: [{ type: "text", text: lines.length > 0 ? `${summary}:\n${lines.join("\n")}` : `${summary}.` }],
+            details: {
+              action: "created",
+              scope: targetScope,
+              stored: result.stored.map(({ index, entry }) => ({ index: toInput(index), id: entry.id, category: entry.category, importance: entry.importance, tags: entry.tags })),
+              duplicates: result.duplicates.map(d => ({
+                index: toInput(d.index),
+                existingId: d.existingId,
+                duplicateOfIndex: d.duplicateOfIndex === undefined ? undefined : toInput(d.duplicateOfIndex),
+                similarity: d.similarity,
+              })),
+              noise,
+              failed: result.skipped.map(toInput),
+            },
+          };
+        } catch (error) {
+          return {
+            content: [{ type: "text", text: `Memory batch storage failed: ${error instanceof Error ? error.message : String(error)}` }],
+            details: { error: "store_failed", message: String(error) },
+          };
+        }
+      },
+    },
+    { name: "memory_store_batch" },
+  );
+}
+
 export function registerMemoryForgetTool(api: OpenClawPluginApi, context: ToolContext) {
   api.registerTool(
     {
@@ -240,20 +419,22 @@ export function registerMemoryForgetTool(api: OpenClawPluginApi, context: ToolCo
           if (memoryId) {
             const deleted = await context.store.delete(memoryId, scopeFilter);
             if (deleted) {
-              return { content: [{ type: "text", text: `Memory ${memoryId} forgotten.` }], details: { action: "deleted", id: memoryId } };
+              const note = context.store.softDeleteEnabled ? " (moved to trash, restorable)" : "";
+              return { content: [{ type: "text", text: `Memory ${memoryId} forgotten${note}.` }], details: { action: "deleted", id: memoryId, softDeleted: context.store.softDeleteEnabled } };
             }
             return { content: [{ type: "text", text: `Memory ${memoryId} not found or access denied.` }], details: { error: "not_found", id: memoryId } };
           }
 
           if (query) {
-            const results = await context.retriever.retrieve({ query, limit: 5, scopeFilter });
+            const results = await context.retriever.retrieve({ query, limit: 5, scopeFilter, trackAccess: false });
             if (results.length === 0) {
               return { content: [{ type: "text", text: "No matching memories found." }], details: { found: 0, query } };
             }
             if (results.length === 1 && results[0].score > 0.9) {
               const deleted = await context.store.delete(results[0].entry.id, scopeFilter);
               if (deleted) {
-                return { content: [{ type: "text", text: `Forgotten: "${results[0].entry.text}"` }], details: { action: "deleted", id: results[0].entry.id } };
+                const note = context.store.softDeleteEnabled ? ` (moved to trash, restore with ID ${results[0].entry.id.slice(0, 8)})` : "";
+                return { content: [{ type: "text", text: `Forgotten: "${results[0].entry.text}"${note}` }], details: { action: "deleted", id: results[0].entry.id, softDeleted: context.store.softDeleteEnabled } };
               }
             }
             const list = results
@@ -270,6 +451,7 @@ export function registerMemoryForgetTool(api: OpenClawPluginApi, context: ToolCo
             details: { error: "missing_param" },
           };
         } catch (error) {
+          if (error instanceof AmbiguousIdError) return ambiguousIdResult(error);
           return {
             content: [{ type: "text", text: `Memory deletion failed: ${error instanceof Error ? error.message : String(error)}` }],
             details: { error: "delete_failed", message: String(error) },
@@ -290,7 +472,7 @@ export function registerMemoryUpdateTool(api: OpenClawPluginApi, context: ToolCo
     {
       name: "memory_update",
       label: "Memory Update",
-      description: "Update an existing memory in-place. Preserves original timestamp. Use when correcting outdated info or adjusting importance/category.",
+      description: "Update an existing memory in-place. Preserves original timestamp. Use when correcting outdated info or adjusting importance/category/tags.",
       parameters: Type.Object({
         memoryId: Type.String({ description: "ID of the memory to update (full UUID or 8+ char prefix)" }),
         text: Type.Optional(Type.String({ description: "New text content (triggers re-embedding)" })),
@@ -301,16 +483,17 @@ export function registerMemoryUpdateTool(api: OpenClawPluginApi, context: ToolCo
             enum: [...MEMORY_CATEGORIES],
           }),
         ),
+        tags: Type.Optional(Type.Array(Type.String(), { description: "Replacement tag list (pass [] to clear tags)" })),
       }),
       async execute(_toolCallId, params) {
-        const { memoryId, text, importance, category } = params as {
-          memoryId: string; text?: string; importance?: number; category?: string;
+        const { memoryId, text, importance, category, tags } = params as {
+          memoryId: string; text?: string; importance?: number; category?: string; tags?: string[];
         };
 
         try {
-          if (!text && importance === undefined && !category) {
+          if (!text && importance === undefined && !category && tags === undefined) {
             return {
-              content: [{ type: "text", text: "Nothing to update. Provide at least one of: text, importance, category." }],
+              content: [{ type: "text", text: "Nothing to update. Provide at least one of: text, importance, category, tags." }],
               details: { error: "no_updates" },
             };
           }
@@ -319,7 +502,7 @@ export function registerMemoryUpdateTool(api: OpenClawPluginApi, context: ToolCo
           let resolvedId = memoryId;
           const uuidLike = /^[0-9a-f]{8}(-[0-9a-f]{4}){0,4}/i.test(memoryId);
           if (!uuidLike) {
-            const results = await context.retriever.retrieve({ query: memoryId, limit: 3, scopeFilter });
+            const results = await context.retriever.retrieve({ query: memoryId, limit: 3, scopeFilter, trackAccess: false });
             if (results.length === 0) {
               return { content: [{ type: "text", text: `No memory found matching "${memoryId}".` }], details: { error: "not_found" } };
             }
@@ -346,17 +529,20 @@ export function registerMemoryUpdateTool(api: OpenClawPluginApi, context: ToolCo
           if (newVector) updates.vector = newVector;
           if (importance !== undefined) updates.importance = clamp01(importance, 0.7);
           if (category) updates.category = category;
+          if (tags !== undefined) updates.tags = normalizeTags(tags);
 
           const updated = await context.store.update(resolvedId, updates, scopeFilter);
           if (!updated) {
             return { content: [{ type: "text", text: `Memory ${resolvedId.slice(0, 8)}... not found or access denied.` }], details: { error: "not_found" } };
           }
+          if (text) await indexChunks(context.store, context.embedder, [updated], context.chunking);
 
           return {
             content: [{ type: "text", text: `Updated memory ${updated.id.slice(0, 8)}...: "${updated.text.slice(0, 80)}${updated.text.length > 80 ? "..." : ""}"` }],
             details: { action: "updated", id: updated.id, fieldsUpdated: Object.keys(updates) },
           };
         } catch (error) {
+          if (error instanceof AmbiguousIdError) return ambiguousIdResult(error);
           return {
             content: [{ type: "text", text: `Memory update failed: ${error instanceof Error ? error.message : String(error)}` }],
             details: { error: "update_failed", message: String(error) },
@@ -377,12 +563,13 @@ export function registerMemoryStatsTool(api: OpenClawPluginApi, context: ToolCon
     {
       name: "memory_stats",
       label: "Memory Statistics",
-      description: "Get statistics about memory usage, scopes, and categories.",
+      description: "Get statistics about memory usage, scopes, and categories. Set detailed for age/importance distributions, storage size and index coverage.",
       parameters: Type.Object({
         scope: Type.Optional(Type.String({ description: "Specific scope to get stats for" })),
+        detailed: Type.Optional(Type.Boolean({ description: "Include content, storage and index statistics (slower: scans every memory)" })),
       }),
       async execute(_toolCallId, params) {
-        const { scope } = params as { scope?: string };
+        const { scope, detailed } = params as { scope?: string; detailed?: boolean };
         try {
           let scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
           if (scope) {
@@ -390,7 +577,8 @@ export function registerMemoryStatsTool(api: OpenClawPluginApi, context: ToolCon
             else return { content: [{ type: "text", text: `Access denied to scope: ${scope}` }], details: { error: "scope_access_denied" } };
           }
 
-          const stats = await context.store.stats(scopeFilter);
+          const report = detailed ? await context.store.healthReport(scopeFilter) : null;
+          const stats = report ?? await context.store.stats(scopeFilter);
           const scopeManagerStats = context.scopeManager.getStats();
           const retrievalConfig = context.retriever.getConfig();
 
@@ -406,6 +594,12 @@ export function registerMemoryStatsTool(api: OpenClawPluginApi, context: ToolCon
             ``,
             `Memories by category:`,
             ...Object.entries(stats.categoryCounts).map(([c, count]) => `  \u2022 ${c}: ${count}`),
+            ``,
+            `Never recalled: ${stats.neverRecalledCount}`,
+            ...(stats.hotMemories.length > 0
+              ? [`Hot memories:`, ...stats.hotMemories.map(m => `  \u2022 ${m.id.slice(0, 8)} (${m.accessCount}x) ${m.text.slice(0, 80)}${m.text.length > 80 ? "..." : ""}`)]
+              : []),
+            ...(report ? [``, ...formatHealthReport(report)] : []),
           ].join("\n");
 
           return { content: [{ type: "text", text }], details: { stats, scopeManagerStats } };
@@ -418,12 +612,55 @@ export function registerMemoryStatsTool(api: OpenClawPluginApi, context: ToolCon
   );
 }
 
+export function registerMemoryHistoryTool(api: OpenClawPluginApi, context: ToolContext) {
+  api.registerTool(
+    {
+      name: "memory_history",
+      label: "Memory History",
+      description: "List recorded revisions of a memory (creation, updates, deletion, rollbacks). Use to audit or recover earlier versions of a memory.",
+      parameters: Type.Object({
+        memoryId: Type.String({ description: "ID of the memory (full UUID or 8+ char prefix)" }),
+      }),
+      async execute(_toolCallId, params) {
+        const { memoryId } = params as { memoryId: string };
+        try {
+          const scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
+          const revisions = await context.store.getHistory(memoryId, scopeFilter);
+          if (revisions.length === 0) {
+            return { content: [{ type: "text", text: `No history found for memory ${memoryId}.` }], details: { count: 0, id: memoryId } };
+          }
+
+          const text = revisions
+            .map(r => {
+              const date = new Date(r.changedAt).toISOString().replace("T", " ").split(".")[0];
+              return `r${r.revision} ${r.action} ${date} [${r.category}, ${r.importance.toFixed(2)}] ${r.text.slice(0, 100)}${r.text.length > 100 ? "..." : ""}`;
+            })
+            .join("\n");
+
+          return {
+            content: [{ type: "text", text: `History of memory ${revisions[0].memoryId.slice(0, 8)} (${revisions.length} revisions):\n\n${text}` }],
+            details: {
+              count: revisions.length,
+              id: revisions[0].memoryId,
+              revisions: revisions.map(r => ({ revision: r.revision, action: r.action, text: r.text, category: r.category, tags: r.tags, importance: r.importance, changedAt: r.changedAt })),
+            },
+          };
+        } catch (error) {
+          if (error instanceof AmbiguousIdError) return ambiguousIdResult(error);
+          return { content: [{ type: "text", text: `Failed to get memory history: ${error instanceof Error ? error.message : String(error)}` }], details: { error: "history_failed" } };
+        }
+      },
+    },
+    { name: "memory_history" },
+  );
+}
+
 export function registerMemoryListTool(api: OpenClawPluginApi, context: ToolContext) {
   api.registerTool(
     {
       name: "memory_list",
       label: "Memory List",
-      description: "List recent memories with optional filtering by scope and category.",
+      description: "List recent memories with optional filtering by scope, category, tags, metadata and creation time.",
       parameters: Type.Object({
         limit: Type.Optional(Type.Number({ description: "Max memories to list (default: 10, max: 50)" })),
         scope: Type.Optional(Type.String({ description: "Filter by specific scope" })),
@@ -433,23 +670,42 @@ export function registerMemoryListTool(api: OpenClawPluginApi, context: ToolCont
             enum: [...MEMORY_CATEGORIES],
           }),
         ),
-        offset: Type.Optional(Type.Number({ description: "Number of memories to skip (default: 0)" })),
+        cursor: Type.Optional(Type.String({ description: "nextCursor from a previous memory_list call, to fetch the next page" })),
+        tags: Type.Optional(Type.Array(Type.String(), { description: "Only list memories with these tags" })),
+        tagMode: Type.Optional(
+          Type.Unsafe<(typeof TAG_MODES)[number]>({
+            type: "string",
+            enum: [...TAG_MODES],
+            description: "any: at least one tag matches (default), all: every tag must match",
+          }),
+        ),
+        filter: Type.Optional(Type.String({
+          description: 'Condition on memory metadata, e.g. metadata.type = "session-summary" AND metadata.sessionId IN ("a", "b")',
+        })),
+        since: Type.Optional(Type.String({ description: "Only memories created at or after this time: a date (2026-01-01) or a duration ago (14d)" })),
+        until: Type.Optional(Type.String({ description: "Only memories created before this time: a date or a duration ago" })),
       }),
       async execute(_toolCallId, params) {
-        const { limit = 10, scope, category, offset = 0 } = params as {
-          limit?: number; scope?: string; category?: string; offset?: number;
+        const { limit = 10, scope, category, cursor, tags, tagMode, filter, since, until } = params as {
+          limit?: number; scope?: string; category?: string; cursor?: string; tags?: string[]; tagMode?: "any" | "all";
+          filter?: string; since?: string; until?: string;
         };
 
         try {
           const safeLimit = clampInt(limit, 1, 50);
-          const safeOffset = clampInt(offset, 0, 1000);
           let scopeFilter = context.scopeManager.getAccessibleScopes(context.agentId);
           if (scope) {
             if (context.scopeManager.isAccessible(scope, context.agentId)) scopeFilter = [scope];
             else return { content: [{ type: "text", text: `Access denied to scope: ${scope}` }], details: { error: "scope_access_denied" } };
           }
 
-          const entries = await context.store.list(scopeFilter, category, safeLimit, safeOffset);
+          const { entries, nextCursor } = await context.store.listCursor({
+            scopeFilter,
+            category,
+            filter: { tags, tagMode, where: filter ? parseMetadataFilter(filter) : undefined, ...parseTimeRange({ since, until }) },
+            limit: safeLimit,
+            cursor,
+          });
           if (entries.length === 0) {
             return { content: [{ type: "text", text: "No memories found." }], details: { count: 0 } };
           }
@@ -457,13 +713,17 @@ export function registerMemoryListTool(api: OpenClawPluginApi, context: ToolCont
           const text = entries
             .map((entry, i) => {
               const date = new Date(entry.timestamp).toISOString().split("T")[0];
-              return `${safeOffset + i + 1}. [${entry.category}:${entry.scope}] ${entry.text.slice(0, 100)}${entry.text.length > 100 ? "..." : ""} (${date})`;
+              return `${i + 1}. [${entry.category}:${entry.scope}] ${entry.text.slice(0, 100)}${entry.text.length > 100 ? "..." : ""}${formatTags(entry.tags)} (${date})`;
             })
             .join("\n");
 
           return {
-            content: [{ type: "text", text: `Recent memories (showing ${entries.length}):\n\n${text}` }],
-            details: { count: entries.length, memories: entries.map(e => ({ id: e.id, text: e.text, category: e.category, scope: e.scope, importance: e.importance, timestamp: e.timestamp })) },
+            content: [{
+              type: "text",
+              text: `Recent memories (showing ${entries.length}):\n\n${text}` +
+                (nextCursor ? `\n\nMore memories available: call memory_list with cursor "${nextCursor}".` : ""),
+            }],
+            details: { count: entries.length, nextCursor, memories: entries.map(e => ({ id: e.id, text: e.text, category: e.category, scope: e.scope, tags: e.tags ?? [], importance: e.importance, timestamp: e.timestamp })) },
           };
         } catch (error) {
           return { content: [{ type: "text", text: `Failed to list memories: ${error instanceof Error ? error.message : String(error)}` }], details: { error: "list_failed" } };
@@ -481,15 +741,21 @@ export function registerMemoryListTool(api: OpenClawPluginApi, context: ToolCont
 export function registerAllMemoryTools(
   api: OpenClawPluginApi,
   context: ToolContext,
-  options: { enableManagementTools?: boolean } = {},
+  options: { enableManagementTools?: boolean; readOnly?: boolean } = {},
 ) {
   registerMemoryRecallTool(api, context);
-  registerMemoryStoreTool(api, context);
-  registerMemoryForgetTool(api, context);
-  registerMemoryUpdateTool(api, context);
+
+  // A read-only store rejects every write, so write tools would only fail
+  if (!options.readOnly) {
+    registerMemoryStoreTool(api, context);
+    registerMemoryStoreBatchTool(api, context);
+    registerMemoryForgetTool(api, context);
+    registerMemoryUpdateTool(api, context);
+  }
 
   if (options.enableManagementTools) {
     registerMemoryStatsTool(api, context);
     registerMemoryListTool(api, context);
+    registerMemoryHistoryTool(api, context);
   }
 }
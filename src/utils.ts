@@ -28,3 +28,55 @@ export function getUrlHost(url: string): string | null {
     return null;
   }
 }
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a compact duration such as `30d`, `12h`, `2w` or `90m` into milliseconds.
+ * Returns null if the value is not a valid duration.
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhdw])$/i);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  const unit = DURATION_UNITS_MS[match[2].toLowerCase()];
+  return Number.isFinite(amount) ? Math.round(amount * unit) : null;
+}
+
+/**
+ * Parse a time bound for `since`/`until` filters: an ISO date or date-time
+ * (`2026-01-01`, dates are UTC midnight) or a duration (`7d`) meaning that
+ * long before `now`. Returns epoch milliseconds, or null if invalid.
+ */
+export function parseTimeBound(value: string, now = Date.now()): number | null {
+  const durationMs = parseDuration(value);
+  if (durationMs !== null) return now - durationMs;
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value.trim())) return null;
+  const timestamp = Date.parse(value.trim());
+  return Number.isFinite(timestamp) ? timestamp : null;
+}
+
+const MAX_TAGS = 32;
+const MAX_TAG_LENGTH = 64;
+
+/**
+ * Normalize user-supplied tags: trim, lowercase, drop empties and duplicates.
+ * Accepts an array or a comma-separated string. Non-string values are ignored.
+ */
+export function normalizeTags(value: unknown): string[] {
+  const raw = typeof value === "string" ? value.split(",") : Array.isArray(value) ? value : [];
+  const tags: string[] = [];
+  for (const item of raw) {
+    if (typeof item !== "string") continue;
+    const tag = item.trim().toLowerCase().slice(0, MAX_TAG_LENGTH);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+    if (tags.length >= MAX_TAGS) break;
+  }
+  return tags;
+}
@@ -0,0 +1,108 @@
+/**
+ * Vector Index Lifecycle
+ * When to build, retrain or skip the ANN index on the memories table
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type VectorIndexType = "ivf_pq" | "hnsw_sq" | "hnsw_pq";
+
+export interface VectorIndexConfig {
+  /** Build and retrain the index automatically (default: true) */
+  auto: boolean;
+  type: VectorIndexType;
+  /** Row count at which the index is first built */
+  minRows: number;
+  /** Retrain once the table has grown by this fraction since the last build */
+  retrainGrowth: number;
+}
+
+export interface VectorIndexStatus {
+  exists: boolean;
+  name?: string;
+  type?: string;
+  rowCount: number;
+  indexedRows: number;
+  unindexedRows: number;
+  /** Row count when this plugin last built the index */
+  builtAtRows?: number;
+  builtAt?: number;
+}
+
+export type VectorIndexAction = "none" | "build" | "retrain";
+
+export interface VectorIndexDecision {
+  action: VectorIndexAction;
+  reason: string;
+}
+
+export const VECTOR_INDEX_TYPES: readonly VectorIndexType[] = ["ivf_pq", "hnsw_sq", "hnsw_pq"];
+
+/** Product quantization trains 256 centroids, so smaller tables cannot be indexed */
+export const MIN_VECTOR_INDEX_ROWS = 256;
+
+export const DEFAULT_VECTOR_INDEX_CONFIG: VectorIndexConfig = {
+  auto: true,
+  type: "ivf_pq",
+  minRows: 10_000,
+  retrainGrowth: 0.5,
+};
+
+// ============================================================================
+// Decision
+// ============================================================================
+
+export function decideVectorIndexAction(status: VectorIndexStatus, config: VectorIndexConfig): VectorIndexDecision {
+  const minRows = Math.max(config.minRows, MIN_VECTOR_INDEX_ROWS);
+
+  if (!status.exists) {
+    if (status.rowCount >= minRows) {
+      return { action: "build", reason: `${status.rowCount} rows reached the threshold of ${minRows}` };
+    }
+    return { action: "none", reason: `${status.rowCount} rows, below the threshold of ${minRows}` };
+  }
+
+  if (status.builtAtRows && config.retrainGrowth > 0) {
+    const retrainAt = Math.ceil(status.builtAtRows * (1 + config.retrainGrowth));
+    if (status.rowCount >= retrainAt) {
+      return { action: "retrain", reason: `table grew from ${status.builtAtRows} to ${status.rowCount} rows since the last build` };
+    }
+  }
+
+  return { action: "none", reason: "index is up to date" };
+}
+
+/** Map the index type reported by LanceDB index stats back to a config type */
+export function vectorIndexTypeFromStats(indexType: string | undefined): VectorIndexType | undefined {
+  switch (indexType) {
+    case "IVF_PQ":
+      return "ivf_pq";
+    case "IVF_HNSW_SQ":
+      return "hnsw_sq";
+    case "IVF_HNSW_PQ":
+      return "hnsw_pq";
+    default:
+      return undefined;
+  }
+}
+
+// ============================================================================
+// LanceDB Index Config
+// ============================================================================
+
+/**
+ * Index config for the vector column. Distance is L2 because search scores
+ * are derived from L2 distances.
+ */
+export function createVectorIndexConfig(lancedb: typeof import("@lancedb/lancedb"), type: VectorIndexType) {
+  switch (type) {
+    case "hnsw_sq":
+      return lancedb.Index.hnswSq({ distanceType: "l2" });
+    case "hnsw_pq":
+      return lancedb.Index.hnswPq({ distanceType: "l2" });
+    default:
+      return lancedb.Index.ivfPq({ distanceType: "l2" });
+  }
+}
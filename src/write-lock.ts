@@ -0,0 +1,289 @@
+/**
+ * Write Coordination
+ * Lease lock file in dbPath, commit-conflict retries and read-only errors for
+ * processes that share one LanceDB database
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { mkdir, open, readFile, stat, unlink, writeFile } from "node:fs/promises";
+import { hostname } from "node:os";
+import { dirname, join, resolve } from "node:path";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WriteLockConfig {
+  /** Take the lock file around writes (default: true) */
+  enabled: boolean;
+  /** Give up waiting for another process after this long */
+  timeoutMs: number;
+  /** A lease not renewed within this window is considered abandoned */
+  leaseMs: number;
+}
+
+export interface WriteLockHolder {
+  pid: number;
+  host: string;
+  token: string;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+export const DEFAULT_WRITE_LOCK_CONFIG: WriteLockConfig = {
+  enabled: true,
+  timeoutMs: 10_000,
+  leaseMs: 30_000,
+};
+
+export const WRITE_LOCK_FILE = ".memory-write.lock";
+
+const MIN_POLL_MS = 25;
+const MAX_POLL_MS = 250;
+
+export class WriteLockTimeoutError extends Error {
+  constructor(
+    readonly lockPath: string,
+    readonly holder: WriteLockHolder | null,
+    timeoutMs: number,
+  ) {
+    const owner = holder ? ` held by pid ${holder.pid} on ${holder.host}` : "";
+    super(`Timed out after ${timeoutMs}ms waiting for write lock ${lockPath}${owner}`);
+    this.name = "WriteLockTimeoutError";
+  }
+}
+
+export class ReadOnlyStoreError extends Error {
+  constructor(readonly operation: string) {
+    super(`Memory store is read-only: ${operation} is not allowed`);
+    this.name = "ReadOnlyStoreError";
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolveSleep => setTimeout(resolveSleep, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function parseHolder(raw: string): WriteLockHolder | null {
+  try {
+    const parsed = JSON.parse(raw) as Partial<WriteLockHolder>;
+    if (typeof parsed.pid !== "number" || typeof parsed.token !== "string" || typeof parsed.expiresAt !== "number") {
+      return null;
+    }
+    return {
+      pid: parsed.pid,
+      host: typeof parsed.host === "string" ? parsed.host : "",
+      token: parsed.token,
+      acquiredAt: typeof parsed.acquiredAt === "number" ? parsed.acquiredAt : 0,
+      expiresAt: parsed.expiresAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A lease is stale once it expires, or right away when its owner ran on this
+ * host and is no longer alive.
+ */
+export function isStaleHolder(holder: WriteLockHolder, now = Date.now(), host = hostname()): boolean {
+  if (holder.expiresAt <= now) return true;
+  return holder.host === host && holder.pid !== process.pid && !isProcessAlive(holder.pid);
+}
+
+/** Object-store URIs have no local directory to hold a lock file */
+function isLocalPath(dbPath: string): boolean {
+  return !/^[a-z][a-z0-9+.-]*:\/\//i.test(dbPath);
+}
+
+// ============================================================================
+// Commit Conflict Retry
+// ============================================================================
+
+const COMMIT_CONFLICT_PATTERN = /commit conflict|conflicting transaction|too many concurrent writers/i;
+
+export function isCommitConflict(err: unknown): boolean {
+  return COMMIT_CONFLICT_PATTERN.test(err instanceof Error ? err.message : String(err));
+}
+
+/**
+ * Run a write, retrying with jittered exponential backoff when LanceDB
+ * rejects the commit because another writer committed first. Other errors
+ * are thrown immediately.
+ */
+export async function withCommitRetry<T>(
+  operation: () => Promise<T>,
+  options: { retries?: number; baseDelayMs?: number } = {},
+): Promise<T> {
+  const retries = options.retries ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 50;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (err) {
+      if (attempt >= retries || !isCommitConflict(err)) throw err;
+      await sleep(baseDelayMs * 2 ** attempt * (0.5 + Math.random()));
+    }
+  }
+}
+
+// ============================================================================
+// Write Lock
+// ============================================================================
+
+/** Serializes writers inside this process, one queue per lock file */
+const processQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Exclusive lease on a database directory. Writers in this process queue up
+ * behind each other; across processes the lock file is created atomically
+ * and renewed while held. An abandoned lease is taken over once it expires
+ * or its owner has exited. Takeover is best effort: LanceDB's own commit
+ * conflict detection remains the last line of defence.
+ */
+export class WriteLock {
+  private readonly owned = new AsyncLocalStorage<boolean>();
+  readonly lockPath: string | null;
+
+  constructor(
+    dbPath: string,
+    private readonly config: WriteLockConfig = DEFAULT_WRITE_LOCK_CONFIG,
+  ) {
+    this.lockPath = config.enabled && isLocalPath(dbPath) ? join(resolve(dbPath), WRITE_LOCK_FILE) : null;
+  }
+
+  /**
+   * Run `operation` while holding the lock. Nested calls from inside an
+   * operation reuse the lock instead of waiting on themselves.
+   */
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.owned.getStore()) return operation();
+
+    const key = this.lockPath ?? "";
+    const previous = processQueues.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => {}).then(() => this.runExclusive(operation));
+    const tail = current.catch(() => {});
+    processQueues.set(key, tail);
+
+    try {
+      return await current;
+    } finally {
+      if (processQueues.get(key) === tail) processQueues.delete(key);
+    }
+  }
+
+  /** Current lease holder, or null when the lock is free */
+  async holder(): Promise<WriteLockHolder | null> {
+    if (!this.lockPath) return null;
+    try {
+      return parseHolder(await readFile(this.lockPath, "utf8"));
+    } catch {
+      return null;
+    }
+  }
+
+  private async runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.lockPath) return this.owned.run(true, operation);
+
+    const lease = await this.acquire(this.lockPath);
+    const renewTimer = setInterval(() => void this.renew(this.lockPath!, lease), Math.max(1_000, this.config.leaseMs / 3));
+    renewTimer.unref?.();
+
+    try {
+      return await this.owned.run(true, operation);
+    } finally {
+      clearInterval(renewTimer);
+      await this.release(this.lockPath, lease);
+    }
+  }
+
+  private async acquire(lockPath: string): Promise<WriteLockHolder> {
+    await mkdir(dirname(lockPath), { recursive: true });
+    const deadline = Date.now() + this.config.timeoutMs;
+    let delay = MIN_POLL_MS;
+
+    for (;;) {
+      const now = Date.now();
+      const lease: WriteLockHolder = {
+        pid: process.pid,
+        host: hostname(),
+        token: randomUUID(),
+        acquiredAt: now,
+        expiresAt: now + this.config.leaseMs,
+      };
+
+      try {
+        const handle = await open(lockPath, "wx");
+        try {
+          await handle.writeFile(JSON.stringify(lease));
+        } finally {
+          await handle.close();
+        }
+        return lease;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      }
+
+      const holder = await this.holder();
+      const stale = holder ? isStaleHolder(holder) : await this.isAbandonedFile(lockPath);
+      if (stale) {
+        await unlink(lockPath).catch(() => {});
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new WriteLockTimeoutError(lockPath, holder, this.config.timeoutMs);
+      }
+      await sleep(delay);
+      delay = Math.min(delay * 2, MAX_POLL_MS);
+    }
+  }
+
+  /**
+   * An unreadable lock file is normally a writer caught between create and
+   * write, so it only counts as abandoned after a full lease has passed.
+   */
+  private async isAbandonedFile(lockPath: string): Promise<boolean> {
+    try {
+      const { mtimeMs } = await stat(lockPath);
+      return mtimeMs + this.config.leaseMs <= Date.now();
+    } catch {
+      // Released in the meantime; the next attempt can create it
+      return false;
+    }
+  }
+
+  private async renew(lockPath: string, lease: WriteLockHolder): Promise<void> {
+    const holder = await this.holder();
+    if (holder?.token !== lease.token) return;
+    lease.expiresAt = Date.now() + this.config.leaseMs;
+    await writeFile(lockPath, JSON.stringify(lease)).catch(() => {});
+  }
+
+  private async release(lockPath: string, lease: WriteLockHolder): Promise<void> {
+    const holder = await this.holder();
+    if (holder?.token === lease.token) {
+      await unlink(lockPath).catch(() => {});
+    }
+  }
+}
+
+export function createWriteLock(dbPath: string, config?: Partial<WriteLockConfig>): WriteLock {
+  return new WriteLock(dbPath, { ...DEFAULT_WRITE_LOCK_CONFIG, ...config });
+}
@@ -7,15 +7,23 @@
  * Run: npx tsx --test test/integration.test.ts
  */
 
-import { describe, it, before, after, beforeEach } from "node:test";
+import { describe, it, before, after, beforeEach, afterEach } from "node:test";
 import assert from "node:assert/strict";
 import { mkdtemp, rm, readdir, readFile } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 
 import { Embedder } from "../src/embedder.js";
-import { MemoryStore, type MemoryEntry } from "../src/store.js";
+import { MemoryStore, loadLanceDB, type MemoryEntry } from "../src/store.js";
+import { LATEST_SCHEMA_VERSION } from "../src/schema.js";
+import { AmbiguousIdError } from "../src/id-resolver.js";
+import { storeDeduplicated } from "../src/batch-store.js";
+import { ReadOnlyStoreError, WRITE_LOCK_FILE } from "../src/write-lock.js";
+import { FieldCipher, isEncrypted } from "../src/encryption.js";
+import { parseMetadataFilter } from "../src/metadata-filter.js";
+import { RetentionSweeper, planRetention, type RetentionRule } from "../src/retention.js";
 import { MemoryRetriever, createRetriever, DEFAULT_RETRIEVAL_CONFIG } from "../src/retriever.js";
+import { createRerankerFromConfig } from "../src/reranker-factory.js";
 import { isNoise, filterNoise } from "../src/noise-filter.js";
 import { shouldSkipRetrieval } from "../src/adaptive-retrieval.js";
 
@@ -34,6 +42,7 @@ const MODEL = "voyage-3-large";
 
 // Shared embedder (reused across tests to minimize API calls)
 let embedder: Embedder;
+const reranker = createRerankerFromConfig({ provider: "voyage", apiKey: VOYAGE_API_KEY, model: "rerank-2", timeoutMs: 5000 });
 
 before(() => {
   embedder = new Embedder({ apiKey: VOYAGE_API_KEY, model: MODEL });
@@ -235,7 +244,7 @@ describe("Retriever", () => {
       hardMinScore: 0.1,       // Lower threshold for test
       minScore: 0.1,
       filterNoise: false,      // Don't filter noise in this test
-    }, VOYAGE_API_KEY);
+    }, reranker);
 
     // Seed with diverse entries
     const entries = [
@@ -359,7 +368,7 @@ describe("Reranking", () => {
       hardMinScore: 0.05,
       minScore: 0.05,
       filterNoise: false,
-    }, VOYAGE_API_KEY);
+    }, reranker);
 
     const results = await retrieverWithRerank.retrieve({
       query: "Who created the Python programming language?",
@@ -392,7 +401,7 @@ describe("Reranking", () => {
       hardMinScore: 0.05,
       minScore: 0.05,
       filterNoise: false,
-    }, VOYAGE_API_KEY);
+    }, reranker);
 
     const results = await retrieverLightweight.retrieve({
       query: "Who created the Python programming language?",
@@ -564,7 +573,8 @@ describe("JSONL Backup", () => {
     const { mkdir: mkdirFs, writeFile: writeFileFs, readdir: readdirFs } = await import("node:fs/promises");
     await mkdirFs(backupDir, { recursive: true });
 
-    const allMemories = await store.list(undefined, undefined, 10000, 0);
+    const allMemories: MemoryEntry[] = [];
+    for await (const memory of store.iterate()) allMemories.push(memory);
     assert.ok(allMemories.length >= 3, `Expected at least 3 entries, got ${allMemories.length}`);
 
     const dateStr = new Date().toISOString().split("T")[0];
@@ -605,7 +615,8 @@ describe("JSONL Backup", () => {
   });
 
   it("should include all required fields in backup entries", async () => {
-    const allMemories = await store.list(undefined, undefined, 10000, 0);
+    const allMemories: MemoryEntry[] = [];
+    for await (const memory of store.iterate()) allMemories.push(memory);
     const firstMemory = allMemories[0];
 
     const backupEntry = JSON.parse(JSON.stringify({
@@ -628,6 +639,1301 @@ describe("JSONL Backup", () => {
   });
 });
 
+// ============================================================================
+// 8. Revision History Tests
+// ============================================================================
+
+describe("Revision History", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should record a revision for create, update and delete", async () => {
+    const entry = await store.store({ text: "Deploys happen on Fridays.", vector: syntheticVector(1), category: "fact", scope: "global", importance: 0.6 });
+    await store.update(entry.id, { text: "Deploys happen on Tuesdays.", importance: 0.9 });
+    await store.delete(entry.id);
+
+    const revisions = await store.getHistory(entry.id);
+    assert.deepEqual(revisions.map(r => r.action), ["create", "update", "delete"]);
+    assert.deepEqual(revisions.map(r => r.revision), [1, 2, 3]);
+    assert.equal(revisions[0].text, "Deploys happen on Fridays.");
+    assert.equal(revisions[1].importance, 0.9);
+  });
+
+  it("should roll back a wrong correction to an earlier revision", async () => {
+    const entry = await store.store({ text: "Staging DB is on port 5433.", vector: syntheticVector(2), category: "fact", scope: "global", importance: 0.7 });
+    await store.update(entry.id, { text: "Staging DB is on port 9999.", category: "other" });
+
+    const restored = await store.rollback(entry.id.slice(0, 8), 1);
+    assert.equal(restored.text, "Staging DB is on port 5433.");
+    assert.equal(restored.category, "fact");
+    assert.equal(restored.timestamp, entry.timestamp, "Rollback should keep the original timestamp");
+
+    const listed = await store.list(["global"]);
+    assert.equal(listed.filter(m => m.id === entry.id).length, 1, "Rollback should not duplicate the memory");
+
+    const revisions = await store.getHistory(entry.id);
+    assert.equal(revisions[revisions.length - 1].action, "rollback");
+  });
+
+  it("should re-create a deleted memory on rollback", async () => {
+    const entry = await store.store({ text: "Release owner is Dana.", vector: syntheticVector(3), category: "entity", scope: "global", importance: 0.8 });
+    await store.delete(entry.id);
+    await store.purgeTrash();
+    assert.equal(await store.hasId(entry.id), false);
+
+    await store.rollback(entry.id, 1);
+    assert.equal(await store.hasId(entry.id), true);
+  });
+
+  it("should reject history access outside the allowed scopes", async () => {
+    const entry = await store.store({ text: "Private note.", vector: syntheticVector(4), category: "other", scope: "agent:secret", importance: 0.5 });
+    await assert.rejects(() => store.getHistory(entry.id, ["global"]), /outside accessible scopes/);
+  });
+});
+
+// ============================================================================
+// 9. Trash (Soft Delete) Tests
+// ============================================================================
+
+describe("Trash", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+
+  beforeEach(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+  });
+
+  afterEach(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should hide trashed memories from search, list and stats", async () => {
+    const vector = syntheticVector(10);
+    const entry = await store.store({ text: "Grafana dashboard lives at /ops.", vector, category: "fact", scope: "global", importance: 0.7 });
+    assert.equal(await store.delete(entry.id), true);
+
+    assert.equal((await store.vectorSearch(vector, 5, 0.1)).length, 0);
+    assert.equal((await store.bm25Search("Grafana", 5)).length, 0);
+    assert.equal((await store.list()).length, 0);
+    assert.equal((await store.stats()).totalCount, 0);
+
+    const trashed = await store.listTrash();
+    assert.equal(trashed.length, 1);
+    assert.ok(trashed[0].deletedAt && trashed[0].deletedAt > 0, "Trashed memory should carry a deletedAt marker");
+  });
+
+  it("should restore a trashed memory by prefix", async () => {
+    const vector = syntheticVector(11);
+    const entry = await store.store({ text: "On-call rotation changes on Mondays.", vector, category: "fact", scope: "global", importance: 0.7 });
+    await store.delete(entry.id);
+
+    const restored = await store.restore(entry.id.slice(0, 8));
+    assert.equal(restored?.id, entry.id);
+    assert.equal((await store.vectorSearch(vector, 5, 0.1))[0]?.entry.id, entry.id);
+    assert.equal((await store.listTrash()).length, 0);
+  });
+
+  it("should move bulk-deleted memories to the trash", async () => {
+    await store.store({ text: "Scratch note one.", vector: syntheticVector(12), category: "other", scope: "scratch", importance: 0.3 });
+    await store.store({ text: "Scratch note two.", vector: syntheticVector(13), category: "other", scope: "scratch", importance: 0.3 });
+
+    assert.equal(await store.bulkDelete(["scratch"]), 2);
+    assert.equal((await store.listTrash(["scratch"])).length, 2);
+  });
+
+  it("should purge only memories trashed before the cutoff", async () => {
+    const entry = await store.store({ text: "Old trashed note.", vector: syntheticVector(14), category: "other", scope: "global", importance: 0.3 });
+    await store.delete(entry.id);
+
+    assert.equal(await store.purgeTrash(undefined, Date.now() - 86_400_000), 0);
+    assert.equal(await store.purgeTrash(undefined, Date.now() + 1), 1);
+    assert.equal((await store.listTrash()).length, 0);
+  });
+
+  it("should delete immediately when soft delete is disabled", async () => {
+    const hardStore = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM, softDelete: false });
+    const entry = await hardStore.store({ text: "Ephemeral note.", vector: syntheticVector(15), category: "other", scope: "global", importance: 0.3 });
+    await hardStore.delete(entry.id);
+    assert.equal((await hardStore.listTrash()).length, 0);
+  });
+});
+
+// ============================================================================
+// 10. Schema Migration Tests
+// ============================================================================
+
+describe("Schema Migrations", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await makeTempDb();
+  });
+
+  afterEach(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should stamp a new database with the latest schema version", async () => {
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    const status = await store.schemaStatus();
+    assert.equal(status.currentVersion, LATEST_SCHEMA_VERSION);
+    assert.equal(status.pending.length, 0);
+  });
+
+  it("should upgrade a database created before schema versioning", async () => {
+    const lancedb = await loadLanceDB();
+    const db = await lancedb.connect(tmpDir);
+    await db.createTable("memories", [{
+      id: "0b6f2a9e-1c1d-4d1e-9a51-7a2f9c3e5d10",
+      text: "Legacy memory without newer columns.",
+      vector: syntheticVector(20),
+      category: "fact",
+      scope: "global",
+      importance: 0.7,
+      timestamp: Date.now(),
+      metadata: "{}",
+    }]);
+
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    const status = await store.schemaStatus();
+    assert.equal(status.currentVersion, LATEST_SCHEMA_VERSION);
+
+    // Legacy rows stay readable and the new columns are usable
+    assert.equal((await store.list()).length, 1);
+    const updated = await store.update("0b6f2a9e", { importance: 0.9 });
+    assert.ok(updated?.updatedAt, "updatedAt should be set after migration");
+    const tagged = await store.update("0b6f2a9e", { tags: ["legacy"] });
+    assert.deepEqual(tagged?.tags, ["legacy"]);
+    assert.equal(await store.delete("0b6f2a9e"), true);
+    assert.equal((await store.listTrash()).length, 1);
+  });
+
+  it("should report no work when migrations are run again", async () => {
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    assert.deepEqual(await store.migrateSchema(), []);
+  });
+});
+
+// ============================================================================
+// 11. Tag Tests
+// ============================================================================
+
+describe("Tags", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    await store.store({ text: "Billing webhook retries were exhausted during INC-42.", vector: syntheticVector(30), category: "fact", scope: "global", importance: 0.8, tags: ["Billing", "inc-42", "billing "] });
+    await store.store({ text: "Billing exports run nightly at 02:00 UTC.", vector: syntheticVector(31), category: "fact", scope: "global", importance: 0.6, tags: ["billing"] });
+    await store.store({ text: "Search cluster was resized after INC-43.", vector: syntheticVector(32), category: "fact", scope: "global", importance: 0.6, tags: ["search", "inc-43"] });
+    await store.store({ text: "Untagged billing note.", vector: syntheticVector(33), category: "other", scope: "global", importance: 0.5 });
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should normalize tags on store", async () => {
+    const listed = await store.list(undefined, undefined, 20, 0, { tags: ["inc-42"] });
+    assert.equal(listed.length, 1);
+    assert.deepEqual(listed[0].tags, ["billing", "inc-42"]);
+  });
+
+  it("should filter list and stats with any-of and all-of", async () => {
+    const any = await store.list(undefined, undefined, 20, 0, { tags: ["inc-42", "inc-43"] });
+    assert.equal(any.length, 2);
+
+    const all = await store.list(undefined, undefined, 20, 0, { tags: ["billing", "inc-42"], tagMode: "all" });
+    assert.equal(all.length, 1);
+
+    assert.equal((await store.stats(undefined, { tags: ["billing"] })).totalCount, 2);
+  });
+
+  it("should filter vector and BM25 search by tag", async () => {
+    const vectorHits = await store.vectorSearch(syntheticVector(33), 10, 0, undefined, { tags: ["billing"] });
+    assert.ok(vectorHits.length > 0);
+    assert.ok(vectorHits.every(r => r.entry.tags?.includes("billing")), "Untagged memories should be excluded");
+
+    const bm25Hits = await store.bm25Search("billing", 10, undefined, { tags: ["billing"], tagMode: "all" });
+    assert.ok(bm25Hits.length > 0);
+    assert.ok(bm25Hits.every(r => r.entry.tags?.includes("billing")));
+  });
+
+  it("should replace tags on update and keep them otherwise", async () => {
+    const [entry] = await store.list(undefined, undefined, 1, 0, { tags: ["inc-43"] });
+    const renamed = await store.update(entry.id, { importance: 0.9 });
+    assert.deepEqual(renamed?.tags, ["search", "inc-43"]);
+
+    const retagged = await store.update(entry.id, { tags: ["search", "resolved"] });
+    assert.deepEqual(retagged?.tags, ["search", "resolved"]);
+    assert.equal((await store.list(undefined, undefined, 20, 0, { tags: ["inc-43"] })).length, 0);
+  });
+});
+
+// ============================================================================
+// 12. Retention Tests
+// ============================================================================
+
+describe("Retention", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+  const DAY = 86_400_000;
+
+  beforeEach(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+  });
+
+  afterEach(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should hide expired memories before the sweeper runs", async () => {
+    const vector = syntheticVector(40);
+    await store.store({ text: "Temporary maintenance window tonight.", vector, category: "fact", scope: "global", importance: 0.7, expiresAt: Date.now() - 1000 });
+    const kept = await store.store({ text: "Maintenance windows are on Sundays.", vector: syntheticVector(41), category: "fact", scope: "global", importance: 0.7, expiresAt: Date.now() + DAY });
+
+    const listed = await store.list();
+    assert.deepEqual(listed.map(m => m.id), [kept.id]);
+    assert.ok(listed[0].expiresAt && listed[0].expiresAt > Date.now());
+    assert.ok((await store.vectorSearch(vector, 5, 0.1)).every(r => r.entry.id === kept.id));
+  });
+
+  it("should plan removals by expiry and by rule", async () => {
+    const now = Date.now();
+    await store.importEntry({ id: "6f1c9a40-0000-4000-8000-000000000001", text: "Session summary from spring.", vector: syntheticVector(42), category: "fact", scope: "global", importance: 0.5, timestamp: now - 100 * DAY, metadata: JSON.stringify({ type: "session-summary" }) });
+    await store.importEntry({ id: "6f1c9a40-0000-4000-8000-000000000002", text: "Old low-value chatter.", vector: syntheticVector(43), category: "other", scope: "global", importance: 0.3, timestamp: now - 40 * DAY });
+    await store.importEntry({ id: "6f1c9a40-0000-4000-8000-000000000003", text: "Old but important note.", vector: syntheticVector(44), category: "other", scope: "global", importance: 0.9, timestamp: now - 40 * DAY });
+    await store.importEntry({ id: "6f1c9a40-0000-4000-8000-000000000004", text: "Expired reminder.", vector: syntheticVector(45), category: "fact", scope: "global", importance: 0.7, timestamp: now, expiresAt: now - 1 });
+
+    const rules: RetentionRule[] = [
+      { name: "old-sessions", metadata: { type: "session-summary" }, olderThan: "90d", olderThanMs: 90 * DAY },
+      { name: "low-value", category: "other", maxImportance: 0.5, olderThan: "30d", olderThanMs: 30 * DAY },
+    ];
+    const plan = await planRetention(store, rules, now);
+
+    assert.deepEqual(plan.counts, { expired: 1, "old-sessions": 1, "low-value": 1 });
+    assert.ok(!plan.matches.some(m => m.entry.id.endsWith("3")), "Important memories should not match the low-value rule");
+  });
+
+  it("should move swept memories to the trash", async () => {
+    const entry = await store.store({ text: "Short-lived note.", vector: syntheticVector(46), category: "other", scope: "global", importance: 0.5, expiresAt: Date.now() - 1 });
+    const sweeper = new RetentionSweeper(store, { enabled: true, sweepIntervalMinutes: 60, rules: [] });
+
+    const result = await sweeper.sweep();
+    assert.equal(result.removed, 1);
+    assert.equal((await store.listTrash())[0]?.id, entry.id);
+    assert.equal((await sweeper.preview()).matches.length, 0);
+  });
+});
+
+// ============================================================================
+// 13. Access Tracking Tests
+// ============================================================================
+
+describe("Access Tracking", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should batch recorded accesses and report them in stats", async () => {
+    const hot = await store.store({ text: "Prod deploys need two approvals.", vector: syntheticVector(50), category: "fact", scope: "global", importance: 0.7 });
+    const warm = await store.store({ text: "Staging resets every Monday.", vector: syntheticVector(51), category: "fact", scope: "global", importance: 0.7 });
+    await store.store({ text: "Lunch order preference.", vector: syntheticVector(52), category: "preference", scope: "global", importance: 0.4 });
+
+    store.recordAccess([hot.id, warm.id]);
+    store.recordAccess([hot.id]);
+    store.recordAccess([hot.id]);
+    await store.flushAccess();
+
+    const stats = await store.stats();
+    assert.equal(stats.neverRecalledCount, 1);
+    assert.deepEqual(stats.hotMemories.map(m => [m.id, m.accessCount]), [[hot.id, 3], [warm.id, 1]]);
+    assert.equal(stats.hotMemories[0].text, hot.text);
+
+    const [result] = await store.vectorSearch(syntheticVector(50), 1, 0.1);
+    assert.equal(result.entry.accessCount, 3);
+    assert.ok(result.entry.lastAccessedAt && result.entry.lastAccessedAt > 0);
+  });
+
+  it("should keep access counters across updates", async () => {
+    const entry = await store.store({ text: "VPN config lives in the wiki.", vector: syntheticVector(53), category: "fact", scope: "global", importance: 0.7 });
+    store.recordAccess([entry.id]);
+    await store.flushAccess();
+
+    const updated = await store.update(entry.id, { importance: 0.9 });
+    assert.equal(updated?.accessCount, 1);
+  });
+});
+
+// ============================================================================
+// 14. Vector Index Tests
+// ============================================================================
+
+describe("Vector Index", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({
+      dbPath: tmpDir,
+      vectorDim: VECTOR_DIM,
+      vectorIndex: { auto: true, type: "ivf_pq", minRows: 256, retrainGrowth: 0.5 },
+    });
+    for (let i = 0; i < 300; i++) {
+      await store.importEntry({ id: `bulk-${i}`, text: `Bulk memory ${i}`, vector: syntheticVector(100 + i), category: "other", scope: "global", importance: 0.5, timestamp: Date.now(), metadata: "{}" });
+    }
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should build the index once the threshold is reached", async () => {
+    assert.equal((await store.vectorIndexStatus()).exists, false);
+
+    const decision = await store.maintainVectorIndex();
+    assert.equal(decision.action, "build");
+
+    const status = await store.vectorIndexStatus();
+    assert.equal(status.exists, true);
+    assert.equal(status.type, "IVF_PQ");
+    assert.equal(status.indexedRows, 300);
+    assert.equal(status.builtAtRows, 300);
+    assert.equal((await store.maintainVectorIndex()).action, "none");
+  });
+
+  it("should keep FTS and vector search working with the index", async () => {
+    assert.equal(store.hasFtsSupport, true);
+    const [hit] = await store.vectorSearch(syntheticVector(150), 1, 0, undefined, undefined, { nprobes: 20, refineFactor: 5 });
+    assert.equal(hit.entry.id, "bulk-50");
+  });
+
+  it("should rebuild with another type and drop the index", async () => {
+    const status = await store.buildVectorIndex("hnsw_sq");
+    assert.equal(status.type, "IVF_HNSW_SQ");
+
+    assert.equal(await store.dropVectorIndex(), true);
+    assert.equal((await store.vectorIndexStatus()).exists, false);
+    assert.equal(await store.dropVectorIndex(), false);
+    assert.equal((await store.vectorSearch(syntheticVector(150), 1, 0))[0]?.entry.id, "bulk-50");
+  });
+});
+
+// ============================================================================
+// 15. Cursor Pagination Tests
+// ============================================================================
+
+describe("Cursor Pagination", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    // Two memories share each timestamp so ordering has to fall back to id
+    for (let i = 0; i < 7; i++) {
+      await store.importEntry({ id: `page-${i}`, text: `Paged memory ${i}`, vector: syntheticVector(60 + i), category: i % 2 ? "fact" : "other", scope: "global", importance: 0.5, timestamp: 1_000 + Math.floor(i / 2), metadata: "{}" });
+    }
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should page through every memory once in a stable order", async () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: Awaited<ReturnType<MemoryStore["listCursor"]>> = await store.listCursor({ limit: 3, cursor });
+      assert.ok(page.entries.length <= 3);
+      seen.push(...page.entries.map(e => e.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    assert.deepEqual(seen, ["page-6", "page-5", "page-4", "page-3", "page-2", "page-1", "page-0"]);
+  });
+
+  it("should not skip rows when memories are added between pages", async () => {
+    const first = await store.listCursor({ limit: 2 });
+    await store.importEntry({ id: "page-new", text: "Added later", vector: syntheticVector(70), category: "other", scope: "global", importance: 0.5, timestamp: Date.now(), metadata: "{}" });
+    const second = await store.listCursor({ limit: 2, cursor: first.nextCursor });
+    assert.deepEqual(second.entries.map(e => e.id), ["page-4", "page-3"]);
+  });
+
+  it("should apply filters while iterating", async () => {
+    const facts: string[] = [];
+    const listKeys = (store as any).listKeys;
+    let keyScans = 0;
+    (store as any).listKeys = (...args: unknown[]) => { keyScans++; return listKeys.apply(store, args); };
+    try {
+      for await (const entry of store.iterate({ category: "fact", batchSize: 1 })) facts.push(entry.id);
+    } finally {
+      delete (store as any).listKeys;
+    }
+    assert.deepEqual(facts, ["page-5", "page-3", "page-1"]);
+    assert.equal(keyScans, 1, "the keys are read once, not once per page");
+  });
+
+  it("should reject a malformed cursor", async () => {
+    await assert.rejects(store.listCursor({ cursor: "not-a-cursor" }), /Invalid list cursor/);
+  });
+});
+
+// ============================================================================
+// 16. ID Resolution Tests
+// ============================================================================
+
+describe("ID Resolution", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+  const base = { vector: syntheticVector(80), category: "fact" as const, importance: 0.5, timestamp: 1_000, metadata: "{}" };
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    await store.importEntry({ ...base, id: "abcdef01-0000-4000-8000-000000000001", text: "Shared prefix, first memory", scope: "global" });
+    await store.importEntry({ ...base, id: "abcdef01-0000-4000-8000-000000000002", text: "Shared prefix, second memory", scope: "global" });
+    await store.importEntry({ ...base, id: "abcdef01-1111-4000-8000-000000000003", text: "Private prefix match", scope: "agent:other" });
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should resolve unique prefixes and full IDs server-side", async () => {
+    assert.equal(await store.resolveId("abcdef01-1"), "abcdef01-1111-4000-8000-000000000003");
+    assert.equal(await store.resolveId("ABCDEF01-0000-4000-8000-000000000002"), "abcdef01-0000-4000-8000-000000000002");
+    assert.equal(await store.resolveId("12345678"), null);
+    await assert.rejects(store.resolveId("abcdef0"), /Invalid memory ID format/);
+  });
+
+  it("should list every accessible match for an ambiguous prefix", async () => {
+    const all = await store.resolveId("abcdef01").catch(e => e);
+    assert.ok(all instanceof AmbiguousIdError);
+    assert.equal(all.matches.length, 3);
+
+    const scoped = await store.resolveId("abcdef01", { scopeFilter: ["global"] }).catch(e => e);
+    assert.ok(scoped instanceof AmbiguousIdError);
+    assert.deepEqual(scoped.matches.map(m => m.preview).sort(), ["Shared prefix, first memory", "Shared prefix, second memory"]);
+    assert.ok(!scoped.message.includes("Private"));
+  });
+
+  it("should keep scope checks when deleting and updating by prefix", async () => {
+    await assert.rejects(store.delete("abcdef01-1", ["global"]), /outside accessible scopes/);
+    assert.equal(await store.delete("abcdef01-0000-4000-8000-000000000001", ["global"]), true);
+    assert.equal((await store.update("abcdef01-0", { importance: 0.9 }, ["global"]))?.id, "abcdef01-0000-4000-8000-000000000002");
+  });
+});
+
+// ============================================================================
+// 17. Atomic Update Tests
+// ============================================================================
+
+describe("Atomic Updates", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should never lose a memory when an update fails mid-write", async () => {
+    const entry = await store.store({ text: "Backups run at 03:00.", vector: syntheticVector(90), category: "fact", scope: "global", importance: 0.5 });
+    const table = (store as any).table;
+    const { delete: originalDelete, mergeInsert: originalMergeInsert } = table;
+
+    // A delete step would now crash the process; updates must not need one
+    table.delete = async () => { throw new Error("simulated crash before delete"); };
+    try {
+      const updated = await store.update(entry.id, { text: "Backups run at 04:00." });
+      assert.equal(updated?.text, "Backups run at 04:00.");
+    } finally {
+      table.delete = originalDelete;
+    }
+
+    // Failing the single write step leaves the previous version in place
+    table.mergeInsert = () => { throw new Error("simulated crash during write"); };
+    try {
+      await assert.rejects(store.update(entry.id, { text: "Backups run at 05:00." }), /simulated crash/);
+    } finally {
+      table.mergeInsert = originalMergeInsert;
+    }
+
+    assert.equal(await store.hasId(entry.id), true);
+    const rows = (await store.list()).filter(m => m.id === entry.id);
+    assert.deepEqual(rows.map(m => m.text), ["Backups run at 04:00."]);
+  });
+
+  it("should upsert by id and keep access counters", async () => {
+    const id = "0badc0de-0000-4000-8000-000000000001";
+    const base = { id, vector: syntheticVector(91), category: "fact" as const, scope: "global", importance: 0.5, timestamp: 1_000, metadata: "{}" };
+
+    await store.upsert({ ...base, text: "First version" });
+    store.recordAccess([id]);
+    await store.flushAccess();
+    await store.delete(id);
+
+    const replaced = await store.upsert({ ...base, text: "Second version" });
+    assert.equal(replaced.accessCount, 1);
+    const listed = (await store.list()).filter(m => m.id === id);
+    assert.deepEqual(listed.map(m => m.text), ["Second version"]);
+    assert.deepEqual((await store.getHistory(id)).map(r => r.action), ["create", "delete", "update"]);
+  });
+
+  it("should not duplicate a live memory on import", async () => {
+    const entry = await store.store({ text: "Import target", vector: syntheticVector(92), category: "fact", scope: "global", importance: 0.5 });
+    await store.importEntry({ ...entry, text: "Imported copy" });
+    const listed = (await store.list()).filter(m => m.id === entry.id);
+    assert.deepEqual(listed.map(m => m.text), ["Import target"]);
+  });
+
+  it("should bump importance in place and clamp it", async () => {
+    const entry = await store.store({ text: "Escalation contact is on-call lead.", vector: syntheticVector(93), category: "fact", scope: "global", importance: 0.8 });
+    assert.equal((await store.bumpImportance(entry.id, 0.1))?.importance.toFixed(2), "0.90");
+    assert.equal((await store.bumpImportance(entry.id, 0.5))?.importance, 1);
+    assert.equal((await store.bumpImportance(entry.id, -2))?.importance, 0);
+    assert.equal(await store.bumpImportance("ffffffff", 0.1), null);
+  });
+});
+
+// ============================================================================
+// 18. Batch Store Tests
+// ============================================================================
+
+describe("Batch Store", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should write a batch in one call with a revision per memory", async () => {
+    const entries = await store.storeBatch([
+      { text: "Batch fact one.", vector: syntheticVector(100), category: "fact", scope: "global", importance: 0.6, tags: ["Batch"] },
+      { text: "Batch fact two.", vector: syntheticVector(101), category: "fact", scope: "global", importance: 0.6 },
+    ]);
+    assert.equal(entries.length, 2);
+    assert.deepEqual(entries[0].tags, ["batch"]);
+    assert.equal((await store.list()).length, 2);
+    for (const entry of entries) {
+      assert.deepEqual((await store.getHistory(entry.id)).map(r => r.action), ["create"]);
+    }
+  });
+
+  it("should skip near-duplicates of stored memories", async () => {
+    const vectors: Record<string, number[]> = {
+      "Batch fact one, again.": syntheticVector(100),
+      "Brand new batch fact.": syntheticVector(102),
+    };
+    const fakeEmbedder = { embedBatchPassage: async (texts: string[]) => texts.map(t => vectors[t]) } as any;
+
+    const result = await storeDeduplicated(store, fakeEmbedder, Object.keys(vectors).map(text => ({ text, category: "fact" as const, scope: "global", importance: 0.6 })));
+    assert.deepEqual(result.stored.map(s => s.entry.text), ["Brand new batch fact."]);
+    assert.equal(result.duplicates[0].index, 0);
+    assert.equal((await store.list()).length, 3);
+  });
+});
+
+// ============================================================================
+// 19. Write Coordination Tests
+// ============================================================================
+
+describe("Write Coordination", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should release the lock file after each write", async () => {
+    await store.store({ text: "Locked write.", vector: syntheticVector(110), category: "fact", scope: "global", importance: 0.5 });
+    assert.ok(!(await readdir(tmpDir)).includes(WRITE_LOCK_FILE));
+  });
+
+  it("should not lose writes from two stores sharing a database", async () => {
+    const other = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    await Promise.all(Array.from({ length: 6 }, (_, i) =>
+      (i % 2 === 0 ? store : other).store({ text: `Concurrent write ${i}.`, vector: syntheticVector(120 + i), category: "fact", scope: "global", importance: 0.5 }),
+    ));
+
+    const fresh = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    assert.equal((await fresh.list(undefined, undefined, 100)).length, 7);
+  });
+
+  it("should read but refuse writes in read-only mode", async () => {
+    const reader = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM, readOnly: true });
+    const [memory] = await reader.list(undefined, undefined, 1);
+    assert.ok(memory);
+
+    await assert.rejects(
+      reader.store({ text: "Should not land.", vector: syntheticVector(130), category: "fact", scope: "global", importance: 0.5 }),
+      ReadOnlyStoreError,
+    );
+    await assert.rejects(reader.delete(memory.id), ReadOnlyStoreError);
+    assert.equal((await reader.maintainVectorIndex()).action, "none");
+    assert.equal((await reader.list(undefined, undefined, 100)).length, 7);
+  });
+
+  it("should not create a database in read-only mode", async () => {
+    const emptyDir = await makeTempDb();
+    try {
+      const reader = new MemoryStore({ dbPath: emptyDir, vectorDim: VECTOR_DIM, readOnly: true });
+      await assert.rejects(reader.list(), /Read-only mode cannot create one/);
+      assert.deepEqual(await readdir(emptyDir), []);
+    } finally {
+      await cleanupDir(emptyDir);
+    }
+  });
+});
+
+// ============================================================================
+// 20. Compaction Tests
+// ============================================================================
+
+describe("Compaction", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should merge fragments, prune versions and keep revision history", async () => {
+    const entries = [];
+    for (let i = 0; i < 5; i++) {
+      entries.push(await store.store({ text: `Compaction fact ${i}.`, vector: syntheticVector(140 + i), category: "fact", scope: "global", importance: 0.5 }));
+    }
+    await store.update(entries[0].id, { importance: 0.9 });
+    await store.delete(entries[1].id);
+
+    const report = await store.optimize(0);
+    const memories = report.tables.find(t => t.table === "memories")!;
+    assert.ok(memories.fragmentsRemoved > 1);
+    assert.ok(memories.versionsRemoved > 0);
+    assert.ok(report.bytesReclaimed > 0);
+    assert.equal(report.ftsIndex, "optimized");
+
+    assert.equal((await store.list(undefined, undefined, 100)).length, 4);
+    assert.deepEqual((await store.getHistory(entries[0].id)).map(r => r.action), ["create", "update"]);
+    const [hit] = await store.vectorSearch(syntheticVector(142), 1);
+    assert.equal(hit.entry.id, entries[2].id);
+  });
+});
+
+// ============================================================================
+// 21. Snapshot Tests
+// ============================================================================
+
+describe("Snapshots", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+  let kept: MemoryEntry;
+  let edited: MemoryEntry;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    kept = await store.store({ text: "Snapshot fact that stays.", vector: syntheticVector(150), category: "fact", scope: "global", importance: 0.5 });
+    edited = await store.store({ text: "Snapshot fact before the edit.", vector: syntheticVector(151), category: "fact", scope: "global", importance: 0.5 });
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should tag, list and diff versions", async () => {
+    const tagged = await store.tagSnapshot("before-capture");
+    await assert.rejects(store.tagSnapshot("before-capture"), /already exists/);
+
+    const polluted = await store.store({ text: "Polluting capture.", vector: syntheticVector(152), category: "other", scope: "global", importance: 0.3 });
+    await store.update(edited.id, { text: "Snapshot fact after the edit." });
+    await store.delete(kept.id);
+
+    const snapshots = await store.listSnapshots(50);
+    assert.ok(snapshots[0].version > tagged);
+    const taggedSnapshot = snapshots.find(s => s.version === tagged)!;
+    assert.deepEqual(taggedSnapshot.tags, ["before-capture"]);
+    assert.equal(taggedSnapshot.rowCount, 2);
+
+    const diff = await store.diffSnapshots("before-capture");
+    assert.deepEqual(diff.added, [polluted.id]);
+    assert.deepEqual(diff.removed, [kept.id]);
+    assert.deepEqual(diff.changed, [edited.id]);
+  });
+
+  it("should keep tagged versions through pruning and restore them", async () => {
+    await store.optimize(0);
+    const result = await store.restoreSnapshot("before-capture");
+    assert.deepEqual(result.removed.length, 1);
+
+    const live = await store.list(undefined, undefined, 100);
+    assert.deepEqual(live.map(m => m.text).sort(), ["Snapshot fact before the edit.", "Snapshot fact that stays."]);
+    assert.equal((await store.getHistory(edited.id)).at(-1)!.action, "rollback");
+
+    // The restore is a version of its own
+    assert.deepEqual((await store.diffSnapshots("before-capture")).changed, []);
+  });
+
+  it("should prune tagged versions once untagged", async () => {
+    assert.equal(await store.untagSnapshot("before-capture"), true);
+    assert.equal(await store.untagSnapshot("before-capture"), false);
+    const before = (await store.listSnapshots(50)).length;
+    await store.optimize(0);
+    await assert.rejects(store.diffSnapshots("before-capture"), /not found/);
+    assert.ok((await store.listSnapshots(50)).length < before);
+  });
+});
+
+// ============================================================================
+// 22. Encryption Tests
+// ============================================================================
+
+describe("Encryption at rest", () => {
+  let tmpDir: string;
+  const oldKey = Buffer.alloc(32, 7);
+  const newKey = Buffer.alloc(32, 8);
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  async function rawRows(table: string): Promise<Array<Record<string, unknown>>> {
+    const lancedb = await loadLanceDB();
+    const db = await lancedb.connect(tmpDir);
+    return (await db.openTable(table)).query().toArray();
+  }
+
+  it("should store ciphertext and read plaintext", async () => {
+    // Written before encryption was enabled
+    const plain = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    const legacy = await plain.store({ text: "Legacy plaintext memory about Grafana.", vector: syntheticVector(160), category: "fact", scope: "global", importance: 0.5 });
+
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM, encryption: { cipher: new FieldCipher(oldKey), plaintextFts: false } });
+    const entry = await store.store({ text: "Vault token rotates on Fridays.", vector: syntheticVector(161), category: "fact", scope: "global", importance: 0.6, metadata: "{\"source\":\"test\"}" });
+
+    const raw = (await rawRows("memories")).find(row => row.id === entry.id)!;
+    assert.ok(isEncrypted(raw.text) && isEncrypted(raw.metadata));
+    assert.equal(raw.ftsText, null);
+
+    const texts = (await store.list(undefined, undefined, 10)).map(m => m.text).sort();
+    assert.deepEqual(texts, ["Legacy plaintext memory about Grafana.", "Vault token rotates on Fridays."]);
+    const results = await store.vectorSearch(syntheticVector(161), 1, 0);
+    assert.equal(results[0].entry.metadata, "{\"source\":\"test\"}");
+    assert.equal((await store.getHistory(entry.id))[0].text, "Vault token rotates on Fridays.");
+
+    // No plaintext column to index, so BM25 is off
+    assert.equal(store.hasFtsSupport, false);
+    assert.equal((await store.bm25Search("Grafana", 5)).length, 0);
+
+    const first = await store.reencrypt();
+    assert.equal(first.memories, 1);
+    assert.ok(first.revisions >= 1);
+    assert.ok(isEncrypted((await rawRows("memories")).find(row => row.id === legacy.id)!.text));
+    assert.deepEqual(await store.reencrypt(), { memories: 0, revisions: 0 });
+  });
+
+  it("should rotate keys and keep BM25 with plaintextFts", async () => {
+    const rotated = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM, encryption: { cipher: new FieldCipher(newKey, [oldKey]), plaintextFts: true } });
+    const result = await rotated.reencrypt();
+    assert.equal(result.memories, 2);
+
+    const newOnly = new FieldCipher(newKey);
+    for (const row of await rawRows("memories")) assert.ok(newOnly.isCurrent(row.text));
+    for (const row of await rawRows("memory_history")) assert.ok(newOnly.isCurrent(row.text));
+
+    const reopened = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM, encryption: { cipher: newOnly, plaintextFts: true } });
+    assert.equal(reopened.hasFtsSupport, false);
+    assert.equal((await reopened.list(undefined, undefined, 10)).length, 2);
+    assert.equal(reopened.hasFtsSupport, true);
+    const hits = await reopened.bm25Search("Grafana", 5);
+    assert.equal(hits[0]?.entry.text, "Legacy plaintext memory about Grafana.");
+
+    const stale = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM, encryption: { cipher: new FieldCipher(oldKey), plaintextFts: false } });
+    await assert.rejects(stale.list(undefined, undefined, 10), /is not configured/);
+  });
+});
+
+// ============================================================================
+// 23. Metadata Filter Tests
+// ============================================================================
+
+describe("Metadata filters", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await makeTempDb();
+  });
+
+  afterEach(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  async function rawRows(): Promise<Array<Record<string, unknown>>> {
+    const lancedb = await loadLanceDB();
+    const db = await lancedb.connect(tmpDir);
+    return (await db.openTable("memories")).query().toArray();
+  }
+
+  function summary(sessionId: string): string {
+    return JSON.stringify({ type: "session-summary", sessionKey: "main", sessionId, date: "2026-03-01" });
+  }
+
+  it("should filter search, list, stats and bulk delete on metadata", async () => {
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    const base = { category: "other" as const, scope: "global", importance: 0.5 };
+    const one = await store.store({ ...base, text: "Session summary about the Grafana upgrade.", vector: syntheticVector(170), metadata: summary("s-1") });
+    await store.store({ ...base, text: "Session summary about Grafana alerts.", vector: syntheticVector(171), metadata: summary("s-2") });
+    await store.store({ ...base, text: "Migrated note about Grafana.", vector: syntheticVector(172), metadata: JSON.stringify({ migratedFrom: "memory-lancedb", originalId: "x" }) });
+
+    const raw = (await rawRows()).find(row => row.id === one.id)!;
+    assert.equal(raw.metadataType, "session-summary");
+    assert.equal(raw.metadataSessionId, "s-1");
+
+    const bySession = { where: parseMetadataFilter('metadata.type = "session-summary" AND metadata.sessionId IN ("s-1")') };
+    assert.deepEqual((await store.vectorSearch(syntheticVector(171), 5, 0, undefined, bySession)).map(r => r.entry.id), [one.id]);
+    assert.deepEqual((await store.bm25Search("Grafana", 5, undefined, bySession)).map(r => r.entry.id), [one.id]);
+
+    const migrated = { where: parseMetadataFilter("metadata.migratedFrom = 'memory-lancedb'") };
+    assert.deepEqual((await store.list(undefined, undefined, 10, 0, migrated)).map(m => m.text), ["Migrated note about Grafana."]);
+    assert.equal((await store.listCursor({ filter: migrated })).nextCursor, null);
+    assert.equal((await store.stats(undefined, { where: parseMetadataFilter('metadata.date >= "2026-01-01"') })).totalCount, 2);
+
+    assert.equal(await store.bulkDelete([], undefined, migrated), 1);
+    assert.equal((await store.list(undefined, undefined, 10)).length, 2);
+  });
+
+  it("should backfill promoted columns when migrating an older table", async () => {
+    const lancedb = await loadLanceDB();
+    const db = await lancedb.connect(tmpDir);
+    await db.createTable("memories", [{
+      id: "5d0c8f1e-2b3a-4c5d-8e9f-0a1b2c3d4e5f",
+      text: "Legacy session summary.",
+      vector: syntheticVector(173),
+      category: "other",
+      scope: "global",
+      importance: 0.5,
+      timestamp: Date.now(),
+      metadata: summary("legacy"),
+    }]);
+
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    const where = parseMetadataFilter('metadata.sessionId = "legacy"');
+    assert.equal((await store.list(undefined, undefined, 10, 0, { where })).length, 1);
+    assert.equal((await rawRows())[0].metadataSessionId, "legacy");
+  });
+
+  it("should filter encrypted metadata without plaintext columns", async () => {
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM, encryption: { cipher: new FieldCipher(Buffer.alloc(32, 9)), plaintextFts: false } });
+    const entry = await store.store({ text: "Encrypted session summary.", vector: syntheticVector(174), category: "other", scope: "global", importance: 0.5, metadata: summary("s-9") });
+    await store.store({ text: "Unrelated encrypted memory.", vector: syntheticVector(175), category: "other", scope: "global", importance: 0.5 });
+
+    const raw = (await rawRows()).find(row => row.id === entry.id)!;
+    assert.equal(raw.metadataType, null);
+    assert.equal(raw.metadataSessionId, null);
+
+    const where = parseMetadataFilter('metadata.sessionId = "s-9"');
+    assert.deepEqual((await store.list(undefined, undefined, 10, 0, { where })).map(m => m.id), [entry.id]);
+    assert.deepEqual((await store.vectorSearch(syntheticVector(175), 5, 0, undefined, { where })).map(r => r.entry.id), [entry.id]);
+  });
+});
+
+// ============================================================================
+// 24. Date-Range Filter Tests
+// ============================================================================
+
+describe("Date-range filters", () => {
+  let tmpDir: string;
+  let store: MemoryStore;
+  const DAY = 86_400_000;
+  const now = Date.now();
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+    store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    const base = { category: "decision" as const, scope: "global", importance: 0.7 };
+    await store.importEntry({ ...base, id: "7b000000-0000-4000-8000-000000000001", text: "Decision: adopt Postgres for billing.", vector: syntheticVector(180), timestamp: now - 30 * DAY });
+    await store.importEntry({ ...base, id: "7b000000-0000-4000-8000-000000000002", text: "Decision: move Postgres backups to S3.", vector: syntheticVector(181), timestamp: now - 10 * DAY });
+    await store.importEntry({ ...base, id: "7b000000-0000-4000-8000-000000000003", text: "Decision: freeze Postgres upgrades.", vector: syntheticVector(182), timestamp: now - DAY });
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should push since/until into vector and BM25 search", async () => {
+    const window = { since: now - 14 * DAY, until: now - 7 * DAY };
+    const vectorHits = await store.vectorSearch(syntheticVector(180), 5, 0, undefined, window);
+    assert.deepEqual(vectorHits.map(r => r.entry.id), ["7b000000-0000-4000-8000-000000000002"]);
+    const bm25Hits = await store.bm25Search("Postgres", 5, undefined, window);
+    assert.deepEqual(bm25Hits.map(r => r.entry.id), ["7b000000-0000-4000-8000-000000000002"]);
+  });
+
+  it("should page lists within the window", async () => {
+    const first = await store.listCursor({ filter: { since: now - 14 * DAY }, limit: 1 });
+    assert.equal(first.entries[0].text, "Decision: freeze Postgres upgrades.");
+    const second = await store.listCursor({ filter: { since: now - 14 * DAY }, limit: 1, cursor: first.nextCursor });
+    assert.equal(second.entries[0].text, "Decision: move Postgres backups to S3.");
+    assert.equal(second.nextCursor, null);
+  });
+});
+
+// ============================================================================
+// 25. Health Report Tests
+// ============================================================================
+
+describe("Health report", () => {
+  let tmpDir: string;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should report content, table, index and disk statistics", async () => {
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    await store.store({ text: "Grafana alerts page the on-call engineer.", vector: syntheticVector(190), category: "fact", scope: "global", importance: 0.9 });
+    await store.store({ text: "Zero vector.", vector: new Array(VECTOR_DIM).fill(0), category: "other", scope: "agent:a", importance: 0.1 });
+
+    const report = await store.healthReport();
+    assert.equal(report.totalCount, 2);
+    assert.equal(report.content.emptyVectors, 1);
+    assert.equal(report.content.mismatchedVectors, 0);
+    assert.equal(report.content.ageHistogram[0].count, 2);
+    assert.ok(report.content.averageTextLength! > 0);
+
+    const storage = report.storage!;
+    assert.ok(storage.diskBytes! > 0);
+    assert.deepEqual(storage.tables.map(t => t.name), ["memories", "memory_history", "memories_meta"]);
+    const memories = storage.tables[0];
+    assert.equal(memories.rows, 2);
+    assert.ok(memories.fragments >= 1 && memories.versions >= 1);
+    assert.equal(storage.ftsIndex.exists, true);
+    assert.equal(storage.ftsIndex.column, "text");
+    assert.equal(storage.vectorIndex.exists, false);
+
+    const scoped = await store.healthReport(["global"]);
+    assert.equal(scoped.totalCount, 1);
+    assert.equal(scoped.content.emptyVectors, 0);
+  });
+});
+
+// ============================================================================
+// 26. Chunked Storage Tests
+// ============================================================================
+
+describe("Chunked storage", () => {
+  let tmpDir: string;
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should match chunks, return the parent and hide chunks from listings", async () => {
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    const parent = await store.store({ text: "Incident review. ".repeat(200), vector: syntheticVector(300), category: "fact", scope: "global", importance: 0.7 });
+    const other = await store.store({ text: "Unrelated memory", vector: syntheticVector(310), category: "fact", scope: "global", importance: 0.7 });
+    const written = await store.replaceChunks(parent.id, [
+      { text: "Incident review part one", vector: syntheticVector(320) },
+      { text: "Incident review part two", vector: syntheticVector(330) },
+    ]);
+    assert.equal(written, 2);
+
+    const [top] = await store.vectorSearch(syntheticVector(330), 1, 0);
+    assert.equal(top.entry.id, parent.id);
+    assert.equal(top.chunk?.text, "Incident review part two");
+    assert.equal(top.chunk?.index, 1);
+    assert.equal(top.chunk?.count, 2);
+
+    const scoped = await store.vectorSearch(syntheticVector(330), 5, 0, ["agent:other"]);
+    assert.equal(scoped.length, 0, "chunks follow the parent's scope");
+
+    const ids = (await store.list(undefined, undefined, 10)).map(e => e.id).sort();
+    assert.deepEqual(ids, [parent.id, other.id].sort());
+    assert.equal((await store.stats()).totalCount, 2);
+    assert.equal(await store.resolveId(parent.id.slice(0, 8)), parent.id);
+
+    // Replacing chunks drops the old ones
+    await store.replaceChunks(parent.id, [{ text: "Single chunk", vector: syntheticVector(340) }]);
+    const [replaced] = await store.vectorSearch(syntheticVector(330), 1, 0);
+    assert.notEqual(replaced.chunk?.text, "Incident review part two");
+
+    await assert.rejects(store.replaceChunks("00000000-0000-4000-8000-000000000000", []), /not found/);
+  });
+
+  it("should drop chunks when the parent text changes or the parent is purged", async () => {
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    const parent = await store.store({ text: "Runbook. ".repeat(300), vector: syntheticVector(350), category: "fact", scope: "global", importance: 0.7 });
+    await store.replaceChunks(parent.id, [{ text: "Runbook step one", vector: syntheticVector(360) }]);
+
+    await store.update(parent.id, { text: "Short runbook", vector: syntheticVector(350) });
+    const [afterUpdate] = await store.vectorSearch(syntheticVector(360), 1, 0);
+    assert.equal(afterUpdate.chunk, undefined);
+
+    await store.replaceChunks(parent.id, [{ text: "Runbook step two", vector: syntheticVector(370) }]);
+    await store.delete(parent.id);
+    assert.ok((await store.vectorSearch(syntheticVector(370), 5, 0)).every(r => r.entry.id !== parent.id), "trashed parents are not returned");
+    assert.equal(await store.purgeTrash(), 1);
+
+    // Two memories and one chunk left from the previous test
+    const report = await store.healthReport();
+    assert.equal(report.totalCount, 2);
+    assert.equal(report.storage!.tables[0].rows, 3, "purge removes the chunks");
+  });
+});
+
+// ============================================================================
+// 27. Embedding Column Tests
+// ============================================================================
+
+import { backfillEmbeddings } from "../src/embedding-columns.js";
+
+describe("Embedding columns", () => {
+  let tmpDir: string;
+  const SMALL_DIM = 8;
+  const texts = ["Deploys run on Fridays", "The VPN needs a hardware key", "Lunch is at noon"];
+
+  /** Stand-in embedder: vectors derived from the text length, so both models agree on the nearest text */
+  const mockEmbedder = (model: string, dimensions: number) => {
+    const embed = (text: string) => {
+      const vec = Array.from({ length: dimensions }, (_, i) => Math.sin(text.length * 7.3 + i * 0.11));
+      const norm = Math.sqrt(vec.reduce((sum, v) => sum + v * v, 0));
+      return vec.map(v => v / norm);
+    };
+    return {
+      model,
+      dimensions,
+      embed: async (text: string) => embed(text),
+      embedQuery: async (text: string) => embed(text),
+      embedPassage: async (text: string) => embed(text),
+      embedBatch: async (batch: string[]) => batch.map(embed),
+      embedBatchQuery: async (batch: string[]) => batch.map(embed),
+      embedBatchPassage: async (batch: string[]) => batch.map(embed),
+      test: async () => ({ success: true, dimensions }),
+      get cacheStats() { return { size: 0, hits: 0, misses: 0, hitRate: "N/A" }; },
+    };
+  };
+  const modelA = mockEmbedder("model-a", VECTOR_DIM);
+  const modelB = mockEmbedder("model-b", SMALL_DIM);
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should keep serving the previous model until the new column is backfilled", async () => {
+    const storeA = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM, embeddingModel: "model-a" });
+    for (const text of texts) {
+      await storeA.store({ text, vector: await modelA.embedPassage(text), category: "fact", scope: "global", importance: 0.7 });
+    }
+
+    await assert.rejects(new MemoryStore({ dbPath: tmpDir, vectorDim: SMALL_DIM, embeddingModel: "model-b" }).stats(), /embedding\.previous/);
+
+    const store = new MemoryStore({
+      dbPath: tmpDir,
+      vectorDim: SMALL_DIM,
+      embeddingModel: "model-b",
+      previousEmbedding: { model: "model-a", dimensions: VECTOR_DIM },
+    });
+    assert.deepEqual(await store.servingEmbedding(), { model: "model-a", dimensions: VECTOR_DIM });
+    const before = await store.embeddingColumns();
+    assert.deepEqual(before.map(c => [c.column, c.missingRows, c.active, c.serving]), [
+      ["vector", 0, false, true],
+      [`vector_model_b_${SMALL_DIM}`, 3, true, false],
+    ]);
+
+    // Queries embedded with the previous model still find everything
+    const retriever = createRetriever(store, modelB, { mode: "vector", rerank: "none", minScore: 0, hardMinScore: 0, filterNoise: false }, undefined, modelA);
+    const [hit] = await retriever.retrieve({ query: texts[1], limit: 1 });
+    assert.equal(hit.entry.text, texts[1]);
+
+    // Written during the migration: only the new model's vector
+    const added = await store.store({ text: "Standup moved to 10am", vector: await modelB.embedPassage("Standup moved to 10am"), category: "fact", scope: "global", importance: 0.7 });
+    assert.deepEqual((await backfillEmbeddings(store, modelA)), { model: "model-a", dimensions: VECTOR_DIM, filled: 1, remaining: 0 });
+    const [stillA] = await store.vectorSearch(await modelA.embedQuery(added.text), 1, 0, undefined, undefined, { model: "model-a" });
+    assert.equal(stillA.entry.id, added.id);
+
+    const result = await backfillEmbeddings(store, modelB, 2);
+    assert.deepEqual(result, { model: "model-b", dimensions: SMALL_DIM, filled: 3, remaining: 0 });
+    assert.deepEqual(await store.servingEmbedding(), { model: "model-b", dimensions: SMALL_DIM });
+
+    const [after] = await retriever.retrieve({ query: texts[2], limit: 1 });
+    assert.equal(after.entry.text, texts[2]);
+    assert.equal(after.entry.vector.length, SMALL_DIM);
+  });
+
+  it("should clear other models' vectors on text changes and drop unused columns", async () => {
+    const store = new MemoryStore({
+      dbPath: tmpDir,
+      vectorDim: SMALL_DIM,
+      embeddingModel: "model-b",
+      previousEmbedding: { model: "model-a", dimensions: VECTOR_DIM },
+    });
+    assert.deepEqual(await store.servingEmbedding(), { model: "model-b", dimensions: SMALL_DIM }, "a complete column serves on reopen");
+
+    const [entry] = await store.list(undefined, undefined, 1);
+    await store.update(entry.id, { importance: 0.9 });
+    assert.equal((await store.missingVectors({ model: "model-a", dimensions: VECTOR_DIM }, 10)).length, 0, "unchanged text keeps vectors");
+    await store.update(entry.id, { text: "Deploys run on Thursdays", vector: await modelB.embedPassage("Deploys run on Thursdays") });
+    assert.deepEqual(
+      (await store.missingVectors({ model: "model-a", dimensions: VECTOR_DIM }, 10)).map(m => m.text),
+      ["Deploys run on Thursdays"],
+    );
+
+    await assert.rejects(store.dropEmbeddingColumn("model-b"), /active/);
+    await assert.rejects(store.dropEmbeddingColumn("model-c"), /No vector column/);
+    const dropped = await store.dropEmbeddingColumn("model-a");
+    assert.equal(dropped.column, "vector");
+    assert.deepEqual((await store.embeddingColumns()).map(c => c.model), ["model-b"]);
+
+    const reopened = new MemoryStore({ dbPath: tmpDir, vectorDim: SMALL_DIM, embeddingModel: "model-b" });
+    const [top] = await reopened.vectorSearch(await modelB.embedQuery(texts[1]), 1, 0);
+    assert.equal(top.entry.text, texts[1]);
+    assert.equal((await reopened.stats()).totalCount, 4);
+  });
+});
+
+// ============================================================================
+// 28. Full-Text Search Option Tests
+// ============================================================================
+
+import { DEFAULT_FTS_CONFIG } from "../src/fts.js";
+
+describe("Full-text search options", () => {
+  let tmpDir: string;
+  const ngram = { ...DEFAULT_FTS_CONFIG, tokenizer: "ngram" as const, stopWords: ["請問"] };
+
+  before(async () => {
+    tmpDir = await makeTempDb();
+  });
+
+  after(async () => {
+    await cleanupDir(tmpDir);
+  });
+
+  it("should rebuild the index with the ngram tokenizer so CJK queries match", async () => {
+    const store = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM });
+    await store.store({ text: "我們決定使用PostgreSQL作為主資料庫", vector: syntheticVector(400), category: "decision", scope: "global", importance: 0.8 });
+    await store.store({ text: "使用者喜歡深色主題和簡潔的介面", vector: syntheticVector(410), category: "preference", scope: "global", importance: 0.7 });
+    await store.optimize(0);
+    assert.equal((await store.bm25Search("資料庫", 5)).length, 0, "the simple tokenizer keeps a CJK sentence as one token");
+
+    const cjk = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM, fts: ngram });
+    const [hit] = await cjk.bm25Search("請問 資料庫", 5);
+    assert.equal(hit?.entry.category, "decision");
+    const [theme] = await cjk.bm25Search("深色主題", 5);
+    assert.equal(theme?.entry.category, "preference");
+    assert.deepEqual(await cjk.bm25Search("請問", 5), [], "a query of stop words matches nothing");
+
+    // New memories are indexed with the same tokenizer once the index is refreshed
+    await cjk.store({ text: "部署流程在每週五執行", vector: syntheticVector(420), category: "fact", scope: "global", importance: 0.7 });
+    await cjk.optimize(0);
+    const [deploy] = await cjk.bm25Search("部署", 5);
+    assert.equal(deploy?.entry.text, "部署流程在每週五執行");
+
+    // Reopening with the same options keeps the index; a read-only open uses it as built
+    const readOnly = new MemoryStore({ dbPath: tmpDir, vectorDim: VECTOR_DIM, fts: ngram, readOnly: true });
+    assert.equal((await readOnly.bm25Search("資料庫", 5)).length, 1);
+  });
+
+  it("should find fresh memories before the index refresh and fold them in once enough are waiting", async () => {
+    const dir = await makeTempDb();
+    try {
+      const store = new MemoryStore({ dbPath: dir, vectorDim: VECTOR_DIM, fts: { ...DEFAULT_FTS_CONFIG, refreshRows: 3, refreshDelaySeconds: 3600 } });
+      await store.store({ text: "Kafka brokers run in three zones", vector: syntheticVector(430), category: "fact", scope: "global", importance: 0.7 });
+
+      const fresh = await store.ftsIndexStatus();
+      assert.equal(fresh.exists, true);
+      assert.equal(fresh.unindexedRows, 1);
+      const [hit] = await store.bm25Search("kafka", 5);
+      assert.equal(hit?.entry.text, "Kafka brokers run in three zones", "the unindexed tail is scanned");
+
+      await store.storeBatch([
+        { text: "Redis caches Kafka consumer offsets", vector: syntheticVector(440), category: "fact", scope: "global", importance: 0.7 },
+        { text: "Zookeeper was removed in March", vector: syntheticVector(450), category: "fact", scope: "global", importance: 0.7 },
+      ]);
+      // The threshold refresh runs in the background
+      for (let i = 0; i < 50 && (await store.ftsIndexStatus()).unindexedRows > 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      const folded = await store.ftsIndexStatus();
+      assert.equal(folded.indexedRows, 3);
+      assert.equal(folded.unindexedRows, 0);
+      assert.equal((await store.bm25Search("kafka", 5)).length, 2);
+
+      // Access bookkeeping leaves the indexed text alone and schedules no refresh
+      store.recordAccess([hit.entry.id]);
+      await store.flushAccess();
+      assert.equal((store as any).ftsRefreshTimer, null);
+
+      await store.update(hit.entry.id, { text: "Kafka brokers run in two zones" });
+      assert.equal((await store.ftsIndexStatus()).unindexedRows, 1);
+      const refreshed = await store.refreshFtsIndex();
+      assert.equal(refreshed.unindexedRows, 0);
+      assert.equal((await store.bm25Search("two zones", 5))[0]?.entry.id, hit.entry.id);
+    } finally {
+      await cleanupDir(dir);
+    }
+  });
+});
+
 // ============================================================================
 // Utility: cosine similarity
 // ============================================================================
@@ -642,3 +1948,10 @@ function cosineSim(a: number[], b: number[]): number {
   const denom = Math.sqrt(normA) * Math.sqrt(normB);
   return denom === 0 ? 0 : dot / denom;
 }
+
+// Deterministic unit-length vector for store tests that don't need real embeddings
+function syntheticVector(seed: number): number[] {
+  const vec = Array.from({ length: VECTOR_DIM }, (_, i) => Math.sin(seed * 7.3 + i * 0.11));
+  const norm = Math.sqrt(vec.reduce((sum, v) => sum + v * v, 0));
+  return vec.map(v => v / norm);
+}
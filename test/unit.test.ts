@@ -297,6 +297,67 @@ describe("Config Parser (memoryConfigSchema.parse)", () => {
       if (saved !== undefined) process.env.OPENCLAW_LLM_API_KEY = saved; else delete process.env.OPENCLAW_LLM_API_KEY;
     }
   });
+
+  it("softDelete defaults to true and can be disabled", () => {
+    assert.equal(memoryConfigSchema.parse({ embedding: { apiKey: "key" } }).softDelete, true);
+    assert.equal(memoryConfigSchema.parse({ embedding: { apiKey: "key" }, softDelete: false }).softDelete, false);
+  });
+
+  it("retention defaults to enabled with no rules", () => {
+    const config = memoryConfigSchema.parse({ embedding: { apiKey: "key" } });
+    assert.equal(config.retention.enabled, true);
+    assert.equal(config.retention.sweepIntervalMinutes, 60);
+    assert.deepEqual(config.retention.rules, []);
+  });
+
+  it("parses retention rules and their durations", () => {
+    const config = memoryConfigSchema.parse({
+      embedding: { apiKey: "key" },
+      retention: {
+        rules: [
+          { name: "old-sessions", metadata: { type: "session-summary" }, olderThan: "90d" },
+          { category: "other", maxImportance: 0.5, olderThan: "30d" },
+        ],
+      },
+    });
+    assert.equal(config.retention.rules[0].name, "old-sessions");
+    assert.equal(config.retention.rules[0].olderThanMs, 90 * 86_400_000);
+    assert.equal(config.retention.rules[1].name, "rule-2");
+    assert.equal(config.retention.rules[1].maxImportance, 0.5);
+  });
+
+  it("rejects retention rules with an invalid duration or no criteria", () => {
+    assert.throws(
+      () => memoryConfigSchema.parse({ embedding: { apiKey: "key" }, retention: { rules: [{ category: "other", olderThan: "30" }] } }),
+      /olderThan must be a duration/,
+    );
+    assert.throws(
+      () => memoryConfigSchema.parse({ embedding: { apiKey: "key" }, retention: { rules: [{ olderThan: "30d" }] } }),
+      /needs at least one of/,
+    );
+    assert.throws(
+      () => memoryConfigSchema.parse({ embedding: { apiKey: "key" }, retention: { rules: [{ category: "misc", olderThan: "30d" }] } }),
+      /unknown category/,
+    );
+  });
+
+  it("vectorIndex defaults to automatic IVF_PQ at 10k rows", () => {
+    const config = memoryConfigSchema.parse({ embedding: { apiKey: "key" } });
+    assert.deepEqual(config.vectorIndex, { auto: true, type: "ivf_pq", minRows: 10_000, retrainGrowth: 0.5 });
+    assert.equal(config.retrieval.nprobes, 20);
+    assert.equal(config.retrieval.refineFactor, 0);
+  });
+
+  it("rejects unknown vectorIndex types and tiny thresholds", () => {
+    assert.throws(
+      () => memoryConfigSchema.parse({ embedding: { apiKey: "key" }, vectorIndex: { type: "ivf_flat" } }),
+      /Unknown vectorIndex.type/,
+    );
+    assert.throws(
+      () => memoryConfigSchema.parse({ embedding: { apiKey: "key" }, vectorIndex: { minRows: 100 } }),
+      /at least 256/,
+    );
+  });
 });
 
 // ============================================================================
@@ -1038,6 +1099,22 @@ describe("callLlmForCaptureJudgment Authorization header", () => {
     assert.equal(capturedHeaders["Content-Type"], "application/json");
     assert.equal(capturedHeaders["Authorization"], "Bearer sk-test-secret-key");
   });
+
+  it("normalizes tags returned by the LLM", async () => {
+    delete process.env.OPENCLAW_GATEWAY_URL;
+    const content = JSON.stringify({
+      store: true,
+      memories: [{ text: "Billing webhooks retry 5 times", category: "fact", importance: 0.8, tags: ["Billing", " INC-42 ", 3] }],
+    });
+
+    globalThis.fetch = (async () => ({
+      ok: true, status: 200, json: async () => ({ choices: [{ message: { content } }] }),
+    })) as unknown as typeof fetch;
+
+    const judgment = await callLlmForCaptureJudgment("test conversation", "test-model", logger, "http://localhost:9999");
+    assert.ok(judgment?.store);
+    assert.deepEqual(judgment.memories[0].tags, ["billing", "inc-42"]);
+  });
 });
 
 // ============================================================================
@@ -1169,7 +1246,7 @@ describe("filterNoise()", () => {
 // 9. Utils
 // ============================================================================
 
-import { normalizeBaseUrl, getUrlHost } from "../src/utils.js";
+import { normalizeBaseUrl, getUrlHost, parseDuration, parseTimeBound, normalizeTags } from "../src/utils.js";
 
 describe("normalizeBaseUrl()", () => {
   it("strips trailing slashes", () => {
@@ -1241,6 +1318,61 @@ describe("getUrlHost()", () => {
   });
 });
 
+describe("parseDuration()", () => {
+  it("parses each supported unit", () => {
+    assert.equal(parseDuration("45s"), 45_000);
+    assert.equal(parseDuration("90m"), 90 * 60_000);
+    assert.equal(parseDuration("12h"), 12 * 3_600_000);
+    assert.equal(parseDuration("30d"), 30 * 86_400_000);
+    assert.equal(parseDuration("2w"), 14 * 86_400_000);
+  });
+
+  it("accepts fractions, whitespace and uppercase units", () => {
+    assert.equal(parseDuration("1.5d"), 36 * 3_600_000);
+    assert.equal(parseDuration(" 7 D "), 7 * 86_400_000);
+  });
+
+  it("returns null for invalid durations", () => {
+    assert.equal(parseDuration(""), null);
+    assert.equal(parseDuration("30"), null);
+    assert.equal(parseDuration("30y"), null);
+    assert.equal(parseDuration("2026-01-01"), null);
+    assert.equal(parseDuration("-5d"), null);
+  });
+});
+
+describe("parseTimeBound()", () => {
+  const now = Date.parse("2026-03-15T12:00:00Z");
+
+  it("parses dates, date-times and durations ago", () => {
+    assert.equal(parseTimeBound("2026-01-01", now), Date.parse("2026-01-01T00:00:00Z"));
+    assert.equal(parseTimeBound("2026-01-01T08:30:00Z", now), Date.parse("2026-01-01T08:30:00Z"));
+    assert.equal(parseTimeBound("7d", now), now - 7 * 86_400_000);
+  });
+
+  it("returns null for anything else", () => {
+    assert.equal(parseTimeBound("yesterday", now), null);
+    assert.equal(parseTimeBound("1700000000000", now), null);
+    assert.equal(parseTimeBound("2026-13-45", now), null);
+  });
+});
+
+describe("normalizeTags()", () => {
+  it("trims, lowercases and removes duplicates", () => {
+    assert.deepEqual(normalizeTags([" Billing", "INC-42", "billing", ""]), ["billing", "inc-42"]);
+  });
+
+  it("accepts a comma-separated string", () => {
+    assert.deepEqual(normalizeTags("search, inc-43 ,"), ["search", "inc-43"]);
+  });
+
+  it("ignores non-string input", () => {
+    assert.deepEqual(normalizeTags(undefined), []);
+    assert.deepEqual(normalizeTags(42), []);
+    assert.deepEqual(normalizeTags(["ok", 7, null]), ["ok"]);
+  });
+});
+
 // ============================================================================
 // Phase 2 — Mock Fetch Tests
 // ============================================================================
@@ -1897,6 +2029,7 @@ describe("MemoryScopeManager additional coverage", () => {
 // ============================================================================
 
 import { MemoryRetriever, DEFAULT_RETRIEVAL_CONFIG, createRetriever } from "../src/retriever.js";
+import { createRerankerFromConfig } from "../src/reranker-factory.js";
 import type { MemorySearchResult, MemoryEntry } from "../src/store.js";
 
 describe("MemoryRetriever (mocked store + embedder)", () => {
@@ -1916,6 +2049,8 @@ describe("MemoryRetriever (mocked store + embedder)", () => {
       importance: overrides.importance ?? 0.7,
       timestamp: overrides.timestamp ?? Date.now(),
       metadata: overrides.metadata || "{}",
+      accessCount: overrides.accessCount,
+      lastAccessedAt: overrides.lastAccessedAt,
     };
   }
 
@@ -1953,6 +2088,8 @@ describe("MemoryRetriever (mocked store + embedder)", () => {
       bulkDelete: async () => 0,
       hasId: async () => false,
       importEntry: async () => ({} as any),
+      accessed: [] as string[][],
+      recordAccess(ids: string[]) { this.accessed.push(ids); },
     } as any;
   }
 
@@ -2156,6 +2293,31 @@ describe("MemoryRetriever (mocked store + embedder)", () => {
     assert.equal(result.mode, "vector");
   });
 
+  it("test() reports vector index status when the store provides it", async () => {
+    const store = createMockStore();
+    store.vectorIndexStatus = async () => ({ exists: true, type: "IVF_PQ", rowCount: 300, indexedRows: 300, unindexedRows: 0 });
+    const retriever = createRetriever(store, createMockEmbedder() as any, { ...DEFAULT_RETRIEVAL_CONFIG, mode: "vector" });
+
+    const result = await retriever.test();
+    assert.equal(result.success, true);
+    assert.equal(result.vectorIndex?.type, "IVF_PQ");
+  });
+
+  it("passes nprobes and refineFactor to vector search", async () => {
+    const store = createMockStore();
+    let options: any;
+    store.vectorSearch = async (...args: any[]) => { options = args[5]; return []; };
+    const retriever = createRetriever(store, createMockEmbedder() as any, {
+      ...DEFAULT_RETRIEVAL_CONFIG,
+      mode: "vector",
+      nprobes: 40,
+      refineFactor: 5,
+    });
+
+    await retriever.retrieve({ query: "test", limit: 5 });
+    assert.deepEqual(options, { nprobes: 40, refineFactor: 5, model: "mock-model" });
+  });
+
   it("test() returns failure when embedder throws", async () => {
     const store = createMockStore();
     const embedder = {
@@ -2233,7 +2395,7 @@ describe("MemoryRetriever (mocked store + embedder)", () => {
       rerank: "cross-encoder",
       hardMinScore: 0.1,
       minScore: 0.1,
-    }, undefined); // no API key → falls back to cosine
+    }, undefined); // no reranker → falls back to cosine
 
     const results = await retriever.retrieve({ query: "test", limit: 5 });
     assert.ok(results.length > 0);
@@ -2270,7 +2432,7 @@ describe("MemoryRetriever (mocked store + embedder)", () => {
       rerankModel: "rerank-2",
       hardMinScore: 0.1,
       minScore: 0.1,
-    }, "voyage-test-key");
+    }, createRerankerFromConfig({ provider: "voyage", apiKey: "voyage-test-key", model: "rerank-2", timeoutMs: 5000 }));
 
     const results = await retriever.retrieve({ query: "test", limit: 5 });
     assert.ok(results.length >= 1);
@@ -2296,7 +2458,7 @@ describe("MemoryRetriever (mocked store + embedder)", () => {
       rerank: "cross-encoder",
       hardMinScore: 0.1,
       minScore: 0.1,
-    }, "voyage-test-key");
+    }, createRerankerFromConfig({ provider: "voyage", apiKey: "voyage-test-key", model: "rerank-2", timeoutMs: 5000 }));
 
     // Should not throw, falls back to cosine similarity
     const results = await retriever.retrieve({ query: "test", limit: 5 });
@@ -2326,7 +2488,7 @@ describe("MemoryRetriever (mocked store + embedder)", () => {
       rerank: "cross-encoder",
       hardMinScore: 0.1,
       minScore: 0.1,
-    }, "voyage-test-key");
+    }, createRerankerFromConfig({ provider: "voyage", apiKey: "voyage-test-key", model: "rerank-2", timeoutMs: 5000 }));
 
     const results = await retriever.retrieve({ query: "test", limit: 5 });
     assert.ok(Array.isArray(results));
@@ -2349,7 +2511,7 @@ describe("MemoryRetriever (mocked store + embedder)", () => {
       rerank: "cross-encoder",
       hardMinScore: 0.1,
       minScore: 0.1,
-    }, "voyage-test-key");
+    }, createRerankerFromConfig({ provider: "voyage", apiKey: "voyage-test-key", model: "rerank-2", timeoutMs: 5000 }));
 
     const results = await retriever.retrieve({ query: "test", limit: 5 });
     assert.ok(Array.isArray(results));
@@ -2397,4 +2559,1476 @@ describe("MemoryRetriever (mocked store + embedder)", () => {
     assert.strictEqual(vectorSearchCalls[1], 20, "limit 100 should be clamped to 20");
     assert.strictEqual(vectorSearchCalls[2], 1, "limit -5 should be clamped to 1");
   });
+
+  it("records access for returned memories unless disabled", async () => {
+    const entry = makeEntry({ id: "recalled", text: "recalled fact", importance: 0.8 });
+    const store = createMockStore([makeResult(entry, 0.9)]);
+    const retriever = createRetriever(store, createMockEmbedder() as any, { ...DEFAULT_RETRIEVAL_CONFIG, mode: "vector", rerank: "none" });
+
+    await retriever.retrieve({ query: "test", limit: 5 });
+    await retriever.retrieve({ query: "test", limit: 5, trackAccess: false });
+    assert.deepEqual(store.accessed, [["recalled"]]);
+
+    const untracked = createMockStore([makeResult(entry, 0.9)]);
+    const disabled = createRetriever(untracked, createMockEmbedder() as any, { ...DEFAULT_RETRIEVAL_CONFIG, mode: "vector", rerank: "none", trackAccess: false });
+    await disabled.retrieve({ query: "test", limit: 5 });
+    assert.deepEqual(untracked.accessed, []);
+  });
+
+  it("access boost ranks frequently recalled memories higher when enabled", async () => {
+    const hot = makeEntry({ id: "hot", text: "frequently recalled item", accessCount: 20 });
+    const cold = makeEntry({ id: "cold", text: "never recalled item here" });
+    const config = { ...DEFAULT_RETRIEVAL_CONFIG, mode: "vector" as const, rerank: "none" as const, recencyWeight: 0, hardMinScore: 0.1, minScore: 0.1 };
+
+    const disabled = createRetriever(createMockStore([makeResult(cold, 0.62), makeResult(hot, 0.6)]), createMockEmbedder() as any, config);
+    assert.equal((await disabled.retrieve({ query: "test", limit: 5 }))[0].entry.id, "cold");
+
+    const enabled = createRetriever(createMockStore([makeResult(cold, 0.62), makeResult(hot, 0.6)]), createMockEmbedder() as any, { ...config, accessWeight: 0.1 });
+    assert.equal((await enabled.retrieve({ query: "test", limit: 5 }))[0].entry.id, "hot");
+  });
+
+  it("time decay measures age from the last recall", async () => {
+    const yearAgo = Date.now() - 365 * 86400_000;
+    const used = makeEntry({ id: "used", text: "old but recently used", timestamp: yearAgo, lastAccessedAt: Date.now() });
+    const unused = makeEntry({ id: "unused", text: "old and never used item", timestamp: yearAgo });
+    const retriever = createRetriever(createMockStore([makeResult(unused, 0.7), makeResult(used, 0.7)]), createMockEmbedder() as any, {
+      ...DEFAULT_RETRIEVAL_CONFIG, mode: "vector", rerank: "none", recencyWeight: 0, hardMinScore: 0.1, minScore: 0.1,
+    });
+
+    const results = await retriever.retrieve({ query: "test", limit: 5 });
+    const usedScore = results.find(r => r.entry.id === "used")!.score;
+    const unusedScore = results.find(r => r.entry.id === "unused")!.score;
+    assert.ok(usedScore > unusedScore * 1.5, `Expected recently used memory to avoid decay (${usedScore} vs ${unusedScore})`);
+  });
+});
+
+// ============================================================================
+// 16. Schema Migrations
+// ============================================================================
+
+import { SCHEMA_MIGRATIONS, LATEST_SCHEMA_VERSION } from "../src/schema.js";
+
+describe("SCHEMA_MIGRATIONS", () => {
+  it("versions start at 1 and increase by one", () => {
+    SCHEMA_MIGRATIONS.forEach((migration, i) => {
+      assert.equal(migration.version, i + 1);
+    });
+  });
+
+  it("LATEST_SCHEMA_VERSION matches the last migration", () => {
+    assert.equal(LATEST_SCHEMA_VERSION, SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version);
+  });
+
+  it("every migration has a description", () => {
+    for (const migration of SCHEMA_MIGRATIONS) {
+      assert.ok(migration.description.length > 0, `Migration ${migration.version} needs a description`);
+    }
+  });
+});
+
+// ============================================================================
+// 17. Vector Index Lifecycle
+// ============================================================================
+
+import { decideVectorIndexAction, DEFAULT_VECTOR_INDEX_CONFIG } from "../src/vector-index.js";
+
+describe("decideVectorIndexAction()", () => {
+  const config = { ...DEFAULT_VECTOR_INDEX_CONFIG, minRows: 1000, retrainGrowth: 0.5 };
+  const status = (overrides: Record<string, unknown>) => ({
+    exists: false, rowCount: 0, indexedRows: 0, unindexedRows: 0, ...overrides,
+  });
+
+  it("does nothing below the threshold", () => {
+    assert.equal(decideVectorIndexAction(status({ rowCount: 999 }), config).action, "none");
+  });
+
+  it("builds once the threshold is reached", () => {
+    assert.equal(decideVectorIndexAction(status({ rowCount: 1000 }), config).action, "build");
+  });
+
+  it("never builds below the PQ training minimum", () => {
+    assert.equal(decideVectorIndexAction(status({ rowCount: 200 }), { ...config, minRows: 10 }).action, "none");
+  });
+
+  it("retrains after the configured growth", () => {
+    assert.equal(decideVectorIndexAction(status({ exists: true, rowCount: 1400, builtAtRows: 1000 }), config).action, "none");
+    assert.equal(decideVectorIndexAction(status({ exists: true, rowCount: 1500, builtAtRows: 1000 }), config).action, "retrain");
+  });
+
+  it("leaves indexes it did not build alone", () => {
+    assert.equal(decideVectorIndexAction(status({ exists: true, rowCount: 50_000 }), config).action, "none");
+  });
+});
+
+// ============================================================================
+// 18. ID Resolution
+// ============================================================================
+
+import { AmbiguousIdError, assertIdOrPrefix, idMatchCondition } from "../src/id-resolver.js";
+import { selectMemoryRevisions, type MemoryRevision } from "../src/history.js";
+
+describe("ID resolution helpers", () => {
+  it("accepts full IDs and 8+ char hex prefixes only", () => {
+    assert.doesNotThrow(() => assertIdOrPrefix("0f8e2c1a-1234-4abc-9def-0123456789ab"));
+    assert.doesNotThrow(() => assertIdOrPrefix("0f8e2c1a"));
+    assert.doesNotThrow(() => assertIdOrPrefix("0f8e2c1a-12"));
+    assert.throws(() => assertIdOrPrefix("0f8e2c1"), /Invalid memory ID format/);
+    assert.throws(() => assertIdOrPrefix("0f8e2c1a%"), /Invalid memory ID format/);
+    assert.throws(() => assertIdOrPrefix("0f8e2c1a' OR 1=1"), /Invalid memory ID format/);
+  });
+
+  it("uses equality for full IDs and LIKE for prefixes", () => {
+    assert.equal(idMatchCondition("0f8e2c1a-1234-4abc-9def-0123456789ab"), "id = '0f8e2c1a-1234-4abc-9def-0123456789ab'");
+    assert.equal(idMatchCondition("0f8e2c1a", "memoryId"), "memoryId LIKE '0f8e2c1a%'");
+  });
+
+  it("lists matches with previews in the ambiguity message", () => {
+    const err = new AmbiguousIdError("0f8e2c1a", [
+      { id: "0f8e2c1a-1", scope: "global", preview: "First" },
+      { id: "0f8e2c1a-2", scope: "global", preview: "Second" },
+    ]);
+    assert.match(err.message, /matches 2 memories/);
+    assert.match(err.message, /0f8e2c1a-1 \[global\] First/);
+    assert.match(err.message, /0f8e2c1a-2 \[global\] Second/);
+  });
+
+  it("selects history revisions among accessible scopes only", () => {
+    const revision = (memoryId: string, revision: number, scope: string, text: string): MemoryRevision => ({
+      id: `${memoryId}-${revision}`, memoryId, revision, action: revision === 1 ? "create" : "update", text, vector: [],
+      category: "fact", scope, importance: 0.7, timestamp: 0, metadata: "{}", tags: [], changedAt: revision,
+    });
+    const runbook = revision("abcdef12-1", 1, "global", "Global runbook");
+    const secret = revision("abcdef12-2", 1, "agent:b", "Secret of agent b");
+    const moved = revision("abcdef12-3", 1, "agent:b", "Moved memory");
+    const movedLater = revision("abcdef12-3", 2, "global", "Moved memory");
+    const revisions = [secret, movedLater, runbook, moved];
+
+    assert.deepEqual(selectMemoryRevisions("abcdef12", revisions, ["agent:b"]), [secret]);
+    assert.throws(() => selectMemoryRevisions("abcdef12", revisions, ["global"]), (err: Error) => {
+      assert.ok(err instanceof AmbiguousIdError);
+      assert.doesNotMatch(err.message, /Secret/);
+      return true;
+    });
+    assert.throws(() => selectMemoryRevisions("abcdef12", revisions, ["agent:c"]), /outside accessible scopes/);
+
+    // A memory belongs to the scope of its latest revision
+    assert.deepEqual(selectMemoryRevisions("abcdef12-3", revisions, ["global"]), [moved, movedLater]);
+    assert.throws(() => selectMemoryRevisions("abcdef12-3", revisions, ["agent:b"]), /outside accessible scopes/);
+    assert.deepEqual(selectMemoryRevisions("99999999", [], ["global"]), []);
+  });
+});
+
+// ============================================================================
+// 19. Batch Store
+// ============================================================================
+
+import { storeDeduplicated } from "../src/batch-store.js";
+
+describe("storeDeduplicated()", () => {
+  const unit = (i: number) => Array.from({ length: 4 }, (_, d) => (d === i ? 1 : 0));
+
+  function createBatchMocks(vectorsByText: Record<string, number[]>, existing: Record<string, { id: string; score: number }> = {}) {
+    const embedCalls: string[][] = [];
+    const written: any[][] = [];
+    const embedder = {
+      embedBatchPassage: async (texts: string[]) => {
+        embedCalls.push(texts);
+        return texts.map(t => vectorsByText[t] ?? []);
+      },
+    };
+    const store = {
+      vectorSearch: async (vector: number[]) => {
+        const hit = Object.entries(vectorsByText).find(([, v]) => v === vector);
+        const match = hit ? existing[hit[0]] : undefined;
+        return match ? [{ entry: { id: match.id }, score: match.score }] : [];
+      },
+      storeBatch: async (entries: any[]) => {
+        written.push(entries);
+        return entries.map((e, i) => ({ ...e, id: `new-${written.length}-${i}` }));
+      },
+    };
+    return { embedder: embedder as any, store: store as any, embedCalls, written };
+  }
+
+  const item = (text: string) => ({ text, category: "fact" as const, scope: "global", importance: 0.7 });
+
+  it("embeds and writes each chunk in one call", async () => {
+    const mocks = createBatchMocks({ a: unit(0), b: unit(1), c: unit(2) });
+    const result = await storeDeduplicated(mocks.store, mocks.embedder, [item("a"), item("b"), item("c")], { chunkSize: 2 });
+
+    assert.deepEqual(mocks.embedCalls, [["a", "b"], ["c"]]);
+    assert.equal(mocks.written.length, 2);
+    assert.deepEqual(result.stored.map(s => s.index), [0, 1, 2]);
+  });
+
+  it("drops duplicates of existing memories and of earlier items", async () => {
+    const shared = unit(1);
+    const mocks = createBatchMocks({ a: unit(0), b: shared, "b again": shared }, { a: { id: "old", score: 0.99 } });
+    const result = await storeDeduplicated(mocks.store, mocks.embedder, [item("a"), item("b"), item("b again")]);
+
+    assert.deepEqual(result.stored.map(s => s.entry.text), ["b"]);
+    assert.deepEqual(result.duplicates.map(d => [d.index, d.existingId, d.duplicateOfIndex]), [[0, "old", undefined], [2, undefined, 1]]);
+  });
+
+  it("reports items without an embedding as skipped", async () => {
+    const mocks = createBatchMocks({ a: unit(0) });
+    const result = await storeDeduplicated(mocks.store, mocks.embedder, [item("  "), item("a")]);
+    assert.deepEqual(result.skipped, [0]);
+    assert.equal(result.stored.length, 1);
+  });
+
+  it("skips the items of a failed chunk and continues when onChunkError is set", async () => {
+    const mocks = createBatchMocks({ a: unit(0), b: unit(1), c: unit(2), d: unit(3) });
+    const embed = mocks.embedder.embedBatchPassage;
+    mocks.embedder.embedBatchPassage = async (texts: string[]) => {
+      if (texts.includes("c")) throw new Error("rate limited");
+      return embed(texts);
+    };
+    const items = [item("a"), item("b"), item("c"), item("d"), item("a")];
+
+    await assert.rejects(storeDeduplicated(mocks.store, mocks.embedder, items, { chunkSize: 2 }), /rate limited/);
+
+    const errors: Array<[string, number[]]> = [];
+    const result = await storeDeduplicated(mocks.store, mocks.embedder, items, {
+      chunkSize: 2,
+      onChunkError: (error, indices) => errors.push([(error as Error).message, indices]),
+    });
+    assert.deepEqual(errors, [["rate limited", [2, 3]]]);
+    assert.deepEqual(result.skipped, [2, 3]);
+    assert.deepEqual(result.stored.map(s => s.index), [0, 1, 4]);
+  });
+});
+
+// ============================================================================
+// 20. Write Coordination
+// ============================================================================
+
+import { mkdtemp, readFile as readLockFile, rm, writeFile as writeLockFile } from "node:fs/promises";
+import { tmpdir, hostname as lockHostname } from "node:os";
+import { join as joinPath } from "node:path";
+import { WRITE_LOCK_FILE, WriteLock, WriteLockTimeoutError, isCommitConflict, isStaleHolder, withCommitRetry } from "../src/write-lock.js";
+
+describe("withCommitRetry()", () => {
+  it("retries commit conflicts and returns the eventual result", async () => {
+    let attempts = 0;
+    const result = await withCommitRetry(async () => {
+      attempts++;
+      if (attempts < 3) throw new Error("Retryable commit conflict for version 7");
+      return "ok";
+    }, { baseDelayMs: 1 });
+    assert.equal(result, "ok");
+    assert.equal(attempts, 3);
+  });
+
+  it("throws other errors and exhausted conflicts", async () => {
+    let attempts = 0;
+    await assert.rejects(withCommitRetry(async () => {
+      attempts++;
+      throw new Error("disk full");
+    }, { baseDelayMs: 1 }), /disk full/);
+    assert.equal(attempts, 1);
+
+    await assert.rejects(withCommitRetry(async () => {
+      throw new Error("Commit conflict for version 3");
+    }, { retries: 2, baseDelayMs: 1 }), /Commit conflict/);
+    assert.equal(isCommitConflict(new Error("Too many concurrent writers")), true);
+  });
+});
+
+describe("WriteLock", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(joinPath(tmpdir(), "write-lock-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const lease = (overrides: Record<string, unknown> = {}) => ({
+    pid: 999_999_999,
+    host: "other-host",
+    token: "t",
+    acquiredAt: Date.now(),
+    expiresAt: Date.now() + 60_000,
+    ...overrides,
+  });
+
+  it("serializes operations in one process and removes the lock file afterwards", async () => {
+    const lock = new WriteLock(dir);
+    const events: string[] = [];
+    const op = (name: string) => lock.run(async () => {
+      events.push(`${name}:start`);
+      assert.equal((await lock.holder())?.pid, process.pid);
+      await new Promise(r => setTimeout(r, 5));
+      events.push(`${name}:end`);
+    });
+
+    await Promise.all([op("a"), op("b")]);
+    assert.deepEqual(events, ["a:start", "a:end", "b:start", "b:end"]);
+    assert.equal(await lock.holder(), null);
+  });
+
+  it("runs nested operations without waiting on itself", async () => {
+    const lock = new WriteLock(dir);
+    const result = await lock.run(() => lock.run(async () => "inner"));
+    assert.equal(result, "inner");
+  });
+
+  it("times out while another process holds a live lease", async () => {
+    await writeLockFile(joinPath(dir, WRITE_LOCK_FILE), JSON.stringify(lease()));
+    const lock = new WriteLock(dir, { enabled: true, timeoutMs: 50, leaseMs: 30_000 });
+    await assert.rejects(lock.run(async () => "never"), WriteLockTimeoutError);
+  });
+
+  it("takes over an expired lease", async () => {
+    await writeLockFile(joinPath(dir, WRITE_LOCK_FILE), JSON.stringify(lease({ expiresAt: Date.now() - 1 })));
+    const lock = new WriteLock(dir, { enabled: true, timeoutMs: 50, leaseMs: 30_000 });
+    assert.equal(await lock.run(async () => JSON.parse(await readLockFile(joinPath(dir, WRITE_LOCK_FILE), "utf8")).pid), process.pid);
+  });
+
+  it("treats a lease from a dead process on this host as stale", () => {
+    assert.equal(isStaleHolder(lease({ host: lockHostname() })), true);
+    assert.equal(isStaleHolder(lease()), false);
+    assert.equal(isStaleHolder(lease({ host: lockHostname(), pid: process.pid })), false);
+  });
+
+  it("parses readOnly and writeLock config with defaults", () => {
+    const defaults = memoryConfigSchema.parse({ embedding: { apiKey: "k" } });
+    assert.equal(defaults.readOnly, false);
+    assert.deepEqual(defaults.writeLock, { enabled: true, timeoutMs: 10_000, leaseMs: 30_000 });
+
+    const custom = memoryConfigSchema.parse({ embedding: { apiKey: "k" }, readOnly: true, writeLock: { timeoutMs: 500 } });
+    assert.equal(custom.readOnly, true);
+    assert.equal(custom.writeLock.timeoutMs, 500);
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, writeLock: { leaseMs: 10 } }), /leaseMs/);
+  });
+
+  it("skips the lock file when disabled or for object-store URIs", async () => {
+    assert.equal(new WriteLock(dir, { enabled: false, timeoutMs: 0, leaseMs: 30_000 }).lockPath, null);
+    assert.equal(new WriteLock("s3://bucket/memories").lockPath, null);
+  });
+});
+
+// ============================================================================
+// 21. Compaction
+// ============================================================================
+
+import { formatBytes, summarizeOptimizeReport, toTableOptimizeStats } from "../src/compaction.js";
+
+describe("Compaction helpers", () => {
+  it("formats byte counts", () => {
+    assert.equal(formatBytes(512), "512 B");
+    assert.equal(formatBytes(1536), "1.5 KB");
+    assert.equal(formatBytes(5 * 1024 * 1024), "5.0 MB");
+  });
+
+  it("summarizes a report across tables", () => {
+    const stats = toTableOptimizeStats("memories", {
+      compaction: { fragmentsRemoved: 12, fragmentsAdded: 1, filesRemoved: 12, filesAdded: 1 },
+      prune: { bytesRemoved: 2048, oldVersionsRemoved: 30 },
+    });
+    const summary = summarizeOptimizeReport({ tables: [stats], bytesReclaimed: 2048, ftsIndex: "optimized", durationMs: 5 });
+    assert.equal(summary, "compacted 12 fragments into 1, pruned 30 versions, reclaimed 2.0 KB, FTS index optimized (5ms)");
+  });
+
+  it("parses compaction config with defaults", () => {
+    const defaults = memoryConfigSchema.parse({ embedding: { apiKey: "k" } });
+    assert.deepEqual(defaults.compaction, { enabled: true, intervalHours: 24, keepVersions: "7d", keepVersionsMs: 7 * 86_400_000 });
+
+    const custom = memoryConfigSchema.parse({ embedding: { apiKey: "k" }, compaction: { keepVersions: "12h", intervalHours: 6 } });
+    assert.equal(custom.compaction.keepVersionsMs, 12 * 3_600_000);
+    assert.equal(custom.compaction.intervalHours, 6);
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, compaction: { keepVersions: "soon" } }), /keepVersions/);
+  });
+});
+
+// ============================================================================
+// 22. Snapshots
+// ============================================================================
+
+import { diffSnapshotRows, parseSnapshotRef } from "../src/snapshots.js";
+
+describe("Snapshot helpers", () => {
+  it("parses versions and tag names", () => {
+    assert.equal(parseSnapshotRef("12"), 12);
+    assert.equal(parseSnapshotRef("before-import"), "before-import");
+    assert.throws(() => parseSnapshotRef("1st-run"), /Invalid snapshot tag/);
+    assert.throws(() => parseSnapshotRef("bad tag"), /Invalid snapshot tag/);
+  });
+
+  it("diffs live rows by id and content", () => {
+    const row = (id: string, text: string, tags: string[] = []) => ({ id, text, category: "fact", scope: "global", importance: 0.5, metadata: "{}", tags, expiresAt: null, updatedAt: null });
+    const diff = diffSnapshotRows(
+      [row("a", "same"), row("b", "old text"), row("c", "gone"), row("d", "tagged", ["x"])],
+      [row("a", "same"), row("b", "new text"), row("e", "new"), row("d", "tagged", ["x", "y"])],
+      { from: 3, to: 7 },
+    );
+    assert.deepEqual(diff, { from: 3, to: 7, added: ["e"], removed: ["c"], changed: ["b", "d"] });
+  });
+});
+
+// ============================================================================
+// 23. Encryption
+// ============================================================================
+
+import { FieldCipher, createFieldCipher, encryptionKeyId, isEncrypted, parseEncryptionKey } from "../src/encryption.js";
+
+describe("FieldCipher", () => {
+  const keyA = Buffer.alloc(32, 1);
+  const keyB = Buffer.alloc(32, 2);
+
+  it("round-trips text and binds it to the memory id and field", () => {
+    const cipher = new FieldCipher(keyA);
+    const sealed = cipher.encrypt("Deploy runbook lives in Notion", "mem-1", "text");
+    assert.ok(isEncrypted(sealed));
+    assert.ok(cipher.isCurrent(sealed));
+    assert.ok(!sealed.includes("Notion"));
+    assert.notEqual(cipher.encrypt("Deploy runbook lives in Notion", "mem-1", "text"), sealed);
+    assert.equal(cipher.decrypt(sealed, "mem-1", "text"), "Deploy runbook lives in Notion");
+
+    assert.throws(() => cipher.decrypt(sealed, "mem-2", "text"), /authentication failed/);
+    assert.throws(() => cipher.decrypt(sealed, "mem-1", "metadata"), /authentication failed/);
+  });
+
+  it("detects tampering and passes plaintext through", () => {
+    const cipher = new FieldCipher(keyA);
+    const sealed = cipher.encrypt("secret", "mem-1", "text");
+    const tampered = sealed.slice(0, -2) + (sealed.endsWith("A") ? "BB" : "AA");
+    assert.throws(() => cipher.decrypt(tampered, "mem-1", "text"), /authentication failed/);
+    assert.equal(cipher.decrypt("written before encryption", "mem-1", "text"), "written before encryption");
+  });
+
+  it("decrypts with a previous key and reports unknown keys", () => {
+    const old = new FieldCipher(keyA);
+    const sealed = old.encrypt("rotate me", "mem-1", "text");
+
+    const rotated = new FieldCipher(keyB, [keyA]);
+    assert.deepEqual(rotated.previousKeyIds, [encryptionKeyId(keyA)]);
+    assert.equal(rotated.decrypt(sealed, "mem-1", "text"), "rotate me");
+    assert.ok(!rotated.isCurrent(sealed));
+
+    assert.throws(() => new FieldCipher(keyB).decrypt(sealed, "mem-1", "text"), new RegExp(`key ${encryptionKeyId(keyA)} is not configured`));
+  });
+
+  it("seals and opens the text and metadata of a row", () => {
+    const cipher = new FieldCipher(keyA);
+    const row = { memoryId: "mem-1", text: "hello", metadata: "{\"source\":\"cli\"}", scope: "global" };
+    const sealed = cipher.sealFields(row, "memoryId");
+    assert.ok(isEncrypted(sealed.text) && isEncrypted(sealed.metadata));
+    assert.equal(sealed.scope, "global");
+    assert.deepEqual(cipher.openFields(sealed, "memoryId"), row);
+  });
+
+  it("parses hex and base64 keys", () => {
+    assert.deepEqual(parseEncryptionKey("01".repeat(32)), keyA);
+    assert.deepEqual(parseEncryptionKey(keyA.toString("base64")), keyA);
+    assert.throws(() => parseEncryptionKey("too-short"), /must be 32 bytes/);
+  });
+
+  it("parses encryption config with defaults", () => {
+    const defaults = memoryConfigSchema.parse({ embedding: { apiKey: "k" } });
+    assert.deepEqual(defaults.encryption, {
+      enabled: false,
+      keyEnv: "OPENCLAW_MEMORY_ENCRYPTION_KEY",
+      keyFile: undefined,
+      previousKeyEnv: "OPENCLAW_MEMORY_ENCRYPTION_KEY_PREVIOUS",
+      previousKeyFile: undefined,
+      plaintextFts: false,
+    });
+
+    const custom = memoryConfigSchema.parse({ embedding: { apiKey: "k" }, encryption: { enabled: true, keyFile: "/etc/memory.key", plaintextFts: true } });
+    assert.equal(custom.encryption.enabled, true);
+    assert.equal(custom.encryption.keyFile, "/etc/memory.key");
+    assert.equal(custom.encryption.plaintextFts, true);
+  });
+
+  it("loads keys from the configured env vars", () => {
+    const config = { enabled: true, keyEnv: "TEST_MEMORY_KEY", previousKeyEnv: "TEST_MEMORY_KEY_PREVIOUS", plaintextFts: false };
+    assert.equal(createFieldCipher({ ...config, enabled: false }), null);
+
+    delete process.env.TEST_MEMORY_KEY;
+    assert.throws(() => createFieldCipher(config), /no key was found \(set TEST_MEMORY_KEY/);
+
+    process.env.TEST_MEMORY_KEY = keyB.toString("hex");
+    process.env.TEST_MEMORY_KEY_PREVIOUS = keyA.toString("base64");
+    try {
+      const cipher = createFieldCipher(config)!;
+      assert.equal(cipher.keyId, encryptionKeyId(keyB));
+      assert.deepEqual(cipher.previousKeyIds, [encryptionKeyId(keyA)]);
+    } finally {
+      delete process.env.TEST_MEMORY_KEY;
+      delete process.env.TEST_MEMORY_KEY_PREVIOUS;
+    }
+  });
+});
+
+// ============================================================================
+// 24. In-Memory Store
+// ============================================================================
+
+import { InMemoryStore, createInMemoryStore } from "../src/in-memory-store.js";
+
+describe("InMemoryStore", () => {
+  /** Bag-of-words vectors, so texts sharing words are close */
+  const VOCAB = ["grafana", "dashboard", "postgres", "backup", "nightly", "deploy", "friday", "coffee"];
+  function embedText(text: string): number[] {
+    const words = text.toLowerCase().split(/\W+/);
+    return VOCAB.map(word => (words.includes(word) ? 1 : 0) + 0.01);
+  }
+
+  function entry(text: string, overrides: Partial<MemoryEntry> = {}): Omit<MemoryEntry, "id" | "timestamp"> {
+    return { text, vector: embedText(text), category: "fact", scope: "global", importance: 0.7, ...overrides };
+  }
+
+  it("stores, searches by cosine and filters by scope and tags", async () => {
+    const store = createInMemoryStore({ vectorDim: VOCAB.length });
+    const grafana = await store.store(entry("Grafana dashboard for postgres", { tags: ["Ops"] }));
+    await store.store(entry("Coffee on friday", { scope: "agent:a" }));
+
+    const [top] = await store.vectorSearch(embedText("grafana dashboard"), 5, 0);
+    assert.equal(top.entry.id, grafana.id);
+    assert.deepEqual(top.entry.tags, ["ops"]);
+    assert.ok(top.score > 0.5 && top.score <= 1);
+
+    assert.equal((await store.vectorSearch(embedText("coffee"), 5, 0, ["global"])).length, 1);
+    assert.equal((await store.vectorSearch(embedText("coffee"), 5, 0, undefined, { tags: ["ops"] })).length, 1);
+    await assert.rejects(store.store(entry("short", { vector: [1, 2] })), /dimension mismatch/);
+  });
+
+  it("ranks BM25 matches by term frequency and rarity", async () => {
+    const store = new InMemoryStore();
+    const backup = await store.store(entry("Postgres backup runs nightly; backup logs go to S3"));
+    await store.store(entry("Postgres is the primary database"));
+    await store.store(entry("Deploys are frozen on friday"));
+
+    const results = await store.bm25Search("nightly backup", 5);
+    assert.equal(results.length, 1);
+    assert.equal(results[0].entry.id, backup.id);
+    assert.ok(results[0].score > 0.5);
+    assert.deepEqual(await store.bm25Search("kubernetes", 5), []);
+  });
+
+  it("pages with cursors in list order", async () => {
+    const store = new InMemoryStore();
+    for (let i = 0; i < 5; i++) {
+      await store.importEntry({ ...entry(`memory ${i}`), id: `0000000${i}-0000-4000-8000-000000000000`, timestamp: 1000 + i });
+    }
+
+    const first = await store.listCursor({ limit: 2 });
+    assert.deepEqual(first.entries.map(e => e.text), ["memory 4", "memory 3"]);
+    const second = await store.listCursor({ limit: 10, cursor: first.nextCursor });
+    assert.deepEqual(second.entries.map(e => e.text), ["memory 2", "memory 1", "memory 0"]);
+    assert.equal(second.nextCursor, null);
+
+    const all: string[] = [];
+    for await (const m of store.iterate({ batchSize: 2 })) all.push(m.text);
+    assert.equal(all.length, 5);
+  });
+
+  it("soft deletes, restores, updates and rolls back", async () => {
+    const store = new InMemoryStore();
+    const m = await store.store(entry("Deploy on friday"));
+
+    const updated = await store.update(m.id.slice(0, 8), { text: "Never deploy on friday", tags: ["Policy"] });
+    assert.equal(updated?.text, "Never deploy on friday");
+    assert.equal((await store.bumpImportance(m.id, 0.5))?.importance, 1);
+
+    assert.equal(await store.delete(m.id), true);
+    assert.equal(await store.hasId(m.id), false);
+    assert.equal((await store.listTrash()).length, 1);
+    assert.equal((await store.restore(m.id))?.id, m.id);
+
+    const history = await store.getHistory(m.id);
+    assert.deepEqual(history.map(r => r.action), ["create", "update", "update", "delete", "restore"]);
+    const rolledBack = await store.rollback(m.id, 1);
+    assert.equal(rolledBack.text, "Deploy on friday");
+
+    store.recordAccess([m.id, m.id]);
+    const stats = await store.stats();
+    assert.equal(stats.totalCount, 1);
+    assert.equal(stats.hotMemories[0].accessCount, 2);
+
+    assert.equal(await store.deleteMany([m.id]), 1);
+    assert.equal(await store.purgeTrash(), 1);
+    assert.equal((await store.vectorIndexStatus()).rowCount, 0);
+  });
+
+  it("resolves history prefixes among accessible scopes only", async () => {
+    const store = new InMemoryStore();
+    await store.importEntry({ ...entry("Global runbook"), id: "abcdef12-0000-4000-8000-000000000001", timestamp: 1000 });
+    await store.importEntry({ ...entry("Secret of agent b", { scope: "agent:b" }), id: "abcdef12-0000-4000-8000-000000000002", timestamp: 1001 });
+
+    await assert.rejects(store.getHistory("abcdef12"), AmbiguousIdError);
+    const history = await store.getHistory("abcdef12", ["global"]);
+    assert.deepEqual(history.map(r => r.text), ["Global runbook"]);
+
+    await assert.rejects(store.getHistory("abcdef12", ["agent:c"]), (err: Error) => {
+      assert.ok(!(err instanceof AmbiguousIdError));
+      assert.doesNotMatch(err.message, /Secret|runbook/);
+      return /outside accessible scopes/.test(err.message);
+    });
+    await assert.rejects(store.getHistory("abcdef12-0000-4000-8000-000000000002", ["global"]), /outside accessible scopes/);
+    assert.deepEqual(await store.getHistory("99999999", ["global"]), []);
+  });
+
+  it("runs the hybrid retrieval pipeline without LanceDB", async () => {
+    const store = new InMemoryStore();
+    const embedder = {
+      dimensions: VOCAB.length,
+      model: "bag-of-words",
+      embed: async (text: string) => embedText(text),
+      embedQuery: async (text: string) => embedText(text),
+      embedPassage: async (text: string) => embedText(text),
+      embedBatch: async (texts: string[]) => texts.map(embedText),
+      embedBatchQuery: async (texts: string[]) => texts.map(embedText),
+      embedBatchPassage: async (texts: string[]) => texts.map(embedText),
+      test: async () => ({ success: true, dimensions: VOCAB.length }),
+      get cacheStats() { return { size: 0, hits: 0, misses: 0, hitRate: "N/A" }; },
+    };
+
+    const { stored } = await storeDeduplicated(store, embedder, [
+      { text: "The Grafana dashboard shows postgres replication lag", category: "fact", scope: "global", importance: 0.8 },
+      { text: "The Grafana dashboard shows postgres replication lag", category: "fact", scope: "global", importance: 0.8 },
+      { text: "Team coffee is on friday mornings", category: "other", scope: "global", importance: 0.5 },
+    ]);
+    assert.equal(stored.length, 2);
+
+    const retriever = createRetriever(store, embedder, { mode: "hybrid", rerank: "none", minScore: 0, hardMinScore: 0, filterNoise: false });
+    const results = await retriever.retrieve({ query: "grafana dashboard", limit: 2 });
+    assert.equal(results[0].entry.text, "The Grafana dashboard shows postgres replication lag");
+    assert.ok(results[0].sources.vector && results[0].sources.bm25);
+  });
+});
+
+// ============================================================================
+// 25. Metadata Filters
+// ============================================================================
+
+import {
+  matchesMetadataFilter,
+  parseMetadataFilter,
+  promotedEqualities,
+  promotedMetadataValues,
+} from "../src/metadata-filter.js";
+
+describe("Metadata filters", () => {
+  const summary = JSON.stringify({ type: "session-summary", sessionKey: "main", sessionId: "s-1", date: "2026-03-01", turns: 12, nested: { ok: true } });
+
+  it("parses comparisons, IN lists and boolean combinations", () => {
+    assert.deepEqual(parseMetadataFilter('metadata.type = "session-summary"'), {
+      kind: "compare", path: ["type"], op: "=", value: "session-summary",
+    });
+    assert.deepEqual(parseMetadataFilter("metadata.sessionId not in ('a', 'b')"), {
+      kind: "in", path: ["sessionId"], negated: true, values: ["a", "b"],
+    });
+    const parsed = parseMetadataFilter('(metadata.a = 1 OR metadata.b IS NOT NULL) AND metadata.c <> -2.5');
+    assert.equal(parsed.kind, "and");
+    assert.deepEqual(parseMetadataFilter("metadata.x.y = true"), { kind: "compare", path: ["x", "y"], op: "=", value: true });
+  });
+
+  it("rejects malformed filters with a position", () => {
+    assert.throws(() => parseMetadataFilter('type = "x"'), /must start with "metadata\."/);
+    assert.throws(() => parseMetadataFilter('metadata.type = "x'), /position 17: unterminated string/);
+    assert.throws(() => parseMetadataFilter("metadata.type ~ 1"), /unexpected character "~"/);
+    assert.throws(() => parseMetadataFilter('metadata.type = "x" metadata.a = 1'), /expected AND, OR or end/);
+    assert.throws(() => parseMetadataFilter("metadata.type IN ()"), /expected a string, number/);
+    assert.throws(() => parseMetadataFilter("  "), /empty/);
+  });
+
+  it("evaluates against metadata JSON", () => {
+    const matches = (filter: string, metadata = summary) => matchesMetadataFilter(parseMetadataFilter(filter), metadata);
+    assert.equal(matches('metadata.type = "session-summary"'), true);
+    assert.equal(matches('metadata.sessionId IN ("s-0", "s-1")'), true);
+    assert.equal(matches('metadata.sessionId NOT IN ("s-1")'), false);
+    assert.equal(matches("metadata.turns >= 10 AND metadata.turns < 13"), true);
+    assert.equal(matches('metadata.turns = "12"'), false, "comparisons are strict");
+    assert.equal(matches('metadata.date > "2026-02-28"'), true);
+    assert.equal(matches("metadata.nested.ok = true"), true);
+    assert.equal(matches("metadata.missing IS NULL AND metadata.missing != 1"), true);
+    assert.equal(matches("metadata.missing = null"), true);
+    assert.equal(matches('metadata.type = "x"', "not json"), false);
+  });
+
+  it("derives promoted column values and pushdown conditions", () => {
+    assert.deepEqual(promotedMetadataValues(summary), { metadataType: "session-summary", metadataSessionId: "s-1" });
+    assert.deepEqual(promotedMetadataValues('{"type": 3}'), { metadataType: null, metadataSessionId: null });
+
+    assert.deepEqual(
+      promotedEqualities(parseMetadataFilter('metadata.type = "a" AND metadata.sessionId IN ("x", "y") AND metadata.date > "2026"')),
+      [{ column: "metadataType", values: ["a"] }, { column: "metadataSessionId", values: ["x", "y"] }],
+    );
+    // Only conditions every match must satisfy can be pushed down
+    assert.deepEqual(promotedEqualities(parseMetadataFilter('metadata.type = "a" OR metadata.date > "2026"')), []);
+    assert.deepEqual(promotedEqualities(parseMetadataFilter('metadata.type != "a"')), []);
+    assert.deepEqual(promotedEqualities(parseMetadataFilter("metadata.type = 1")), []);
+    assert.deepEqual(promotedEqualities(parseMetadataFilter('metadata.constructor = "a"')), []);
+  });
+
+  it("filters InMemoryStore search, list, stats and bulk delete", async () => {
+    const store = new InMemoryStore();
+    const vector = [1, 0, 0];
+    const base = { vector, category: "fact" as const, scope: "global", importance: 0.7 };
+    await store.store({ ...base, text: "Summary of session one", metadata: summary });
+    await store.store({ ...base, text: "Summary of session two", metadata: JSON.stringify({ type: "session-summary", sessionId: "s-2" }) });
+    await store.store({ ...base, text: "Migrated session note", metadata: JSON.stringify({ migratedFrom: "memory-lancedb" }) });
+
+    const where = parseMetadataFilter('metadata.type = "session-summary" AND metadata.sessionId = "s-2"');
+    assert.deepEqual((await store.vectorSearch(vector, 5, 0, undefined, { where })).map(r => r.entry.text), ["Summary of session two"]);
+    assert.deepEqual((await store.bm25Search("session", 5, undefined, { where })).map(r => r.entry.text), ["Summary of session two"]);
+
+    const migrated = { where: parseMetadataFilter("metadata.migratedFrom IS NOT NULL") };
+    assert.deepEqual((await store.listCursor({ filter: migrated })).entries.map(e => e.text), ["Migrated session note"]);
+    assert.equal((await store.stats(undefined, { where: parseMetadataFilter('metadata.type = "session-summary"') })).totalCount, 2);
+
+    assert.equal(await store.bulkDelete([], undefined, migrated), 1);
+    assert.equal((await store.list()).length, 2);
+  });
+});
+
+// ============================================================================
+// 26. Date-Range Filters
+// ============================================================================
+
+describe("Date-range filters", () => {
+  const DAY = 86_400_000;
+  const now = Date.now();
+  const vector = [1, 0, 0];
+
+  async function seed(): Promise<InMemoryStore> {
+    const store = new InMemoryStore();
+    const base = { vector, category: "decision" as const, scope: "global", importance: 0.7 };
+    await store.importEntry({ ...base, id: "7a000000-0000-4000-8000-000000000001", text: "Sprint 1 decision: adopt Postgres", timestamp: now - 30 * DAY });
+    await store.importEntry({ ...base, id: "7a000000-0000-4000-8000-000000000002", text: "Sprint 2 decision: move Postgres backups to S3", timestamp: now - 10 * DAY });
+    await store.importEntry({ ...base, id: "7a000000-0000-4000-8000-000000000003", text: "Sprint 3 decision: freeze Postgres upgrades", timestamp: now - 1 * DAY });
+    return store;
+  }
+
+  it("bounds search, list and bulk delete to [since, until)", async () => {
+    const store = await seed();
+    const lastSprint = { since: now - 14 * DAY, until: now - 7 * DAY };
+
+    assert.deepEqual((await store.vectorSearch(vector, 5, 0, undefined, lastSprint)).map(r => r.entry.text), ["Sprint 2 decision: move Postgres backups to S3"]);
+    assert.deepEqual((await store.bm25Search("decision", 5, undefined, lastSprint)).map(r => r.entry.text), ["Sprint 2 decision: move Postgres backups to S3"]);
+    assert.equal((await store.list(undefined, undefined, 10, 0, { since: now - 10 * DAY })).length, 2, "since is inclusive");
+    assert.equal((await store.list(undefined, undefined, 10, 0, { until: now - 10 * DAY })).length, 1, "until is exclusive");
+
+    assert.equal(await store.bulkDelete(["global"], undefined, { until: now - 7 * DAY }), 2);
+    assert.equal((await store.list()).length, 1);
+  });
+
+  it("passes since/until from the retrieval context to the store", async () => {
+    const store = await seed();
+    const embedder = {
+      dimensions: 3,
+      model: "constant",
+      embed: async () => vector,
+      embedQuery: async () => vector,
+      embedPassage: async () => vector,
+      embedBatch: async (texts: string[]) => texts.map(() => vector),
+      embedBatchQuery: async (texts: string[]) => texts.map(() => vector),
+      embedBatchPassage: async (texts: string[]) => texts.map(() => vector),
+      test: async () => ({ success: true, dimensions: 3 }),
+      get cacheStats() { return { size: 0, hits: 0, misses: 0, hitRate: "N/A" }; },
+    };
+    const retriever = createRetriever(store, embedder, { mode: "hybrid", rerank: "none", minScore: 0, hardMinScore: 0, filterNoise: false });
+
+    const results = await retriever.retrieve({ query: "postgres decision", limit: 5, since: now - 14 * DAY, until: now - 7 * DAY });
+    assert.deepEqual(results.map(r => r.entry.text), ["Sprint 2 decision: move Postgres backups to S3"]);
+  });
+});
+
+// ============================================================================
+// 27. Health Report
+// ============================================================================
+
+import { ContentStatsCollector, createHealthReportService, formatHealthReport } from "../src/health.js";
+
+describe("Health report", () => {
+  const DAY = 86_400_000;
+  const now = Date.parse("2026-03-15T12:00:00Z");
+
+  it("collects age and importance histograms, text length and vector issues", () => {
+    const collector = new ContentStatsCollector(3, now);
+    collector.add({ text: "abcd", vector: [0.1, 0.2, 0.3], importance: 0.9, timestamp: now - 2 * 3_600_000 });
+    collector.add({ text: "ab", vector: [0, 0, 0], importance: 0.5, timestamp: now - 3 * DAY });
+    collector.add({ text: "abcdef", vector: [0.1, 0.2], importance: 1, timestamp: now - 400 * DAY });
+
+    const content = collector.result();
+    assert.deepEqual(content.ageHistogram.map(b => b.count), [1, 1, 0, 0, 0, 1]);
+    assert.deepEqual(content.importanceHistogram.map(b => b.count), [0, 0, 1, 0, 2]);
+    assert.equal(content.averageTextLength, 4);
+    assert.ok(Math.abs(content.averageImportance! - 0.8) < 1e-9);
+    assert.equal(content.emptyVectors, 1);
+    assert.equal(content.mismatchedVectors, 1);
+    assert.equal(content.oldestTimestamp, now - 400 * DAY);
+    assert.equal(content.newestTimestamp, now - 2 * 3_600_000);
+
+    const empty = new ContentStatsCollector(3, now).result();
+    assert.equal(empty.averageTextLength, null);
+    assert.equal(empty.oldestTimestamp, null);
+  });
+
+  it("reports InMemoryStore content without storage and formats it", async () => {
+    const store = new InMemoryStore({ vectorDim: 2 });
+    await store.store({ text: "Postgres backups run nightly", vector: [1, 0], category: "fact", scope: "global", importance: 0.7 });
+    await store.store({ text: "Zero vector from a failed embedding", vector: [0, 0], category: "other", scope: "agent:a", importance: 0.1 });
+
+    const report = await store.healthReport(["global"]);
+    assert.equal(report.totalCount, 1);
+    assert.equal(report.storage, null);
+    assert.equal(report.content.emptyVectors, 0);
+    assert.equal((await store.healthReport()).content.emptyVectors, 1);
+
+    const lines = formatHealthReport(report);
+    assert.ok(lines.some(line => line.includes("Average text length: 28 chars")));
+    assert.ok(!lines.some(line => line.startsWith("Storage:")));
+  });
+
+  it("writes the report file from the service", async () => {
+    const dir = await mkdtemp(joinPath(tmpdir(), "health-report-"));
+    try {
+      const store = new InMemoryStore();
+      await store.store({ text: "One memory", vector: [1, 0], category: "fact", scope: "global", importance: 0.7 });
+      const path = joinPath(dir, "health.json");
+      const service = createHealthReportService(store, path, { enabled: true, intervalHours: 6 });
+      await service.write();
+
+      const written = JSON.parse(await readLockFile(path, "utf8"));
+      assert.equal(written.totalCount, 1);
+      assert.equal(written.content.ageHistogram[0].count, 1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("parses healthReport config with defaults", () => {
+    const defaults = memoryConfigSchema.parse({ embedding: { apiKey: "k" } });
+    assert.deepEqual(defaults.healthReport, { enabled: false, path: undefined, intervalHours: 6 });
+
+    const custom = memoryConfigSchema.parse({ embedding: { apiKey: "k" }, healthReport: { enabled: true, path: "/tmp/h.json", intervalHours: 1 } });
+    assert.deepEqual(custom.healthReport, { enabled: true, path: "/tmp/h.json", intervalHours: 1 });
+  });
+});
+
+// ============================================================================
+// 28. Chunked Storage
+// ============================================================================
+
+import { DEFAULT_CHUNKING_CONFIG, indexChunks, needsChunking, recallText, splitIntoChunks } from "../src/chunking.js";
+
+describe("Chunked storage", () => {
+  const filler = (n: number) => Array.from({ length: n }, (_, i) => `Postgres replica ${i} streams WAL to the standby.`).join(" ");
+  const longText = `${filler(40)} The team agreed to buy a new coffee machine for the office. ${filler(40)}`;
+
+  /** Two-topic embedding: share of "postgres" vs "coffee" words */
+  const topicVector = (text: string): number[] => {
+    const words = text.toLowerCase().split(/\W+/);
+    return [words.filter(w => w === "postgres").length, words.filter(w => w === "coffee").length * 10, 0.01];
+  };
+  const embedder = {
+    dimensions: 3,
+    model: "topics",
+    embed: async (text: string) => topicVector(text),
+    embedQuery: async (text: string) => topicVector(text),
+    embedPassage: async (text: string) => topicVector(text),
+    embedBatch: async (texts: string[]) => texts.map(topicVector),
+    embedBatchQuery: async (texts: string[]) => texts.map(topicVector),
+    embedBatchPassage: async (texts: string[]) => texts.map(topicVector),
+    test: async () => ({ success: true, dimensions: 3 }),
+    get cacheStats() { return { size: 0, hits: 0, misses: 0, hitRate: "N/A" }; },
+  };
+
+  it("splits at sentence breaks into overlapping chunks that cover the text", () => {
+    const chunks = splitIntoChunks(longText, { chunkChars: 500, overlapChars: 100 });
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(chunk => chunk.length <= 500));
+    assert.ok(chunks.slice(0, -1).every(chunk => chunk.endsWith(".")));
+    for (let i = 1; i < chunks.length; i++) {
+      const tail = chunks[i - 1].slice(-40);
+      assert.ok(chunks[i].includes(tail.slice(tail.indexOf(" ") + 1)), `chunk ${i} should repeat the end of chunk ${i - 1}`);
+    }
+    assert.ok(chunks.some(chunk => chunk.includes("new coffee machine for the office")));
+
+    assert.equal(needsChunking("short", DEFAULT_CHUNKING_CONFIG), false);
+    assert.equal(needsChunking(longText, DEFAULT_CHUNKING_CONFIG), true);
+    assert.equal(needsChunking(longText, { ...DEFAULT_CHUNKING_CONFIG, enabled: false }), false);
+  });
+
+  it("finds a fact inside a long memory through its chunk and returns the parent", async () => {
+    const store = new InMemoryStore({ vectorDim: 3 });
+    const parent = await store.store({ text: longText, vector: topicVector(longText), category: "fact", scope: "global", importance: 0.5 });
+    await store.store({ text: "Postgres runs on port 5432", vector: topicVector("Postgres"), category: "fact", scope: "global", importance: 0.5 });
+    const written = await indexChunks(store, embedder, [parent], { ...DEFAULT_CHUNKING_CONFIG, minChars: 500, chunkChars: 500, overlapChars: 100 });
+    assert.ok(written > 1);
+
+    const [top] = await store.vectorSearch(topicVector("coffee"), 1, 0);
+    assert.equal(top.entry.id, parent.id);
+    assert.ok(top.chunk?.text.includes("coffee machine"));
+    assert.ok(recallText(top).startsWith(top.chunk!.text));
+    assert.equal(recallText(top, { recallText: "parent" }), longText);
+
+    const [keyword] = await store.bm25Search("coffee", 1);
+    assert.equal(keyword.entry.id, parent.id);
+    assert.ok(keyword.chunk);
+
+    // Chunks never show up as memories of their own
+    assert.equal((await store.stats()).totalCount, 2);
+  });
+
+  it("drops chunks when the parent text changes or the parent is deleted", async () => {
+    const store = new InMemoryStore({ vectorDim: 3, softDelete: false });
+    const config = { ...DEFAULT_CHUNKING_CONFIG, minChars: 500, chunkChars: 500, overlapChars: 100 };
+    const parent = await store.store({ text: longText, vector: topicVector(longText), category: "fact", scope: "global", importance: 0.5 });
+    await indexChunks(store, embedder, [parent], config);
+
+    await store.update(parent.id, { importance: 0.9 });
+    assert.ok((await store.vectorSearch(topicVector("coffee"), 1, 0))[0].chunk, "non-text updates keep chunks");
+
+    await store.update(parent.id, { text: filler(40), vector: topicVector(filler(40)) });
+    assert.equal((await store.vectorSearch(topicVector("coffee"), 1, 0))[0].chunk, undefined);
+
+    await indexChunks(store, embedder, [{ id: parent.id, text: longText }], config);
+    await store.delete(parent.id);
+    assert.deepEqual(await store.vectorSearch(topicVector("coffee"), 5, 0), []);
+    await assert.rejects(store.replaceChunks(parent.id, []), /not found/);
+  });
+
+  it("ranks chunk matches by chunk length in the retriever", async () => {
+    const store = new InMemoryStore({ vectorDim: 3 });
+    const parent = await store.store({ text: longText, vector: topicVector(longText), category: "fact", scope: "global", importance: 0.5 });
+    await indexChunks(store, embedder, [parent], { ...DEFAULT_CHUNKING_CONFIG, minChars: 500, chunkChars: 500, overlapChars: 100 });
+    const retriever = createRetriever(store, embedder, { mode: "hybrid", rerank: "none", minScore: 0, hardMinScore: 0, filterNoise: false });
+
+    const [result] = await retriever.retrieve({ query: "coffee", limit: 1 });
+    assert.equal(result.entry.id, parent.id);
+    assert.ok(result.chunk);
+    // Normalized by the ~500 char chunk rather than the ~4 KB memory
+    assert.ok(result.score > 0.5, `score ${result.score}`);
+  });
+
+  it("parses chunking config with defaults and validation", () => {
+    const defaults = memoryConfigSchema.parse({ embedding: { apiKey: "k" } });
+    assert.deepEqual(defaults.chunking, DEFAULT_CHUNKING_CONFIG);
+
+    const custom = memoryConfigSchema.parse({ embedding: { apiKey: "k" }, chunking: { minChars: 4000, chunkChars: 1500, overlapChars: 300, recallText: "parent" } });
+    assert.deepEqual(custom.chunking, { enabled: true, minChars: 4000, chunkChars: 1500, overlapChars: 300, recallText: "parent" });
+
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, chunking: { chunkChars: 100 } }), /chunkChars/);
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, chunking: { overlapChars: 800 } }), /overlapChars/);
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, chunking: { recallText: "both" } }), /recallText/);
+  });
+});
+
+// ============================================================================
+// 29. Embedding Columns
+// ============================================================================
+
+import { embeddingColumnName, formatEmbeddingColumn, parseEmbeddingColumns } from "../src/embedding-columns.js";
+
+describe("Embedding columns", () => {
+  const stubEmbedder = (model: string, vector: number[]) => ({
+    dimensions: vector.length,
+    model,
+    embed: async () => vector,
+    embedQuery: async () => vector,
+    embedPassage: async () => vector,
+    embedBatch: async (texts: string[]) => texts.map(() => vector),
+    embedBatchQuery: async (texts: string[]) => texts.map(() => vector),
+    embedBatchPassage: async (texts: string[]) => texts.map(() => vector),
+    test: async () => ({ success: true, dimensions: vector.length }),
+    get cacheStats() { return { size: 0, hits: 0, misses: 0, hitRate: "N/A" }; },
+  });
+
+  it("names columns after the model and dimensions", () => {
+    assert.equal(embeddingColumnName({ model: "text-embedding-3-large", dimensions: 3072 }), "vector_text_embedding_3_large_3072");
+    assert.equal(embeddingColumnName({ model: "voyage-3-large", dimensions: 1024 }), "vector_voyage_3_large_1024");
+    assert.equal(embeddingColumnName({ model: "org/Custom.Model", dimensions: 8 }), "vector_org_custom_model_8");
+  });
+
+  it("parses the column registry and skips invalid entries", () => {
+    const columns = [{ column: "vector", model: "voyage-3", dimensions: 1024 }];
+    assert.deepEqual(parseEmbeddingColumns(JSON.stringify([...columns, { column: "x" }, null])), columns);
+    assert.deepEqual(parseEmbeddingColumns(undefined), []);
+    assert.deepEqual(parseEmbeddingColumns("{not json"), []);
+    assert.deepEqual(parseEmbeddingColumns("{}"), []);
+  });
+
+  it("formats column fill state and roles", () => {
+    const line = formatEmbeddingColumn({ column: "vector_b_4", model: "b", dimensions: 4, missingRows: 25, totalRows: 100, active: true, serving: false });
+    assert.equal(line, "b (4d) in vector_b_4: 75/100 rows (75%) [active]");
+    const empty = formatEmbeddingColumn({ column: "vector", model: "a", dimensions: 4, missingRows: 0, totalRows: 0, active: false, serving: true });
+    assert.equal(empty, "a (4d) in vector: 0/0 rows (100%) [serving]");
+  });
+
+  it("embeds queries with the model whose column serves searches", async () => {
+    const store = new InMemoryStore({ vectorDim: 3 });
+    await store.store({ text: "Postgres runs on port 5432", vector: [1, 0, 0], category: "fact", scope: "global", importance: 0.5 });
+    let serving = { model: "old", dimensions: 3 };
+    const models: Array<string | undefined> = [];
+    const tracked = Object.assign(Object.create(store), {
+      servingEmbedding: async () => serving,
+      vectorSearch: (vector: number[], ...rest: any[]) => {
+        models.push(rest[4]?.model);
+        return store.vectorSearch(vector, ...rest as [number, number]);
+      },
+    });
+    const retriever = createRetriever(tracked, stubEmbedder("new", [0, 1, 0]), { mode: "vector", rerank: "none", minScore: 0, hardMinScore: 0, filterNoise: false }, undefined, stubEmbedder("old", [1, 0, 0]));
+
+    const [before] = await retriever.retrieve({ query: "postgres port", limit: 1 });
+    assert.ok(before.score > 0.5, `old model query should match, got ${before.score}`);
+    serving = { model: "new", dimensions: 3 };
+    await retriever.retrieve({ query: "postgres port", limit: 1 });
+    assert.deepEqual(models, ["old", "new"]);
+  });
+
+  it("parses the previous embedding model and backfill settings", () => {
+    const defaults = memoryConfigSchema.parse({ embedding: { apiKey: "k" } });
+    assert.equal(defaults.embedding.previous, undefined);
+    assert.deepEqual(defaults.embeddingBackfill, { enabled: true, batchSize: 64, intervalMinutes: 5 });
+
+    const migrating = memoryConfigSchema.parse({
+      embedding: { apiKey: "k", model: "voyage-3-large", previous: { model: "voyage-3-lite" } },
+      embeddingBackfill: { batchSize: 16, intervalMinutes: 1 },
+    });
+    assert.deepEqual(migrating.embedding.previous, { provider: "voyage", apiKey: "k", model: "voyage-3-lite", dimensions: undefined, baseUrl: undefined });
+    assert.deepEqual(migrating.embeddingBackfill, { enabled: true, batchSize: 16, intervalMinutes: 1 });
+
+    assert.throws(
+      () => memoryConfigSchema.parse({ embedding: { apiKey: "k", model: "voyage-3", previous: { model: "voyage-3" } } }),
+      /embedding\.previous must use a different model/,
+    );
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, embeddingBackfill: { batchSize: 0 } }), /batchSize/);
+  });
+});
+
+// ============================================================================
+// 30. Full-Text Search Options
+// ============================================================================
+
+import { DEFAULT_FTS_CONFIG, ftsIndexOptions, ftsIndexOutdated, normalizeFtsQuery } from "../src/fts.js";
+
+describe("Full-text search options", () => {
+  const ngram = { ...DEFAULT_FTS_CONFIG, tokenizer: "ngram" as const };
+
+  it("passes n-gram lengths to the index only for the ngram tokenizer", () => {
+    assert.equal(ftsIndexOptions().ngramMinLength, undefined);
+    assert.deepEqual(ftsIndexOptions(ngram), {
+      baseTokenizer: "ngram", language: "English", stem: true, removeStopWords: true, asciiFolding: true, lowercase: true,
+      ngramMinLength: 2, ngramMaxLength: 3,
+    });
+  });
+
+  it("detects indices built with other options", () => {
+    const defaults = ftsIndexOptions();
+    assert.equal(ftsIndexOutdated(undefined, defaults), false, "an index without stored options was built with the defaults");
+    assert.equal(ftsIndexOutdated(undefined, ftsIndexOptions(ngram)), true);
+    assert.equal(ftsIndexOutdated(JSON.stringify(ftsIndexOptions(ngram)), ftsIndexOptions(ngram)), false);
+    assert.equal(ftsIndexOutdated(JSON.stringify({ ...defaults, stem: false }), defaults), true);
+    assert.equal(ftsIndexOutdated("{broken", defaults), true);
+    // Only the ngram tokenizer uses the n-gram lengths
+    assert.equal(ftsIndexOutdated(JSON.stringify(defaults), ftsIndexOptions({ ...DEFAULT_FTS_CONFIG, ngramMinLength: 1 })), false);
+  });
+
+  it("normalizes queries with extra stop words and n-gram length", () => {
+    const config = { ...DEFAULT_FTS_CONFIG, stopWords: ["Please", "café"] };
+    assert.equal(normalizeFtsQuery("  please   find the CAFE menu, Please!  ", config), "find the menu,");
+    assert.equal(normalizeFtsQuery("Please", config), "");
+    assert.equal(normalizeFtsQuery("Please", { ...config, asciiFolding: false, stopWords: ["please"], lowercase: false }), "Please");
+    assert.equal(normalizeFtsQuery("数据库", ngram), "数据库");
+    assert.equal(normalizeFtsQuery("库", ngram), "", "shorter than one n-gram");
+    assert.equal(normalizeFtsQuery("库", DEFAULT_FTS_CONFIG), "库");
+  });
+
+  it("parses fts config with defaults and validation", () => {
+    const defaults = memoryConfigSchema.parse({ embedding: { apiKey: "k" } });
+    assert.deepEqual(defaults.fts, DEFAULT_FTS_CONFIG);
+
+    const custom = memoryConfigSchema.parse({
+      embedding: { apiKey: "k" },
+      fts: { tokenizer: "ngram", language: "french", stem: false, stopWords: [" svp ", 3, ""], ngramMinLength: 1, ngramMaxLength: 2 },
+    });
+    assert.equal(custom.fts.tokenizer, "ngram");
+    assert.equal(custom.fts.language, "French");
+    assert.equal(custom.fts.stem, false);
+    assert.deepEqual(custom.fts.stopWords, ["svp"]);
+    assert.equal(custom.fts.ngramMinLength, 1);
+
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, fts: { tokenizer: "jieba" } }), /fts\.tokenizer/);
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, fts: { language: "Klingon" } }), /fts\.language/);
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, fts: { ngramMinLength: 4, ngramMaxLength: 3 } }), /ngram/);
+  });
+
+  it("parses fts index refresh settings", () => {
+    const custom = memoryConfigSchema.parse({ embedding: { apiKey: "k" }, fts: { autoRefresh: false, refreshDelaySeconds: 0, refreshRows: 50 } });
+    assert.equal(custom.fts.autoRefresh, false);
+    assert.equal(custom.fts.refreshDelaySeconds, 1);
+    assert.equal(custom.fts.refreshRows, 50);
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, fts: { refreshRows: 0 } }), /fts\.refreshRows/);
+  });
+});
+
+// ============================================================================
+// 31. Fusion Strategies
+// ============================================================================
+
+import { DEFAULT_RRF_K, fuseResults, type FusionConfig, type RankedResult } from "../src/fusion.js";
+
+describe("Fusion strategies", () => {
+  function ranked(id: string, score: number, rank: number): RankedResult {
+    return {
+      entry: { id, text: id, vector: [], category: "fact", scope: "global", importance: 0.7, timestamp: 0 },
+      score,
+      rank,
+    };
+  }
+
+  function config(overrides: Partial<FusionConfig>): FusionConfig {
+    return { fusion: "legacy", vectorWeight: 0.7, bm25Weight: 0.3, rrfK: DEFAULT_RRF_K, ...overrides };
+  }
+
+  it("keeps the legacy formula and ignores the weights", () => {
+    const vector = [ranked("both", 0.8, 1), ranked("vector-only", 0.6, 2)];
+    const bm25 = [ranked("bm25-only", 0.2, 1), ranked("both", 0.9, 2)];
+
+    for (const weights of [{ vectorWeight: 0.7, bm25Weight: 0.3 }, { vectorWeight: 0.1, bm25Weight: 0.9 }]) {
+      const fused = fuseResults(vector, bm25, config(weights));
+      assert.deepEqual(fused.map(r => [r.entry.id, Number(r.score.toFixed(3))]), [
+        ["both", 0.92],
+        ["vector-only", 0.6],
+        ["bm25-only", 0.5],
+      ]);
+    }
+  });
+
+  it("records the score and rank of each source", () => {
+    const [result] = fuseResults([ranked("a", 0.8, 3)], [ranked("a", 5, 1)], config({ fusion: "rrf" }));
+    assert.deepEqual(result.sources.vector, { score: 0.8, rank: 3 });
+    assert.deepEqual(result.sources.bm25, { score: 5, rank: 1 });
+    assert.equal(result.sources.fused?.score, result.score);
+  });
+
+  it("ranks by weighted reciprocal rank with rrf", () => {
+    const vector = [ranked("semantic", 0.95, 1), ranked("both", 0.5, 2)];
+    const bm25 = [ranked("keyword", 12, 1), ranked("both", 3, 2)];
+
+    const vectorHeavy = fuseResults(vector, bm25, config({ fusion: "rrf" }));
+    assert.deepEqual(vectorHeavy.map(r => r.entry.id), ["both", "semantic", "keyword"]);
+
+    const bm25Heavy = fuseResults(vector, bm25, config({ fusion: "rrf", vectorWeight: 0.2, bm25Weight: 0.8 }));
+    assert.deepEqual(bm25Heavy.map(r => r.entry.id), ["both", "keyword", "semantic"]);
+
+    // First place in both lists scores 1; a single list scores at most its weight share
+    const top = fuseResults([ranked("a", 0.3, 1)], [ranked("a", 1, 1)], config({ fusion: "rrf" }));
+    assert.ok(Math.abs(top[0].score - 1) < 1e-9);
+    assert.ok(Math.abs(vectorHeavy.find(r => r.entry.id === "semantic")!.score - 0.7) < 1e-9);
+    assert.ok(Math.abs(vectorHeavy.find(r => r.entry.id === "keyword")!.score - 0.3) < 1e-9);
+  });
+
+  it("uses ranks only, with rrfK flattening the gap between them", () => {
+    const vector = [ranked("first", 0.9, 1), ranked("tenth", 0.89, 10)];
+    const gap = (k: number) => {
+      const [first, tenth] = fuseResults(vector, [], config({ fusion: "rrf", rrfK: k }));
+      return first.score - tenth.score;
+    };
+    assert.ok(gap(1) > gap(60));
+    assert.ok(gap(60) > gap(1000));
+
+    const closer = fuseResults([ranked("a", 0.2, 1)], [], config({ fusion: "rrf" }));
+    assert.equal(closer[0].score, 0.7, "the vector score itself does not matter");
+  });
+
+  it("combines the vector score and the relative BM25 score with weighted", () => {
+    const vector = [ranked("semantic", 0.9, 1), ranked("both", 0.4, 2)];
+    const bm25 = [ranked("both", 8, 1), ranked("keyword", 4, 2)];
+
+    const vectorHeavy = fuseResults(vector, bm25, config({ fusion: "weighted" }));
+    assert.deepEqual(vectorHeavy.map(r => [r.entry.id, Number(r.score.toFixed(3))]), [
+      ["semantic", 0.63],
+      ["both", 0.58],
+      ["keyword", 0.15],
+    ]);
+
+    const bm25Heavy = fuseResults(vector, bm25, config({ fusion: "weighted", vectorWeight: 0.3, bm25Weight: 0.7 }));
+    assert.deepEqual(bm25Heavy.map(r => [r.entry.id, Number(r.score.toFixed(3))]), [
+      ["both", 0.82],
+      ["keyword", 0.35],
+      ["semantic", 0.27],
+    ]);
+  });
+
+  it("only uses the ratio of the weights", () => {
+    const vector = [ranked("a", 0.9, 1), ranked("b", 0.5, 2)];
+    const bm25 = [ranked("b", 2, 1)];
+    for (const fusion of ["rrf", "weighted"] as const) {
+      const scaled = fuseResults(vector, bm25, config({ fusion, vectorWeight: 7, bm25Weight: 3 }));
+      const unit = fuseResults(vector, bm25, config({ fusion }));
+      assert.deepEqual(scaled.map(r => r.score), unit.map(r => r.score));
+    }
+  });
+
+  it("applies the configured strategy in hybrid retrieval", async () => {
+    const semantic = ranked("semantic", 0.95, 1);
+    const keyword = ranked("keyword", 12, 1);
+    const store = {
+      hasFtsSupport: true,
+      vectorSearch: async () => [{ entry: semantic.entry, score: semantic.score }],
+      bm25Search: async () => [{ entry: keyword.entry, score: keyword.score }],
+      recordAccess: () => {},
+    } as any;
+    const embedder = { model: "mock-model", dimensions: 3, embedQuery: async () => [0.1, 0.2, 0.3] } as any;
+    const retrieve = async (overrides: Partial<typeof DEFAULT_RETRIEVAL_CONFIG>) => {
+      const retriever = createRetriever(store, embedder, {
+        ...DEFAULT_RETRIEVAL_CONFIG,
+        rerank: "none", minScore: 0, hardMinScore: 0, recencyWeight: 0, filterNoise: false, trackAccess: false,
+        ...overrides,
+      });
+      return (await retriever.retrieve({ query: "database", limit: 5 })).map(r => r.entry.id);
+    };
+
+    assert.deepEqual(await retrieve({ fusion: "rrf" }), ["semantic", "keyword"]);
+    assert.deepEqual(await retrieve({ fusion: "rrf", vectorWeight: 0.2, bm25Weight: 0.8 }), ["keyword", "semantic"]);
+  });
+
+  it("keeps BM25-only hits in rrf mode under the default score thresholds", async () => {
+    const store = {
+      hasFtsSupport: true,
+      vectorSearch: async () => [{ entry: ranked("semantic", 0.9, 1).entry, score: 0.9 }],
+      bm25Search: async () => [{ entry: ranked("semantic", 0.7, 1).entry, score: 0.7 }, { entry: ranked("keyword", 0.62, 2).entry, score: 0.62 }],
+      recordAccess: () => {},
+    } as any;
+    const embedder = { model: "mock-model", dimensions: 3, embedQuery: async () => [0.1, 0.2, 0.3] } as any;
+    const retriever = createRetriever(store, embedder, {
+      ...DEFAULT_RETRIEVAL_CONFIG, fusion: "rrf", rerank: "none", filterNoise: false, trackAccess: false,
+    });
+
+    const results = await retriever.retrieve({ query: "database", limit: 5 });
+    assert.deepEqual(results.map(r => r.entry.id), ["semantic", "keyword"]);
+    assert.ok(results[1].sources.fused!.score < DEFAULT_RETRIEVAL_CONFIG.minScore, "the fused score itself is below minScore");
+  });
+
+  it("parses fusion config with defaults and validation", () => {
+    const defaults = memoryConfigSchema.parse({ embedding: { apiKey: "k" } });
+    assert.equal(defaults.retrieval.fusion, "legacy");
+    assert.equal(defaults.retrieval.rrfK, DEFAULT_RRF_K);
+
+    const custom = memoryConfigSchema.parse({
+      embedding: { apiKey: "k" },
+      retrieval: { fusion: "weighted", vectorWeight: 0, bm25Weight: 1, rrfK: 10 },
+    });
+    assert.equal(custom.retrieval.fusion, "weighted");
+    assert.equal(custom.retrieval.vectorWeight, 0);
+    assert.equal(custom.retrieval.rrfK, 10);
+
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, retrieval: { fusion: "max" } }), /retrieval\.fusion/);
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, retrieval: { vectorWeight: -0.1 } }), /vectorWeight/);
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, retrieval: { vectorWeight: 0, bm25Weight: 0 } }), /bm25Weight/);
+    assert.throws(() => memoryConfigSchema.parse({ embedding: { apiKey: "k" }, retrieval: { rrfK: 0 } }), /rrfK/);
+  });
+});
+
+// ============================================================================
+// 32. Rerankers
+// ============================================================================
+
+import type { IReranker, RerankerConfig } from "../src/reranker-interface.js";
+import { parseRerankScores } from "../src/reranker.js";
+import { buildLlmRerankPrompt, parseLlmRanking } from "../src/reranker-llm.js";
+
+describe("Rerankers", () => {
+  const originalFetch = globalThis.fetch;
+  let requests: Array<{ url: string; headers: Record<string, string>; body: any }> = [];
+
+  function mockFetch(respond: (url: string) => { status?: number; body: unknown }) {
+    requests = [];
+    globalThis.fetch = (async (url: any, init: any) => {
+      requests.push({ url: String(url), headers: init.headers, body: JSON.parse(init.body) });
+      const { status = 200, body } = respond(String(url));
+      return { ok: status < 400, status, json: async () => body, text: async () => JSON.stringify(body) };
+    }) as unknown as typeof fetch;
+  }
+
+  function reranker(overrides: Partial<RerankerConfig>): IReranker {
+    return createRerankerFromConfig({ provider: "voyage", apiKey: "test-key", model: "m", timeoutMs: 5000, ...overrides });
+  }
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("calls the Voyage rerank API", async () => {
+    mockFetch(() => ({ body: { data: [{ index: 1, relevance_score: 0.9 }, { index: 0, relevance_score: 0.2 }, { index: 7, relevance_score: 1 }] } }));
+    const scores = await reranker({ model: "rerank-2" }).rerank("query", ["a", "b"]);
+
+    assert.deepEqual(scores, [{ index: 1, score: 0.9 }, { index: 0, score: 0.2 }], "unknown indices are dropped");
+    assert.equal(requests[0].url, "https://api.voyageai.com/v1/rerank");
+    assert.equal(requests[0].headers.Authorization, "Bearer test-key");
+    assert.deepEqual(requests[0].body, { model: "rerank-2", query: "query", documents: ["a", "b"], top_k: 2 });
+  });
+
+  it("calls the Jina rerank API", async () => {
+    mockFetch(() => ({ body: { results: [{ index: 0, relevance_score: 0.7 }] } }));
+    const scores = await reranker({ provider: "jina", model: "jina-reranker-v2-base-multilingual" }).rerank("query", ["a", "b"]);
+
+    assert.deepEqual(scores, [{ index: 0, score: 0.7 }]);
+    assert.equal(requests[0].url, "https://api.jina.ai/v1/rerank");
+    assert.equal(requests[0].body.top_n, 2);
+  });
+
+  it("calls Cohere-compatible endpoints, including keyless self-hosted ones", async () => {
+    mockFetch(() => ({ body: { results: [{ index: 0, relevance_score: 0.4 }] } }));
+    await reranker({ provider: "cohere", model: "rerank-v3.5" }).rerank("query", ["a"]);
+    assert.equal(requests[0].url, "https://api.cohere.com/v2/rerank");
+    assert.equal(requests[0].body.texts, undefined);
+
+    // TEI answers with a bare array of { index, score }
+    mockFetch(() => ({ body: [{ index: 1, score: 0.8 }, { index: 0, score: 0.1 }] }));
+    const scores = await reranker({ provider: "cohere", apiKey: "", baseUrl: "http://tei:8080/rerank" }).rerank("query", ["a", "b"]);
+    assert.deepEqual(scores, [{ index: 1, score: 0.8 }, { index: 0, score: 0.1 }]);
+    assert.equal(requests[0].url, "http://tei:8080/rerank");
+    assert.equal(requests[0].headers.Authorization, undefined);
+    assert.deepEqual(requests[0].body.texts, ["a", "b"]);
+  });
+
+  it("throws on API errors and invalid responses", async () => {
+    mockFetch(() => ({ status: 401, body: {} }));
+    await assert.rejects(reranker({}).rerank("query", ["a"]), /Voyage rerank API returned 401/);
+
+    mockFetch(() => ({ body: { data: "not-an-array" } }));
+    await assert.rejects(reranker({}).rerank("query", ["a"]), /invalid response shape/);
+
+    assert.deepEqual(parseRerankScores("Test", [{ index: 0, score: Number.NaN }, { index: 0.5, score: 1 }], 2), []);
+    assert.deepEqual(await reranker({}).rerank("query", []), []);
+  });
+
+  it("reranks listwise through the LLM gateway", async () => {
+    mockFetch(() => ({ body: { choices: [{ message: { content: "```json\n{\"ranking\": [2, 0, 2, 9]}\n```" } }] } }));
+    const llm = reranker({ provider: "llm", apiKey: "", model: "gpt-4o-mini", baseUrl: "http://gateway:3000/v1/" });
+    const scores = await llm.rerank("which database", ["postgres", "coffee", "lancedb", "tea"]);
+
+    assert.deepEqual(scores, [{ index: 2, score: 1 }, { index: 0, score: 0.75 }]);
+    assert.equal(requests[0].url, "http://gateway:3000/v1/chat/completions");
+    assert.equal(requests[0].body.model, "gpt-4o-mini");
+    assert.equal(requests[0].headers.Authorization, undefined);
+    assert.match(requests[0].body.messages[1].content, /\[2\] lancedb/);
+  });
+
+  it("parses and prompts LLM rankings defensively", () => {
+    assert.throws(() => parseLlmRanking("no json here", 3), /not JSON/);
+    assert.throws(() => parseLlmRanking("{\"order\": [1]}", 3), /invalid response shape/);
+    assert.deepEqual(parseLlmRanking("{\"ranking\": []}", 3), []);
+
+    const prompt = buildLlmRerankPrompt("q", ["line one\n\nline two", "x".repeat(2000)]);
+    assert.match(prompt, /\[0\] line one line two/);
+    assert.ok(prompt.length < 700, "long documents are truncated");
+  });
+
+  it("blends reranker scores in cross-encoder mode and falls back to cosine on failure", async () => {
+    const entry = (id: string) => ({
+      id, text: `memory ${id}`, vector: [1, 0, 0], category: "fact" as const, scope: "global", importance: 0.7, timestamp: Date.now(),
+    });
+    const store = {
+      hasFtsSupport: true,
+      vectorSearch: async () => [{ entry: entry("a"), score: 0.8 }, { entry: entry("b"), score: 0.7 }],
+      bm25Search: async () => [],
+      recordAccess: () => {},
+    } as any;
+    const embedder = { model: "mock-model", dimensions: 3, embedQuery: async () => [1, 0, 0] } as any;
+    const config = { rerank: "cross-encoder" as const, minScore: 0, hardMinScore: 0, recencyWeight: 0, filterNoise: false, trackAccess: false };
+
+    const seen: string[][] = [];
+    const preferB: IReranker = {
+      provider: "cohere", model: "stub",
+      rerank: async (_query, documents) => { seen.push(documents); return [{ index: 1, score: 1 }]; },
+    };
+    const reranked = await createRetriever(store, embedder, config, preferB).retrieve({ query: "q", limit: 5 });
+    assert.deepEqual(seen, [["memory a", "memory b"]]);
+    assert.deepEqual(reranked.map(r => r.entry.id), ["b", "a"]);
+    assert.equal(reranked[0].sources.reranked?.score, 1);
+
+    const unruly: IReranker = {
+      provider: "cohere", model: "stub",
+      rerank: async () => [{ index: 5, score: 1 }, { index: -1, score: 1 }, { index: 1, score: 0.9 }, { index: 1, score: 0.1 }],
+    };
+    const guarded = await createRetriever(store, embedder, config, unruly).retrieve({ query: "q", limit: 5 });
+    assert.deepEqual(guarded.map(r => r.entry.id), ["b", "a"], "out-of-range and repeated indices are ignored");
+    assert.equal(guarded[0].sources.reranked?.score, 0.9);
+
+    const failing: IReranker = { provider: "voyage", model: "stub", rerank: async () => { throw new Error("Voyage rerank API returned 500"); } };
+    const fallback = await createRetriever(store, embedder, config, failing).retrieve({ query: "q", limit: 5 });
+    assert.deepEqual(fallback.map(r => r.entry.id), ["a", "b"]);
+    assert.equal(fallback[0].sources.reranked?.score, 1, "cosine similarity of the fallback");
+  });
+
+  describe("config", () => {
+    const saved: Record<string, string | undefined> = {};
+    const envVars = ["VOYAGE_API_KEY", "JINA_API_KEY", "COHERE_API_KEY", "OPENCLAW_GATEWAY_URL"];
+
+    beforeEach(() => {
+      for (const name of envVars) {
+        saved[name] = process.env[name];
+        delete process.env[name];
+      }
+    });
+
+    afterEach(() => {
+      for (const name of envVars) {
+        if (saved[name] !== undefined) process.env[name] = saved[name]; else delete process.env[name];
+      }
+    });
+
+    it("reranks with the embedding provider's key only for Voyage and Jina", () => {
+      const voyage = memoryConfigSchema.parse({ embedding: { apiKey: "voyage-key" }, retrieval: { rerankModel: "rerank-2-lite" } });
+      assert.deepEqual(voyage.retrieval.reranker, { provider: "voyage", apiKey: "voyage-key", model: "rerank-2-lite", timeoutMs: 5000 });
+
+      const jina = memoryConfigSchema.parse({ embedding: { provider: "jina", apiKey: "jina-key" } });
+      assert.equal(jina.retrieval.reranker?.provider, "jina");
+      assert.equal(jina.retrieval.reranker?.apiKey, "jina-key");
+
+      const openai = memoryConfigSchema.parse({ embedding: { provider: "openai", apiKey: "sk-openai" } });
+      assert.equal(openai.retrieval.reranker, null, "the OpenAI key is not sent to Voyage");
+
+      process.env.VOYAGE_API_KEY = "voyage-env-key";
+      const openaiWithVoyage = memoryConfigSchema.parse({ embedding: { provider: "openai", apiKey: "sk-openai" } });
+      assert.equal(openaiWithVoyage.retrieval.reranker?.apiKey, "voyage-env-key");
+    });
+
+    it("parses a separate reranker block", () => {
+      process.env.COHERE_API_KEY = "cohere-env-key";
+      const cohere = memoryConfigSchema.parse({
+        embedding: { provider: "openai", apiKey: "sk-openai" },
+        retrieval: { reranker: { provider: "cohere", timeoutMs: 3000 } },
+      });
+      assert.deepEqual(cohere.retrieval.reranker, { provider: "cohere", apiKey: "cohere-env-key", model: "rerank-v3.5", baseUrl: undefined, timeoutMs: 3000 });
+
+      delete process.env.COHERE_API_KEY;
+      const tei = memoryConfigSchema.parse({
+        embedding: { provider: "openai", apiKey: "sk-openai" },
+        retrieval: { reranker: { provider: "cohere", baseUrl: "http://localhost:8080/rerank", model: "bge-reranker-v2-m3" } },
+      });
+      assert.equal(tei.retrieval.reranker?.apiKey, "");
+      assert.equal(tei.retrieval.reranker?.baseUrl, "http://localhost:8080/rerank");
+
+      const llm = memoryConfigSchema.parse({
+        embedding: { apiKey: "voyage-key" },
+        captureLlmModel: "gpt-4o-mini",
+        captureLlmUrl: "http://gateway:3000/v1",
+        captureLlmApiKey: "gateway-key",
+        retrieval: { reranker: { provider: "llm" } },
+      });
+      assert.deepEqual(llm.retrieval.reranker, {
+        provider: "llm", apiKey: "gateway-key", model: "gpt-4o-mini", baseUrl: "http://gateway:3000", timeoutMs: 20000,
+      });
+    });
+
+    it("rejects unknown providers, missing keys and short timeouts", () => {
+      const parse = (reranker: Record<string, unknown>) =>
+        memoryConfigSchema.parse({ embedding: { provider: "openai", apiKey: "sk-openai" }, retrieval: { reranker } });
+      assert.throws(() => parse({ provider: "openai" }), /retrieval\.reranker\.provider/);
+      assert.throws(() => parse({ provider: "jina" }), /JINA_API_KEY/);
+      assert.throws(() => parse({ provider: "cohere" }), /COHERE_API_KEY/);
+      assert.throws(() => parse({ provider: "voyage", apiKey: "k", timeoutMs: 10 }), /timeoutMs/);
+    });
+  });
 });